@@ -8,14 +8,23 @@ import multipart from '@fastify/multipart';
 import { dbPlugin } from './plugins/db.js';
 import { queuePlugin } from './plugins/queue.js';
 import { s3Plugin } from './plugins/s3.js';
+import { schedulerPlugin } from './plugins/scheduler.js';
+import { contactImporterPlugin } from './plugins/contact-importer.js';
+import { contactBulkPlugin } from './plugins/contact-bulk.js';
 import { authRoutes } from './routes/auth.js';
 import { tenantRoutes } from './routes/tenants.js';
 import { userRoutes } from './routes/users.js';
 import { sessionRoutes } from './routes/sessions.js';
 import { contactRoutes } from './routes/contacts.js';
+import { contactImportRoutes } from './routes/contact-imports.js';
+import { contactBulkRoutes } from './routes/contact-bulk.js';
 import { mediaRoutes } from './routes/media.js';
 import { campaignRoutes } from './routes/campaigns.js';
+import { templateRoutes } from './routes/templates.js';
+import { segmentRoutes } from './routes/segments.js';
 import { messageRoutes } from './routes/messages.js';
+import { selectorProfileRoutes } from './routes/selector-profiles.js';
+import { conversationRoutes } from './routes/conversations.js';
 
 const server = Fastify({
     logger: {
@@ -59,6 +68,9 @@ await server.register(jwt, {
 await server.register(dbPlugin);
 await server.register(queuePlugin);
 await server.register(s3Plugin);
+await server.register(schedulerPlugin);
+await server.register(contactImporterPlugin);
+await server.register(contactBulkPlugin);
 
 // Health check
 server.get('/health', async () => ({ status: 'ok', timestamp: new Date().toISOString() }));
@@ -69,9 +81,15 @@ await server.register(tenantRoutes, { prefix: '/tenants' });
 await server.register(userRoutes, { prefix: '/users' });
 await server.register(sessionRoutes, { prefix: '/sessions' });
 await server.register(contactRoutes, { prefix: '/contacts' });
+await server.register(contactImportRoutes, { prefix: '/contacts/imports' });
+await server.register(contactBulkRoutes, { prefix: '/contacts/bulk' });
 await server.register(mediaRoutes, { prefix: '/media' });
 await server.register(campaignRoutes, { prefix: '/campaigns' });
+await server.register(templateRoutes, { prefix: '/templates' });
+await server.register(segmentRoutes, { prefix: '/segments' });
 await server.register(messageRoutes, { prefix: '/messages' });
+await server.register(selectorProfileRoutes, { prefix: '/selector-profiles' });
+await server.register(conversationRoutes, { prefix: '/conversations' });
 
 // Error handler
 server.setErrorHandler((error, request, reply) => {
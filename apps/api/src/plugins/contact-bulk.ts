@@ -0,0 +1,18 @@
+import type { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import type { BulkContactsJob } from '@sms/shared';
+import { BULK_JOB, runBulkOperation } from '../services/contact-bulk.js';
+
+async function contactBulkPluginCallback(fastify: FastifyInstance) {
+    // Large selections queued by POST /contacts/bulk; small ones run within the request
+    await fastify.queue.work<BulkContactsJob>(BULK_JOB, { teamSize: 1 }, async (job) => {
+        await runBulkOperation(fastify, job.data);
+    });
+
+    fastify.log.info('Contact bulk operations worker started');
+}
+
+export const contactBulkPlugin = fp(contactBulkPluginCallback, {
+    name: 'contact-bulk-plugin',
+    dependencies: ['db-plugin', 'queue-plugin']
+});
@@ -0,0 +1,18 @@
+import type { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import type { ImportContactsJob } from '@sms/shared';
+import { IMPORT_JOB, runContactImport } from '../services/contact-import.js';
+
+async function contactImporterPluginCallback(fastify: FastifyInstance) {
+    // Imports read the uploaded file from object storage, which only the API can reach
+    await fastify.queue.work<ImportContactsJob>(IMPORT_JOB, { teamSize: 1 }, async (job) => {
+        await runContactImport(fastify, job.data);
+    });
+
+    fastify.log.info('Contact importer started');
+}
+
+export const contactImporterPlugin = fp(contactImporterPluginCallback, {
+    name: 'contact-importer-plugin',
+    dependencies: ['db-plugin', 'queue-plugin', 's3-plugin']
+});
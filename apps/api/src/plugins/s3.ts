@@ -1,4 +1,5 @@
 import type { FastifyInstance } from 'fastify';
+import type { Readable } from 'stream';
 import fp from 'fastify-plugin';
 import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
@@ -8,7 +9,8 @@ declare module 'fastify' {
         s3: {
             client: S3Client;
             bucket: string;
-            upload: (key: string, body: Buffer, contentType: string) => Promise<string>;
+            upload: (key: string, body: Buffer, contentType: string, options?: { private?: boolean }) => Promise<string>;
+            download: (key: string) => Promise<Readable>;
             delete: (key: string) => Promise<void>;
             getSignedUrl: (key: string, expiresIn?: number) => Promise<string>;
             getPublicUrl: (key: string) => string;
@@ -35,17 +37,26 @@ async function s3PluginCallback(fastify: FastifyInstance) {
         client,
         bucket,
 
-        async upload(key: string, body: Buffer, contentType: string): Promise<string> {
+        // Private objects (e.g. contact files) are only read back through download()
+        async upload(key: string, body: Buffer, contentType: string, options: { private?: boolean } = {}): Promise<string> {
             await client.send(new PutObjectCommand({
                 Bucket: bucket,
                 Key: key,
                 Body: body,
                 ContentType: contentType,
-                ACL: 'public-read',
+                ACL: options.private ? 'private' : 'public-read',
             }));
             return this.getPublicUrl(key);
         },
 
+        async download(key: string): Promise<Readable> {
+            const result = await client.send(new GetObjectCommand({
+                Bucket: bucket,
+                Key: key,
+            }));
+            return result.Body as Readable;
+        },
+
         async delete(key: string): Promise<void> {
             await client.send(new DeleteObjectCommand({
                 Bucket: bucket,
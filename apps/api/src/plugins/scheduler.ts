@@ -0,0 +1,21 @@
+import type { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import { launchDueCampaigns } from '../services/campaign-launcher.js';
+
+const LAUNCH_JOB = 'launch-scheduled-campaigns';
+
+async function schedulerPluginCallback(fastify: FastifyInstance) {
+    // pg-boss cron runs the launcher once a minute across all API instances
+    await fastify.queue.schedule(LAUNCH_JOB, process.env.CAMPAIGN_SCHEDULER_CRON || '* * * * *');
+
+    await fastify.queue.work(LAUNCH_JOB, async () => {
+        await launchDueCampaigns(fastify);
+    });
+
+    fastify.log.info('Campaign scheduler started');
+}
+
+export const schedulerPlugin = fp(schedulerPluginCallback, {
+    name: 'scheduler-plugin',
+    dependencies: ['db-plugin', 'queue-plugin']
+});
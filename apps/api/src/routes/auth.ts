@@ -52,10 +52,10 @@ export async function authRoutes(fastify: FastifyInstance) {
             );
             const userId = userResult.rows[0].id;
 
-            // Create initial session record
+            // Create initial session record (profile directory relative to SESSIONS_PATH)
             await client.query(
-                'INSERT INTO sessions (tenant_id, status, storage_path) VALUES ($1, $2, $3)',
-                [tenantId, 'disconnected', `/data/sessions/${tenantId}`]
+                'INSERT INTO sessions (tenant_id, name, status, storage_path) VALUES ($1, $2, $3, $4)',
+                [tenantId, 'Principal', 'disconnected', tenantId]
             );
 
             await client.query('COMMIT');
@@ -1,6 +1,29 @@
 import type { FastifyInstance, FastifyRequest } from 'fastify';
+import type pg from 'pg';
 import { authMiddleware, requirePermission } from '../middlewares/auth.js';
-import { createCampaignSchema, updateCampaignSchema, campaignsQuerySchema } from '@sms/shared';
+import {
+    createCampaignSchema,
+    updateCampaignSchema,
+    campaignsQuerySchema,
+    validateTemplateSchema,
+    previewCampaignSchema,
+    campaignAudienceSchema,
+    validateTemplate,
+    parseTemplate,
+    renderTemplate,
+    analyzeSms,
+    campaignTarget,
+    compileAudience,
+    csvCell,
+    type AudienceCount,
+    type CampaignAudienceInput,
+    type CampaignPreview,
+    type CampaignTarget,
+    type CampaignReport,
+    type SegmentDefinition,
+    type VariantStats,
+} from '@sms/shared';
+import { launchCampaign, resumeCampaign } from '../services/campaign-launcher.js';
 
 export async function campaignRoutes(fastify: FastifyInstance) {
     fastify.addHook('preHandler', authMiddleware);
@@ -35,10 +58,18 @@ export async function campaignRoutes(fastify: FastifyInstance) {
             fastify.db.query(
                 `SELECT c.id, c.name, c.type, c.template_text, c.media_id, 
                 c.schedule_at, c.status, c.total_recipients, c.sent_count, c.failed_count,
+                c.delivered_count, c.read_count, c.cancelled_count, c.skipped_count, c.window_opens_at, c.launch_error, c.final_report,
+                c.expansion_status, c.expanded_count, c.expansion_error,
+                c.template_id, c.template_version, t.name as template_name,
+                c.segment_id, sg.name as segment_name,
+                c.ab_auto_promote, c.ab_decide_at, c.ab_promoted_at,
+                (SELECT COUNT(*) FROM campaign_variants v WHERE v.campaign_id = c.id)::int as variant_count,
                 c.started_at, c.completed_at, c.created_at,
                 m.url as media_url, m.original_filename as media_filename
          FROM campaigns c
          LEFT JOIN media m ON m.id = c.media_id
+         LEFT JOIN templates t ON t.id = c.template_id
+         LEFT JOIN segments sg ON sg.id = c.segment_id
          WHERE ${whereClause}
          ORDER BY c.created_at DESC LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
                 [...values, limit, offset]
@@ -85,8 +116,24 @@ export async function campaignRoutes(fastify: FastifyInstance) {
     }, async (request: FastifyRequest, reply) => {
         const body = createCampaignSchema.parse(request.body);
 
-        // Validate media exists if type is image
-        if (body.type === 'image' && !body.mediaId) {
+        // A library template fills in the text and media the request leaves out
+        const template = body.templateId
+            ? await findTemplateVersion(fastify, body.templateId, body.templateVersion, request.tenantId!)
+            : null;
+
+        if (body.templateId && !template) {
+            return reply.status(404).send({ success: false, error: 'Template not found' });
+        }
+
+        if (template) {
+            body.templateText = body.templateText ?? template.body_text;
+            body.mediaId = body.mediaId ?? template.media_id;
+        }
+
+        const variants = body.variants ?? [];
+
+        // Validate media exists if type is image (each variant may bring its own)
+        if (body.type === 'image' && !body.mediaId && !(variants.length > 0 && variants.every(variant => variant.mediaId))) {
             return reply.status(400).send({
                 success: false,
                 error: 'Media ID is required for image campaigns'
@@ -103,33 +150,183 @@ export async function campaignRoutes(fastify: FastifyInstance) {
             }
         }
 
+        if (!await senderPoolExists(fastify, body.senderPool, request.tenantId!)) {
+            return reply.status(404).send({ success: false, error: 'Session in sender pool not found' });
+        }
+
+        if (body.segmentId && !await findSegment(fastify, body.segmentId, request.tenantId!)) {
+            return reply.status(404).send({ success: false, error: 'Segment not found' });
+        }
+
+        if (!await campaignsExist(fastify, body.excludeCampaignIds, request.tenantId!)) {
+            return reply.status(404).send({ success: false, error: 'Excluded campaign not found' });
+        }
+
+        const variantError = await checkVariants(fastify, variants, body.type, body.mediaId ?? null, request.tenantId!);
+        if (variantError) {
+            return reply.status(variantError.statusCode).send({ success: false, error: variantError.error });
+        }
+
         const result = await fastify.db.query(
             `INSERT INTO campaigns (
         tenant_id, name, type, template_text, media_id,
-        target_tags, target_all,
-        schedule_at, window_start, window_end, timezone,
-        throttle_min_delay_ms, throttle_max_delay_ms, max_per_minute
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        target_tags, target_all, sender_pool, sender_strategy,
+        schedule_at, window_start, window_end, timezone, window_days,
+        throttle_min_delay_ms, throttle_max_delay_ms, max_per_minute, status,
+        template_id, template_version,
+        ab_auto_promote, ab_test_percent, ab_winner_metric, ab_wait_minutes, segment_id,
+        target_tags_match, exclude_tags, exclude_messaged_days, exclude_campaign_ids
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25,
+        $26, $27, $28, $29)
       RETURNING *`,
             [
                 request.tenantId, body.name, body.type, body.templateText, body.mediaId || null,
-                body.targetTags, body.targetAll,
-                body.scheduleAt, body.windowStart, body.windowEnd, body.timezone,
-                body.throttleMinDelayMs, body.throttleMaxDelayMs, body.maxPerMinute
+                body.targetTags, body.targetAll, body.senderPool, body.senderStrategy,
+                body.scheduleAt, body.windowStart, body.windowEnd, body.timezone, body.windowDays,
+                body.throttleMinDelayMs, body.throttleMaxDelayMs, body.maxPerMinute,
+                // A start time makes the campaign wait for the scheduled launcher
+                body.scheduleAt ? 'scheduled' : 'draft',
+                template?.template_id ?? null, template?.version ?? null,
+                body.abAutoPromote, body.abTestPercent, body.abWinnerMetric, body.abWaitMinutes,
+                body.segmentId || null,
+                body.targetTagsMatch, body.excludeTags, body.excludeMessagedDays ?? null, body.excludeCampaignIds
             ]
         );
 
+        if (variants.length > 0) {
+            await replaceVariants(fastify, result.rows[0].id, variants);
+        }
+
         // Audit log
         await fastify.db.query(
             `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
        VALUES ($1, $2, $3, $4, $5, $6)`,
             [request.tenantId, request.user!.sub, 'create', 'campaign', result.rows[0].id,
-            JSON.stringify({ name: body.name, type: body.type })]
+            JSON.stringify({ name: body.name, type: body.type, variants: variants.map(variant => variant.label) })]
         );
 
         return { success: true, data: result.rows[0] };
     });
 
+    /**
+     * POST /campaigns/validate-template - Check template syntax and variables against the tenant's contact fields
+     */
+    fastify.post('/validate-template', {
+        preHandler: [requirePermission('campaigns:write')]
+    }, async (request: FastifyRequest) => {
+        const body = validateTemplateSchema.parse(request.body);
+
+        const fields = await contactFields(fastify, request.tenantId!);
+
+        return { success: true, data: { ...validateTemplate(body.templateText, fields), fields } };
+    });
+
+    /**
+     * POST /campaigns/preview - Render an unsaved campaign's message for sample contacts
+     */
+    fastify.post('/preview', {
+        preHandler: [requirePermission('campaigns:write')]
+    }, async (request: FastifyRequest, reply) => {
+        const body = previewCampaignSchema.parse(request.body);
+
+        const target = await resolveTarget(fastify, request.tenantId!, body, null);
+        if (!target) {
+            return reply.status(404).send({ success: false, error: 'Segment not found' });
+        }
+
+        const preview = await previewMessages(fastify, request.tenantId!, {
+            templateText: body.templateText ?? '',
+            target,
+            timezone: body.timezone ?? 'UTC',
+        }, body.contactId, body.limit);
+
+        if (!preview) {
+            return reply.status(404).send({ success: false, error: 'Contact not found' });
+        }
+
+        return { success: true, data: preview };
+    });
+
+    /**
+     * POST /campaigns/:id/preview - Render the campaign's message for sample contacts or one contact
+     */
+    fastify.post('/:id/preview', {
+        preHandler: [requirePermission('campaigns:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+        const body = previewCampaignSchema.parse(request.body ?? {});
+
+        const campaign = await fastify.db.query(
+            `SELECT c.*, s.definition as segment_definition
+       FROM campaigns c
+       LEFT JOIN segments s ON s.id = c.segment_id
+       WHERE c.id = $1 AND c.tenant_id = $2`,
+            [id, request.tenantId]
+        );
+
+        if (campaign.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Campaign not found' });
+        }
+
+        const camp = campaign.rows[0];
+
+        const target = await resolveTarget(fastify, request.tenantId!, body, camp);
+        if (!target) {
+            return reply.status(404).send({ success: false, error: 'Segment not found' });
+        }
+
+        const preview = await previewMessages(fastify, request.tenantId!, {
+            templateText: body.templateText ?? camp.template_text ?? '',
+            target,
+            timezone: body.timezone ?? camp.timezone,
+        }, body.contactId, body.limit);
+
+        if (!preview) {
+            return reply.status(404).send({ success: false, error: 'Contact not found' });
+        }
+
+        return { success: true, data: preview };
+    });
+
+    /**
+     * POST /campaigns/audience - Audience of an unsaved campaign's targeting, with what each exclusion removes
+     */
+    fastify.post('/audience', {
+        preHandler: [requirePermission('campaigns:write')]
+    }, async (request: FastifyRequest, reply) => {
+        const body = campaignAudienceSchema.parse(request.body);
+
+        const target = await resolveTarget(fastify, request.tenantId!, body, null);
+        if (!target) {
+            return reply.status(404).send({ success: false, error: 'Segment not found' });
+        }
+
+        return { success: true, data: await countAudience(fastify, request.tenantId!, target) };
+    });
+
+    /**
+     * GET /campaigns/:id/audience - Contacts the campaign would send to if started now
+     */
+    fastify.get('/:id/audience', {
+        preHandler: [requirePermission('campaigns:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const campaign = await fastify.db.query(
+            `SELECT c.*, s.definition as segment_definition
+       FROM campaigns c
+       LEFT JOIN segments s ON s.id = c.segment_id
+       WHERE c.id = $1 AND c.tenant_id = $2`,
+            [id, request.tenantId]
+        );
+
+        if (campaign.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Campaign not found' });
+        }
+
+        return { success: true, data: await countAudience(fastify, request.tenantId!, campaignTarget(campaign.rows[0])) };
+    });
+
     /**
      * PATCH /campaigns/:id - Update campaign
      */
@@ -141,7 +338,7 @@ export async function campaignRoutes(fastify: FastifyInstance) {
 
         // Check campaign exists and is editable
         const existing = await fastify.db.query(
-            'SELECT id, status FROM campaigns WHERE id = $1 AND tenant_id = $2',
+            'SELECT id, status, type, media_id FROM campaigns WHERE id = $1 AND tenant_id = $2',
             [id, request.tenantId]
         );
 
@@ -156,6 +353,52 @@ export async function campaignRoutes(fastify: FastifyInstance) {
             });
         }
 
+        if (body.senderPool && !await senderPoolExists(fastify, body.senderPool, request.tenantId!)) {
+            return reply.status(404).send({ success: false, error: 'Session in sender pool not found' });
+        }
+
+        if (body.segmentId && !await findSegment(fastify, body.segmentId, request.tenantId!)) {
+            return reply.status(404).send({ success: false, error: 'Segment not found' });
+        }
+
+        if (body.excludeCampaignIds && !await campaignsExist(fastify, body.excludeCampaignIds, request.tenantId!)) {
+            return reply.status(404).send({ success: false, error: 'Excluded campaign not found' });
+        }
+
+        const template = body.templateId
+            ? await findTemplateVersion(fastify, body.templateId, body.templateVersion, request.tenantId!)
+            : null;
+
+        if (body.templateId && !template) {
+            return reply.status(404).send({ success: false, error: 'Template not found' });
+        }
+
+        if (template) {
+            body.templateText = body.templateText ?? template.body_text;
+            body.mediaId = body.mediaId ?? template.media_id;
+        }
+
+        if (body.variants !== undefined) {
+            // Messages already created point at the current variants
+            if (!['draft', 'scheduled'].includes(existing.rows[0].status)) {
+                return reply.status(409).send({
+                    success: false,
+                    error: 'Variants can only be changed before the campaign starts'
+                });
+            }
+
+            const variantError = await checkVariants(
+                fastify,
+                body.variants,
+                body.type ?? existing.rows[0].type,
+                body.mediaId !== undefined ? body.mediaId : existing.rows[0].media_id,
+                request.tenantId!
+            );
+            if (variantError) {
+                return reply.status(variantError.statusCode).send({ success: false, error: variantError.error });
+            }
+        }
+
         const updates: string[] = [];
         const values: unknown[] = [];
         let paramIndex = 1;
@@ -167,14 +410,25 @@ export async function campaignRoutes(fastify: FastifyInstance) {
             mediaId: 'media_id',
             targetTags: 'target_tags',
             targetAll: 'target_all',
+            targetTagsMatch: 'target_tags_match',
+            segmentId: 'segment_id',
+            excludeTags: 'exclude_tags',
+            excludeMessagedDays: 'exclude_messaged_days',
+            excludeCampaignIds: 'exclude_campaign_ids',
+            senderPool: 'sender_pool',
+            senderStrategy: 'sender_strategy',
             scheduleAt: 'schedule_at',
             windowStart: 'window_start',
             windowEnd: 'window_end',
             timezone: 'timezone',
+            windowDays: 'window_days',
             throttleMinDelayMs: 'throttle_min_delay_ms',
             throttleMaxDelayMs: 'throttle_max_delay_ms',
             maxPerMinute: 'max_per_minute',
-            status: 'status'
+            abAutoPromote: 'ab_auto_promote',
+            abTestPercent: 'ab_test_percent',
+            abWinnerMetric: 'ab_winner_metric',
+            abWaitMinutes: 'ab_wait_minutes'
         };
 
         for (const [key, column] of Object.entries(fieldMap)) {
@@ -184,8 +438,25 @@ export async function campaignRoutes(fastify: FastifyInstance) {
             }
         }
 
+        if (body.templateId !== undefined) {
+            updates.push(`template_id = $${paramIndex++}`, `template_version = $${paramIndex++}`);
+            values.push(template?.template_id ?? null, template?.version ?? null);
+        }
+
+        // Setting or clearing the start time (re)schedules a draft
+        if (body.scheduleAt !== undefined && ['draft', 'scheduled'].includes(existing.rows[0].status)) {
+            updates.push(`status = $${paramIndex++}`, 'launch_error = NULL');
+            values.push(body.scheduleAt ? 'scheduled' : 'draft');
+        }
+
+        if (body.variants !== undefined) {
+            await replaceVariants(fastify, id, body.variants);
+        }
+
         if (updates.length === 0) {
-            return { success: true, message: 'No updates provided' };
+            return body.variants !== undefined
+                ? { success: true, message: 'Variants updated' }
+                : { success: true, message: 'No updates provided' };
         }
 
         values.push(id, request.tenantId);
@@ -208,160 +479,251 @@ export async function campaignRoutes(fastify: FastifyInstance) {
     }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
         const { id } = request.params;
 
-        const campaign = await fastify.db.query(
-            `SELECT c.*, m.url as media_url 
-       FROM campaigns c 
-       LEFT JOIN media m ON m.id = c.media_id
-       WHERE c.id = $1 AND c.tenant_id = $2`,
-            [id, request.tenantId]
-        );
-
-        if (campaign.rows.length === 0) {
-            return reply.status(404).send({ success: false, error: 'Campaign not found' });
-        }
+        const result = await launchCampaign(fastify, id, request.tenantId!);
 
-        const camp = campaign.rows[0];
-
-        if (!['draft', 'scheduled', 'paused'].includes(camp.status)) {
-            return reply.status(409).send({
-                success: false,
-                error: `Cannot start campaign with status '${camp.status}'`
-            });
+        if (!result.success) {
+            return reply.status(result.statusCode).send({ success: false, error: result.error });
         }
 
-        // Check session is connected
-        const session = await fastify.db.query(
-            'SELECT status FROM sessions WHERE tenant_id = $1',
-            [request.tenantId]
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'start', 'campaign', id,
+            JSON.stringify({ recipients: result.recipients, senders: result.senders, windowOpensAt: result.windowOpensAt })]
         );
 
-        if (session.rows.length === 0 || session.rows[0].status !== 'connected') {
-            return reply.status(409).send({
-                success: false,
-                error: 'Google Messages session is not connected'
-            });
-        }
-
-        // Get target contacts
-        let contactsQuery = 'SELECT id, phone_e164, name, custom_fields FROM contacts WHERE tenant_id = $1 AND opted_out = FALSE';
-        const contactValues: unknown[] = [request.tenantId];
+        return {
+            success: true,
+            message: result.windowOpensAt
+                ? `Campaign started with ${result.recipients} recipients, waiting for send window at ${result.windowOpensAt.toISOString()}`
+                : `Campaign started with ${result.recipients} recipients`
+        };
+    });
 
-        if (!camp.target_all && camp.target_tags.length > 0) {
-            contactsQuery += ' AND tags && $2';
-            contactValues.push(camp.target_tags);
-        }
+    /**
+     * POST /campaigns/:id/pause - Pause campaign
+     */
+    fastify.post('/:id/pause', {
+        preHandler: [requirePermission('campaigns:write')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
 
-        const contacts = await fastify.db.query(contactsQuery, contactValues);
+        const result = await fastify.db.query(
+            `UPDATE campaigns SET status = 'paused', window_opens_at = NULL
+       WHERE id = $1 AND tenant_id = $2 AND status = 'running'
+       RETURNING id`,
+            [id, request.tenantId]
+        );
 
-        if (contacts.rows.length === 0) {
-            return reply.status(400).send({
-                success: false,
-                error: 'No contacts match the campaign criteria'
-            });
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Running campaign not found' });
         }
 
-        // Update campaign status
+        // Queued messages stay queued: the worker skips them while the
+        // campaign is paused and resume queues them again
+
+        // Audit log
         await fastify.db.query(
-            `UPDATE campaigns SET status = 'running', started_at = NOW(), total_recipients = $1
-       WHERE id = $2`,
-            [contacts.rows.length, id]
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id)
+       VALUES ($1, $2, $3, $4, $5)`,
+            [request.tenantId, request.user!.sub, 'pause', 'campaign', id]
         );
 
-        // Create messages and queue jobs
-        for (const contact of contacts.rows) {
-            // Parse template with variables
-            let bodyText = camp.template_text || '';
-            bodyText = bodyText.replace(/\{nome\}/gi, contact.name || '');
-            bodyText = bodyText.replace(/\{name\}/gi, contact.name || '');
-
-            // Replace custom fields
-            const customFields = contact.custom_fields || {};
-            for (const [key, value] of Object.entries(customFields)) {
-                bodyText = bodyText.replace(new RegExp(`\\{${key}\\}`, 'gi'), String(value));
-            }
+        return { success: true, message: 'Campaign paused' };
+    });
 
-            // Create message record
-            const message = await fastify.db.query(
-                `INSERT INTO messages (tenant_id, campaign_id, contact_id, phone_e164, body_text, media_url)
-         VALUES ($1, $2, $3, $4, $5, $6)
-         RETURNING id`,
-                [request.tenantId, id, contact.id, contact.phone_e164, bodyText, camp.media_url]
-            );
+    /**
+     * POST /campaigns/:id/resume - Resume paused campaign
+     * Queues the messages that were not sent yet; the audience is not expanded again
+     */
+    fastify.post('/:id/resume', {
+        preHandler: [requirePermission('campaigns:start')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
 
-            // Queue job
-            const jobData = camp.type === 'image'
-                ? {
-                    type: 'send_image',
-                    messageId: message.rows[0].id,
-                    tenantId: request.tenantId,
-                    phoneE164: contact.phone_e164,
-                    mediaUrl: camp.media_url,
-                    bodyText: bodyText || null,
-                    fallbackText: `${bodyText || ''}\n\nVeja a imagem: ${camp.media_url}`.trim()
-                }
-                : {
-                    type: 'send_text',
-                    messageId: message.rows[0].id,
-                    tenantId: request.tenantId,
-                    phoneE164: contact.phone_e164,
-                    bodyText
-                };
-
-            // Schedule with throttling
-            const delay = Math.floor(
-                Math.random() * (camp.throttle_max_delay_ms - camp.throttle_min_delay_ms) +
-                camp.throttle_min_delay_ms
-            );
+        const result = await resumeCampaign(fastify, id, request.tenantId!);
 
-            await fastify.queue.send('send-message', jobData, {
-                startAfter: delay,
-                retryLimit: 3,
-                retryDelay: 60,
-                retryBackoff: true
-            });
+        if (!result.success) {
+            return reply.status(result.statusCode).send({ success: false, error: result.error });
         }
 
         // Audit log
         await fastify.db.query(
             `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
        VALUES ($1, $2, $3, $4, $5, $6)`,
-            [request.tenantId, request.user!.sub, 'start', 'campaign', id,
-            JSON.stringify({ recipients: contacts.rows.length })]
+            [request.tenantId, request.user!.sub, 'resume', 'campaign', id,
+            JSON.stringify({ requeued: result.requeued, senders: result.senders, windowOpensAt: result.windowOpensAt })]
         );
 
         return {
             success: true,
-            message: `Campaign started with ${contacts.rows.length} recipients`
+            message: `Campaign resumed with ${result.requeued} pending messages`
         };
     });
 
     /**
-     * POST /campaigns/:id/pause - Pause campaign
+     * POST /campaigns/:id/cancel - Cancel campaign
+     * Drops its queued messages, reconciles the counters against the message
+     * rows and stores the final report, all in one transaction. Messages still
+     * being sent update the counters and the report when they finish (see
+     * checkCampaignCompletion in @sms/shared).
      */
-    fastify.post('/:id/pause', {
+    fastify.post('/:id/cancel', {
         preHandler: [requirePermission('campaigns:write')]
     }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
         const { id } = request.params;
 
-        const result = await fastify.db.query(
-            `UPDATE campaigns SET status = 'paused'
-       WHERE id = $1 AND tenant_id = $2 AND status = 'running'
-       RETURNING id`,
+        const client = await fastify.db.connect();
+        let report: CampaignReport;
+        try {
+            await client.query('BEGIN');
+
+            // Hold the campaign so expansion batches and worker updates wait for the reconciliation
+            const existing = await client.query(
+                `SELECT status FROM campaigns WHERE id = $1 AND tenant_id = $2 FOR UPDATE`,
+                [id, request.tenantId]
+            );
+
+            if (existing.rows.length === 0 || ['completed', 'cancelled'].includes(existing.rows[0].status)) {
+                await client.query('ROLLBACK');
+                return reply.status(404).send({ success: false, error: 'Active campaign not found' });
+            }
+
+            await client.query(
+                `UPDATE campaigns SET status = 'cancelled', window_opens_at = NULL WHERE id = $1`,
+                [id]
+            );
+
+            // The worker skips jobs of cancelled campaigns; this also marks their messages
+            const cancelled = await client.query(
+                `UPDATE messages SET status = 'cancelled', error = 'Campaign cancelled'
+         WHERE campaign_id = $1 AND status = 'queued'`,
+                [id]
+            );
+
+            report = await buildFinalReport(client, id);
+
+            await client.query(
+                `UPDATE campaigns SET sent_count = $2, delivered_count = $3, read_count = $4, failed_count = $5,
+          cancelled_count = $6, skipped_count = $7, completed_at = NOW(), final_report = $8
+         WHERE id = $1`,
+                [id, report.sent, report.delivered, report.read, report.failed, report.cancelled, report.skipped,
+                    JSON.stringify(report)]
+            );
+
+            // Audit log
+            await client.query(
+                `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+                [request.tenantId, request.user!.sub, 'cancel', 'campaign', id,
+                JSON.stringify({ cancelledMessages: cancelled.rowCount, corrections: report.corrections })]
+            );
+
+            await client.query('COMMIT');
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+
+        return { success: true, data: report };
+    });
+
+    /**
+     * GET /campaigns/:id/variants - A/B variants with their sent/failed/delivered/replied stats
+     */
+    fastify.get('/:id/variants', {
+        preHandler: [requirePermission('campaigns:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const campaign = await fastify.db.query(
+            `SELECT ab_auto_promote, ab_test_percent, ab_winner_metric, ab_wait_minutes, ab_decide_at, ab_promoted_at
+       FROM campaigns WHERE id = $1 AND tenant_id = $2`,
             [id, request.tenantId]
         );
 
-        if (result.rows.length === 0) {
-            return reply.status(404).send({ success: false, error: 'Running campaign not found' });
+        if (campaign.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Campaign not found' });
         }
 
-        // Cancel pending messages
-        await fastify.db.query(
-            `UPDATE messages SET status = 'cancelled'
-       WHERE campaign_id = $1 AND status = 'queued'`,
+        const result = await fastify.db.query(
+            `SELECT v.id, v.label, v.template_text, v.media_id, v.weight, v.is_winner,
+              COUNT(m.id)::int as messages,
+              COUNT(m.id) FILTER (WHERE m.status IN ('sent', 'delivered', 'read'))::int as sent,
+              COUNT(m.id) FILTER (WHERE m.status IN ('delivered', 'read'))::int as delivered,
+              COUNT(m.id) FILTER (WHERE m.status = 'read')::int as read,
+              COUNT(m.id) FILTER (WHERE m.status = 'failed')::int as failed,
+              COUNT(m.id) FILTER (WHERE m.sent_at IS NOT NULL AND EXISTS (
+                SELECT 1 FROM inbound_messages im
+                WHERE im.tenant_id = m.tenant_id AND im.phone_e164 = m.phone_e164 AND im.received_at > m.sent_at
+              ))::int as replied
+       FROM campaign_variants v
+       LEFT JOIN messages m ON m.variant_id = v.id
+       WHERE v.campaign_id = $1
+       GROUP BY v.id
+       ORDER BY v.label`,
             [id]
         );
 
-        return { success: true, message: 'Campaign paused' };
+        return {
+            success: true,
+            data: {
+                ...campaign.rows[0],
+                variants: result.rows.map(row => ({
+                    ...toVariantStats(row),
+                    templateText: row.template_text,
+                    mediaId: row.media_id,
+                })),
+            }
+        };
+    });
+
+    /**
+     * GET /campaigns/:id/report - Final report of a cancelled campaign
+     * ?format=csv downloads it as a spreadsheet
+     */
+    fastify.get('/:id/report', {
+        preHandler: [requirePermission('campaigns:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string }; Querystring: { format?: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            'SELECT name, final_report FROM campaigns WHERE id = $1 AND tenant_id = $2',
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0 || !result.rows[0].final_report) {
+            return reply.status(404).send({ success: false, error: 'Report not found' });
+        }
+
+        const report: CampaignReport = result.rows[0].final_report;
+
+        if (request.query.format === 'csv') {
+            const rows: [string, string | number][] = [
+                ['campaign', result.rows[0].name],
+                ['recipients', report.recipients],
+                ['sent', report.sent],
+                ['delivered', report.delivered],
+                ['read', report.read],
+                ['failed', report.failed],
+                ['cancelled', report.cancelled],
+                ['skipped', report.skipped ?? 0],
+                ['in_flight', report.inFlight],
+                ['opted_out', report.optedOut],
+                ['generated_at', report.generatedAt],
+            ];
+            const csv = ['metric,value', ...rows.map(([metric, value]) => `${metric},${csvCell(String(value))}`)].join('\n');
+
+            return reply
+                .header('Content-Type', 'text/csv; charset=utf-8')
+                .header('Content-Disposition', `attachment; filename="campaign-${id}-report.csv"`)
+                .send(csv);
+        }
+
+        return { success: true, data: report };
     });
 
     /**
@@ -393,3 +755,343 @@ export async function campaignRoutes(fastify: FastifyInstance) {
         return { success: true, message: 'Campaign deleted' };
     });
 }
+
+// Helper functions
+
+/**
+ * Custom field names used by any of the tenant's contacts
+ */
+async function contactFields(fastify: FastifyInstance, tenantId: string): Promise<string[]> {
+    const result = await fastify.db.query(
+        `SELECT DISTINCT jsonb_object_keys(custom_fields) as field FROM contacts
+     WHERE tenant_id = $1
+     ORDER BY field`,
+        [tenantId]
+    );
+
+    return result.rows.map(row => row.field);
+}
+
+/**
+ * Render a template for the newest targeted contacts, or for one contact
+ * whether or not it is targeted. Null when that contact does not exist.
+ */
+async function previewMessages(
+    fastify: FastifyInstance,
+    tenantId: string,
+    source: { templateText: string; target: CampaignTarget; timezone: string },
+    contactId: string | undefined,
+    limit: number
+): Promise<CampaignPreview | null> {
+    const audience = compileAudience(source.target, 2);
+    const targeted = audience.sql;
+    const values = [tenantId, ...audience.values];
+    const last = `$${values.length + 1}`;
+
+    const [fields, count, contacts] = await Promise.all([
+        contactFields(fastify, tenantId),
+        fastify.db.query(
+            `SELECT COUNT(*) FROM contacts WHERE tenant_id = $1 AND ${targeted}`,
+            values
+        ),
+        fastify.db.query(
+            `SELECT id, phone_e164, name, custom_fields, (${targeted}) as targeted
+       FROM contacts
+       WHERE tenant_id = $1 AND ${contactId ? `id = ${last}` : targeted}
+       ORDER BY created_at DESC
+       LIMIT ${contactId ? 1 : last}`,
+            [...values, contactId ?? limit]
+        ),
+    ]);
+
+    if (contactId && contacts.rows.length === 0) return null;
+
+    const template = parseTemplate(source.templateText, fields);
+
+    return {
+        audience: parseInt(count.rows[0].count),
+        samples: contacts.rows.map(contact => {
+            const bodyText = renderTemplate(template, {
+                name: contact.name,
+                phoneE164: contact.phone_e164,
+                customFields: contact.custom_fields || {},
+            }, { timezone: source.timezone });
+
+            return {
+                contactId: contact.id,
+                name: contact.name,
+                phoneE164: contact.phone_e164,
+                targeted: contact.targeted,
+                bodyText,
+                sms: analyzeSms(bodyText),
+            };
+        }),
+        errors: template.errors,
+    };
+}
+
+/**
+ * A template's text and media at the given version, or at its current one
+ */
+async function findTemplateVersion(
+    fastify: FastifyInstance,
+    templateId: string,
+    version: number | undefined,
+    tenantId: string
+): Promise<{ template_id: string; version: number; body_text: string; media_id: string | null } | null> {
+    const result = await fastify.db.query(
+        `SELECT v.template_id, v.version, v.body_text, v.media_id
+     FROM template_versions v
+     JOIN templates t ON t.id = v.template_id
+     WHERE t.id = $1 AND t.tenant_id = $2 AND v.version = COALESCE($3, t.version)`,
+        [templateId, tenantId, version ?? null]
+    );
+
+    return result.rows[0] ?? null;
+}
+
+/**
+ * Targeting of a campaign (or of a new one when camp is null) with unsaved
+ * edits applied. Null when the segment asked for does not exist.
+ */
+async function resolveTarget(
+    fastify: FastifyInstance,
+    tenantId: string,
+    edits: CampaignAudienceInput,
+    camp: Record<string, any> | null
+): Promise<CampaignTarget | null> {
+    const current: CampaignTarget = camp ? campaignTarget(camp) : {
+        targetAll: true,
+        targetTags: [],
+        targetTagsMatch: 'any',
+        excludeTags: [],
+        excludeMessagedDays: null,
+        excludeCampaignIds: [],
+        segment: null,
+    };
+
+    let segment = current.segment;
+    if (edits.segmentId !== undefined) {
+        segment = edits.segmentId ? await findSegment(fastify, edits.segmentId, tenantId) : null;
+        if (edits.segmentId && !segment) return null;
+    }
+
+    return {
+        targetAll: edits.targetAll ?? current.targetAll,
+        targetTags: edits.targetTags ?? current.targetTags,
+        targetTagsMatch: edits.targetTagsMatch ?? current.targetTagsMatch,
+        excludeTags: edits.excludeTags ?? current.excludeTags,
+        excludeMessagedDays: edits.excludeMessagedDays !== undefined ? edits.excludeMessagedDays : current.excludeMessagedDays,
+        excludeCampaignIds: edits.excludeCampaignIds ?? current.excludeCampaignIds,
+        segment,
+    };
+}
+
+/**
+ * Contacts a targeting sends to, and how many each exclusion removes from
+ * the ones it includes
+ */
+async function countAudience(fastify: FastifyInstance, tenantId: string, target: CampaignTarget): Promise<AudienceCount> {
+    const audience = compileAudience(target, 2);
+    const { exclusions } = audience;
+    const excludedBy = (condition: string | null) => condition ? `COUNT(*) FILTER (WHERE ${condition})::int` : '0';
+
+    const result = await fastify.db.query(
+        `SELECT COUNT(*) FILTER (WHERE ${audience.sql})::int as audience,
+            COUNT(*)::int as included,
+            ${excludedBy(exclusions.optedOut)} as opted_out,
+            ${excludedBy(exclusions.tags)} as tags,
+            ${excludedBy(exclusions.recentlyMessaged)} as recently_messaged,
+            ${excludedBy(exclusions.otherCampaigns)} as other_campaigns
+     FROM contacts
+     WHERE tenant_id = $1 AND ${audience.included}`,
+        [tenantId, ...audience.values]
+    );
+    const row = result.rows[0];
+
+    return {
+        audience: row.audience,
+        included: row.included,
+        excluded: {
+            optedOut: row.opted_out,
+            tags: row.tags,
+            recentlyMessaged: row.recently_messaged,
+            otherCampaigns: row.other_campaigns,
+        },
+    };
+}
+
+/**
+ * Rules of one of the tenant's segments
+ */
+async function findSegment(
+    fastify: FastifyInstance,
+    segmentId: string,
+    tenantId: string
+): Promise<SegmentDefinition | null> {
+    const result = await fastify.db.query(
+        'SELECT definition FROM segments WHERE id = $1 AND tenant_id = $2',
+        [segmentId, tenantId]
+    );
+
+    return result.rows[0]?.definition ?? null;
+}
+
+/**
+ * Check every variant's media belongs to the tenant, and that image
+ * campaigns have an image for every variant
+ */
+async function checkVariants(
+    fastify: FastifyInstance,
+    variants: { mediaId?: string | null }[],
+    type: string,
+    campaignMediaId: string | null,
+    tenantId: string
+): Promise<{ statusCode: number; error: string } | null> {
+    if (type === 'image' && variants.some(variant => !variant.mediaId && !campaignMediaId)) {
+        return { statusCode: 400, error: 'Every variant of an image campaign needs an image' };
+    }
+
+    const mediaIds = [...new Set(variants.map(variant => variant.mediaId).filter(Boolean))];
+    if (mediaIds.length === 0) return null;
+
+    const result = await fastify.db.query(
+        'SELECT COUNT(*) FROM media WHERE id = ANY($1::uuid[]) AND tenant_id = $2',
+        [mediaIds, tenantId]
+    );
+
+    return parseInt(result.rows[0].count) === mediaIds.length
+        ? null
+        : { statusCode: 404, error: 'Media not found' };
+}
+
+/**
+ * Replace a campaign's variants; an empty list turns the A/B test off
+ */
+async function replaceVariants(
+    fastify: FastifyInstance,
+    campaignId: string,
+    variants: { label: string; templateText?: string | null; mediaId?: string | null; weight: number }[]
+): Promise<void> {
+    const client = await fastify.db.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        await client.query('DELETE FROM campaign_variants WHERE campaign_id = $1', [campaignId]);
+
+        await client.query(
+            `INSERT INTO campaign_variants (campaign_id, label, template_text, media_id, weight)
+       SELECT $1, * FROM unnest($2::text[], $3::text[], $4::uuid[], $5::int[])`,
+            [
+                campaignId,
+                variants.map(variant => variant.label),
+                variants.map(variant => variant.templateText ?? null),
+                variants.map(variant => variant.mediaId ?? null),
+                variants.map(variant => variant.weight),
+            ]
+        );
+
+        await client.query('COMMIT');
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+function toVariantStats(row: Record<string, any>): VariantStats {
+    const rate = (count: number) => row.sent > 0 ? count / row.sent : 0;
+
+    return {
+        variantId: row.id,
+        label: row.label,
+        weight: row.weight,
+        isWinner: row.is_winner,
+        messages: row.messages,
+        sent: row.sent,
+        delivered: row.delivered,
+        read: row.read,
+        failed: row.failed,
+        replied: row.replied,
+        deliveredRate: rate(row.delivered),
+        readRate: rate(row.read),
+        repliedRate: rate(row.replied),
+    };
+}
+
+async function buildFinalReport(db: pg.PoolClient, campaignId: string): Promise<CampaignReport> {
+    const result = await db.query(
+        `SELECT c.total_recipients, c.sent_count, c.delivered_count, c.read_count, c.failed_count,
+            c.cancelled_count, c.skipped_count,
+            COUNT(m.id) FILTER (WHERE m.status IN ('sent', 'delivered', 'read'))::int as sent,
+            COUNT(m.id) FILTER (WHERE m.status IN ('delivered', 'read'))::int as delivered,
+            COUNT(m.id) FILTER (WHERE m.status = 'read')::int as read,
+            COUNT(m.id) FILTER (WHERE m.status = 'failed')::int as failed,
+            COUNT(m.id) FILTER (WHERE m.status = 'cancelled')::int as cancelled,
+            COUNT(m.id) FILTER (WHERE m.status = 'skipped')::int as skipped,
+            COUNT(m.id) FILTER (WHERE m.status = 'sending')::int as in_flight,
+            (SELECT COUNT(DISTINCT ct.id) FROM messages mm
+             JOIN contacts ct ON ct.id = mm.contact_id
+             WHERE mm.campaign_id = c.id AND ct.opted_out AND ct.opted_out_at >= c.started_at)::int as opted_out
+     FROM campaigns c
+     LEFT JOIN messages m ON m.campaign_id = c.id
+     WHERE c.id = $1
+     GROUP BY c.id`,
+        [campaignId]
+    );
+
+    const row = result.rows[0];
+
+    return {
+        recipients: row.total_recipients,
+        sent: row.sent,
+        delivered: row.delivered,
+        read: row.read,
+        failed: row.failed,
+        cancelled: row.cancelled,
+        skipped: row.skipped,
+        inFlight: row.in_flight,
+        optedOut: row.opted_out,
+        corrections: {
+            sent: row.sent - row.sent_count,
+            delivered: row.delivered - row.delivered_count,
+            read: row.read - row.read_count,
+            failed: row.failed - row.failed_count,
+            cancelled: row.cancelled - row.cancelled_count,
+            skipped: row.skipped - row.skipped_count,
+        },
+        generatedAt: new Date().toISOString(),
+    };
+}
+
+async function senderPoolExists(
+    fastify: FastifyInstance,
+    senderPool: string[],
+    tenantId: string
+): Promise<boolean> {
+    if (senderPool.length === 0) return true;
+
+    const result = await fastify.db.query(
+        'SELECT COUNT(*) FROM sessions WHERE tenant_id = $1 AND id = ANY($2::uuid[])',
+        [tenantId, senderPool]
+    );
+
+    return parseInt(result.rows[0].count) === new Set(senderPool).size;
+}
+
+async function campaignsExist(
+    fastify: FastifyInstance,
+    campaignIds: string[],
+    tenantId: string
+): Promise<boolean> {
+    if (campaignIds.length === 0) return true;
+
+    const result = await fastify.db.query(
+        'SELECT COUNT(*) FROM campaigns WHERE tenant_id = $1 AND id = ANY($2::uuid[])',
+        [tenantId, campaignIds]
+    );
+
+    return parseInt(result.rows[0].count) === new Set(campaignIds).size;
+}
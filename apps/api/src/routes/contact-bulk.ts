@@ -0,0 +1,101 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { authMiddleware, requirePermission } from '../middlewares/auth.js';
+import { bulkContactActionSchema, type ContactBulkSelection } from '@sms/shared';
+import { BULK_INLINE_LIMIT, BULK_JOB, countSelection, runBulkOperation } from '../services/contact-bulk.js';
+import { hasContactFilters } from '../services/contact-filters.js';
+
+const OPERATION_COLUMNS = `id, action, params, status, total_count, processed_count, affected_count, error,
+    started_at, completed_at, created_at, updated_at`;
+
+export async function contactBulkRoutes(fastify: FastifyInstance) {
+    fastify.addHook('preHandler', authMiddleware);
+
+    /**
+     * POST /contacts/bulk - Add/remove tags, set custom fields, opt out/in or
+     * delete contacts by ID list or by filter
+     * Up to BULK_INLINE_LIMIT contacts are changed before responding; larger
+     * selections return a queued operation to follow at GET /contacts/bulk/:id
+     * Deleting with an empty filter needs confirmAll: true
+     */
+    fastify.post('/', {
+        preHandler: [requireBulkPermission]
+    }, async (request: FastifyRequest, reply) => {
+        const { action, contactIds, filter, confirmAll, ...params } = bulkContactActionSchema.parse(request.body);
+
+        if (action === 'delete' && filter && !hasContactFilters(filter) && !confirmAll) {
+            return reply.status(400).send({
+                success: false,
+                error: 'An empty filter selects every contact; send confirmAll: true to delete them all'
+            });
+        }
+
+        const selection: ContactBulkSelection = contactIds ? { contactIds } : { filter: filter ?? {} };
+        const total = await countSelection(fastify, request.tenantId!, selection);
+
+        const created = await fastify.db.query(
+            `INSERT INTO contact_bulk_operations (tenant_id, action, params, selection, total_count, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+            [request.tenantId, action, JSON.stringify(params), JSON.stringify(selection), total, request.user!.sub]
+        );
+        const operationId = created.rows[0].id;
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, details)
+       VALUES ($1, $2, $3, $4, $5)`,
+            [request.tenantId, request.user!.sub, `bulk_${action}`, 'contact', JSON.stringify({
+                operationId,
+                ...params,
+                ...(filter && { filter }),
+                contacts: total,
+            })]
+        );
+
+        if (total <= BULK_INLINE_LIMIT) {
+            await runBulkOperation(fastify, { tenantId: request.tenantId!, operationId });
+        } else {
+            await fastify.queue.send(BULK_JOB, { tenantId: request.tenantId, operationId }, {
+                singletonKey: `${BULK_JOB}:${operationId}`,
+                expireInSeconds: 6 * 60 * 60,
+            });
+        }
+
+        const result = await fastify.db.query(
+            `SELECT ${OPERATION_COLUMNS} FROM contact_bulk_operations WHERE id = $1`,
+            [operationId]
+        );
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * GET /contacts/bulk/:id - Bulk operation with its progress
+     */
+    fastify.get('/:id', {
+        preHandler: [requirePermission('contacts:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            `SELECT ${OPERATION_COLUMNS} FROM contact_bulk_operations WHERE id = $1 AND tenant_id = $2`,
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Bulk operation not found' });
+        }
+
+        return { success: true, data: result.rows[0] };
+    });
+}
+
+// Helper functions
+
+/**
+ * Deleting needs contacts:delete; every other action contacts:write
+ */
+function requireBulkPermission(request: FastifyRequest, reply: FastifyReply) {
+    const action = (request.body as { action?: unknown } | undefined)?.action;
+    return requirePermission(action === 'delete' ? 'contacts:delete' : 'contacts:write')(request, reply);
+}
@@ -0,0 +1,231 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { randomUUID } from 'crypto';
+import { authMiddleware, requirePermission } from '../middlewares/auth.js';
+import { contactImportMappingSchema, contactImportsQuerySchema } from '@sms/shared';
+import { IMPORT_JOB, importFormat, inspectImportFile, suggestMapping } from '../services/contact-import.js';
+
+// Larger than the media limit; the file is parsed as a stream when imported
+const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024;
+
+export async function contactImportRoutes(fastify: FastifyInstance) {
+    fastify.addHook('preHandler', authMiddleware);
+
+    /**
+     * GET /contacts/imports - List imports
+     */
+    fastify.get('/', {
+        preHandler: [requirePermission('contacts:import')]
+    }, async (request: FastifyRequest) => {
+        const { page, limit } = contactImportsQuerySchema.parse(request.query);
+        const offset = (page - 1) * limit;
+
+        const [countResult, dataResult] = await Promise.all([
+            fastify.db.query(
+                'SELECT COUNT(*) FROM contact_imports WHERE tenant_id = $1',
+                [request.tenantId]
+            ),
+            fastify.db.query(
+                `SELECT i.id, i.filename, i.format, i.status, i.size_bytes, i.bytes_processed, i.processed_rows,
+                i.created_count, i.updated_count, i.skipped_count, i.error_count, i.error,
+                i.started_at, i.completed_at, i.created_at, u.name as created_by_name
+         FROM contact_imports i
+         LEFT JOIN users u ON u.id = i.created_by
+         WHERE i.tenant_id = $1
+         ORDER BY i.created_at DESC LIMIT $2 OFFSET $3`,
+                [request.tenantId, limit, offset]
+            )
+        ]);
+
+        const total = parseInt(countResult.rows[0].count);
+
+        return {
+            success: true,
+            data: dataResult.rows,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+        };
+    });
+
+    /**
+     * POST /contacts/imports - Upload a CSV or XLSX file
+     * Returns its columns, first rows and a suggested mapping; nothing is
+     * imported until the import is started with the mapping
+     */
+    fastify.post('/', {
+        preHandler: [requirePermission('contacts:import')]
+    }, async (request: FastifyRequest, reply) => {
+        const data = await request.file({ limits: { fileSize: MAX_IMPORT_FILE_SIZE } });
+
+        if (!data) {
+            return reply.status(400).send({
+                success: false,
+                error: 'No file uploaded'
+            });
+        }
+
+        const format = importFormat(data.filename, data.mimetype);
+        if (!format) {
+            return reply.status(400).send({
+                success: false,
+                error: 'Invalid file type. Allowed: CSV, XLSX'
+            });
+        }
+
+        const buffer = await data.toBuffer();
+
+        let info;
+        try {
+            info = await inspectImportFile(buffer, format);
+        } catch (err) {
+            return reply.status(400).send({
+                success: false,
+                error: `Could not read the file: ${err instanceof Error ? err.message : 'unknown error'}`
+            });
+        }
+
+        if (info.columns.length === 0) {
+            return reply.status(400).send({ success: false, error: 'The file is empty' });
+        }
+
+        // Contact lists are not public like campaign media
+        const fileKey = `${request.tenantId}/imports/${randomUUID()}.${format}`;
+        await fastify.s3.upload(fileKey, buffer, data.mimetype, { private: true });
+
+        const result = await fastify.db.query(
+            `INSERT INTO contact_imports (tenant_id, filename, file_key, format, encoding, delimiter, columns, size_bytes, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id, filename, format, encoding, delimiter, columns, status, size_bytes, created_at`,
+            [request.tenantId, data.filename, fileKey, format, info.encoding, info.delimiter, info.columns,
+                buffer.length, request.user!.sub]
+        );
+
+        return {
+            success: true,
+            data: {
+                ...result.rows[0],
+                sampleRows: info.sampleRows,
+                suggestedMapping: suggestMapping(info.columns),
+            }
+        };
+    });
+
+    /**
+     * GET /contacts/imports/:id - Import with its progress
+     */
+    fastify.get('/:id', {
+        preHandler: [requirePermission('contacts:import')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            `SELECT id, filename, format, encoding, delimiter, columns, mapping, status, size_bytes, bytes_processed,
+              processed_rows, created_count, updated_count, skipped_count, error_count, error,
+              started_at, completed_at, created_at, updated_at
+       FROM contact_imports WHERE id = $1 AND tenant_id = $2`,
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Import not found' });
+        }
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * POST /contacts/imports/:id/start - Import the file with a column mapping
+     * A failed import can be started again
+     */
+    fastify.post('/:id/start', {
+        preHandler: [requirePermission('contacts:import')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+        const mapping = contactImportMappingSchema.parse(request.body);
+
+        const existing = await fastify.db.query(
+            'SELECT status, columns FROM contact_imports WHERE id = $1 AND tenant_id = $2',
+            [id, request.tenantId]
+        );
+
+        if (existing.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Import not found' });
+        }
+
+        const columnCount = existing.rows[0].columns.length;
+        const mapped = [mapping.phone, mapping.name, mapping.tags, ...mapping.customFields.map(custom => custom.column)];
+        if (mapped.some(column => column !== null && column >= columnCount)) {
+            return reply.status(400).send({ success: false, error: 'Mapping refers to a column that is not in the file' });
+        }
+
+        const started = await fastify.db.query(
+            `UPDATE contact_imports SET status = 'queued', mapping = $3, error = NULL, completed_at = NULL
+       WHERE id = $1 AND tenant_id = $2 AND status IN ('uploaded', 'failed')
+       RETURNING id, status, mapping`,
+            [id, request.tenantId, JSON.stringify(mapping)]
+        );
+
+        if (started.rows.length === 0) {
+            return reply.status(409).send({
+                success: false,
+                error: `Cannot start import with status '${existing.rows[0].status}'`
+            });
+        }
+
+        await fastify.queue.send(IMPORT_JOB, { tenantId: request.tenantId, importId: id }, {
+            singletonKey: `${IMPORT_JOB}:${id}`,
+            expireInSeconds: 6 * 60 * 60,
+        });
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'import', 'contact_import', id, JSON.stringify({ mapping })]
+        );
+
+        return { success: true, data: started.rows[0] };
+    });
+
+    /**
+     * GET /contacts/imports/:id/errors - Rows that could not be imported, as CSV
+     * Each line has the row number in the file, the reason and the row as read
+     */
+    fastify.get('/:id/errors', {
+        preHandler: [requirePermission('contacts:import')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const imp = await fastify.db.query(
+            'SELECT columns FROM contact_imports WHERE id = $1 AND tenant_id = $2',
+            [id, request.tenantId]
+        );
+
+        if (imp.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Import not found' });
+        }
+
+        const errors = await fastify.db.query(
+            `SELECT row_number, error, row_values FROM contact_import_errors
+       WHERE import_id = $1
+       ORDER BY row_number`,
+            [id]
+        );
+
+        const lines = [
+            ['row', 'error', ...imp.rows[0].columns],
+            ...errors.rows.map(row => [String(row.row_number), row.error, ...row.row_values]),
+        ];
+        const csv = lines.map(line => line.map(csvCell).join(',')).join('\n');
+
+        // The byte order mark makes Excel open the file as UTF-8
+        return reply
+            .header('Content-Type', 'text/csv; charset=utf-8')
+            .header('Content-Disposition', `attachment; filename="import-${id}-errors.csv"`)
+            .send('\uFEFF' + csv);
+    });
+}
+
+// Helper functions
+
+function csvCell(value: string): string {
+    return `"${String(value ?? '').replace(/"/g, '""')}"`;
+}
@@ -1,13 +1,27 @@
 import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { Readable } from 'stream';
 import { authMiddleware, requirePermission } from '../middlewares/auth.js';
+import { contactFilters } from '../services/contact-filters.js';
 import {
     createContactSchema,
     updateContactSchema,
     importContactsSchema,
+    syncContactsSchema,
     contactsQuerySchema,
-    phoneE164Schema
+    contactsExportQuerySchema,
+    cancelQueuedMessages,
+    csvCell,
+    normalizePhone,
+    resolvePhoneSettings,
+    type PhoneSettings
 } from '@sms/shared';
 
+// Contacts fetched per round trip while exporting
+const EXPORT_BATCH_SIZE = 1000;
+
+// Contact columns of the CSV export; custom fields follow, one column each
+const EXPORT_COLUMNS = ['id', 'phone_e164', 'name', 'tags', 'opted_out', 'opted_out_at', 'created_at'];
+
 export async function contactRoutes(fastify: FastifyInstance) {
     fastify.addHook('preHandler', authMiddleware);
 
@@ -17,30 +31,11 @@ export async function contactRoutes(fastify: FastifyInstance) {
     fastify.get('/', {
         preHandler: [requirePermission('contacts:read')]
     }, async (request: FastifyRequest) => {
-        const { page, limit, search, tags, optedOut } = contactsQuerySchema.parse(request.query);
+        const { page, limit, ...filters } = contactsQuerySchema.parse(request.query);
         const offset = (page - 1) * limit;
 
-        let whereClause = 'tenant_id = $1';
-        const values: unknown[] = [request.tenantId];
-        let paramIndex = 2;
-
-        if (search) {
-            whereClause += ` AND (phone_e164 ILIKE $${paramIndex} OR name ILIKE $${paramIndex})`;
-            values.push(`%${search}%`);
-            paramIndex++;
-        }
-
-        if (tags && tags.length > 0) {
-            whereClause += ` AND tags && $${paramIndex}`;
-            values.push(tags);
-            paramIndex++;
-        }
-
-        if (optedOut !== undefined) {
-            whereClause += ` AND opted_out = $${paramIndex}`;
-            values.push(optedOut);
-            paramIndex++;
-        }
+        const { whereClause, values } = contactFilters(request.tenantId!, filters);
+        const paramIndex = values.length + 1;
 
         const [countResult, dataResult] = await Promise.all([
             fastify.db.query(
@@ -64,6 +59,44 @@ export async function contactRoutes(fastify: FastifyInstance) {
         };
     });
 
+    /**
+     * GET /contacts/export - Download the contacts matching the list filters
+     * ?format=csv (default) has one column per custom field; ?format=ndjson
+     * has one contact per line as JSON
+     */
+    fastify.get('/export', {
+        preHandler: [requirePermission('contacts:export')]
+    }, async (request: FastifyRequest, reply) => {
+        const { format, ...filters } = contactsExportQuerySchema.parse(request.query);
+        const { whereClause, values } = contactFilters(request.tenantId!, filters);
+
+        // The CSV header needs every custom field before the first row
+        let fields: string[] = [];
+        if (format === 'csv') {
+            const result = await fastify.db.query(
+                `SELECT DISTINCT jsonb_object_keys(custom_fields) AS field
+         FROM contacts WHERE ${whereClause} AND jsonb_typeof(custom_fields) = 'object'
+         ORDER BY field`,
+                values
+            );
+            fields = result.rows.map(row => row.field);
+        }
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, details)
+       VALUES ($1, $2, $3, $4, $5)`,
+            [request.tenantId, request.user!.sub, 'export', 'contact', JSON.stringify({ format, filters })]
+        );
+
+        const date = new Date().toISOString().slice(0, 10);
+
+        return reply
+            .header('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8')
+            .header('Content-Disposition', `attachment; filename="contacts-${date}.${format}"`)
+            .send(Readable.from(exportContacts(fastify, whereClause, values, format, fields)));
+    });
+
     /**
      * GET /contacts/:id - Get contact by ID
      */
@@ -91,7 +124,8 @@ export async function contactRoutes(fastify: FastifyInstance) {
     fastify.post('/', {
         preHandler: [requirePermission('contacts:write')]
     }, async (request: FastifyRequest, reply) => {
-        const body = createContactSchema.parse(request.body);
+        const { defaultCountry } = await phoneSettings(fastify, request.tenantId!);
+        const body = createContactSchema(defaultCountry).parse(request.body);
 
         // Check for duplicate
         const existing = await fastify.db.query(
@@ -123,7 +157,8 @@ export async function contactRoutes(fastify: FastifyInstance) {
         preHandler: [requirePermission('contacts:write')]
     }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
         const { id } = request.params;
-        const body = updateContactSchema.parse(request.body);
+        const { defaultCountry } = await phoneSettings(fastify, request.tenantId!);
+        const body = updateContactSchema(defaultCountry).parse(request.body);
 
         const updates: string[] = [];
         const values: unknown[] = [];
@@ -170,6 +205,8 @@ export async function contactRoutes(fastify: FastifyInstance) {
     }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
         const { id } = request.params;
 
+        await cancelQueuedMessages(fastify.db, request.tenantId!, { contactIds: [id] }, 'Contact deleted');
+
         const result = await fastify.db.query(
             'DELETE FROM contacts WHERE id = $1 AND tenant_id = $2 RETURNING id',
             [id, request.tenantId]
@@ -189,6 +226,7 @@ export async function contactRoutes(fastify: FastifyInstance) {
         preHandler: [requirePermission('contacts:import')]
     }, async (request: FastifyRequest) => {
         const body = importContactsSchema.parse(request.body);
+        const { defaultCountry } = await phoneSettings(fastify, request.tenantId!);
 
         const results = {
             imported: 0,
@@ -199,22 +237,17 @@ export async function contactRoutes(fastify: FastifyInstance) {
         for (const contact of body.contacts) {
             try {
                 // Normalize phone to E.164
-                let phone = contact.phone.replace(/\D/g, '');
-                if (!phone.startsWith('+')) {
-                    phone = '+' + phone;
-                }
-
-                // Validate E.164
-                const parseResult = phoneE164Schema.safeParse(phone);
-                if (!parseResult.success) {
+                const normalized = normalizePhone(contact.phone, defaultCountry);
+                if (!normalized.valid) {
                     if (body.skipInvalid) {
                         results.skipped++;
-                        results.errors.push({ phone: contact.phone, error: 'Invalid E.164 format' });
+                        results.errors.push({ phone: contact.phone, error: normalized.error });
                         continue;
                     } else {
-                        throw new Error('Invalid E.164 format');
+                        throw new Error(normalized.error);
                     }
                 }
+                const phone = normalized.phoneE164;
 
                 const tags = [...(contact.tags || []), ...(body.defaultTags || [])];
 
@@ -267,6 +300,8 @@ export async function contactRoutes(fastify: FastifyInstance) {
             return reply.status(404).send({ success: false, error: 'Contact not found' });
         }
 
+        await cancelQueuedMessages(fastify.db, request.tenantId!, { contactIds: [id] }, 'Contact opted out');
+
         return { success: true, data: result.rows[0] };
     });
 
@@ -299,10 +334,15 @@ export async function contactRoutes(fastify: FastifyInstance) {
     fastify.post('/sync-from-phone', {
         preHandler: [requirePermission('contacts:import')]
     }, async (request: FastifyRequest, reply) => {
-        // Check if session is connected
+        const { sessionId } = syncContactsSchema.parse(request.body ?? {});
+
+        // Use the requested session, or the first connected one
         const session = await fastify.db.query(
-            `SELECT status FROM sessions WHERE tenant_id = $1`,
-            [request.tenantId]
+            `SELECT id, status FROM sessions
+       WHERE tenant_id = $1 AND ($2::uuid IS NULL OR id = $2::uuid)
+       ORDER BY (status = 'connected') DESC, created_at
+       LIMIT 1`,
+            [request.tenantId, sessionId ?? null]
         );
 
         if (session.rows.length === 0 || session.rows[0].status !== 'connected') {
@@ -315,6 +355,7 @@ export async function contactRoutes(fastify: FastifyInstance) {
         // Enqueue sync job
         const jobId = await fastify.queue.send('sync-contacts', {
             tenantId: request.tenantId,
+            sessionId: session.rows[0].id,
             maxContacts: 500
         });
 
@@ -322,7 +363,7 @@ export async function contactRoutes(fastify: FastifyInstance) {
         await fastify.db.query(
             `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, details)
        VALUES ($1, $2, $3, $4, $5)`,
-            [request.tenantId, request.user!.sub, 'sync_from_phone', 'contact', JSON.stringify({ jobId })]
+            [request.tenantId, request.user!.sub, 'sync_from_phone', 'contact', JSON.stringify({ jobId, sessionId: session.rows[0].id })]
         );
 
         return {
@@ -333,3 +374,80 @@ export async function contactRoutes(fastify: FastifyInstance) {
     });
 }
 
+// Helper functions
+
+async function phoneSettings(fastify: FastifyInstance, tenantId: string): Promise<PhoneSettings> {
+    const result = await fastify.db.query('SELECT settings FROM tenants WHERE id = $1', [tenantId]);
+    return resolvePhoneSettings(result.rows[0]?.settings);
+}
+
+/**
+ * Export lines, read through a cursor so the whole list is never in memory.
+ * The transaction is rolled back if the download is aborted.
+ */
+async function* exportContacts(
+    fastify: FastifyInstance,
+    whereClause: string,
+    values: unknown[],
+    format: 'csv' | 'ndjson',
+    fields: string[]
+): AsyncGenerator<string> {
+    if (format === 'csv') {
+        // Custom fields named like a contact column keep their prefix
+        const header = [
+            ...EXPORT_COLUMNS,
+            ...fields.map(field => EXPORT_COLUMNS.includes(field) ? `custom_fields.${field}` : field),
+        ];
+        // The byte order mark makes Excel open the file as UTF-8
+        yield '\uFEFF' + header.map(csvCell).join(',') + '\n';
+    }
+
+    const client = await fastify.db.connect();
+    let finished = false;
+
+    try {
+        await client.query('BEGIN');
+        await client.query(
+            `DECLARE contacts_export NO SCROLL CURSOR FOR
+       SELECT id, phone_e164, name, tags, custom_fields, opted_out, opted_out_at, created_at
+       FROM contacts WHERE ${whereClause}
+       ORDER BY created_at DESC, id`,
+            values
+        );
+
+        while (true) {
+            const batch = await client.query(`FETCH ${EXPORT_BATCH_SIZE} FROM contacts_export`);
+            if (batch.rows.length === 0) break;
+
+            const lines = batch.rows.map(row => format === 'csv' ? csvLine(row, fields) : JSON.stringify(row));
+            yield lines.join('\n') + '\n';
+        }
+
+        await client.query('COMMIT');
+        finished = true;
+    } finally {
+        if (!finished) {
+            await client.query('ROLLBACK').catch(() => { });
+        }
+        client.release();
+    }
+}
+
+function csvLine(row: Record<string, any>, fields: string[]): string {
+    const customFields = row.custom_fields ?? {};
+
+    return [
+        row.id,
+        row.phone_e164,
+        row.name ?? '',
+        (row.tags ?? []).join(','),
+        String(row.opted_out),
+        row.opted_out_at ? row.opted_out_at.toISOString() : '',
+        row.created_at.toISOString(),
+        ...fields.map(field => {
+            const value = customFields[field];
+            if (value === undefined || value === null) return '';
+            return typeof value === 'string' ? value : JSON.stringify(value);
+        }),
+    ].map(csvCell).join(',');
+}
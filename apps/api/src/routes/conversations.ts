@@ -0,0 +1,243 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { authMiddleware, requirePermission } from '../middlewares/auth.js';
+import { conversationsQuerySchema, paginationSchema, replyMessageSchema } from '@sms/shared';
+
+export async function conversationRoutes(fastify: FastifyInstance) {
+    fastify.addHook('preHandler', authMiddleware);
+
+    /**
+     * GET /conversations - List conversations, most recent first
+     */
+    fastify.get('/', {
+        preHandler: [requirePermission('conversations:read')]
+    }, async (request: FastifyRequest) => {
+        const { page, limit, search, unread } = conversationsQuerySchema.parse(request.query);
+        const offset = (page - 1) * limit;
+
+        let whereClause = 'cv.tenant_id = $1';
+        const values: unknown[] = [request.tenantId];
+        let paramIndex = 2;
+
+        if (search) {
+            whereClause += ` AND (cv.phone_e164 ILIKE $${paramIndex} OR ct.name ILIKE $${paramIndex})`;
+            values.push(`%${search}%`);
+            paramIndex++;
+        }
+        if (unread) {
+            whereClause += ' AND cv.unread_count > 0';
+        }
+
+        const [countResult, dataResult] = await Promise.all([
+            fastify.db.query(
+                `SELECT COUNT(*) FROM conversations cv
+         LEFT JOIN contacts ct ON ct.id = cv.contact_id
+         WHERE ${whereClause}`,
+                values
+            ),
+            fastify.db.query(
+                `SELECT cv.id, cv.phone_e164, cv.contact_id, cv.session_id, cv.last_message_at, cv.last_message_preview,
+                cv.unread_count, ct.name as contact_name, ct.opted_out, s.name as session_name
+         FROM conversations cv
+         LEFT JOIN contacts ct ON ct.id = cv.contact_id
+         LEFT JOIN sessions s ON s.id = cv.session_id
+         WHERE ${whereClause}
+         ORDER BY cv.last_message_at DESC NULLS LAST LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
+                [...values, limit, offset]
+            )
+        ]);
+
+        const total = parseInt(countResult.rows[0].count);
+
+        return {
+            success: true,
+            data: dataResult.rows,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+        };
+    });
+
+    /**
+     * GET /conversations/:id - Get conversation by ID
+     */
+    fastify.get('/:id', {
+        preHandler: [requirePermission('conversations:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            `SELECT cv.*, ct.name as contact_name, ct.opted_out
+       FROM conversations cv
+       LEFT JOIN contacts ct ON ct.id = cv.contact_id
+       WHERE cv.id = $1 AND cv.tenant_id = $2`,
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Conversation not found' });
+        }
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * GET /conversations/:id/messages - Thread with inbound and outbound messages
+     * Pages go back in time; each page is returned oldest first
+     */
+    fastify.get('/:id/messages', {
+        preHandler: [requirePermission('conversations:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+        const { page, limit } = paginationSchema.parse(request.query);
+        const offset = (page - 1) * limit;
+
+        const conversation = await fastify.db.query(
+            'SELECT id, phone_e164 FROM conversations WHERE id = $1 AND tenant_id = $2',
+            [id, request.tenantId]
+        );
+
+        if (conversation.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Conversation not found' });
+        }
+
+        const { phone_e164 } = conversation.rows[0];
+
+        const thread = `
+      SELECT id, 'inbound' as direction, body_text, NULL as media_url, NULL as status,
+             NULL as campaign_name, received_at as at
+      FROM inbound_messages WHERE conversation_id = $1
+      UNION ALL
+      SELECT m.id, 'outbound' as direction, m.body_text, m.media_url, m.status,
+             c.name as campaign_name, COALESCE(m.sent_at, m.queued_at) as at
+      FROM messages m
+      LEFT JOIN campaigns c ON c.id = m.campaign_id
+      WHERE m.tenant_id = $2 AND m.phone_e164 = $3`;
+
+        const [countResult, dataResult] = await Promise.all([
+            fastify.db.query(
+                `SELECT COUNT(*) FROM (${thread}) t`,
+                [id, request.tenantId, phone_e164]
+            ),
+            fastify.db.query(
+                `SELECT * FROM (${thread}) t ORDER BY at DESC LIMIT $4 OFFSET $5`,
+                [id, request.tenantId, phone_e164, limit, offset]
+            )
+        ]);
+
+        const total = parseInt(countResult.rows[0].count);
+
+        return {
+            success: true,
+            data: dataResult.rows.reverse(),
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+        };
+    });
+
+    /**
+     * POST /conversations/:id/read - Mark inbound messages as read
+     */
+    fastify.post('/:id/read', {
+        preHandler: [requirePermission('conversations:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            'UPDATE conversations SET unread_count = 0 WHERE id = $1 AND tenant_id = $2 RETURNING id',
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Conversation not found' });
+        }
+
+        await fastify.db.query(
+            'UPDATE inbound_messages SET read_at = NOW() WHERE conversation_id = $1 AND read_at IS NULL',
+            [id]
+        );
+
+        return { success: true, message: 'Conversation marked as read' };
+    });
+
+    /**
+     * POST /conversations/:id/reply - Send a text reply in the thread
+     */
+    fastify.post('/:id/reply', {
+        preHandler: [requirePermission('conversations:reply')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+        const { bodyText } = replyMessageSchema.parse(request.body);
+
+        const conversation = await fastify.db.query(
+            `SELECT cv.id, cv.phone_e164, cv.contact_id, cv.session_id, ct.opted_out
+       FROM conversations cv
+       LEFT JOIN contacts ct ON ct.id = cv.contact_id
+       WHERE cv.id = $1 AND cv.tenant_id = $2`,
+            [id, request.tenantId]
+        );
+
+        if (conversation.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Conversation not found' });
+        }
+
+        const conv = conversation.rows[0];
+
+        if (conv.opted_out) {
+            return reply.status(409).send({
+                success: false,
+                error: 'Contact has opted out of messages'
+            });
+        }
+
+        // Reply from the phone the contact wrote to, or else any connected session
+        const session = await fastify.db.query(
+            `SELECT id, status FROM sessions WHERE tenant_id = $1
+       ORDER BY (id = $2) DESC, (status = 'connected') DESC, created_at
+       LIMIT 1`,
+            [request.tenantId, conv.session_id]
+        );
+
+        if (session.rows.length === 0 || session.rows[0].status !== 'connected') {
+            return reply.status(409).send({
+                success: false,
+                error: 'Google Messages session is not connected'
+            });
+        }
+
+        const sessionId = session.rows[0].id;
+
+        const message = await fastify.db.query(
+            `INSERT INTO messages (tenant_id, session_id, contact_id, phone_e164, body_text)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id, phone_e164, body_text, status, queued_at`,
+            [request.tenantId, sessionId, conv.contact_id, conv.phone_e164, bodyText]
+        );
+
+        await fastify.queue.send('send-message', {
+            type: 'send_text',
+            messageId: message.rows[0].id,
+            tenantId: request.tenantId,
+            sessionId,
+            phoneE164: conv.phone_e164,
+            bodyText
+        }, {
+            retryLimit: 3,
+            retryDelay: 60,
+            retryBackoff: true
+        });
+
+        // Replying implies the thread was read
+        await fastify.db.query(
+            `UPDATE conversations SET last_message_at = NOW(), last_message_preview = $2, unread_count = 0
+       WHERE id = $1`,
+            [id, bodyText]
+        );
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'reply', 'conversation', id,
+            JSON.stringify({ messageId: message.rows[0].id })]
+        );
+
+        return { success: true, data: message.rows[0] };
+    });
+}
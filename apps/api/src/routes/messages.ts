@@ -11,7 +11,7 @@ export async function messageRoutes(fastify: FastifyInstance) {
     fastify.get('/', {
         preHandler: [requirePermission('messages:read')]
     }, async (request: FastifyRequest) => {
-        const { page, limit, campaignId, contactId, status, phoneE164 } = messagesQuerySchema.parse(request.query);
+        const { page, limit, campaignId, contactId, sessionId, status, phoneE164 } = messagesQuerySchema.parse(request.query);
         const offset = (page - 1) * limit;
 
         let whereClause = 'm.tenant_id = $1';
@@ -26,6 +26,10 @@ export async function messageRoutes(fastify: FastifyInstance) {
             whereClause += ` AND m.contact_id = $${paramIndex++}`;
             values.push(contactId);
         }
+        if (sessionId) {
+            whereClause += ` AND m.session_id = $${paramIndex++}`;
+            values.push(sessionId);
+        }
         if (status) {
             whereClause += ` AND m.status = $${paramIndex++}`;
             values.push(status);
@@ -42,11 +46,12 @@ export async function messageRoutes(fastify: FastifyInstance) {
             ),
             fastify.db.query(
                 `SELECT m.id, m.phone_e164, m.body_text, m.media_url, m.fallback_used,
-                m.status, m.error, m.attempts, m.queued_at, m.sent_at,
-                c.name as campaign_name, ct.name as contact_name
+                m.status, m.error, m.attempts, m.queued_at, m.sent_at, m.delivered_at, m.read_at,
+                c.name as campaign_name, ct.name as contact_name, s.name as session_name
          FROM messages m
          LEFT JOIN campaigns c ON c.id = m.campaign_id
          LEFT JOIN contacts ct ON ct.id = m.contact_id
+         LEFT JOIN sessions s ON s.id = m.session_id
          WHERE ${whereClause}
          ORDER BY m.created_at DESC LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
                 [...values, limit, offset]
@@ -108,8 +113,10 @@ export async function messageRoutes(fastify: FastifyInstance) {
         COUNT(*) FILTER (WHERE status = 'sending') as sending,
         COUNT(*) FILTER (WHERE status = 'sent') as sent,
         COUNT(*) FILTER (WHERE status = 'delivered') as delivered,
+        COUNT(*) FILTER (WHERE status = 'read') as read,
         COUNT(*) FILTER (WHERE status = 'failed') as failed,
         COUNT(*) FILTER (WHERE status = 'cancelled') as cancelled,
+        COUNT(*) FILTER (WHERE status = 'skipped') as skipped,
         COUNT(*) as total
        FROM messages WHERE ${whereClause}`,
             values
@@ -0,0 +1,261 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { authMiddleware, requirePermission } from '../middlewares/auth.js';
+import {
+    compileSegment,
+    countSegmentSchema,
+    createSegmentSchema,
+    segmentsQuerySchema,
+    updateSegmentSchema,
+    type SegmentDefinition,
+} from '@sms/shared';
+
+export async function segmentRoutes(fastify: FastifyInstance) {
+    fastify.addHook('preHandler', authMiddleware);
+
+    /**
+     * GET /segments - List segments
+     */
+    fastify.get('/', {
+        preHandler: [requirePermission('segments:read')]
+    }, async (request: FastifyRequest) => {
+        const { page, limit, search } = segmentsQuerySchema.parse(request.query);
+        const offset = (page - 1) * limit;
+
+        let whereClause = 's.tenant_id = $1';
+        const values: unknown[] = [request.tenantId];
+        let paramIndex = 2;
+
+        if (search) {
+            whereClause += ` AND (s.name ILIKE $${paramIndex} OR s.description ILIKE $${paramIndex})`;
+            values.push(`%${search}%`);
+            paramIndex++;
+        }
+
+        const [countResult, dataResult] = await Promise.all([
+            fastify.db.query(
+                `SELECT COUNT(*) FROM segments s WHERE ${whereClause}`,
+                values
+            ),
+            fastify.db.query(
+                `SELECT s.id, s.name, s.description, s.definition, s.created_at, s.updated_at,
+                u.name as created_by_name
+         FROM segments s
+         LEFT JOIN users u ON u.id = s.created_by
+         WHERE ${whereClause}
+         ORDER BY s.name LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+                [...values, limit, offset]
+            )
+        ]);
+
+        const total = parseInt(countResult.rows[0].count);
+
+        return {
+            success: true,
+            data: dataResult.rows,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+        };
+    });
+
+    /**
+     * POST /segments/count - Live count for unsaved rules
+     */
+    fastify.post('/count', {
+        preHandler: [requirePermission('segments:read')]
+    }, async (request: FastifyRequest) => {
+        const { definition } = countSegmentSchema.parse(request.body);
+
+        return { success: true, data: await countSegment(fastify, request.tenantId!, definition) };
+    });
+
+    /**
+     * GET /segments/:id - Get segment by ID
+     */
+    fastify.get('/:id', {
+        preHandler: [requirePermission('segments:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            'SELECT * FROM segments WHERE id = $1 AND tenant_id = $2',
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Segment not found' });
+        }
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * GET /segments/:id/count - Contacts matching the segment right now
+     */
+    fastify.get('/:id/count', {
+        preHandler: [requirePermission('segments:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            'SELECT definition FROM segments WHERE id = $1 AND tenant_id = $2',
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Segment not found' });
+        }
+
+        return { success: true, data: await countSegment(fastify, request.tenantId!, result.rows[0].definition) };
+    });
+
+    /**
+     * POST /segments - Create segment
+     */
+    fastify.post('/', {
+        preHandler: [requirePermission('segments:write')]
+    }, async (request: FastifyRequest, reply) => {
+        const body = createSegmentSchema.parse(request.body);
+
+        const existing = await fastify.db.query(
+            'SELECT id FROM segments WHERE tenant_id = $1 AND name = $2',
+            [request.tenantId, body.name]
+        );
+
+        if (existing.rows.length > 0) {
+            return reply.status(409).send({
+                success: false,
+                error: 'A segment with this name already exists'
+            });
+        }
+
+        const result = await fastify.db.query(
+            `INSERT INTO segments (tenant_id, name, description, definition, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+            [request.tenantId, body.name, body.description || null, JSON.stringify(body.definition), request.user!.sub]
+        );
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'create', 'segment', result.rows[0].id,
+            JSON.stringify({ name: body.name, definition: body.definition })]
+        );
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * PATCH /segments/:id - Update segment
+     * Campaigns using it pick up the new rules when they are launched
+     */
+    fastify.patch('/:id', {
+        preHandler: [requirePermission('segments:write')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+        const body = updateSegmentSchema.parse(request.body);
+
+        if (body.name !== undefined) {
+            const existing = await fastify.db.query(
+                'SELECT id FROM segments WHERE tenant_id = $1 AND name = $2 AND id <> $3',
+                [request.tenantId, body.name, id]
+            );
+
+            if (existing.rows.length > 0) {
+                return reply.status(409).send({
+                    success: false,
+                    error: 'A segment with this name already exists'
+                });
+            }
+        }
+
+        const result = await fastify.db.query(
+            `UPDATE segments SET
+         name = COALESCE($3, name),
+         description = CASE WHEN $4::boolean THEN $5 ELSE description END,
+         definition = COALESCE($6, definition)
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING *`,
+            [id, request.tenantId, body.name ?? null, body.description !== undefined, body.description ?? null,
+                body.definition ? JSON.stringify(body.definition) : null]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Segment not found' });
+        }
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'update', 'segment', id, JSON.stringify(body)]
+        );
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * DELETE /segments/:id - Delete segment
+     * Refused while a campaign that has not finished targets it
+     */
+    fastify.delete('/:id', {
+        preHandler: [requirePermission('segments:delete')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const inUse = await fastify.db.query(
+            `SELECT name FROM campaigns
+       WHERE segment_id = $1 AND tenant_id = $2 AND status IN ('draft', 'scheduled', 'running', 'paused')
+       ORDER BY created_at`,
+            [id, request.tenantId]
+        );
+
+        if (inUse.rows.length > 0) {
+            return reply.status(409).send({
+                success: false,
+                error: `Segment is used by campaigns: ${inUse.rows.map(row => row.name).join(', ')}`
+            });
+        }
+
+        const result = await fastify.db.query(
+            'DELETE FROM segments WHERE id = $1 AND tenant_id = $2 RETURNING name',
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Segment not found' });
+        }
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'delete', 'segment', id, JSON.stringify({ name: result.rows[0].name })]
+        );
+
+        return { success: true, message: 'Segment deleted' };
+    });
+}
+
+// Helper functions
+
+/**
+ * Contacts matching a segment; reachable leaves out the opted-out ones,
+ * which campaigns never send to whatever the rules say
+ */
+async function countSegment(
+    fastify: FastifyInstance,
+    tenantId: string,
+    definition: SegmentDefinition
+): Promise<{ total: number; reachable: number }> {
+    const segment = compileSegment(definition, 2);
+
+    const result = await fastify.db.query(
+        `SELECT COUNT(*)::int as total, COUNT(*) FILTER (WHERE opted_out = FALSE)::int as reachable
+     FROM contacts
+     WHERE tenant_id = $1 AND ${segment.sql}`,
+        [tenantId, ...segment.values]
+    );
+
+    return result.rows[0];
+}
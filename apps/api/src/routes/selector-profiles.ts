@@ -0,0 +1,263 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { authMiddleware, requirePermission } from '../middlewares/auth.js';
+import { createSelectorProfileSchema, paginationSchema, DEFAULT_SELECTOR_PROFILE } from '@sms/shared';
+
+export async function selectorProfileRoutes(fastify: FastifyInstance) {
+    fastify.addHook('preHandler', authMiddleware);
+
+    /**
+     * GET /selector-profiles - List profile versions
+     */
+    fastify.get('/', {
+        preHandler: [requirePermission('selectors:read')]
+    }, async (request: FastifyRequest) => {
+        const { page, limit } = paginationSchema.parse(request.query);
+        const offset = (page - 1) * limit;
+
+        const [countResult, dataResult] = await Promise.all([
+            fastify.db.query(
+                'SELECT COUNT(*) FROM selector_profiles WHERE tenant_id = $1',
+                [request.tenantId]
+            ),
+            fastify.db.query(
+                `SELECT sp.id, sp.name, sp.version, sp.notes, sp.is_active, sp.created_at,
+                u.email as created_by_email
+         FROM selector_profiles sp
+         LEFT JOIN users u ON u.id = sp.created_by
+         WHERE sp.tenant_id = $1
+         ORDER BY sp.name, sp.version DESC LIMIT $2 OFFSET $3`,
+                [request.tenantId, limit, offset]
+            )
+        ]);
+
+        const total = parseInt(countResult.rows[0].count);
+
+        return {
+            success: true,
+            data: dataResult.rows,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+        };
+    });
+
+    /**
+     * GET /selector-profiles/active - Profile the worker is currently using
+     * Falls back to the built-in profile when none is active
+     */
+    fastify.get('/active', {
+        preHandler: [requirePermission('selectors:read')]
+    }, async (request: FastifyRequest) => {
+        const result = await fastify.db.query(
+            `SELECT id, name, version, selectors, notes, is_active, created_at
+       FROM selector_profiles WHERE tenant_id = $1 AND is_active`,
+            [request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return {
+                success: true,
+                data: {
+                    id: null,
+                    name: 'built-in',
+                    version: 0,
+                    selectors: DEFAULT_SELECTOR_PROFILE,
+                    notes: null,
+                    is_active: true,
+                    created_at: null
+                }
+            };
+        }
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * GET /selector-profiles/:id - Get a profile version
+     */
+    fastify.get('/:id', {
+        preHandler: [requirePermission('selectors:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            `SELECT id, name, version, selectors, notes, is_active, created_by, created_at
+       FROM selector_profiles WHERE id = $1 AND tenant_id = $2`,
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Selector profile not found' });
+        }
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * POST /selector-profiles - Save a new version of a profile
+     * Versions are immutable; saving under an existing name bumps the version
+     */
+    fastify.post('/', {
+        preHandler: [requirePermission('selectors:write')]
+    }, async (request: FastifyRequest) => {
+        const body = createSelectorProfileSchema.parse(request.body);
+
+        const client = await fastify.db.connect();
+        try {
+            await client.query('BEGIN');
+
+            // Serialize version numbering per tenant/name
+            await client.query(
+                'SELECT pg_advisory_xact_lock(hashtext($1))',
+                [`selector_profiles:${request.tenantId}:${body.name}`]
+            );
+
+            const versionResult = await client.query(
+                `SELECT COALESCE(MAX(version), 0) + 1 as version
+         FROM selector_profiles WHERE tenant_id = $1 AND name = $2`,
+                [request.tenantId, body.name]
+            );
+
+            if (body.activate) {
+                // Serialize activations per tenant, so two cannot both see the old active profile
+                await client.query(
+                    'SELECT pg_advisory_xact_lock(hashtext($1))',
+                    [`selector_profiles:${request.tenantId}:active`]
+                );
+
+                await client.query(
+                    'UPDATE selector_profiles SET is_active = FALSE WHERE tenant_id = $1 AND is_active',
+                    [request.tenantId]
+                );
+            }
+
+            const result = await client.query(
+                `INSERT INTO selector_profiles (tenant_id, name, version, selectors, notes, is_active, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id, name, version, selectors, notes, is_active, created_at`,
+                [request.tenantId, body.name, versionResult.rows[0].version,
+                JSON.stringify(body.selectors), body.notes || null, body.activate, request.user!.sub]
+            );
+
+            await client.query(
+                `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+                [request.tenantId, request.user!.sub, 'create', 'selector_profile', result.rows[0].id,
+                JSON.stringify({ name: body.name, version: result.rows[0].version, activated: body.activate })]
+            );
+
+            await client.query('COMMIT');
+
+            return { success: true, data: result.rows[0] };
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+    });
+
+    /**
+     * POST /selector-profiles/:id/activate - Hot-swap the active profile
+     * The worker picks it up on its next refresh, no restart needed
+     */
+    fastify.post('/:id/activate', {
+        preHandler: [requirePermission('selectors:write')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const client = await fastify.db.connect();
+        try {
+            await client.query('BEGIN');
+
+            // Serialize activations per tenant, so two cannot both see the old active profile
+            await client.query(
+                'SELECT pg_advisory_xact_lock(hashtext($1))',
+                [`selector_profiles:${request.tenantId}:active`]
+            );
+
+            const existing = await client.query(
+                'SELECT id, name, version FROM selector_profiles WHERE id = $1 AND tenant_id = $2',
+                [id, request.tenantId]
+            );
+
+            if (existing.rows.length === 0) {
+                await client.query('ROLLBACK');
+                return reply.status(404).send({ success: false, error: 'Selector profile not found' });
+            }
+
+            await client.query(
+                'UPDATE selector_profiles SET is_active = FALSE WHERE tenant_id = $1 AND is_active',
+                [request.tenantId]
+            );
+
+            await client.query(
+                'UPDATE selector_profiles SET is_active = TRUE WHERE id = $1',
+                [id]
+            );
+
+            await client.query(
+                `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+                [request.tenantId, request.user!.sub, 'activate', 'selector_profile', id,
+                JSON.stringify({ name: existing.rows[0].name, version: existing.rows[0].version })]
+            );
+
+            await client.query('COMMIT');
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+
+        return { success: true, message: 'Selector profile activated' };
+    });
+
+    /**
+     * POST /selector-profiles/deactivate - Revert to the built-in profile
+     */
+    fastify.post('/deactivate', {
+        preHandler: [requirePermission('selectors:write')]
+    }, async (request: FastifyRequest) => {
+        await fastify.db.query(
+            'UPDATE selector_profiles SET is_active = FALSE WHERE tenant_id = $1 AND is_active',
+            [request.tenantId]
+        );
+
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type)
+       VALUES ($1, $2, $3, $4)`,
+            [request.tenantId, request.user!.sub, 'deactivate', 'selector_profile']
+        );
+
+        return { success: true, message: 'Reverted to built-in selector profile' };
+    });
+
+    /**
+     * DELETE /selector-profiles/:id - Delete an inactive profile version
+     */
+    fastify.delete('/:id', {
+        preHandler: [requirePermission('selectors:write')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const existing = await fastify.db.query(
+            'SELECT id, is_active FROM selector_profiles WHERE id = $1 AND tenant_id = $2',
+            [id, request.tenantId]
+        );
+
+        if (existing.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Selector profile not found' });
+        }
+
+        if (existing.rows[0].is_active) {
+            return reply.status(409).send({
+                success: false,
+                error: 'Cannot delete the active selector profile. Activate another one first.'
+            });
+        }
+
+        await fastify.db.query('DELETE FROM selector_profiles WHERE id = $1', [id]);
+
+        return { success: true, message: 'Selector profile deleted' };
+    });
+}
@@ -1,5 +1,7 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { randomUUID } from 'crypto';
 import { authMiddleware, requirePermission } from '../middlewares/auth.js';
+import { createSessionSchema, updateSessionSchema } from '@sms/shared';
 
 // Store active SSE connections by tenant
 const sseConnections = new Map<string, FastifyReply[]>();
@@ -8,46 +10,215 @@ export async function sessionRoutes(fastify: FastifyInstance) {
     fastify.addHook('preHandler', authMiddleware);
 
     /**
-     * GET /sessions - Get current session status
+     * GET /sessions - List the tenant's sessions with their pending load
      */
     fastify.get('/', {
         preHandler: [requirePermission('sessions:read')]
     }, async (request: FastifyRequest) => {
         const result = await fastify.db.query(
-            `SELECT id, status, last_seen_at, error_message, created_at, updated_at
-       FROM sessions WHERE tenant_id = $1`,
+            `SELECT s.id, s.name, s.status, s.last_seen_at, s.error_message,
+              s.max_per_minute, s.max_per_hour, s.max_per_day, s.created_at, s.updated_at,
+              (SELECT COUNT(*) FROM messages m
+               WHERE m.session_id = s.id AND m.status IN ('queued', 'sending'))::int as pending_messages
+       FROM sessions s WHERE s.tenant_id = $1
+       ORDER BY s.created_at`,
             [request.tenantId]
         );
 
         return {
             success: true,
-            data: result.rows[0] || null
+            data: result.rows
         };
     });
 
     /**
-     * POST /sessions/connect - Request to connect/reconnect session
+     * POST /sessions - Create a named session (one per phone)
      */
-    fastify.post('/connect', {
+    fastify.post('/', {
         preHandler: [requirePermission('sessions:write')]
-    }, async (request: FastifyRequest) => {
-        // Update session status to needs-qr
+    }, async (request: FastifyRequest, reply) => {
+        const body = createSessionSchema.parse(request.body);
+
+        const existing = await fastify.db.query(
+            'SELECT id FROM sessions WHERE tenant_id = $1 AND name = $2',
+            [request.tenantId, body.name]
+        );
+
+        if (existing.rows.length > 0) {
+            return reply.status(409).send({
+                success: false,
+                error: 'A session with this name already exists'
+            });
+        }
+
+        // Each session gets its own browser profile directory
+        const id = randomUUID();
+
+        const result = await fastify.db.query(
+            `INSERT INTO sessions (id, tenant_id, name, status, storage_path)
+       VALUES ($1, $2, $3, 'disconnected', $4)
+       RETURNING id, name, status, last_seen_at, error_message, max_per_minute, max_per_hour, max_per_day, created_at, updated_at`,
+            [id, request.tenantId, body.name, id]
+        );
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'create', 'session', id, JSON.stringify({ name: body.name })]
+        );
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * PATCH /sessions/:id - Rename session or change its send caps
+     */
+    fastify.patch('/:id', {
+        preHandler: [requirePermission('sessions:write')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+        const body = updateSessionSchema.parse(request.body);
+
+        if (body.name !== undefined) {
+            const existing = await fastify.db.query(
+                'SELECT id FROM sessions WHERE tenant_id = $1 AND name = $2 AND id <> $3',
+                [request.tenantId, body.name, id]
+            );
+
+            if (existing.rows.length > 0) {
+                return reply.status(409).send({
+                    success: false,
+                    error: 'A session with this name already exists'
+                });
+            }
+        }
+
+        const updates: string[] = [];
+        const values: unknown[] = [];
+        let paramIndex = 1;
+
+        const fieldMap: Record<string, string> = {
+            name: 'name',
+            maxPerMinute: 'max_per_minute',
+            maxPerHour: 'max_per_hour',
+            maxPerDay: 'max_per_day',
+        };
+
+        for (const [key, column] of Object.entries(fieldMap)) {
+            if ((body as Record<string, unknown>)[key] !== undefined) {
+                updates.push(`${column} = $${paramIndex++}`);
+                values.push((body as Record<string, unknown>)[key]);
+            }
+        }
+
+        if (updates.length === 0) {
+            return { success: true, message: 'No updates provided' };
+        }
+
+        updates.push('updated_at = NOW()');
+        values.push(id, request.tenantId);
+
+        const result = await fastify.db.query(
+            `UPDATE sessions SET ${updates.join(', ')}
+       WHERE id = $${paramIndex++} AND tenant_id = $${paramIndex}
+       RETURNING id, name, status, last_seen_at, error_message, max_per_minute, max_per_hour, max_per_day, created_at, updated_at`,
+            values
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Session not found' });
+        }
+
+        // Audit log
         await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'update', 'session', id, JSON.stringify(body)]
+        );
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * DELETE /sessions/:id - Delete a disconnected session
+     */
+    fastify.delete('/:id', {
+        preHandler: [requirePermission('sessions:write')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const existing = await fastify.db.query(
+            'SELECT id, name, status FROM sessions WHERE id = $1 AND tenant_id = $2',
+            [id, request.tenantId]
+        );
+
+        if (existing.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Session not found' });
+        }
+
+        if (existing.rows[0].status !== 'disconnected') {
+            return reply.status(409).send({
+                success: false,
+                error: 'Disconnect the session before deleting it'
+            });
+        }
+
+        const pending = await fastify.db.query(
+            `SELECT COUNT(*) FROM messages WHERE session_id = $1 AND status IN ('queued', 'sending')`,
+            [id]
+        );
+
+        if (parseInt(pending.rows[0].count) > 0) {
+            return reply.status(409).send({
+                success: false,
+                error: 'Session still has queued messages'
+            });
+        }
+
+        await fastify.db.query('DELETE FROM sessions WHERE id = $1', [id]);
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'delete', 'session', id, JSON.stringify({ name: existing.rows[0].name })]
+        );
+
+        return { success: true, message: 'Session deleted' };
+    });
+
+    /**
+     * POST /sessions/:id/connect - Request to connect/reconnect session
+     */
+    fastify.post('/:id/connect', {
+        preHandler: [requirePermission('sessions:write')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        // Update session status to needs-qr
+        const result = await fastify.db.query(
             `UPDATE sessions SET status = 'needs-qr', error_message = NULL, updated_at = NOW()
-       WHERE tenant_id = $1`,
-            [request.tenantId]
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING id`,
+            [id, request.tenantId]
         );
 
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Session not found' });
+        }
+
         // Queue a job for the worker to initiate connection
         await fastify.queue.send('session-connect', {
-            tenantId: request.tenantId
+            tenantId: request.tenantId,
+            sessionId: id
         });
 
         // Audit log
         await fastify.db.query(
-            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type)
-       VALUES ($1, $2, $3, $4)`,
-            [request.tenantId, request.user!.sub, 'session_connect_request', 'session']
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id)
+       VALUES ($1, $2, $3, $4, $5)`,
+            [request.tenantId, request.user!.sub, 'session_connect_request', 'session', id]
         );
 
         return {
@@ -57,27 +228,35 @@ export async function sessionRoutes(fastify: FastifyInstance) {
     });
 
     /**
-     * POST /sessions/disconnect - Disconnect session
+     * POST /sessions/:id/disconnect - Disconnect session
      */
-    fastify.post('/disconnect', {
+    fastify.post('/:id/disconnect', {
         preHandler: [requirePermission('sessions:write')]
-    }, async (request: FastifyRequest) => {
-        await fastify.db.query(
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
             `UPDATE sessions SET status = 'disconnected', updated_at = NOW()
-       WHERE tenant_id = $1`,
-            [request.tenantId]
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING id`,
+            [id, request.tenantId]
         );
 
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Session not found' });
+        }
+
         // Queue a job for the worker to close browser
         await fastify.queue.send('session-disconnect', {
-            tenantId: request.tenantId
+            tenantId: request.tenantId,
+            sessionId: id
         });
 
         // Audit log
         await fastify.db.query(
-            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type)
-       VALUES ($1, $2, $3, $4)`,
-            [request.tenantId, request.user!.sub, 'session_disconnect', 'session']
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id)
+       VALUES ($1, $2, $3, $4, $5)`,
+            [request.tenantId, request.user!.sub, 'session_disconnect', 'session', id]
         );
 
         return {
@@ -88,6 +267,7 @@ export async function sessionRoutes(fastify: FastifyInstance) {
 
     /**
      * GET /sessions/qr/stream - SSE stream for QR code updates
+     * Carries events for every session of the tenant, tagged with sessionId
      */
     fastify.get('/qr/stream', {
         preHandler: [requirePermission('sessions:read')]
@@ -111,15 +291,14 @@ export async function sessionRoutes(fastify: FastifyInstance) {
         }
         sseConnections.get(tenantId)!.push(reply);
 
-        // Send current session status
+        // Send current status of each session
         const result = await fastify.db.query(
-            'SELECT status, qr_code FROM sessions WHERE tenant_id = $1',
+            'SELECT id, status, qr_code FROM sessions WHERE tenant_id = $1',
             [tenantId]
         );
 
-        if (result.rows[0]) {
-            const { status, qr_code } = result.rows[0];
-            reply.raw.write(`event: status\ndata: ${JSON.stringify({ status, qrCode: qr_code })}\n\n`);
+        for (const { id, status, qr_code } of result.rows) {
+            reply.raw.write(`event: status\ndata: ${JSON.stringify({ sessionId: id, status, qrCode: qr_code })}\n\n`);
         }
 
         // Keep-alive ping every 30 seconds
@@ -159,6 +338,7 @@ export async function sessionRoutes(fastify: FastifyInstance) {
 
         const body = request.body as {
             tenantId: string;
+            sessionId: string;
             status?: string;
             qrCode?: string | null;
             errorMessage?: string | null;
@@ -184,10 +364,10 @@ export async function sessionRoutes(fastify: FastifyInstance) {
             updates.push(`last_seen_at = NOW()`);
         }
 
-        values.push(body.tenantId);
+        values.push(body.sessionId, body.tenantId);
 
         await fastify.db.query(
-            `UPDATE sessions SET ${updates.join(', ')} WHERE tenant_id = $${paramIndex}`,
+            `UPDATE sessions SET ${updates.join(', ')} WHERE id = $${paramIndex++} AND tenant_id = $${paramIndex}`,
             values
         );
 
@@ -195,6 +375,7 @@ export async function sessionRoutes(fastify: FastifyInstance) {
         const connections = sseConnections.get(body.tenantId);
         if (connections) {
             const eventData = JSON.stringify({
+                sessionId: body.sessionId,
                 status: body.status,
                 qrCode: body.qrCode,
                 errorMessage: body.errorMessage
@@ -0,0 +1,296 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { authMiddleware, requirePermission } from '../middlewares/auth.js';
+import { createTemplateSchema, updateTemplateSchema, templatesQuerySchema } from '@sms/shared';
+
+export async function templateRoutes(fastify: FastifyInstance) {
+    fastify.addHook('preHandler', authMiddleware);
+
+    /**
+     * GET /templates - List templates, filtered by name or tag
+     */
+    fastify.get('/', {
+        preHandler: [requirePermission('templates:read')]
+    }, async (request: FastifyRequest) => {
+        const { page, limit, search, tag } = templatesQuerySchema.parse(request.query);
+        const offset = (page - 1) * limit;
+
+        let whereClause = 't.tenant_id = $1';
+        const values: unknown[] = [request.tenantId];
+        let paramIndex = 2;
+
+        if (search) {
+            whereClause += ` AND (t.name ILIKE $${paramIndex} OR t.body_text ILIKE $${paramIndex})`;
+            values.push(`%${search}%`);
+            paramIndex++;
+        }
+
+        if (tag) {
+            whereClause += ` AND $${paramIndex} = ANY(t.tags)`;
+            values.push(tag);
+            paramIndex++;
+        }
+
+        const [countResult, dataResult] = await Promise.all([
+            fastify.db.query(
+                `SELECT COUNT(*) FROM templates t WHERE ${whereClause}`,
+                values
+            ),
+            fastify.db.query(
+                `SELECT t.id, t.name, t.body_text, t.media_id, t.tags, t.version, t.created_at, t.updated_at,
+                m.url as media_url, m.original_filename as media_filename
+         FROM templates t
+         LEFT JOIN media m ON m.id = t.media_id
+         WHERE ${whereClause}
+         ORDER BY t.name LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+                [...values, limit, offset]
+            )
+        ]);
+
+        const total = parseInt(countResult.rows[0].count);
+
+        return {
+            success: true,
+            data: dataResult.rows,
+            pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+        };
+    });
+
+    /**
+     * GET /templates/:id - Get template by ID
+     */
+    fastify.get('/:id', {
+        preHandler: [requirePermission('templates:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            `SELECT t.*, m.url as media_url, m.original_filename as media_filename
+       FROM templates t
+       LEFT JOIN media m ON m.id = t.media_id
+       WHERE t.id = $1 AND t.tenant_id = $2`,
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Template not found' });
+        }
+
+        return { success: true, data: result.rows[0] };
+    });
+
+    /**
+     * GET /templates/:id/versions - Every saved version, newest first
+     */
+    fastify.get('/:id/versions', {
+        preHandler: [requirePermission('templates:read')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const existing = await fastify.db.query(
+            'SELECT id FROM templates WHERE id = $1 AND tenant_id = $2',
+            [id, request.tenantId]
+        );
+
+        if (existing.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Template not found' });
+        }
+
+        const result = await fastify.db.query(
+            `SELECT v.id, v.version, v.body_text, v.media_id, v.created_at,
+              m.url as media_url, u.name as created_by_name
+       FROM template_versions v
+       LEFT JOIN media m ON m.id = v.media_id
+       LEFT JOIN users u ON u.id = v.created_by
+       WHERE v.template_id = $1
+       ORDER BY v.version DESC`,
+            [id]
+        );
+
+        return { success: true, data: result.rows };
+    });
+
+    /**
+     * POST /templates - Create template (version 1)
+     */
+    fastify.post('/', {
+        preHandler: [requirePermission('templates:write')]
+    }, async (request: FastifyRequest, reply) => {
+        const body = createTemplateSchema.parse(request.body);
+
+        const existing = await fastify.db.query(
+            'SELECT id FROM templates WHERE tenant_id = $1 AND name = $2',
+            [request.tenantId, body.name]
+        );
+
+        if (existing.rows.length > 0) {
+            return reply.status(409).send({
+                success: false,
+                error: 'A template with this name already exists'
+            });
+        }
+
+        if (body.mediaId && !await mediaExists(fastify, body.mediaId, request.tenantId!)) {
+            return reply.status(404).send({ success: false, error: 'Media not found' });
+        }
+
+        const client = await fastify.db.connect();
+        try {
+            await client.query('BEGIN');
+
+            const result = await client.query(
+                `INSERT INTO templates (tenant_id, name, body_text, media_id, tags, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id, name, body_text, media_id, tags, version, created_at, updated_at`,
+                [request.tenantId, body.name, body.bodyText, body.mediaId || null, body.tags, request.user!.sub]
+            );
+            const template = result.rows[0];
+
+            await client.query(
+                `INSERT INTO template_versions (template_id, version, body_text, media_id, created_by)
+         VALUES ($1, $2, $3, $4, $5)`,
+                [template.id, template.version, template.body_text, template.media_id, request.user!.sub]
+            );
+
+            await client.query(
+                `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+                [request.tenantId, request.user!.sub, 'create', 'template', template.id,
+                JSON.stringify({ name: body.name })]
+            );
+
+            await client.query('COMMIT');
+
+            return { success: true, data: template };
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+    });
+
+    /**
+     * PATCH /templates/:id - Update template
+     * A new text or image saves a new version; renaming and retagging do not
+     */
+    fastify.patch('/:id', {
+        preHandler: [requirePermission('templates:write')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+        const body = updateTemplateSchema.parse(request.body);
+
+        if (body.name !== undefined) {
+            const existing = await fastify.db.query(
+                'SELECT id FROM templates WHERE tenant_id = $1 AND name = $2 AND id <> $3',
+                [request.tenantId, body.name, id]
+            );
+
+            if (existing.rows.length > 0) {
+                return reply.status(409).send({
+                    success: false,
+                    error: 'A template with this name already exists'
+                });
+            }
+        }
+
+        if (body.mediaId && !await mediaExists(fastify, body.mediaId, request.tenantId!)) {
+            return reply.status(404).send({ success: false, error: 'Media not found' });
+        }
+
+        const client = await fastify.db.connect();
+        try {
+            await client.query('BEGIN');
+
+            const current = await client.query(
+                'SELECT * FROM templates WHERE id = $1 AND tenant_id = $2 FOR UPDATE',
+                [id, request.tenantId]
+            );
+
+            if (current.rows.length === 0) {
+                await client.query('ROLLBACK');
+                return reply.status(404).send({ success: false, error: 'Template not found' });
+            }
+
+            const template = current.rows[0];
+            const bodyText = body.bodyText ?? template.body_text;
+            const mediaId = body.mediaId !== undefined ? body.mediaId : template.media_id;
+
+            if (bodyText.trim() === '' && !mediaId) {
+                await client.query('ROLLBACK');
+                return reply.status(400).send({ success: false, error: 'Template needs a text or an image' });
+            }
+
+            const changed = bodyText !== template.body_text || mediaId !== template.media_id;
+            const version = changed ? template.version + 1 : template.version;
+
+            const result = await client.query(
+                `UPDATE templates SET name = $2, body_text = $3, media_id = $4, tags = $5, version = $6
+         WHERE id = $1
+         RETURNING id, name, body_text, media_id, tags, version, created_at, updated_at`,
+                [id, body.name ?? template.name, bodyText, mediaId, body.tags ?? template.tags, version]
+            );
+
+            if (changed) {
+                await client.query(
+                    `INSERT INTO template_versions (template_id, version, body_text, media_id, created_by)
+           VALUES ($1, $2, $3, $4, $5)`,
+                    [id, version, bodyText, mediaId, request.user!.sub]
+                );
+            }
+
+            await client.query(
+                `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+                [request.tenantId, request.user!.sub, 'update', 'template', id,
+                JSON.stringify({ ...body, version })]
+            );
+
+            await client.query('COMMIT');
+
+            return { success: true, data: result.rows[0] };
+        } catch (err) {
+            await client.query('ROLLBACK');
+            throw err;
+        } finally {
+            client.release();
+        }
+    });
+
+    /**
+     * DELETE /templates/:id - Delete template
+     * Campaigns created from it keep their own copy of the text
+     */
+    fastify.delete('/:id', {
+        preHandler: [requirePermission('templates:delete')]
+    }, async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+        const { id } = request.params;
+
+        const result = await fastify.db.query(
+            'DELETE FROM templates WHERE id = $1 AND tenant_id = $2 RETURNING name',
+            [id, request.tenantId]
+        );
+
+        if (result.rows.length === 0) {
+            return reply.status(404).send({ success: false, error: 'Template not found' });
+        }
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'delete', 'template', id, JSON.stringify({ name: result.rows[0].name })]
+        );
+
+        return { success: true, message: 'Template deleted' };
+    });
+}
+
+// Helper functions
+async function mediaExists(fastify: FastifyInstance, mediaId: string, tenantId: string): Promise<boolean> {
+    const result = await fastify.db.query(
+        'SELECT id FROM media WHERE id = $1 AND tenant_id = $2',
+        [mediaId, tenantId]
+    );
+
+    return result.rows.length > 0;
+}
@@ -1,6 +1,15 @@
 import type { FastifyInstance, FastifyRequest } from 'fastify';
 import { authMiddleware, requireRole } from '../middlewares/auth.js';
-import { createTenantSchema, updateTenantSchema } from '@sms/shared';
+import {
+    createTenantSchema,
+    updateTenantSchema,
+    optOutSettingsSchema,
+    resolveOptOutSettings,
+    frequencyCapSettingsSchema,
+    resolveFrequencyCapSettings,
+    phoneSettingsSchema,
+    resolvePhoneSettings,
+} from '@sms/shared';
 
 export async function tenantRoutes(fastify: FastifyInstance) {
     // All routes require authentication
@@ -69,4 +78,136 @@ export async function tenantRoutes(fastify: FastifyInstance) {
             data: result.rows[0]
         };
     });
+
+    /**
+     * GET /tenants/me/opt-out - Get keyword opt-out settings
+     */
+    fastify.get('/me/opt-out', async (request: FastifyRequest) => {
+        const result = await fastify.db.query(
+            'SELECT settings FROM tenants WHERE id = $1',
+            [request.tenantId]
+        );
+
+        return {
+            success: true,
+            data: resolveOptOutSettings(result.rows[0]?.settings)
+        };
+    });
+
+    /**
+     * PUT /tenants/me/opt-out - Replace keyword opt-out settings
+     * Other tenant settings are kept as they are
+     */
+    fastify.put('/me/opt-out', {
+        preHandler: [requireRole('owner', 'admin')]
+    }, async (request: FastifyRequest) => {
+        const body = optOutSettingsSchema.parse(request.body);
+
+        const result = await fastify.db.query(
+            `UPDATE tenants SET settings = jsonb_set(COALESCE(settings, '{}'::jsonb), '{optOut}', $2::jsonb)
+       WHERE id = $1
+       RETURNING settings`,
+            [request.tenantId, JSON.stringify(body)]
+        );
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details) 
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'update_opt_out', 'tenant', request.tenantId, JSON.stringify(body)]
+        );
+
+        return {
+            success: true,
+            data: resolveOptOutSettings(result.rows[0].settings)
+        };
+    });
+
+    /**
+     * GET /tenants/me/frequency-cap - Get per-contact frequency caps
+     */
+    fastify.get('/me/frequency-cap', async (request: FastifyRequest) => {
+        const result = await fastify.db.query(
+            'SELECT settings FROM tenants WHERE id = $1',
+            [request.tenantId]
+        );
+
+        return {
+            success: true,
+            data: resolveFrequencyCapSettings(result.rows[0]?.settings)
+        };
+    });
+
+    /**
+     * PUT /tenants/me/frequency-cap - Replace per-contact frequency caps
+     * Applies to campaign messages not yet sent, including running campaigns
+     */
+    fastify.put('/me/frequency-cap', {
+        preHandler: [requireRole('owner', 'admin')]
+    }, async (request: FastifyRequest) => {
+        const body = frequencyCapSettingsSchema.parse(request.body);
+
+        const result = await fastify.db.query(
+            `UPDATE tenants SET settings = jsonb_set(COALESCE(settings, '{}'::jsonb), '{frequencyCap}', $2::jsonb)
+       WHERE id = $1
+       RETURNING settings`,
+            [request.tenantId, JSON.stringify(body)]
+        );
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details) 
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'update_frequency_cap', 'tenant', request.tenantId, JSON.stringify(body)]
+        );
+
+        return {
+            success: true,
+            data: resolveFrequencyCapSettings(result.rows[0].settings)
+        };
+    });
+
+    /**
+     * GET /tenants/me/phone - Get phone number settings
+     */
+    fastify.get('/me/phone', async (request: FastifyRequest) => {
+        const result = await fastify.db.query(
+            'SELECT settings FROM tenants WHERE id = $1',
+            [request.tenantId]
+        );
+
+        return {
+            success: true,
+            data: resolvePhoneSettings(result.rows[0]?.settings)
+        };
+    });
+
+    /**
+     * PUT /tenants/me/phone - Replace phone number settings
+     * Only numbers entered from now on are read with the new default country
+     */
+    fastify.put('/me/phone', {
+        preHandler: [requireRole('owner', 'admin')]
+    }, async (request: FastifyRequest) => {
+        const body = phoneSettingsSchema.parse(request.body);
+
+        const result = await fastify.db.query(
+            `UPDATE tenants SET settings = jsonb_set(COALESCE(settings, '{}'::jsonb), '{phone}', $2::jsonb)
+       WHERE id = $1
+       RETURNING settings`,
+            [request.tenantId, JSON.stringify(body)]
+        );
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, user_id, action, resource_type, resource_id, details) 
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [request.tenantId, request.user!.sub, 'update_phone_settings', 'tenant', request.tenantId, JSON.stringify(body)]
+        );
+
+        return {
+            success: true,
+            data: resolvePhoneSettings(result.rows[0].settings)
+        };
+    });
 }
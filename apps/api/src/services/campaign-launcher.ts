@@ -0,0 +1,243 @@
+import type { FastifyInstance } from 'fastify';
+import { campaignTarget, compileAudience, nextWindowOpening, type SenderCandidate } from '@sms/shared';
+
+export type LaunchResult =
+    | { success: true; recipients: number; senders: string[]; windowOpensAt: Date | null }
+    | { success: false; statusCode: number; error: string };
+
+export type ResumeResult =
+    | { success: true; requeued: number; senders: string[]; windowOpensAt: Date | null }
+    | { success: false; statusCode: number; error: string };
+
+/**
+ * Start a campaign: check a sender is connected and the audience is not
+ * empty, then hand the expansion into messages to the worker's
+ * expand-campaign job, which inserts and queues them in batches.
+ * Used by POST /campaigns/:id/start and by the scheduled launcher.
+ */
+export async function launchCampaign(
+    fastify: FastifyInstance,
+    campaignId: string,
+    tenantId: string
+): Promise<LaunchResult> {
+    const campaign = await fastify.db.query(
+        `SELECT c.*, s.definition as segment_definition
+     FROM campaigns c
+     LEFT JOIN segments s ON s.id = c.segment_id
+     WHERE c.id = $1 AND c.tenant_id = $2`,
+        [campaignId, tenantId]
+    );
+
+    if (campaign.rows.length === 0) {
+        return { success: false, statusCode: 404, error: 'Campaign not found' };
+    }
+
+    const camp = campaign.rows[0];
+
+    // Paused campaigns already have their messages; they resume instead
+    if (!['draft', 'scheduled'].includes(camp.status)) {
+        return { success: false, statusCode: 409, error: `Cannot start campaign with status '${camp.status}'` };
+    }
+
+    const senders = await connectedSenders(fastify, tenantId, camp.sender_pool || []);
+
+    if (senders.length === 0) {
+        return { success: false, statusCode: 409, error: 'No Google Messages session in the sender pool is connected' };
+    }
+
+    // Count target contacts; the worker selects them again batch by batch
+    const target = compileAudience(campaignTarget(camp), 2);
+    const audience = await fastify.db.query(
+        `SELECT COUNT(*) FROM contacts WHERE tenant_id = $1 AND ${target.sql}`,
+        [tenantId, ...target.values]
+    );
+    const recipients = parseInt(audience.rows[0].count);
+
+    if (recipients === 0) {
+        return { success: false, statusCode: 400, error: 'No contacts match the campaign criteria' };
+    }
+
+    const windowOpensAt = windowOpening(camp);
+
+    // Update campaign status
+    const started = await fastify.db.query(
+        `UPDATE campaigns SET status = 'running', started_at = NOW(), total_recipients = $1,
+        window_opens_at = $2, launch_error = NULL,
+        expansion_status = 'pending', expanded_count = 0, expansion_cursor = NULL, expansion_error = NULL
+     WHERE id = $3 AND status IN ('draft', 'scheduled')
+     RETURNING id`,
+        [recipients, windowOpensAt, campaignId]
+    );
+
+    if (started.rows.length === 0) {
+        return { success: false, statusCode: 409, error: 'Campaign was already started' };
+    }
+
+    await queueExpansion(fastify, tenantId, campaignId);
+
+    return {
+        success: true,
+        recipients,
+        senders: senders.map(sender => sender.id),
+        windowOpensAt,
+    };
+}
+
+/**
+ * Resume a paused campaign; the worker's resume-campaign job queues its
+ * unsent messages again. Nothing is re-expanded: only messages still
+ * 'queued' get a new job.
+ */
+export async function resumeCampaign(
+    fastify: FastifyInstance,
+    campaignId: string,
+    tenantId: string
+): Promise<ResumeResult> {
+    const campaign = await fastify.db.query(
+        'SELECT * FROM campaigns WHERE id = $1 AND tenant_id = $2',
+        [campaignId, tenantId]
+    );
+
+    if (campaign.rows.length === 0) {
+        return { success: false, statusCode: 404, error: 'Campaign not found' };
+    }
+
+    const camp = campaign.rows[0];
+
+    if (camp.status !== 'paused') {
+        return { success: false, statusCode: 409, error: `Cannot resume campaign with status '${camp.status}'` };
+    }
+
+    const senders = await connectedSenders(fastify, tenantId, camp.sender_pool || []);
+
+    if (senders.length === 0) {
+        return { success: false, statusCode: 409, error: 'No Google Messages session in the sender pool is connected' };
+    }
+
+    const windowOpensAt = windowOpening(camp);
+
+    const resumed = await fastify.db.query(
+        `UPDATE campaigns SET status = 'running', window_opens_at = $2
+     WHERE id = $1 AND status = 'paused'
+     RETURNING id`,
+        [campaignId, windowOpensAt]
+    );
+
+    if (resumed.rows.length === 0) {
+        return { success: false, statusCode: 409, error: 'Campaign is no longer paused' };
+    }
+
+    // The worker queues the unsent messages again and finishes an interrupted expansion
+    await fastify.queue.send('resume-campaign', { tenantId, campaignId }, {
+        singletonKey: `resume-campaign:${campaignId}`,
+        retryLimit: 5,
+        retryDelay: 30,
+        retryBackoff: true
+    });
+
+    const pending = await fastify.db.query(
+        `SELECT COUNT(*) FROM messages WHERE campaign_id = $1 AND status = 'queued'`,
+        [campaignId]
+    );
+
+    return {
+        success: true,
+        requeued: parseInt(pending.rows[0].count),
+        senders: senders.map(sender => sender.id),
+        windowOpensAt,
+    };
+}
+
+/**
+ * Start every scheduled campaign whose schedule_at has passed
+ * A campaign that cannot start goes back to draft with the reason in launch_error.
+ */
+export async function launchDueCampaigns(fastify: FastifyInstance): Promise<void> {
+    const due = await fastify.db.query(
+        `SELECT id, tenant_id FROM campaigns
+     WHERE status = 'scheduled' AND schedule_at <= NOW()
+     ORDER BY schedule_at
+     LIMIT 20`
+    );
+
+    for (const { id, tenant_id: tenantId } of due.rows) {
+        let result: LaunchResult;
+
+        try {
+            result = await launchCampaign(fastify, id, tenantId);
+        } catch (err) {
+            fastify.log.error(err, `Scheduled launch of campaign ${id} failed`);
+            result = { success: false, statusCode: 500, error: err instanceof Error ? err.message : 'Unknown error' };
+        }
+
+        if (!result.success) {
+            await fastify.db.query(
+                `UPDATE campaigns SET status = 'draft', launch_error = $2
+         WHERE id = $1 AND status = 'scheduled'`,
+                [id, result.error]
+            );
+        }
+
+        // Audit log
+        await fastify.db.query(
+            `INSERT INTO audit_logs (tenant_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5)`,
+            [tenantId, result.success ? 'scheduled_start' : 'scheduled_start_failed', 'campaign', id,
+                JSON.stringify(result.success
+                    ? { recipients: result.recipients, senders: result.senders, windowOpensAt: result.windowOpensAt }
+                    : { error: result.error })]
+        );
+
+        fastify.log.info(result.success
+            ? `Scheduled campaign ${id} started with ${result.recipients} recipients`
+            : `Scheduled campaign ${id} could not start: ${result.error}`);
+    }
+}
+
+// Helper functions
+
+/**
+ * Queue the expand-campaign job; one per campaign at a time
+ */
+async function queueExpansion(fastify: FastifyInstance, tenantId: string, campaignId: string): Promise<void> {
+    await fastify.queue.send('expand-campaign', { tenantId, campaignId }, {
+        singletonKey: `expand-campaign:${campaignId}`,
+        retryLimit: 5,
+        retryDelay: 30,
+        retryBackoff: true
+    });
+}
+
+/**
+ * Connected sessions in the sender pool, with the messages already waiting on each
+ */
+async function connectedSenders(
+    fastify: FastifyInstance,
+    tenantId: string,
+    senderPool: string[]
+): Promise<SenderCandidate[]> {
+    const result = await fastify.db.query<SenderCandidate>(
+        `SELECT s.id,
+            (SELECT COUNT(*) FROM messages m
+             WHERE m.session_id = s.id AND m.status IN ('queued', 'sending'))::int as load
+     FROM sessions s
+     WHERE s.tenant_id = $1 AND s.status = 'connected'
+       AND (cardinality($2::uuid[]) = 0 OR s.id = ANY($2::uuid[]))
+     ORDER BY s.created_at`,
+        [tenantId, senderPool]
+    );
+
+    return result.rows;
+}
+
+/**
+ * When the campaign's send window next opens, or null if it is open now
+ */
+function windowOpening(camp: Record<string, any>): Date | null {
+    return nextWindowOpening({
+        start: camp.window_start,
+        end: camp.window_end,
+        timezone: camp.timezone,
+        days: camp.window_days || [],
+    });
+}
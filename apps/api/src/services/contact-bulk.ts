@@ -0,0 +1,170 @@
+import type { FastifyInstance } from 'fastify';
+import { cancelQueuedMessages, type BulkContactsJob, type ContactBulkAction, type ContactBulkOperation, type ContactBulkSelection } from '@sms/shared';
+import { contactFilters } from './contact-filters.js';
+
+export const BULK_JOB = 'bulk-contacts';
+
+// Selections up to this size run within the request; larger ones are queued
+export const BULK_INLINE_LIMIT = 1000;
+
+// Contacts changed per statement
+const BATCH_SIZE = 1000;
+
+/**
+ * WHERE clause over contacts for a bulk selection
+ */
+export function selectionFilter(tenantId: string, selection: ContactBulkSelection): { whereClause: string; values: unknown[] } {
+    if ('contactIds' in selection) {
+        return { whereClause: 'tenant_id = $1 AND id = ANY($2)', values: [tenantId, selection.contactIds] };
+    }
+    return contactFilters(tenantId, selection.filter);
+}
+
+export async function countSelection(fastify: FastifyInstance, tenantId: string, selection: ContactBulkSelection): Promise<number> {
+    const { whereClause, values } = selectionFilter(tenantId, selection);
+    const result = await fastify.db.query(`SELECT COUNT(*) FROM contacts WHERE ${whereClause}`, values);
+    return parseInt(result.rows[0].count);
+}
+
+/**
+ * Run a bulk operation over its selection in batches, recording progress
+ * on the operation. A filter is evaluated as the batches are read, so
+ * contacts created meanwhile may be included. Every action can be
+ * repeated safely, so a retried job starts over.
+ */
+export async function runBulkOperation(fastify: FastifyInstance, job: BulkContactsJob): Promise<void> {
+    const { tenantId, operationId } = job;
+
+    const started = await fastify.db.query(
+        `UPDATE contact_bulk_operations SET status = 'processing', started_at = NOW(), error = NULL,
+        processed_count = 0, affected_count = 0
+     WHERE id = $1 AND tenant_id = $2 AND status IN ('queued', 'processing')
+     RETURNING action, params, selection`,
+        [operationId, tenantId]
+    );
+
+    if (started.rows.length === 0) return;
+
+    const { action, params, selection } = started.rows[0] as Pick<ContactBulkOperation, 'action' | 'params' | 'selection'>;
+    const { whereClause, values } = selectionFilter(tenantId, selection);
+    const afterIndex = values.length + 1;
+
+    try {
+        // Walk the selection by ID so changed or deleted contacts do not shift the batches
+        let lastId: string | null = null;
+
+        while (true) {
+            const batch = await fastify.db.query(
+                `SELECT id FROM contacts
+         WHERE ${whereClause} AND ($${afterIndex}::uuid IS NULL OR id > $${afterIndex}::uuid)
+         ORDER BY id LIMIT ${BATCH_SIZE}`,
+                [...values, lastId]
+            );
+            if (batch.rows.length === 0) break;
+
+            const ids: string[] = batch.rows.map(row => row.id);
+            lastId = ids[ids.length - 1];
+
+            const affected = await applyAction(fastify, tenantId, action, params, ids);
+
+            await fastify.db.query(
+                `UPDATE contact_bulk_operations SET processed_count = processed_count + $2, affected_count = affected_count + $3
+         WHERE id = $1`,
+                [operationId, ids.length, affected]
+            );
+        }
+
+        await fastify.db.query(
+            `UPDATE contact_bulk_operations SET status = 'completed', completed_at = NOW() WHERE id = $1`,
+            [operationId]
+        );
+
+        fastify.log.info(`Contact bulk operation ${operationId} (${action}) completed`);
+    } catch (err) {
+        fastify.log.error(err, `Contact bulk operation ${operationId} failed`);
+
+        await fastify.db.query(
+            `UPDATE contact_bulk_operations SET status = 'failed', error = $2, completed_at = NOW() WHERE id = $1`,
+            [operationId, err instanceof Error ? err.message : 'Unknown error']
+        );
+    }
+}
+
+// Helper functions
+
+/**
+ * Apply the action to a batch of contacts; returns how many changed.
+ * Contacts that already have the result (tag present, already opted out)
+ * are left alone and not counted.
+ */
+async function applyAction(
+    fastify: FastifyInstance,
+    tenantId: string,
+    action: ContactBulkAction,
+    params: ContactBulkOperation['params'],
+    ids: string[]
+): Promise<number> {
+    switch (action) {
+        case 'add_tags': {
+            const result = await fastify.db.query(
+                `UPDATE contacts SET tags = ARRAY(SELECT DISTINCT unnest(COALESCE(tags, '{}') || $3::text[]))
+         WHERE tenant_id = $1 AND id = ANY($2) AND NOT (COALESCE(tags, '{}') @> $3::text[])`,
+                [tenantId, ids, params.tags ?? []]
+            );
+            return result.rowCount ?? 0;
+        }
+
+        case 'remove_tags': {
+            const result = await fastify.db.query(
+                `UPDATE contacts SET tags = ARRAY(SELECT tag FROM unnest(tags) AS tag WHERE tag <> ALL($3::text[]))
+         WHERE tenant_id = $1 AND id = ANY($2) AND tags && $3::text[]`,
+                [tenantId, ids, params.tags ?? []]
+            );
+            return result.rowCount ?? 0;
+        }
+
+        case 'set_custom_fields': {
+            // null removes a field
+            const fields = Object.entries(params.customFields ?? {});
+            const set = Object.fromEntries(fields.filter(([, value]) => value !== null));
+            const removed = fields.filter(([, value]) => value === null).map(([field]) => field);
+
+            const result = await fastify.db.query(
+                `UPDATE contacts SET custom_fields = (COALESCE(custom_fields, '{}'::jsonb) || $3::jsonb) - $4::text[]
+         WHERE tenant_id = $1 AND id = ANY($2)
+           AND custom_fields IS DISTINCT FROM (COALESCE(custom_fields, '{}'::jsonb) || $3::jsonb) - $4::text[]`,
+                [tenantId, ids, JSON.stringify(set), removed]
+            );
+            return result.rowCount ?? 0;
+        }
+
+        case 'opt_out': {
+            const result = await fastify.db.query(
+                `UPDATE contacts SET opted_out = TRUE, opted_out_at = NOW()
+         WHERE tenant_id = $1 AND id = ANY($2) AND opted_out = FALSE`,
+                [tenantId, ids]
+            );
+            await cancelQueuedMessages(fastify.db, tenantId, { contactIds: ids }, 'Contact opted out');
+            return result.rowCount ?? 0;
+        }
+
+        case 'opt_in': {
+            const result = await fastify.db.query(
+                `UPDATE contacts SET opted_out = FALSE, opted_out_at = NULL
+         WHERE tenant_id = $1 AND id = ANY($2) AND opted_out = TRUE`,
+                [tenantId, ids]
+            );
+            return result.rowCount ?? 0;
+        }
+
+        case 'delete': {
+            // Messages lose their contact on delete, so cancel the queued ones first
+            await cancelQueuedMessages(fastify.db, tenantId, { contactIds: ids }, 'Contact deleted');
+            const result = await fastify.db.query(
+                'DELETE FROM contacts WHERE tenant_id = $1 AND id = ANY($2)',
+                [tenantId, ids]
+            );
+            return result.rowCount ?? 0;
+        }
+    }
+}
@@ -0,0 +1,42 @@
+export interface ContactFilters {
+    search?: string;
+    tags?: string[];
+    optedOut?: boolean;
+}
+
+/**
+ * WHERE clause over contacts for the list filters, used by the contact
+ * list, the export and bulk operations
+ */
+export function contactFilters(tenantId: string, filters: ContactFilters): { whereClause: string; values: unknown[] } {
+    let whereClause = 'tenant_id = $1';
+    const values: unknown[] = [tenantId];
+    let paramIndex = 2;
+
+    if (filters.search) {
+        whereClause += ` AND (phone_e164 ILIKE $${paramIndex} OR name ILIKE $${paramIndex})`;
+        values.push(`%${filters.search}%`);
+        paramIndex++;
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+        whereClause += ` AND tags && $${paramIndex}`;
+        values.push(filters.tags);
+        paramIndex++;
+    }
+
+    if (filters.optedOut !== undefined) {
+        whereClause += ` AND opted_out = $${paramIndex}`;
+        values.push(filters.optedOut);
+        paramIndex++;
+    }
+
+    return { whereClause, values };
+}
+
+/**
+ * Whether the filters narrow the contacts down at all
+ */
+export function hasContactFilters(filters: ContactFilters): boolean {
+    return contactFilters('', filters).values.length > 1;
+}
@@ -0,0 +1,394 @@
+import type { FastifyInstance } from 'fastify';
+import { Readable, Transform } from 'stream';
+import ExcelJS from 'exceljs';
+import {
+    CsvParser,
+    detectCsvDelimiter,
+    detectTextEncoding,
+    normalizePhone,
+    resolvePhoneSettings,
+    type ContactImportFormat,
+    type ContactImportMapping,
+    type CsvRecord,
+    type ImportContactsJob,
+} from '@sms/shared';
+
+export const IMPORT_JOB = 'import-contacts';
+
+// Contacts upserted per statement
+const BATCH_SIZE = 500;
+// Failed rows kept for the error report; later ones are only counted
+const MAX_STORED_ERRORS = 10000;
+// Rows returned with the columns so the mapping can be checked
+const PREVIEW_ROWS = 5;
+// Start of a CSV file used to detect its encoding and delimiter
+const SNIFF_BYTES = 64 * 1024;
+
+export interface ImportFileInfo {
+    encoding: string | null;
+    delimiter: string | null;
+    columns: string[];
+    sampleRows: string[][];
+}
+
+interface ImportedContact {
+    phoneE164: string;
+    name: string | null;
+    tags: string[];
+    customFields: Record<string, string>;
+}
+
+interface RowError {
+    // Line of the CSV file or row of the sheet
+    rowNumber: number;
+    error: string;
+    values: string[];
+}
+
+/**
+ * File format from the upload's name and mime type, or null when unsupported
+ */
+export function importFormat(filename: string, mimetype: string): ContactImportFormat | null {
+    const name = filename.toLowerCase();
+
+    if (name.endsWith('.xlsx') || mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+        return 'xlsx';
+    }
+    if (name.endsWith('.csv') || name.endsWith('.txt') || ['text/csv', 'text/plain', 'application/vnd.ms-excel'].includes(mimetype)) {
+        return 'csv';
+    }
+    return null;
+}
+
+/**
+ * Header and first rows of an uploaded file, plus the encoding and
+ * delimiter the import will use for a CSV file
+ */
+export async function inspectImportFile(buffer: Buffer, format: ContactImportFormat): Promise<ImportFileInfo> {
+    const encoding = format === 'csv' ? detectTextEncoding(buffer.subarray(0, SNIFF_BYTES)) : null;
+    const delimiter = format === 'csv' && encoding
+        ? detectCsvDelimiter(new TextDecoder(encoding).decode(buffer.subarray(0, SNIFF_BYTES)))
+        : null;
+
+    const rows: string[][] = [];
+    for await (const row of readRows(Readable.from(buffer), format, encoding, delimiter)) {
+        rows.push(row.values);
+        if (rows.length > PREVIEW_ROWS) break;
+    }
+
+    const [header = [], ...sampleRows] = rows;
+
+    return {
+        encoding,
+        delimiter,
+        columns: header.map(column => column.trim()),
+        sampleRows,
+    };
+}
+
+/**
+ * Mapping guessed from the column names, for the user to confirm
+ */
+export function suggestMapping(columns: string[]): Partial<ContactImportMapping> {
+    const normalized = columns.map(column => column
+        .normalize('NFD')
+        .replace(/[̀-ͯ]/g, '')
+        .toLowerCase()
+        .trim());
+    const find = (names: string[]) => {
+        const index = normalized.findIndex(column => names.includes(column));
+        return index === -1 ? null : index;
+    };
+
+    const phone = find(['phone', 'telefone', 'celular', 'whatsapp', 'numero', 'fone', 'mobile', 'phone_e164']);
+    const name = find(['name', 'nome', 'nome completo', 'full name']);
+    const tags = find(['tags', 'tag', 'etiquetas', 'grupos']);
+
+    return {
+        ...(phone !== null && { phone }),
+        name,
+        tags,
+    };
+}
+
+/**
+ * Run a started import: stream the stored file, upsert its rows in batches
+ * and record progress and failed rows on the import
+ * Counters start over, so a retried job repeats the whole file safely.
+ */
+export async function runContactImport(fastify: FastifyInstance, job: ImportContactsJob): Promise<void> {
+    const { tenantId, importId } = job;
+
+    const started = await fastify.db.query(
+        `UPDATE contact_imports SET status = 'processing', started_at = NOW(), error = NULL,
+        bytes_processed = 0, processed_rows = 0, created_count = 0, updated_count = 0, skipped_count = 0, error_count = 0
+     WHERE id = $1 AND tenant_id = $2 AND status IN ('queued', 'processing')
+     RETURNING *`,
+        [importId, tenantId]
+    );
+
+    if (started.rows.length === 0) return;
+
+    const imp = started.rows[0];
+    const mapping: ContactImportMapping = imp.mapping;
+
+    const tenant = await fastify.db.query('SELECT settings FROM tenants WHERE id = $1', [tenantId]);
+    const { defaultCountry } = resolvePhoneSettings(tenant.rows[0]?.settings);
+
+    await fastify.db.query('DELETE FROM contact_import_errors WHERE import_id = $1', [importId]);
+
+    try {
+        let bytes = 0;
+        const counter = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                bytes += chunk.length;
+                callback(null, chunk);
+            }
+        });
+        const file = await fastify.s3.download(imp.file_key);
+        file.on('error', err => counter.destroy(err));
+        file.pipe(counter);
+
+        let headerRead = false;
+        let batch: ImportedContact[] = [];
+        let errors: RowError[] = [];
+        let rowsInBatch = 0;
+        let storedErrors = 0;
+
+        const flush = async () => {
+            const result = await upsertBatch(fastify, tenantId, batch, mapping.updateExisting);
+            storedErrors += await storeErrors(fastify, importId, errors, storedErrors);
+
+            await fastify.db.query(
+                `UPDATE contact_imports SET bytes_processed = $2, processed_rows = processed_rows + $3,
+            created_count = created_count + $4, updated_count = updated_count + $5,
+            skipped_count = skipped_count + $6, error_count = error_count + $7
+         WHERE id = $1`,
+                [importId, bytes, rowsInBatch, result.created, result.updated, result.skipped, errors.length]
+            );
+
+            batch = [];
+            errors = [];
+            rowsInBatch = 0;
+        };
+
+        for await (const row of readRows(counter, imp.format, imp.encoding, imp.delimiter)) {
+            if (!headerRead) {
+                headerRead = true;
+                continue;
+            }
+
+            rowsInBatch++;
+            const contact = toContact(row.values, mapping, defaultCountry);
+
+            if ('error' in contact) {
+                errors.push({ rowNumber: row.line, error: contact.error, values: row.values });
+            } else {
+                batch.push(contact);
+            }
+
+            if (rowsInBatch >= BATCH_SIZE) await flush();
+        }
+
+        await flush();
+
+        await fastify.db.query(
+            `UPDATE contact_imports SET status = 'completed', completed_at = NOW(), bytes_processed = size_bytes
+       WHERE id = $1`,
+            [importId]
+        );
+
+        fastify.log.info(`Contact import ${importId} completed`);
+
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        fastify.log.error(err, `Contact import ${importId} failed`);
+
+        // A file that cannot be read fails the same way on every retry
+        await fastify.db.query(
+            `UPDATE contact_imports SET status = 'failed', error = $2, completed_at = NOW() WHERE id = $1`,
+            [importId, errorMessage]
+        );
+    }
+}
+
+// Helper functions
+
+/**
+ * Rows of a file as text cells with the line (or sheet row) they start on,
+ * header included; only the first sheet of an XLSX workbook is read
+ */
+async function* readRows(
+    input: Readable,
+    format: ContactImportFormat,
+    encoding: string | null,
+    delimiter: string | null
+): AsyncGenerator<CsvRecord> {
+    if (format === 'xlsx') {
+        const workbook = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+            worksheets: 'emit',
+            sharedStrings: 'cache',
+            hyperlinks: 'ignore',
+            // Dates are numbers with a date format; without styles they read as numbers
+            styles: 'cache',
+        });
+
+        for await (const worksheet of workbook) {
+            for await (const row of worksheet) {
+                const values = row.values as ExcelJS.CellValue[];
+                // Cell values start at index 1
+                yield {
+                    line: row.number,
+                    values: Array.from({ length: Math.max(0, values.length - 1) }, (_, i) => cellText(values[i + 1])),
+                };
+            }
+            return;
+        }
+        return;
+    }
+
+    const decoder = new TextDecoder(encoding ?? 'utf-8');
+    const parser = new CsvParser(delimiter ?? ',');
+
+    for await (const chunk of input) {
+        yield* parser.push(decoder.decode(chunk as Buffer, { stream: true }));
+    }
+    yield* parser.push(decoder.decode());
+    yield* parser.end();
+}
+
+/**
+ * Text of a spreadsheet cell as the user sees it
+ */
+function cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) {
+        const iso = value.toISOString();
+        return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+    }
+    if (typeof value !== 'object') return String(value);
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return String(value.text);
+    if ('result' in value) return cellText(value.result as ExcelJS.CellValue);
+    return '';
+}
+
+/**
+ * Contact fields of one row according to the mapping, or why it cannot be imported
+ */
+function toContact(row: string[], mapping: ContactImportMapping, defaultCountry: string): ImportedContact | { error: string } {
+    const cell = (column: number | null) => column === null ? '' : (row[column] ?? '').trim();
+
+    const rawPhone = cell(mapping.phone);
+    if (!rawPhone) return { error: 'Missing phone number' };
+
+    const phone = normalizePhone(rawPhone, defaultCountry);
+    if (!phone.valid) return { error: `${phone.error}: ${rawPhone}` };
+
+    const name = cell(mapping.name);
+    if (name.length > 255) return { error: 'Name longer than 255 characters' };
+
+    const tags = cell(mapping.tags)
+        .split(mapping.tagSeparator)
+        .map(tag => tag.trim())
+        .filter(Boolean);
+
+    // Empty cells leave an existing value alone
+    const customFields: Record<string, string> = {};
+    for (const { column, field } of mapping.customFields) {
+        const value = cell(column);
+        if (value) customFields[field] = value;
+    }
+
+    return {
+        phoneE164: phone.phoneE164,
+        name: name || null,
+        tags: [...new Set([...tags, ...mapping.defaultTags])],
+        customFields,
+    };
+}
+
+/**
+ * Insert or update a batch of contacts in one statement
+ * Rows repeating a phone are merged first, since a statement cannot update
+ * the same contact twice, and the repeats are counted as skipped. Tags are
+ * added to the existing ones and custom fields merged over them; opt-out
+ * status is never changed.
+ */
+async function upsertBatch(
+    fastify: FastifyInstance,
+    tenantId: string,
+    contacts: ImportedContact[],
+    updateExisting: boolean
+): Promise<{ created: number; updated: number; skipped: number }> {
+    const merged = new Map<string, ImportedContact>();
+    for (const contact of contacts) {
+        const previous = merged.get(contact.phoneE164);
+        merged.set(contact.phoneE164, previous ? {
+            phoneE164: contact.phoneE164,
+            name: contact.name ?? previous.name,
+            tags: [...new Set([...previous.tags, ...contact.tags])],
+            customFields: { ...previous.customFields, ...contact.customFields },
+        } : contact);
+    }
+
+    const duplicates = contacts.length - merged.size;
+
+    if (merged.size === 0) return { created: 0, updated: 0, skipped: duplicates };
+
+    const rows = [...merged.values()].map(contact => ({
+        phone_e164: contact.phoneE164,
+        name: contact.name,
+        tags: contact.tags,
+        custom_fields: contact.customFields,
+    }));
+
+    const result = await fastify.db.query(
+        `INSERT INTO contacts (tenant_id, phone_e164, name, tags, custom_fields)
+     SELECT $1, v.phone_e164, v.name, v.tags, v.custom_fields
+     FROM jsonb_to_recordset($2::jsonb) as v(phone_e164 text, name text, tags text[], custom_fields jsonb)
+     ON CONFLICT (tenant_id, phone_e164) ${updateExisting
+            ? `DO UPDATE SET
+         name = COALESCE(EXCLUDED.name, contacts.name),
+         tags = ARRAY(SELECT DISTINCT unnest(COALESCE(contacts.tags, '{}') || EXCLUDED.tags)),
+         custom_fields = COALESCE(contacts.custom_fields, '{}') || EXCLUDED.custom_fields`
+            : 'DO NOTHING'}
+     RETURNING (xmax = 0) as inserted`,
+        [tenantId, JSON.stringify(rows)]
+    );
+
+    const created = result.rows.filter(row => row.inserted).length;
+
+    return {
+        created,
+        updated: result.rows.length - created,
+        skipped: duplicates + rows.length - result.rows.length,
+    };
+}
+
+/**
+ * Keep the failed rows of a batch for the error report, up to the limit
+ * Returns how many were stored.
+ */
+async function storeErrors(
+    fastify: FastifyInstance,
+    importId: string,
+    errors: RowError[],
+    alreadyStored: number
+): Promise<number> {
+    const kept = errors.slice(0, Math.max(0, MAX_STORED_ERRORS - alreadyStored));
+    if (kept.length === 0) return 0;
+
+    await fastify.db.query(
+        `INSERT INTO contact_import_errors (import_id, row_number, error, row_values)
+     SELECT $1, v.row_number, v.error, v.row_values
+     FROM jsonb_to_recordset($2::jsonb) as v(row_number int, error text, row_values text[])`,
+        [importId, JSON.stringify(kept.map(error => ({
+            row_number: error.rowNumber,
+            error: error.error,
+            row_values: error.values,
+        })))]
+    );
+
+    return kept.length;
+}
@@ -0,0 +1,145 @@
+import Fastify, { type FastifyInstance, type FastifyPluginAsync } from 'fastify';
+import jwt from '@fastify/jwt';
+import pg from 'pg';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { UserRole } from '@sms/shared';
+import { dbPlugin } from '../src/plugins/db.js';
+
+// Route tests run against a real PostgreSQL server. Each test file creates
+// its own database there, applies the migrations and drops it at the end.
+export const hasDatabase = Boolean(process.env.TEST_DATABASE_URL);
+
+const MIGRATIONS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../migrations');
+
+export interface TestApp {
+    app: FastifyInstance;
+    db: pg.Pool;
+    close(): Promise<void>;
+}
+
+/**
+ * Fresh database with every migration applied, and an app serving the given
+ * routes on it the way src/index.ts registers them (JWT auth, db plugin)
+ */
+export async function createTestApp(routes: [FastifyPluginAsync, string][]): Promise<TestApp> {
+    const admin = new pg.Client({ connectionString: process.env.TEST_DATABASE_URL });
+    await admin.connect();
+
+    const name = `sms_test_${process.pid}_${Date.now()}`;
+    await admin.query(`CREATE DATABASE ${name}`);
+
+    const url = new URL(process.env.TEST_DATABASE_URL!);
+    url.pathname = `/${name}`;
+
+    const migrator = new pg.Client({ connectionString: url.toString() });
+    await migrator.connect();
+    for (const file of fs.readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith('.sql')).sort()) {
+        await migrator.query(fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'));
+    }
+    await migrator.end();
+
+    process.env.DATABASE_URL = url.toString();
+
+    const app = Fastify();
+    await app.register(jwt, { secret: 'test-secret' });
+    await app.register(dbPlugin);
+    for (const [plugin, prefix] of routes) {
+        await app.register(plugin, { prefix });
+    }
+    await app.ready();
+
+    return {
+        app,
+        db: app.db,
+        close: async () => {
+            await app.close();
+            await admin.query(`DROP DATABASE IF EXISTS ${name}`);
+            await admin.end();
+        },
+    };
+}
+
+export interface TestTenant {
+    tenantId: string;
+    userId: string;
+    // Authorization header of the tenant's user
+    headers: { authorization: string };
+}
+
+/**
+ * Tenant with one user of the given role
+ */
+export async function createTenant(test: TestApp, role: UserRole = 'owner'): Promise<TestTenant> {
+    const tenant = await test.db.query(
+        `INSERT INTO tenants (name, slug) VALUES ('Test', 'test-' || gen_random_uuid()) RETURNING id`
+    );
+    const tenantId = tenant.rows[0].id;
+
+    const user = await test.db.query(
+        `INSERT INTO users (tenant_id, email, password_hash, role) VALUES ($1, 'user@test.local', 'x', $2) RETURNING id`,
+        [tenantId, role]
+    );
+    const userId = user.rows[0].id;
+
+    const token = test.app.jwt.sign({ sub: userId, tenantId, role });
+
+    return { tenantId, userId, headers: { authorization: `Bearer ${token}` } };
+}
+
+/**
+ * Insert contacts (phone, and optionally name, tags and custom fields); returns their IDs in order
+ */
+export async function createContacts(
+    test: TestApp,
+    tenantId: string,
+    contacts: { phone: string; name?: string; tags?: string[]; customFields?: Record<string, unknown> }[]
+): Promise<string[]> {
+    const ids: string[] = [];
+    for (const contact of contacts) {
+        const result = await test.db.query(
+            `INSERT INTO contacts (tenant_id, phone_e164, name, tags, custom_fields) VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+            [tenantId, contact.phone, contact.name ?? null, contact.tags ?? [], JSON.stringify(contact.customFields ?? {})]
+        );
+        ids.push(result.rows[0].id);
+    }
+    return ids;
+}
+
+// Phones of the contacts createCampaign makes up
+let generatedPhones = 0;
+
+/**
+ * Running campaign with one message per entry, each to a new contact
+ * unless contactId is given; counters left at zero
+ */
+export async function createCampaign(
+    test: TestApp,
+    tenantId: string,
+    messages: { status: string; contactId?: string }[]
+): Promise<{ campaignId: string; messageIds: string[] }> {
+    const campaign = await test.db.query(
+        `INSERT INTO campaigns (tenant_id, name, type, template_text, status, total_recipients, expansion_status, started_at)
+     VALUES ($1, 'Campanha', 'text', 'Olá', 'running', $2, 'done', NOW() - INTERVAL '1 hour')
+     RETURNING id`,
+        [tenantId, messages.length]
+    );
+    const campaignId = campaign.rows[0].id;
+
+    const messageIds: string[] = [];
+    for (const message of messages) {
+        const contactId = message.contactId
+            ?? (await createContacts(test, tenantId, [{ phone: `+55119${String(++generatedPhones).padStart(8, '0')}` }]))[0];
+
+        const result = await test.db.query(
+            `INSERT INTO messages (tenant_id, campaign_id, contact_id, phone_e164, body_text, status)
+       SELECT $1, $2, id, phone_e164, 'Olá', $4 FROM contacts WHERE id = $3
+       RETURNING id`,
+            [tenantId, campaignId, contactId, message.status]
+        );
+        messageIds.push(result.rows[0].id);
+    }
+
+    return { campaignId, messageIds };
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { CsvParser, checkCampaignCompletion } from '@sms/shared';
+import { campaignRoutes } from '../src/routes/campaigns.js';
+import { createCampaign, createTenant, createTestApp, hasDatabase, type TestApp, type TestTenant } from './app.js';
+
+describe.skipIf(!hasDatabase)('campaign routes', () => {
+    let test: TestApp;
+
+    beforeAll(async () => {
+        test = await createTestApp([[campaignRoutes, '/campaigns']]);
+    });
+
+    afterAll(async () => {
+        await test?.close();
+    });
+
+    function cancel(tenant: TestTenant, campaignId: string) {
+        return test.app.inject({ method: 'POST', url: `/campaigns/${campaignId}/cancel`, headers: tenant.headers });
+    }
+
+    async function campaign(campaignId: string) {
+        const result = await test.db.query(
+            `SELECT status, sent_count, delivered_count, read_count, failed_count, cancelled_count, skipped_count, final_report
+       FROM campaigns WHERE id = $1`,
+            [campaignId]
+        );
+        return result.rows[0];
+    }
+
+    describe('POST /campaigns/:id/cancel', () => {
+        it('cancels the queued messages and recounts the campaign from its messages', async () => {
+            const tenant = await createTenant(test);
+            const { campaignId, messageIds } = await createCampaign(test, tenant.tenantId, [
+                { status: 'sent' },
+                { status: 'delivered' },
+                { status: 'read' },
+                { status: 'failed' },
+                { status: 'skipped' },
+                { status: 'queued' },
+                { status: 'queued' },
+            ]);
+            // Counters that drifted from the messages
+            await test.db.query(
+                'UPDATE campaigns SET sent_count = 5, delivered_count = 0, failed_count = 2 WHERE id = $1',
+                [campaignId]
+            );
+
+            const response = await cancel(tenant, campaignId);
+
+            expect(response.statusCode).toBe(200);
+            const report = response.json().data;
+            expect(report).toMatchObject({
+                recipients: 7, sent: 3, delivered: 2, read: 1, failed: 1, cancelled: 2, skipped: 1, inFlight: 0,
+                corrections: { sent: -2, delivered: 2, read: 1, failed: -1, cancelled: 2, skipped: 1 },
+            });
+
+            expect(await campaign(campaignId)).toMatchObject({
+                status: 'cancelled',
+                sent_count: 3, delivered_count: 2, read_count: 1, failed_count: 1, cancelled_count: 2, skipped_count: 1,
+                final_report: { sent: 3, cancelled: 2 },
+            });
+
+            const messages = await test.db.query(
+                `SELECT status, error FROM messages WHERE id = ANY($1) AND status = 'cancelled'`,
+                [messageIds]
+            );
+            expect(messages.rows).toEqual([
+                { status: 'cancelled', error: 'Campaign cancelled' },
+                { status: 'cancelled', error: 'Campaign cancelled' },
+            ]);
+        });
+
+        it('brings the report up to date as messages in flight finish', async () => {
+            const tenant = await createTenant(test);
+            const { campaignId, messageIds } = await createCampaign(test, tenant.tenantId, [
+                { status: 'sent' },
+                { status: 'sending' },
+                { status: 'queued' },
+            ]);
+
+            const response = await cancel(tenant, campaignId);
+            expect(response.json().data).toMatchObject({ sent: 1, cancelled: 1, inFlight: 1 });
+
+            // What the worker does once the send goes through
+            await test.db.query(`UPDATE messages SET status = 'sent' WHERE id = $1`, [messageIds[1]]);
+            await test.db.query('UPDATE campaigns SET sent_count = sent_count + 1 WHERE id = $1', [campaignId]);
+            await checkCampaignCompletion(test.db, campaignId);
+
+            expect(await campaign(campaignId)).toMatchObject({
+                status: 'cancelled',
+                sent_count: 2,
+                cancelled_count: 1,
+                final_report: { sent: 2, cancelled: 1, inFlight: 0 },
+            });
+        });
+
+        it('only cancels active campaigns of the tenant', async () => {
+            const tenant = await createTenant(test);
+            const other = await createTenant(test);
+            const { campaignId } = await createCampaign(test, tenant.tenantId, [{ status: 'queued' }]);
+
+            expect((await cancel(other, campaignId)).statusCode).toBe(404);
+            expect((await cancel(tenant, campaignId)).statusCode).toBe(200);
+            expect((await cancel(tenant, campaignId)).statusCode).toBe(404);
+
+            const completed = await createCampaign(test, tenant.tenantId, [{ status: 'sent' }]);
+            await test.db.query(`UPDATE campaigns SET status = 'completed' WHERE id = $1`, [completed.campaignId]);
+            expect((await cancel(tenant, completed.campaignId)).statusCode).toBe(404);
+        });
+    });
+
+    describe('GET /campaigns/:id/report', () => {
+        it('neutralizes a formula in the campaign name of the CSV', async () => {
+            const tenant = await createTenant(test);
+            const { campaignId } = await createCampaign(test, tenant.tenantId, [{ status: 'sent' }]);
+            await test.db.query(`UPDATE campaigns SET name = '=HYPERLINK("http://x","y")' WHERE id = $1`, [campaignId]);
+            await cancel(tenant, campaignId);
+
+            const response = await test.app.inject({
+                method: 'GET', url: `/campaigns/${campaignId}/report?format=csv`, headers: tenant.headers,
+            });
+
+            expect(response.statusCode).toBe(200);
+            const parser = new CsvParser(',');
+            const rows = new Map([...parser.push(response.body), ...parser.end()].map(record => record.values as [string, string]));
+            expect(rows.get('campaign')).toBe(`'=HYPERLINK("http://x","y")`);
+            expect(rows.get('sent')).toBe('1');
+        });
+    });
+
+    describe('PATCH /campaigns/:id', () => {
+        it('leaves the status to start, pause, resume and cancel', async () => {
+            const tenant = await createTenant(test);
+            const { campaignId } = await createCampaign(test, tenant.tenantId, [{ status: 'queued' }]);
+            await test.db.query(`UPDATE campaigns SET status = 'paused' WHERE id = $1`, [campaignId]);
+
+            const response = await test.app.inject({
+                method: 'PATCH', url: `/campaigns/${campaignId}`, headers: tenant.headers,
+                payload: { name: 'Renomeada', status: 'completed' },
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.json().data).toMatchObject({ name: 'Renomeada', status: 'paused' });
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { contactBulkRoutes } from '../src/routes/contact-bulk.js';
+import { createCampaign, createContacts, createTenant, createTestApp, hasDatabase, type TestApp, type TestTenant } from './app.js';
+
+describe.skipIf(!hasDatabase)('POST /contacts/bulk', () => {
+    let test: TestApp;
+
+    beforeAll(async () => {
+        test = await createTestApp([[contactBulkRoutes, '/contacts/bulk']]);
+    });
+
+    afterAll(async () => {
+        await test?.close();
+    });
+
+    function bulk(tenant: TestTenant, payload: Record<string, unknown>) {
+        return test.app.inject({ method: 'POST', url: '/contacts/bulk', headers: tenant.headers, payload });
+    }
+
+    async function messageStatuses(messageIds: string[]): Promise<{ status: string; error: string | null; contact_id: string | null }[]> {
+        const result = await test.db.query(
+            'SELECT status, error, contact_id FROM messages WHERE id = ANY($1) ORDER BY array_position($1, id)',
+            [messageIds]
+        );
+        return result.rows;
+    }
+
+    async function campaign(campaignId: string) {
+        const result = await test.db.query(
+            'SELECT status, sent_count, cancelled_count FROM campaigns WHERE id = $1',
+            [campaignId]
+        );
+        return result.rows[0];
+    }
+
+    describe('opt_out', () => {
+        it('cancels the queued messages of the contacts and counts them on the campaign', async () => {
+            const tenant = await createTenant(test);
+            const [ana, bia] = await createContacts(test, tenant.tenantId, [{ phone: '+5511911110001' }, { phone: '+5511911110002' }]);
+            const { campaignId, messageIds } = await createCampaign(test, tenant.tenantId, [
+                { status: 'queued', contactId: ana },
+                { status: 'queued', contactId: bia },
+                { status: 'queued' },
+                { status: 'sending' },
+            ]);
+
+            const response = await bulk(tenant, { action: 'opt_out', contactIds: [ana, bia] });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.json().data).toMatchObject({ status: 'completed', affected_count: 2 });
+            expect((await messageStatuses(messageIds)).map(message => message.status))
+                .toEqual(['cancelled', 'cancelled', 'queued', 'sending']);
+            expect((await messageStatuses(messageIds))[0].error).toBe('Contact opted out');
+            expect(await campaign(campaignId)).toMatchObject({ status: 'running', cancelled_count: 2 });
+        });
+
+        it('completes a campaign left with nothing to send', async () => {
+            const tenant = await createTenant(test);
+            const [ana] = await createContacts(test, tenant.tenantId, [{ phone: '+5511911110003' }]);
+            const { campaignId } = await createCampaign(test, tenant.tenantId, [
+                { status: 'sent' },
+                { status: 'queued', contactId: ana },
+            ]);
+            await test.db.query('UPDATE campaigns SET sent_count = 1 WHERE id = $1', [campaignId]);
+
+            await bulk(tenant, { action: 'opt_out', filter: { search: '+5511911110003' } });
+
+            expect(await campaign(campaignId)).toMatchObject({ status: 'completed', sent_count: 1, cancelled_count: 1 });
+        });
+    });
+
+    describe('delete', () => {
+        it('cancels the queued messages before the contacts go', async () => {
+            const tenant = await createTenant(test);
+            const [ana, bia] = await createContacts(test, tenant.tenantId, [{ phone: '+5511911110004' }, { phone: '+5511911110005' }]);
+            const { campaignId, messageIds } = await createCampaign(test, tenant.tenantId, [
+                { status: 'queued', contactId: ana },
+                { status: 'sent', contactId: bia },
+                { status: 'queued' },
+            ]);
+
+            const response = await bulk(tenant, { action: 'delete', contactIds: [ana, bia] });
+
+            expect(response.json().data).toMatchObject({ status: 'completed', affected_count: 2 });
+            expect(await messageStatuses(messageIds)).toEqual([
+                { status: 'cancelled', error: 'Contact deleted', contact_id: null },
+                { status: 'sent', error: null, contact_id: null },
+                expect.objectContaining({ status: 'queued' }),
+            ]);
+            expect(await campaign(campaignId)).toMatchObject({ status: 'running', cancelled_count: 1 });
+        });
+
+        it('deletes only the contacts matching a filter', async () => {
+            const tenant = await createTenant(test);
+            await createContacts(test, tenant.tenantId, [
+                { phone: '+5511911110006', tags: ['lead'] },
+                { phone: '+5511911110007', tags: ['cliente'] },
+            ]);
+
+            const response = await bulk(tenant, { action: 'delete', filter: { tags: ['lead'] } });
+
+            expect(response.json().data).toMatchObject({ total_count: 1, affected_count: 1 });
+            const left = await test.db.query('SELECT phone_e164 FROM contacts WHERE tenant_id = $1', [tenant.tenantId]);
+            expect(left.rows).toEqual([{ phone_e164: '+5511911110007' }]);
+        });
+
+        it('refuses an empty filter without confirmAll', async () => {
+            const tenant = await createTenant(test);
+            await createContacts(test, tenant.tenantId, [{ phone: '+5511911110008' }, { phone: '+5511911110009' }]);
+
+            for (const filter of [{}, { search: '', tags: [] }]) {
+                const response = await bulk(tenant, { action: 'delete', filter });
+
+                expect(response.statusCode).toBe(400);
+                expect(response.json().success).toBe(false);
+            }
+
+            const left = await test.db.query('SELECT COUNT(*)::int as count FROM contacts WHERE tenant_id = $1', [tenant.tenantId]);
+            expect(left.rows[0].count).toBe(2);
+        });
+
+        it('deletes every contact of the tenant with confirmAll', async () => {
+            const tenant = await createTenant(test);
+            const other = await createTenant(test);
+            await createContacts(test, tenant.tenantId, [{ phone: '+5511911110010' }, { phone: '+5511911110011' }]);
+            await createContacts(test, other.tenantId, [{ phone: '+5511911110010' }]);
+
+            const response = await bulk(tenant, { action: 'delete', filter: {}, confirmAll: true });
+
+            expect(response.json().data).toMatchObject({ status: 'completed', affected_count: 2 });
+            const left = await test.db.query('SELECT tenant_id FROM contacts WHERE phone_e164 = $1', ['+5511911110010']);
+            expect(left.rows).toEqual([{ tenant_id: other.tenantId }]);
+        });
+
+        it('needs the contacts:delete permission', async () => {
+            const tenant = await createTenant(test, 'operator');
+            const [ana] = await createContacts(test, tenant.tenantId, [{ phone: '+5511911110012' }]);
+
+            const response = await bulk(tenant, { action: 'delete', contactIds: [ana] });
+
+            expect(response.statusCode).toBe(403);
+        });
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { CsvParser } from '@sms/shared';
+import { contactRoutes } from '../src/routes/contacts.js';
+import { createContacts, createTenant, createTestApp, hasDatabase, type TestApp, type TestTenant } from './app.js';
+
+describe.skipIf(!hasDatabase)('GET /contacts/export', () => {
+    let test: TestApp;
+    let tenant: TestTenant;
+
+    beforeAll(async () => {
+        test = await createTestApp([[contactRoutes, '/contacts']]);
+        tenant = await createTenant(test);
+
+        await createContacts(test, tenant.tenantId, [
+            { phone: '+5511922220001', name: 'Ana "Aninha" Lima', tags: ['vip', 'sp'], customFields: { cidade: 'Recife', saldo: '-12.5' } },
+            { phone: '+5511922220002', name: '=HYPERLINK("http://x","y")', tags: ['sp'], customFields: { cidade: '@SUM(A1)', name: 'apelido' } },
+            { phone: '+5511922220003', name: '-2+3', tags: [], customFields: { saldo: '+1' } },
+        ]);
+        await test.db.query(`UPDATE contacts SET opted_out = TRUE, opted_out_at = NOW() WHERE phone_e164 = '+5511922220003'`);
+
+        // Another tenant's contacts never show up
+        const other = await createTenant(test);
+        await createContacts(test, other.tenantId, [{ phone: '+5511922220009', tags: ['vip'], customFields: { segredo: 'x' } }]);
+    });
+
+    afterAll(async () => {
+        await test?.close();
+    });
+
+    async function exportCsv(query = ''): Promise<Record<string, string>[]> {
+        const response = await test.app.inject({ method: 'GET', url: `/contacts/export${query}`, headers: tenant.headers });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+        expect(response.body.startsWith('\uFEFF')).toBe(true);
+
+        const parser = new CsvParser(',');
+        const [header, ...rows] = [...parser.push(response.body.slice(1)), ...parser.end()].map(record => record.values);
+        return rows.map(values => Object.fromEntries(header.map((column, i) => [column, values[i]])));
+    }
+
+    it('exports the tenant contacts with a column per custom field', async () => {
+        const rows = await exportCsv();
+
+        expect(rows.map(row => row.phone_e164).sort()).toEqual(['+5511922220001', '+5511922220002', '+5511922220003']);
+        expect(Object.keys(rows[0])).toEqual([
+            'id', 'phone_e164', 'name', 'tags', 'opted_out', 'opted_out_at', 'created_at',
+            'cidade', 'custom_fields.name', 'saldo',
+        ]);
+    });
+
+    it.each([
+        ['tags', '?tags=vip', ['+5511922220001']],
+        ['any of several tags', '?tags=vip,sp', ['+5511922220001', '+5511922220002']],
+        ['search on name or phone', '?search=aninha', ['+5511922220001']],
+        ['opted-out contacts', '?optedOut=true', ['+5511922220003']],
+        ['opted-in contacts with a tag', '?optedOut=false&tags=sp', ['+5511922220001', '+5511922220002']],
+    ])('filters by %s', async (_case, query, phones) => {
+        const rows = await exportCsv(query);
+
+        expect(rows.map(row => row.phone_e164).sort()).toEqual(phones);
+    });
+
+    it('lists only the custom fields of the filtered contacts', async () => {
+        const rows = await exportCsv('?optedOut=true');
+
+        expect(Object.keys(rows[0]).slice(7)).toEqual(['saldo']);
+    });
+
+    it('neutralizes formulas but leaves phones and numbers alone', async () => {
+        const byPhone = new Map((await exportCsv()).map(row => [row.phone_e164, row]));
+
+        expect(byPhone.get('+5511922220001')).toMatchObject({ name: 'Ana "Aninha" Lima', tags: 'vip,sp', saldo: '-12.5' });
+        expect(byPhone.get('+5511922220002')).toMatchObject({
+            name: `'=HYPERLINK("http://x","y")`,
+            cidade: `'@SUM(A1)`,
+            'custom_fields.name': 'apelido',
+        });
+        expect(byPhone.get('+5511922220003')).toMatchObject({ name: `'-2+3`, saldo: '+1', opted_out: 'true' });
+    });
+
+    it('exports one JSON object per line as NDJSON', async () => {
+        const response = await test.app.inject({ method: 'GET', url: '/contacts/export?format=ndjson&tags=vip', headers: tenant.headers });
+
+        expect(response.headers['content-type']).toBe('application/x-ndjson; charset=utf-8');
+        const lines = response.body.trim().split('\n').map(line => JSON.parse(line));
+        expect(lines).toEqual([
+            expect.objectContaining({ phone_e164: '+5511922220001', custom_fields: { cidade: 'Recife', saldo: '-12.5' } }),
+        ]);
+    });
+
+    it('needs the contacts:export permission', async () => {
+        const operator = await createTenant(test, 'operator');
+
+        const response = await test.app.inject({ method: 'GET', url: '/contacts/export', headers: operator.headers });
+
+        expect(response.statusCode).toBe(403);
+    });
+});
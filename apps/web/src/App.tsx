@@ -5,10 +5,15 @@ import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import Session from './pages/Session';
 import Contacts from './pages/Contacts';
+import Segments from './pages/Segments';
 import Media from './pages/Media';
 import Campaigns from './pages/Campaigns';
 import CampaignCreate from './pages/CampaignCreate';
+import Templates from './pages/Templates';
 import Messages from './pages/Messages';
+import SelectorProfiles from './pages/SelectorProfiles';
+import Inbox from './pages/Inbox';
+import Settings from './pages/Settings';
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
     const { user } = useAuthStore();
@@ -43,6 +48,12 @@ export default function App() {
                 </PrivateRoute>
             } />
 
+            <Route path="/segments" element={
+                <PrivateRoute>
+                    <Segments />
+                </PrivateRoute>
+            } />
+
             <Route path="/media" element={
                 <PrivateRoute>
                     <Media />
@@ -61,12 +72,36 @@ export default function App() {
                 </PrivateRoute>
             } />
 
+            <Route path="/templates" element={
+                <PrivateRoute>
+                    <Templates />
+                </PrivateRoute>
+            } />
+
             <Route path="/messages" element={
                 <PrivateRoute>
                     <Messages />
                 </PrivateRoute>
             } />
 
+            <Route path="/inbox" element={
+                <PrivateRoute>
+                    <Inbox />
+                </PrivateRoute>
+            } />
+
+            <Route path="/selectors" element={
+                <PrivateRoute>
+                    <SelectorProfiles />
+                </PrivateRoute>
+            } />
+
+            <Route path="/settings" element={
+                <PrivateRoute>
+                    <Settings />
+                </PrivateRoute>
+            } />
+
             <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
     );
@@ -3,9 +3,14 @@ import {
     LayoutDashboard,
     Smartphone,
     Users,
+    Filter,
     Image,
     Send,
+    FileText,
     MessageSquare,
+    Inbox,
+    Code,
+    Settings,
     LogOut,
     Menu,
     X
@@ -17,9 +22,14 @@ const navItems = [
     { path: '/', icon: LayoutDashboard, label: 'Dashboard' },
     { path: '/session', icon: Smartphone, label: 'Sessão' },
     { path: '/contacts', icon: Users, label: 'Contatos' },
+    { path: '/segments', icon: Filter, label: 'Segmentos' },
     { path: '/media', icon: Image, label: 'Mídias' },
     { path: '/campaigns', icon: Send, label: 'Campanhas' },
+    { path: '/templates', icon: FileText, label: 'Modelos' },
     { path: '/messages', icon: MessageSquare, label: 'Mensagens' },
+    { path: '/inbox', icon: Inbox, label: 'Conversas' },
+    { path: '/selectors', icon: Code, label: 'Seletores' },
+    { path: '/settings', icon: Settings, label: 'Configurações' },
 ];
 
 export default function Layout({ children }: { children: React.ReactNode }) {
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Send, Image, MessageSquare, Loader2, ArrowLeft } from 'lucide-react';
+import { Send, Image, MessageSquare, Loader2, ArrowLeft, RefreshCw, Search, Plus, Trash2, FlaskConical } from 'lucide-react';
 import { api } from '../lib/api';
 
 interface MediaItem {
@@ -9,6 +9,83 @@ interface MediaItem {
     url: string;
 }
 
+interface LibraryTemplate {
+    id: string;
+    name: string;
+    body_text: string;
+    media_id: string | null;
+    tags: string[];
+    version: number;
+}
+
+interface SegmentOption {
+    id: string;
+    name: string;
+}
+
+interface CampaignOption {
+    id: string;
+    name: string;
+}
+
+interface AudienceCount {
+    audience: number;
+    included: number;
+    excluded: {
+        optedOut: number;
+        tags: number;
+        recentlyMessaged: number;
+        otherCampaigns: number;
+    };
+}
+
+interface TemplateCheck {
+    valid: boolean;
+    errors: { message: string; index: number }[];
+    unknownVariables: string[];
+    fields: string[];
+}
+
+interface MessagePreview {
+    contactId: string;
+    name: string | null;
+    phoneE164: string;
+    targeted: boolean;
+    bodyText: string;
+    sms: {
+        encoding: 'GSM-7' | 'UCS-2';
+        characters: number;
+        segments: number;
+        nonGsmCharacters: string[];
+    };
+}
+
+interface VariantDraft {
+    templateText: string;
+    weight: number;
+}
+
+interface SessionItem {
+    id: string;
+    name: string;
+    status: string;
+    pending_messages: number;
+}
+
+// Variant A is the campaign's own message
+const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E'];
+
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const TIMEZONES = [
+    'America/Sao_Paulo',
+    'America/Manaus',
+    'America/Cuiaba',
+    'America/Rio_Branco',
+    'America/Noronha',
+    'UTC',
+];
+
 export default function CampaignCreate() {
     const [type, setType] = useState<'text' | 'image'>('text');
     const [name, setName] = useState('');
@@ -17,13 +94,143 @@ export default function CampaignCreate() {
     const [media, setMedia] = useState<MediaItem[]>([]);
     const [loading, setLoading] = useState(false);
     const [loadingMedia, setLoadingMedia] = useState(true);
+    const [sessions, setSessions] = useState<SessionItem[]>([]);
+    const [senderPool, setSenderPool] = useState<string[]>([]);
+    const [senderStrategy, setSenderStrategy] = useState<'round_robin' | 'least_loaded'>('round_robin');
+    const [windowStart, setWindowStart] = useState('');
+    const [windowEnd, setWindowEnd] = useState('');
+    const [timezone, setTimezone] = useState('America/Sao_Paulo');
+    const [windowDays, setWindowDays] = useState<number[]>([]);
+    const [scheduleAt, setScheduleAt] = useState('');
+    const [templates, setTemplates] = useState<LibraryTemplate[]>([]);
+    const [templateId, setTemplateId] = useState('');
+    const [templateCheck, setTemplateCheck] = useState<TemplateCheck | null>(null);
+    const [previews, setPreviews] = useState<MessagePreview[]>([]);
+    const [previewIndex, setPreviewIndex] = useState(0);
+    const [audience, setAudience] = useState<number | null>(null);
+    const [previewSearch, setPreviewSearch] = useState('');
+    const [previewContactId, setPreviewContactId] = useState<string | null>(null);
+    const [loadingPreview, setLoadingPreview] = useState(false);
+    const [mainWeight, setMainWeight] = useState(50);
+    const [variants, setVariants] = useState<VariantDraft[]>([]);
+    const [abAutoPromote, setAbAutoPromote] = useState(false);
+    const [abTestPercent, setAbTestPercent] = useState(20);
+    const [abWinnerMetric, setAbWinnerMetric] = useState<'delivered' | 'read' | 'replied'>('replied');
+    const [abWaitMinutes, setAbWaitMinutes] = useState(60);
+    const [segments, setSegments] = useState<SegmentOption[]>([]);
+    const [segmentId, setSegmentId] = useState('');
+    const [targetTags, setTargetTags] = useState('');
+    const [targetTagsMatch, setTargetTagsMatch] = useState<'any' | 'all'>('any');
+    const [excludeTags, setExcludeTags] = useState('');
+    const [excludeMessagedDays, setExcludeMessagedDays] = useState('');
+    const [pastCampaigns, setPastCampaigns] = useState<CampaignOption[]>([]);
+    const [excludeCampaignIds, setExcludeCampaignIds] = useState<string[]>([]);
+    const [audienceCount, setAudienceCount] = useState<AudienceCount | null>(null);
 
     const navigate = useNavigate();
 
     useEffect(() => {
         loadMedia();
+        loadSessions();
+        loadTemplates();
+        loadSegments();
+        loadPastCampaigns();
     }, []);
 
+    // Check the template against the tenant's contact fields while typing
+    useEffect(() => {
+        if (!templateText) {
+            setTemplateCheck(null);
+            return;
+        }
+
+        const timer = setTimeout(async () => {
+            try {
+                const response = await api.post('/campaigns/validate-template', { templateText });
+                setTemplateCheck(response.data.data);
+            } catch (err) {
+                console.error('Failed to validate template:', err);
+            }
+        }, 500);
+
+        return () => clearTimeout(timer);
+    }, [templateText]);
+
+    // Render the message for real contacts while typing
+    useEffect(() => {
+        const timer = setTimeout(() => loadPreview(), 500);
+        return () => clearTimeout(timer);
+    }, [templateText, timezone, previewContactId, segmentId, targetTags, targetTagsMatch, excludeTags, excludeMessagedDays, excludeCampaignIds]);
+
+    // Final audience, after every exclusion, while the targeting is edited
+    useEffect(() => {
+        const timer = setTimeout(async () => {
+            try {
+                const response = await api.post('/campaigns/audience', targeting());
+                setAudienceCount(response.data.data);
+            } catch (err) {
+                console.error('Failed to count audience:', err);
+            }
+        }, 500);
+
+        return () => clearTimeout(timer);
+    }, [segmentId, targetTags, targetTagsMatch, excludeTags, excludeMessagedDays, excludeCampaignIds]);
+
+    const splitTags = (value: string) => value.split(',').map(t => t.trim()).filter(Boolean);
+
+    const targeting = () => ({
+        targetAll: splitTags(targetTags).length === 0,
+        targetTags: splitTags(targetTags),
+        targetTagsMatch,
+        segmentId: segmentId || null,
+        excludeTags: splitTags(excludeTags),
+        excludeMessagedDays: excludeMessagedDays ? Number(excludeMessagedDays) : null,
+        excludeCampaignIds,
+    });
+
+    const loadPreview = async () => {
+        if (!templateText) {
+            setPreviews([]);
+            return;
+        }
+
+        setLoadingPreview(true);
+        try {
+            const response = await api.post('/campaigns/preview', {
+                templateText,
+                timezone,
+                ...targeting(),
+                contactId: previewContactId || undefined,
+            });
+            setPreviews(response.data.data.samples);
+            setAudience(response.data.data.audience);
+            setPreviewIndex(0);
+        } catch (err) {
+            console.error('Failed to load preview:', err);
+        } finally {
+            setLoadingPreview(false);
+        }
+    };
+
+    const handlePreviewSearch = async () => {
+        if (!previewSearch) {
+            setPreviewContactId(null);
+            return;
+        }
+
+        try {
+            const response = await api.get(`/contacts?limit=1&search=${encodeURIComponent(previewSearch)}`);
+            const contact = response.data.data[0];
+            if (!contact) {
+                alert('Nenhum contato encontrado');
+                return;
+            }
+            setPreviewContactId(contact.id);
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao buscar contato');
+        }
+    };
+
     const loadMedia = async () => {
         try {
             const response = await api.get('/media?limit=50');
@@ -35,6 +242,89 @@ export default function CampaignCreate() {
         }
     };
 
+    const loadSessions = async () => {
+        try {
+            const response = await api.get('/sessions');
+            setSessions(response.data.data);
+        } catch (err) {
+            console.error('Failed to load sessions:', err);
+        }
+    };
+
+    const loadTemplates = async () => {
+        try {
+            const response = await api.get('/templates?limit=100');
+            setTemplates(response.data.data);
+        } catch (err) {
+            console.error('Failed to load templates:', err);
+        }
+    };
+
+    const loadSegments = async () => {
+        try {
+            const response = await api.get('/segments?limit=100');
+            setSegments(response.data.data);
+        } catch (err) {
+            console.error('Failed to load segments:', err);
+        }
+    };
+
+    const loadPastCampaigns = async () => {
+        try {
+            const response = await api.get('/campaigns?limit=100');
+            setPastCampaigns(response.data.data);
+        } catch (err) {
+            console.error('Failed to load campaigns:', err);
+        }
+    };
+
+    const toggleExcludedCampaign = (id: string) => {
+        setExcludeCampaignIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+    };
+
+    // Copy the template's text and image into the campaign; they can still be edited here
+    const handlePickTemplate = (id: string) => {
+        setTemplateId(id);
+
+        const template = templates.find(t => t.id === id);
+        if (!template) return;
+
+        setTemplateText(template.body_text);
+        if (template.media_id) {
+            setType('image');
+            setMediaId(template.media_id);
+        }
+    };
+
+    const toggleSender = (id: string) => {
+        setSenderPool(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    };
+
+    const toggleDay = (day: number) => {
+        setWindowDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+    };
+
+    const addVariant = () => {
+        // Split evenly again; the weights can be adjusted afterwards
+        const count = variants.length + 2;
+        const weight = Math.floor(100 / count);
+        setMainWeight(100 - weight * (count - 1));
+        setVariants([...variants.map(v => ({ ...v, weight })), { templateText: '', weight }]);
+    };
+
+    const removeVariant = (index: number) => {
+        const rest = variants.filter((_, i) => i !== index);
+        const weight = rest.length > 0 ? Math.floor(100 / (rest.length + 1)) : 50;
+        setMainWeight(rest.length > 0 ? 100 - weight * rest.length : 50);
+        setVariants(rest.map(v => ({ ...v, weight })));
+    };
+
+    const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+        setVariants(variants.map((v, i) => i === index ? { ...v, ...changes } : v));
+    };
+
+    const totalWeight = mainWeight + variants.reduce((total, v) => total + v.weight, 0);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
@@ -45,6 +335,30 @@ export default function CampaignCreate() {
                 type,
                 templateText: templateText || undefined,
                 mediaId: type === 'image' ? mediaId : undefined,
+                templateId: templateId || undefined,
+                templateVersion: templates.find(t => t.id === templateId)?.version,
+                ...targeting(),
+                senderPool,
+                senderStrategy,
+                windowStart: windowStart || null,
+                windowEnd: windowEnd || null,
+                timezone,
+                windowDays,
+                scheduleAt: scheduleAt ? new Date(scheduleAt).toISOString() : null,
+                ...(variants.length > 0 && {
+                    variants: [
+                        { label: VARIANT_LABELS[0], weight: mainWeight },
+                        ...variants.map((v, i) => ({
+                            label: VARIANT_LABELS[i + 1],
+                            templateText: v.templateText || undefined,
+                            weight: v.weight,
+                        })),
+                    ],
+                    abAutoPromote,
+                    abTestPercent,
+                    abWinnerMetric,
+                    abWaitMinutes,
+                }),
             });
 
             navigate('/campaigns');
@@ -118,11 +432,29 @@ export default function CampaignCreate() {
                             />
                         </div>
 
+                        {templates.length > 0 && (
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Modelo</label>
+                                <select
+                                    value={templateId}
+                                    onChange={(e) => handlePickTemplate(e.target.value)}
+                                    className="input"
+                                >
+                                    <option value="">Escrever a mensagem do zero</option>
+                                    {templates.map(template => (
+                                        <option key={template.id} value={template.id}>
+                                            {template.name} (v{template.version}){template.tags.length > 0 ? ` — ${template.tags.join(', ')}` : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
                         <div>
                             <label className="block text-sm font-medium text-slate-300 mb-1">
                                 Mensagem
                                 <span className="text-slate-500 font-normal ml-2">
-                                    Variáveis: {'{nome}'}, {'{cidade}'}
+                                    {'{nome}'}, {'{nome|cliente}'}, {'{vencimento:data}'}, {'{valor:moeda}'}, {'{Olá|Oi}'}, {'{#if cupom}...{else}...{/if}'}
                                 </span>
                             </label>
                             <textarea
@@ -132,6 +464,21 @@ export default function CampaignCreate() {
                                 placeholder="Olá {nome}! Confira nossa promoção especial..."
                                 required={type === 'text'}
                             />
+                            {templateCheck && templateCheck.errors.map((error) => (
+                                <p key={error.index} className="text-sm text-red-400 mt-1">
+                                    Erro na posição {error.index + 1}: {error.message}
+                                </p>
+                            ))}
+                            {templateCheck && templateCheck.unknownVariables.length > 0 && (
+                                <p className="text-sm text-yellow-400 mt-1">
+                                    Variáveis sem campo nos contatos: {templateCheck.unknownVariables.map(v => `{${v}}`).join(', ')}
+                                </p>
+                            )}
+                            {templateCheck && templateCheck.fields.length > 0 && (
+                                <p className="text-xs text-slate-500 mt-1">
+                                    Campos disponíveis: nome, primeiro_nome, telefone, {templateCheck.fields.join(', ')}
+                                </p>
+                            )}
                         </div>
 
                         {/* Media selection for image type */}
@@ -169,9 +516,403 @@ export default function CampaignCreate() {
                     </div>
                 </div>
 
+                {/* Audience */}
+                <div className="card">
+                    <h2 className="font-semibold mb-1">Público</h2>
+                    <p className="text-sm text-slate-400 mb-4">
+                        As regras do segmento são avaliadas no início do envio; descadastrados nunca recebem
+                    </p>
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">Segmento</label>
+                            <select value={segmentId} onChange={(e) => setSegmentId(e.target.value)} className="input">
+                                <option value="">Todos os contatos</option>
+                                {segments.map(segment => (
+                                    <option key={segment.id} value={segment.id}>{segment.name}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">
+                                Incluir tags
+                                <span className="text-slate-500 font-normal ml-2">Em branco = sem filtro por tag</span>
+                            </label>
+                            <div className="flex gap-2">
+                                <select
+                                    value={targetTagsMatch}
+                                    onChange={(e) => setTargetTagsMatch(e.target.value as 'any' | 'all')}
+                                    className="input w-auto"
+                                >
+                                    <option value="any">Qualquer uma</option>
+                                    <option value="all">Todas</option>
+                                </select>
+                                <input
+                                    type="text"
+                                    value={targetTags}
+                                    onChange={(e) => setTargetTags(e.target.value)}
+                                    className="input flex-1"
+                                    placeholder="vip, clientes"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Excluir tags</label>
+                                <input
+                                    type="text"
+                                    value={excludeTags}
+                                    onChange={(e) => setExcludeTags(e.target.value)}
+                                    className="input"
+                                    placeholder="inadimplente"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Excluir quem recebeu mensagem nos últimos</label>
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={365}
+                                        value={excludeMessagedDays}
+                                        onChange={(e) => setExcludeMessagedDays(e.target.value)}
+                                        className="input"
+                                    />
+                                    <span className="text-sm text-slate-400">dias</span>
+                                </div>
+                            </div>
+                        </div>
+
+                        {pastCampaigns.length > 0 && (
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-2">Excluir contatos das campanhas</label>
+                                <div className="max-h-32 overflow-y-auto space-y-1">
+                                    {pastCampaigns.map(campaign => (
+                                        <label key={campaign.id} className="flex items-center gap-3 text-sm">
+                                            <input
+                                                type="checkbox"
+                                                checked={excludeCampaignIds.includes(campaign.id)}
+                                                onChange={() => toggleExcludedCampaign(campaign.id)}
+                                            />
+                                            {campaign.name}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {audienceCount && (
+                            <div className="p-3 rounded-lg bg-slate-800/50 text-sm">
+                                <p className="font-medium">{audienceCount.audience} contatos receberão a campanha</p>
+                                <p className="text-slate-400">
+                                    {audienceCount.included} no público
+                                    {audienceCount.excluded.optedOut > 0 && ` • ${audienceCount.excluded.optedOut} descadastrados`}
+                                    {audienceCount.excluded.tags > 0 && ` • ${audienceCount.excluded.tags} com tag excluída`}
+                                    {audienceCount.excluded.recentlyMessaged > 0 && ` • ${audienceCount.excluded.recentlyMessaged} com mensagem recente`}
+                                    {audienceCount.excluded.otherCampaigns > 0 && ` • ${audienceCount.excluded.otherCampaigns} de campanhas excluídas`}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* A/B test */}
+                <div className="card">
+                    <div className="flex items-center justify-between mb-1">
+                        <h2 className="font-semibold flex items-center gap-2">
+                            <FlaskConical className="w-4 h-4 text-primary-400" />
+                            Teste A/B
+                        </h2>
+                        {variants.length < VARIANT_LABELS.length - 1 && (
+                            <button type="button" onClick={addVariant} className="btn btn-secondary text-sm">
+                                <Plus className="w-4 h-4" />
+                                Adicionar variante
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-sm text-slate-400 mb-4">
+                        Cada contato recebe sempre a mesma variante, sorteada pelo peso
+                    </p>
+
+                    {variants.length > 0 && (
+                        <div className="space-y-4">
+                            <div className="flex items-center gap-3">
+                                <span className="badge badge-info">A</span>
+                                <span className="flex-1 text-sm text-slate-400">Mensagem principal acima</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={100}
+                                    value={mainWeight}
+                                    onChange={(e) => setMainWeight(Number(e.target.value))}
+                                    className="input w-20"
+                                />
+                                <span className="text-sm text-slate-400">%</span>
+                                <span className="w-8" />
+                            </div>
+
+                            {variants.map((variant, index) => (
+                                <div key={index} className="flex items-start gap-3">
+                                    <span className="badge badge-info mt-2">{VARIANT_LABELS[index + 1]}</span>
+                                    <textarea
+                                        value={variant.templateText}
+                                        onChange={(e) => updateVariant(index, { templateText: e.target.value })}
+                                        className="input h-20 flex-1"
+                                        placeholder="Em branco = mesma mensagem da variante A"
+                                    />
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={100}
+                                        value={variant.weight}
+                                        onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })}
+                                        className="input w-20"
+                                    />
+                                    <span className="text-sm text-slate-400 mt-2">%</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => removeVariant(index)}
+                                        className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-red-400"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+
+                            {totalWeight !== 100 && (
+                                <p className="text-sm text-red-400">Os pesos somam {totalWeight}%, precisam somar 100%</p>
+                            )}
+
+                            <label className="flex items-center gap-3 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={abAutoPromote}
+                                    onChange={(e) => setAbAutoPromote(e.target.checked)}
+                                />
+                                Enviar primeiro para uma amostra e depois só a vencedora para o restante
+                            </label>
+
+                            {abAutoPromote && (
+                                <div className="grid grid-cols-3 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-300 mb-1">Amostra (%)</label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={100}
+                                            value={abTestPercent}
+                                            onChange={(e) => setAbTestPercent(Number(e.target.value))}
+                                            className="input"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-300 mb-1">Vencedora por</label>
+                                        <select
+                                            value={abWinnerMetric}
+                                            onChange={(e) => setAbWinnerMetric(e.target.value as 'delivered' | 'read' | 'replied')}
+                                            className="input"
+                                        >
+                                            <option value="replied">Taxa de resposta</option>
+                                            <option value="read">Taxa de leitura</option>
+                                            <option value="delivered">Taxa de entrega</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-300 mb-1">Aguardar (min)</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={abWaitMinutes}
+                                            onChange={(e) => setAbWaitMinutes(Number(e.target.value))}
+                                            className="input"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                {/* Sender pool, only worth choosing with more than one phone */}
+                {sessions.length > 1 && (
+                    <div className="card">
+                        <h2 className="font-semibold mb-1">Aparelhos de envio</h2>
+                        <p className="text-sm text-slate-400 mb-4">
+                            Nenhum selecionado = todos os aparelhos conectados no início da campanha
+                        </p>
+
+                        <div className="space-y-2 mb-4">
+                            {sessions.map((session) => (
+                                <label key={session.id} className="flex items-center gap-3 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={senderPool.includes(session.id)}
+                                        onChange={() => toggleSender(session.id)}
+                                    />
+                                    <span className="font-medium">{session.name}</span>
+                                    <span className={session.status === 'connected' ? 'text-emerald-400' : 'text-slate-500'}>
+                                        {session.status === 'connected' ? 'Conectado' : 'Desconectado'}
+                                    </span>
+                                    {session.pending_messages > 0 && (
+                                        <span className="text-slate-500">{session.pending_messages} na fila</span>
+                                    )}
+                                </label>
+                            ))}
+                        </div>
+
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Distribuição</label>
+                        <select
+                            value={senderStrategy}
+                            onChange={(e) => setSenderStrategy(e.target.value as 'round_robin' | 'least_loaded')}
+                            className="input"
+                        >
+                            <option value="round_robin">Alternada (round-robin)</option>
+                            <option value="least_loaded">Menor fila primeiro</option>
+                        </select>
+                    </div>
+                )}
+
+                {/* Scheduling */}
+                <div className="card">
+                    <h2 className="font-semibold mb-1">Agendamento</h2>
+                    <p className="text-sm text-slate-400 mb-4">
+                        Deixe em branco para iniciar manualmente
+                    </p>
+                    <input
+                        type="datetime-local"
+                        value={scheduleAt}
+                        onChange={(e) => setScheduleAt(e.target.value)}
+                        className="input"
+                    />
+                </div>
+
+                {/* Send window */}
+                <div className="card">
+                    <h2 className="font-semibold mb-1">Janela de envio</h2>
+                    <p className="text-sm text-slate-400 mb-4">
+                        Fora da janela as mensagens aguardam e o envio continua sozinho quando ela abrir
+                    </p>
+
+                    <div className="grid grid-cols-3 gap-4 mb-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">Início</label>
+                            <input
+                                type="time"
+                                value={windowStart}
+                                onChange={(e) => setWindowStart(e.target.value)}
+                                className="input"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">Fim</label>
+                            <input
+                                type="time"
+                                value={windowEnd}
+                                onChange={(e) => setWindowEnd(e.target.value)}
+                                className="input"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-1">Fuso horário</label>
+                            <select value={timezone} onChange={(e) => setTimezone(e.target.value)} className="input">
+                                {TIMEZONES.map((tz) => (
+                                    <option key={tz} value={tz}>{tz}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <label className="block text-sm font-medium text-slate-300 mb-2">
+                        Dias da semana
+                        <span className="text-slate-500 font-normal ml-2">Nenhum selecionado = todos os dias</span>
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                        {WEEKDAYS.map((label, day) => (
+                            <button
+                                key={day}
+                                type="button"
+                                onClick={() => toggleDay(day)}
+                                className={`px-3 py-1 rounded-lg text-sm border transition-all ${windowDays.includes(day)
+                                        ? 'border-primary-500 bg-primary-500/10 text-primary-400'
+                                        : 'border-slate-700 text-slate-400 hover:border-slate-600'
+                                    }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
                 {/* Preview */}
-                <div className="card bg-slate-900/50">
-                    <h2 className="font-semibold mb-4">Preview</h2>
+                <div className="card bg-slate-900/50 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <h2 className="font-semibold">
+                            Preview
+                            {audience !== null && templateText && (
+                                <span className="text-sm text-slate-400 font-normal ml-2">{audience} contatos receberão a campanha</span>
+                            )}
+                        </h2>
+                        <button
+                            type="button"
+                            onClick={loadPreview}
+                            disabled={loadingPreview || !templateText}
+                            className="btn btn-secondary text-sm"
+                            title="Renderizar de novo (sorteia o spintax)"
+                        >
+                            <RefreshCw className={`w-4 h-4 ${loadingPreview ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                            <input
+                                type="text"
+                                value={previewSearch}
+                                onChange={(e) => setPreviewSearch(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') {
+                                        e.preventDefault();
+                                        handlePreviewSearch();
+                                    }
+                                }}
+                                className="input pl-9 text-sm"
+                                placeholder="Ver para um contato (nome ou telefone)..."
+                            />
+                        </div>
+                        <button type="button" onClick={handlePreviewSearch} className="btn btn-secondary text-sm">
+                            Ver
+                        </button>
+                        {previewContactId && (
+                            <button
+                                type="button"
+                                onClick={() => { setPreviewContactId(null); setPreviewSearch(''); }}
+                                className="btn btn-secondary text-sm"
+                            >
+                                Amostra
+                            </button>
+                        )}
+                    </div>
+
+                    {previews.length > 1 && (
+                        <div className="flex flex-wrap gap-2">
+                            {previews.map((preview, index) => (
+                                <button
+                                    key={preview.contactId}
+                                    type="button"
+                                    onClick={() => setPreviewIndex(index)}
+                                    className={`px-3 py-1 rounded-lg text-sm border transition-all ${previewIndex === index
+                                            ? 'border-primary-500 bg-primary-500/10 text-primary-400'
+                                            : 'border-slate-700 text-slate-400 hover:border-slate-600'
+                                        }`}
+                                >
+                                    {preview.name || preview.phoneE164}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
                     <div className="bg-slate-800 rounded-2xl p-4 max-w-xs">
                         {type === 'image' && mediaId && (
                             <img
@@ -181,9 +922,31 @@ export default function CampaignCreate() {
                             />
                         )}
                         <p className="text-sm whitespace-pre-wrap">
-                            {templateText.replace(/\{nome\}/gi, 'João').replace(/\{cidade\}/gi, 'São Paulo') || 'Sua mensagem aparecerá aqui...'}
+                            {previews[previewIndex]?.bodyText ?? (templateText || 'Sua mensagem aparecerá aqui...')}
                         </p>
                     </div>
+
+                    {previews[previewIndex] && (
+                        <div className="text-sm text-slate-400 space-y-1">
+                            <p>
+                                {previews[previewIndex].name || 'Sem nome'} ({previews[previewIndex].phoneE164})
+                                • {previews[previewIndex].sms.characters} caracteres
+                                • {previews[previewIndex].sms.segments} {previews[previewIndex].sms.segments === 1 ? 'segmento' : 'segmentos'} SMS
+                                • {previews[previewIndex].sms.encoding}
+                            </p>
+                            {previews[previewIndex].sms.encoding === 'UCS-2' && (
+                                <p className="text-yellow-400">
+                                    Caracteres fora do GSM-7 ({previews[previewIndex].sms.nonGsmCharacters.join(' ')}) reduzem o limite para 70 por segmento
+                                </p>
+                            )}
+                            {!previews[previewIndex].targeted && (
+                                <p className="text-yellow-400">Este contato não receberia a campanha</p>
+                            )}
+                        </div>
+                    )}
+                    {templateText && !loadingPreview && previews.length === 0 && (
+                        <p className="text-sm text-slate-400">Nenhum contato para pré-visualizar</p>
+                    )}
                 </div>
 
                 {/* Submit */}
@@ -197,7 +960,7 @@ export default function CampaignCreate() {
                     </button>
                     <button
                         type="submit"
-                        disabled={loading || (type === 'image' && !mediaId)}
+                        disabled={loading || (type === 'image' && !mediaId) || templateCheck?.valid === false || (variants.length > 0 && totalWeight !== 100)}
                         className="btn btn-primary flex-1"
                     >
                         {loading ? (
@@ -1,8 +1,35 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Send, Plus, Play, Pause, Trash2, Loader2, Image, MessageSquare } from 'lucide-react';
+import { Send, Plus, Play, Pause, Trash2, Loader2, Image, MessageSquare, XCircle, Download, FlaskConical, Trophy } from 'lucide-react';
 import { api } from '../lib/api';
 
+interface FinalReport {
+    sent: number;
+    delivered: number;
+    failed: number;
+    cancelled: number;
+    skipped?: number;
+    inFlight: number;
+    optedOut: number;
+}
+
+interface VariantStats {
+    variantId: string;
+    label: string;
+    weight: number;
+    isWinner: boolean;
+    templateText: string | null;
+    messages: number;
+    sent: number;
+    delivered: number;
+    read: number;
+    failed: number;
+    replied: number;
+    deliveredRate: number;
+    readRate: number;
+    repliedRate: number;
+}
+
 interface Campaign {
     id: string;
     name: string;
@@ -11,6 +38,23 @@ interface Campaign {
     total_recipients: number;
     sent_count: number;
     failed_count: number;
+    delivered_count: number;
+    read_count: number;
+    cancelled_count: number;
+    skipped_count: number;
+    window_opens_at: string | null;
+    schedule_at: string | null;
+    launch_error: string | null;
+    final_report: FinalReport | null;
+    expansion_status: 'pending' | 'expanding' | 'awaiting_winner' | 'done' | 'failed' | null;
+    expanded_count: number;
+    expansion_error: string | null;
+    template_name: string | null;
+    template_version: number | null;
+    segment_name: string | null;
+    ab_auto_promote: boolean;
+    ab_decide_at: string | null;
+    variant_count: number;
     media_url: string | null;
     created_at: string;
 }
@@ -18,6 +62,8 @@ interface Campaign {
 export default function Campaigns() {
     const [campaigns, setCampaigns] = useState<Campaign[]>([]);
     const [loading, setLoading] = useState(true);
+    const [variantsOf, setVariantsOf] = useState<string | null>(null);
+    const [variants, setVariants] = useState<VariantStats[]>([]);
 
     useEffect(() => {
         loadCampaigns();
@@ -36,6 +82,10 @@ export default function Campaigns() {
 
     const handleStart = async (id: string) => {
         try {
+            // Exclusions depend on recent messages, so count again right before starting
+            const audience = await api.get(`/campaigns/${id}/audience`);
+            if (!confirm(`Iniciar a campanha para ${audience.data.data.audience} contatos?`)) return;
+
             await api.post(`/campaigns/${id}/start`);
             loadCampaigns();
         } catch (err: any) {
@@ -52,6 +102,58 @@ export default function Campaigns() {
         }
     };
 
+    const handleResume = async (id: string) => {
+        try {
+            await api.post(`/campaigns/${id}/resume`);
+            loadCampaigns();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao retomar campanha');
+        }
+    };
+
+    const handleCancel = async (id: string) => {
+        if (!confirm('Cancelar a campanha? As mensagens ainda não enviadas serão descartadas.')) return;
+
+        try {
+            await api.post(`/campaigns/${id}/cancel`);
+            loadCampaigns();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao cancelar campanha');
+        }
+    };
+
+    const handleDownloadReport = async (campaign: Campaign) => {
+        try {
+            const response = await api.get(`/campaigns/${campaign.id}/report?format=csv`, { responseType: 'blob' });
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `relatorio-${campaign.name}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error('Failed to download report:', err);
+            alert('Erro ao baixar relatório');
+        }
+    };
+
+    const handleToggleVariants = async (id: string) => {
+        if (variantsOf === id) {
+            setVariantsOf(null);
+            return;
+        }
+
+        try {
+            const response = await api.get(`/campaigns/${id}/variants`);
+            setVariants(response.data.data.variants);
+            setVariantsOf(id);
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao carregar variantes');
+        }
+    };
+
+    const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
     const handleDelete = async (id: string) => {
         if (!confirm('Deseja realmente excluir esta campanha?')) return;
 
@@ -122,21 +224,94 @@ export default function Campaigns() {
                                     <div className="flex items-center gap-2 mb-1">
                                         <h3 className="font-semibold truncate">{campaign.name}</h3>
                                         {getStatusBadge(campaign.status)}
+                                        {campaign.status === 'running' && campaign.window_opens_at && (
+                                            <span className="badge badge-warning" title="Fora da janela de envio">
+                                                Aguardando janela até {new Date(campaign.window_opens_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                                            </span>
+                                        )}
                                     </div>
                                     <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm text-slate-400">
                                         <span>{campaign.type === 'image' ? 'Imagem (RCS)' : 'Texto'}</span>
                                         <span className="hidden sm:inline">•</span>
                                         <span>{campaign.total_recipients} destinatários</span>
-                                        {campaign.status === 'running' || campaign.status === 'completed' ? (
+                                        {campaign.template_name && (
+                                            <>
+                                                <span className="hidden sm:inline">•</span>
+                                                <span>Modelo {campaign.template_name} v{campaign.template_version}</span>
+                                            </>
+                                        )}
+                                        {campaign.segment_name && (
+                                            <>
+                                                <span className="hidden sm:inline">•</span>
+                                                <span>Segmento {campaign.segment_name}</span>
+                                            </>
+                                        )}
+                                        {campaign.variant_count > 0 && (
+                                            <>
+                                                <span className="hidden sm:inline">•</span>
+                                                <span>Teste A/B com {campaign.variant_count} variantes</span>
+                                            </>
+                                        )}
+                                        {['running', 'paused', 'completed'].includes(campaign.status) ? (
                                             <>
                                                 <span className="hidden sm:inline">•</span>
                                                 <span className="text-emerald-400">{campaign.sent_count} enviadas</span>
+                                                {campaign.delivered_count > 0 && (
+                                                    <span className="text-emerald-400">• {campaign.delivered_count} entregues</span>
+                                                )}
+                                                {campaign.read_count > 0 && (
+                                                    <span className="text-emerald-400">• {campaign.read_count} lidas</span>
+                                                )}
                                                 {campaign.failed_count > 0 && (
                                                     <span className="text-red-400">• {campaign.failed_count} falhas</span>
                                                 )}
+                                                {campaign.cancelled_count > 0 && (
+                                                    <span className="text-yellow-400">• {campaign.cancelled_count} descadastrados</span>
+                                                )}
+                                                {campaign.skipped_count > 0 && (
+                                                    <span className="text-yellow-400">• {campaign.skipped_count} ignoradas pelo limite de frequência</span>
+                                                )}
                                             </>
                                         ) : null}
+                                        {campaign.status === 'scheduled' && campaign.schedule_at && (
+                                            <>
+                                                <span className="hidden sm:inline">•</span>
+                                                <span>Início em {new Date(campaign.schedule_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}</span>
+                                            </>
+                                        )}
                                     </div>
+                                    {campaign.status === 'cancelled' && campaign.final_report && (
+                                        <p className="text-sm text-slate-400 mt-1">
+                                            Relatório final: {campaign.final_report.sent} enviadas
+                                            • {campaign.final_report.delivered} entregues
+                                            • {campaign.final_report.failed} falhas
+                                            • {campaign.final_report.cancelled} canceladas
+                                            {!!campaign.final_report.skipped && ` • ${campaign.final_report.skipped} ignoradas pelo limite de frequência`}
+                                            • {campaign.final_report.optedOut} descadastrados durante o envio
+                                            {campaign.final_report.inFlight > 0 && ` • ${campaign.final_report.inFlight} ainda em envio`}
+                                        </p>
+                                    )}
+                                    {['running', 'paused'].includes(campaign.status) && ['pending', 'expanding'].includes(campaign.expansion_status || '') && (
+                                        <p className="text-sm text-slate-400 mt-1">
+                                            Preparando envio: {campaign.expanded_count} de {campaign.total_recipients} mensagens
+                                        </p>
+                                    )}
+                                    {['running', 'paused'].includes(campaign.status) && campaign.expansion_status === 'awaiting_winner' && (
+                                        <p className="text-sm text-slate-400 mt-1">
+                                            Aguardando vencedor do teste A/B: {campaign.expanded_count} de {campaign.total_recipients} mensagens na amostra
+                                            {campaign.ab_decide_at && `, decisão a partir de ${new Date(campaign.ab_decide_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}`}
+                                        </p>
+                                    )}
+                                    {campaign.status === 'running' && campaign.expansion_status === 'failed' && (
+                                        <p className="text-sm text-red-400 mt-1">
+                                            Erro ao preparar envio, nova tentativa em breve: {campaign.expansion_error}
+                                        </p>
+                                    )}
+                                    {campaign.status === 'draft' && campaign.launch_error && (
+                                        <p className="text-sm text-red-400 mt-1">
+                                            Não foi possível iniciar no horário agendado: {campaign.launch_error}
+                                        </p>
+                                    )}
                                 </div>
 
                                 {/* Progress bar for running */}
@@ -145,7 +320,7 @@ export default function Campaigns() {
                                         <div
                                             className="h-full bg-primary-500 transition-all"
                                             style={{
-                                                width: `${((campaign.sent_count + campaign.failed_count) / campaign.total_recipients) * 100}%`
+                                                width: `${((campaign.sent_count + campaign.failed_count + campaign.cancelled_count + campaign.skipped_count) / campaign.total_recipients) * 100}%`
                                             }}
                                         />
                                     </div>
@@ -153,7 +328,13 @@ export default function Campaigns() {
 
                                 {/* Actions */}
                                 <div className="flex gap-2">
-                                    {campaign.status === 'draft' && (
+                                    {campaign.variant_count > 0 && (
+                                        <button onClick={() => handleToggleVariants(campaign.id)} className="btn btn-secondary text-sm">
+                                            <FlaskConical className="w-4 h-4" />
+                                            Variantes
+                                        </button>
+                                    )}
+                                    {(campaign.status === 'draft' || campaign.status === 'scheduled') && (
                                         <button onClick={() => handleStart(campaign.id)} className="btn btn-primary text-sm">
                                             <Play className="w-4 h-4" />
                                             Iniciar
@@ -166,11 +347,23 @@ export default function Campaigns() {
                                         </button>
                                     )}
                                     {campaign.status === 'paused' && (
-                                        <button onClick={() => handleStart(campaign.id)} className="btn btn-primary text-sm">
+                                        <button onClick={() => handleResume(campaign.id)} className="btn btn-primary text-sm">
                                             <Play className="w-4 h-4" />
                                             Retomar
                                         </button>
                                     )}
+                                    {['scheduled', 'running', 'paused'].includes(campaign.status) && (
+                                        <button onClick={() => handleCancel(campaign.id)} className="btn btn-secondary text-sm">
+                                            <XCircle className="w-4 h-4" />
+                                            Cancelar
+                                        </button>
+                                    )}
+                                    {campaign.status === 'cancelled' && campaign.final_report && (
+                                        <button onClick={() => handleDownloadReport(campaign)} className="btn btn-secondary text-sm">
+                                            <Download className="w-4 h-4" />
+                                            Relatório
+                                        </button>
+                                    )}
                                     {campaign.status !== 'running' && (
                                         <button
                                             onClick={() => handleDelete(campaign.id)}
@@ -181,6 +374,47 @@ export default function Campaigns() {
                                     )}
                                 </div>
                             </div>
+
+                            {/* A/B variant results */}
+                            {variantsOf === campaign.id && (
+                                <table className="table mt-4">
+                                    <thead>
+                                        <tr>
+                                            <th>Variante</th>
+                                            <th>Peso</th>
+                                            <th>Enviadas</th>
+                                            <th>Entregues</th>
+                                            <th>Lidas</th>
+                                            <th>Respostas</th>
+                                            <th>Falhas</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {variants.map((variant) => (
+                                            <tr key={variant.variantId}>
+                                                <td className="max-w-xs">
+                                                    <span className="font-medium">{variant.label}</span>
+                                                    {variant.isWinner && (
+                                                        <span className="badge badge-success ml-2">
+                                                            <Trophy className="w-3 h-3 inline mr-1" />
+                                                            Vencedora
+                                                        </span>
+                                                    )}
+                                                    <span className="block text-sm text-slate-400 truncate">
+                                                        {variant.templateText ?? 'Mensagem principal'}
+                                                    </span>
+                                                </td>
+                                                <td>{variant.weight}%</td>
+                                                <td>{variant.sent} de {variant.messages}</td>
+                                                <td>{variant.delivered} ({percent(variant.deliveredRate)})</td>
+                                                <td>{variant.read} ({percent(variant.readRate)})</td>
+                                                <td>{variant.replied} ({percent(variant.repliedRate)})</td>
+                                                <td>{variant.failed}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { Users, Plus, Upload, Search, Trash2, Loader2, Tag, Ban, Smartphone } from 'lucide-react';
+import { Users, Plus, Upload, Search, Trash2, Loader2, Tag, Ban, Smartphone, Download } from 'lucide-react';
 import { api } from '../lib/api';
 
 interface Contact {
@@ -11,6 +11,18 @@ interface Contact {
     created_at: string;
 }
 
+type BulkAction = 'add_tags' | 'remove_tags' | 'set_custom_fields' | 'opt_out' | 'opt_in' | 'delete';
+
+interface BulkOperation {
+    id: string;
+    action: BulkAction;
+    status: 'queued' | 'processing' | 'completed' | 'failed';
+    total_count: number;
+    processed_count: number;
+    affected_count: number;
+    error: string | null;
+}
+
 export default function Contacts() {
     const [contacts, setContacts] = useState<Contact[]>([]);
     const [loading, setLoading] = useState(true);
@@ -20,11 +32,40 @@ export default function Contacts() {
     const [total, setTotal] = useState(0);
     const [showAddModal, setShowAddModal] = useState(false);
     const [showImportModal, setShowImportModal] = useState(false);
+    const [exporting, setExporting] = useState(false);
+    const [selected, setSelected] = useState<string[]>([]);
+    // Every contact matching the search, not only the ones on screen
+    const [selectAll, setSelectAll] = useState(false);
+    const [bulkOperation, setBulkOperation] = useState<BulkOperation | null>(null);
 
     useEffect(() => {
         loadContacts();
     }, [page, search]);
 
+    useEffect(() => {
+        setSelected([]);
+        setSelectAll(false);
+    }, [search]);
+
+    const bulkRunning = bulkOperation?.status === 'queued' || bulkOperation?.status === 'processing';
+
+    // Follow a queued bulk operation until it finishes
+    useEffect(() => {
+        if (!bulkOperation || !bulkRunning) return;
+
+        const timer = setTimeout(async () => {
+            try {
+                const response = await api.get(`/contacts/bulk/${bulkOperation.id}`);
+                setBulkOperation(response.data.data);
+                if (!['queued', 'processing'].includes(response.data.data.status)) loadContacts();
+            } catch (err) {
+                console.error('Failed to load bulk operation:', err);
+            }
+        }, 2000);
+
+        return () => clearTimeout(timer);
+    }, [bulkOperation]);
+
     const loadContacts = async () => {
         try {
             const params = new URLSearchParams({ page: String(page), limit: '20' });
@@ -60,6 +101,61 @@ export default function Contacts() {
         }
     };
 
+    const selectedCount = selectAll ? total : selected.length;
+    const pageSelected = contacts.length > 0 && contacts.every(contact => selected.includes(contact.id));
+
+    const toggleSelected = (id: string) => {
+        setSelectAll(false);
+        setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    };
+
+    const togglePage = () => {
+        setSelectAll(false);
+        const ids = contacts.map(contact => contact.id);
+        setSelected(prev => pageSelected
+            ? prev.filter(id => !ids.includes(id))
+            : [...new Set([...prev, ...ids])]);
+    };
+
+    const clearSelection = () => {
+        setSelected([]);
+        setSelectAll(false);
+    };
+
+    const handleBulk = async (action: BulkAction) => {
+        const params: Record<string, unknown> = {};
+
+        if (action === 'add_tags' || action === 'remove_tags') {
+            const input = prompt(action === 'add_tags' ? 'Tags a adicionar (separadas por vírgula):' : 'Tags a remover (separadas por vírgula):');
+            const tags = (input || '').split(',').map(t => t.trim()).filter(Boolean);
+            if (tags.length === 0) return;
+            params.tags = tags;
+        } else if (action === 'set_custom_fields') {
+            const field = prompt('Nome do campo personalizado:')?.trim();
+            if (!field) return;
+            const value = prompt(`Valor de "${field}" (deixe vazio para remover o campo):`);
+            if (value === null) return;
+            params.customFields = { [field]: value.trim() || null };
+        } else if (action === 'delete') {
+            if (!confirm(`Deseja realmente excluir ${selectedCount} contatos?`)) return;
+        } else if (!confirm(`${action === 'opt_out' ? 'Descadastrar' : 'Reativar'} ${selectedCount} contatos?`)) {
+            return;
+        }
+
+        try {
+            const response = await api.post('/contacts/bulk', {
+                action,
+                ...params,
+                ...(selectAll ? { filter: search ? { search } : {}, confirmAll: true } : { contactIds: selected }),
+            });
+            setBulkOperation(response.data.data);
+            clearSelection();
+            loadContacts();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao alterar contatos');
+        }
+    };
+
     const handleSyncFromPhone = async () => {
         if (syncing) return;
 
@@ -78,6 +174,27 @@ export default function Contacts() {
         }
     };
 
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const params = new URLSearchParams({ format: 'csv' });
+            if (search) params.append('search', search);
+
+            const response = await api.get(`/contacts/export?${params}`, { responseType: 'blob' });
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `contatos-${new Date().toISOString().slice(0, 10)}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error('Failed to export contacts:', err);
+            alert('Erro ao exportar contatos');
+        } finally {
+            setExporting(false);
+        }
+    };
+
     return (
         <div className="space-y-6 fade-in">
             {/* Header */}
@@ -104,6 +221,15 @@ export default function Contacts() {
                         <Upload className="w-4 h-4" />
                         Importar
                     </button>
+                    <button
+                        onClick={handleExport}
+                        disabled={exporting}
+                        className="btn btn-secondary"
+                        title={search ? 'Exportar os contatos da busca atual' : 'Exportar todos os contatos'}
+                    >
+                        {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                        Exportar
+                    </button>
                     <button onClick={() => setShowAddModal(true)} className="btn btn-primary">
                         <Plus className="w-4 h-4" />
                         Adicionar
@@ -123,6 +249,75 @@ export default function Contacts() {
                 />
             </div>
 
+            {/* Bulk operation progress */}
+            {bulkOperation && (
+                <div className="card flex items-center justify-between gap-4 py-3">
+                    {bulkRunning ? (
+                        <div className="flex-1">
+                            <div className="flex justify-between text-sm text-slate-400 mb-1">
+                                <span>Alterando contatos em segundo plano...</span>
+                                <span>{bulkOperation.processed_count} de {bulkOperation.total_count}</span>
+                            </div>
+                            <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+                                <div
+                                    className="h-full bg-primary-500 transition-all"
+                                    style={{ width: `${bulkOperation.total_count > 0 ? Math.round((bulkOperation.processed_count / bulkOperation.total_count) * 100) : 0}%` }}
+                                />
+                            </div>
+                        </div>
+                    ) : bulkOperation.status === 'failed' ? (
+                        <p className="text-sm text-red-400">A operação falhou: {bulkOperation.error}</p>
+                    ) : (
+                        <p className="text-sm text-emerald-400">
+                            {bulkOperation.affected_count} de {bulkOperation.processed_count} contatos alterados
+                        </p>
+                    )}
+                    {!bulkRunning && (
+                        <button onClick={() => setBulkOperation(null)} className="text-sm text-slate-400 hover:text-white">
+                            Fechar
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Bulk actions */}
+            {selectedCount > 0 && (
+                <div className="card flex flex-wrap items-center gap-2 py-3">
+                    <span className="text-sm text-slate-300 mr-2">
+                        {selectedCount} selecionados
+                        {!selectAll && pageSelected && total > selected.length && (
+                            <button onClick={() => setSelectAll(true)} className="ml-2 text-primary-400 hover:underline">
+                                Selecionar todos os {total}{search ? ' da busca' : ''}
+                            </button>
+                        )}
+                    </span>
+                    <button onClick={() => handleBulk('add_tags')} disabled={bulkRunning} className="btn btn-secondary">
+                        <Tag className="w-4 h-4" />
+                        Adicionar tag
+                    </button>
+                    <button onClick={() => handleBulk('remove_tags')} disabled={bulkRunning} className="btn btn-secondary">
+                        Remover tag
+                    </button>
+                    <button onClick={() => handleBulk('set_custom_fields')} disabled={bulkRunning} className="btn btn-secondary">
+                        Campo personalizado
+                    </button>
+                    <button onClick={() => handleBulk('opt_out')} disabled={bulkRunning} className="btn btn-secondary">
+                        <Ban className="w-4 h-4" />
+                        Opt-out
+                    </button>
+                    <button onClick={() => handleBulk('opt_in')} disabled={bulkRunning} className="btn btn-secondary">
+                        Opt-in
+                    </button>
+                    <button onClick={() => handleBulk('delete')} disabled={bulkRunning} className="btn btn-secondary text-red-400">
+                        <Trash2 className="w-4 h-4" />
+                        Excluir
+                    </button>
+                    <button onClick={clearSelection} className="text-sm text-slate-400 hover:text-white ml-auto">
+                        Limpar seleção
+                    </button>
+                </div>
+            )}
+
             {/* Table */}
             <div className="card overflow-hidden p-0">
                 {loading ? (
@@ -138,6 +333,9 @@ export default function Contacts() {
                     <table className="table">
                         <thead>
                             <tr>
+                                <th className="w-10">
+                                    <input type="checkbox" checked={pageSelected} onChange={togglePage} title="Selecionar a página" />
+                                </th>
                                 <th>Telefone</th>
                                 <th>Nome</th>
                                 <th>Tags</th>
@@ -148,6 +346,13 @@ export default function Contacts() {
                         <tbody>
                             {contacts.map((contact) => (
                                 <tr key={contact.id}>
+                                    <td>
+                                        <input
+                                            type="checkbox"
+                                            checked={selectAll || selected.includes(contact.id)}
+                                            onChange={() => toggleSelected(contact.id)}
+                                        />
+                                    </td>
                                     <td className="font-mono text-sm">{contact.phone_e164}</td>
                                     <td>{contact.name || '-'}</td>
                                     <td>
@@ -216,7 +421,7 @@ export default function Contacts() {
                 <AddContactModal onClose={() => setShowAddModal(false)} onSuccess={loadContacts} />
             )}
 
-            {/* Import Modal - simplified */}
+            {/* Import Modal */}
             {showImportModal && (
                 <ImportModal onClose={() => setShowImportModal(false)} onSuccess={loadContacts} />
             )}
@@ -250,13 +455,13 @@ function AddContactModal({ onClose, onSuccess }: { onClose: () => void; onSucces
                 <h2 className="text-lg font-semibold mb-4">Adicionar Contato</h2>
                 <form onSubmit={handleSubmit} className="space-y-4">
                     <div>
-                        <label className="block text-sm font-medium text-slate-300 mb-1">Telefone (E.164)</label>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Telefone</label>
                         <input
                             type="tel"
                             value={phone}
                             onChange={(e) => setPhone(e.target.value)}
                             className="input"
-                            placeholder="+5511999999999"
+                            placeholder="(11) 99999-9999 ou +5511999999999"
                             required
                         />
                     </div>
@@ -282,68 +487,363 @@ function AddContactModal({ onClose, onSuccess }: { onClose: () => void; onSucces
     );
 }
 
+interface ContactImport {
+    id: string;
+    filename: string;
+    columns: string[];
+    status: 'uploaded' | 'queued' | 'processing' | 'completed' | 'failed';
+    size_bytes: number;
+    bytes_processed: number;
+    processed_rows: number;
+    created_count: number;
+    updated_count: number;
+    skipped_count: number;
+    error_count: number;
+    error: string | null;
+}
+
+interface ImportMapping {
+    phone: number | null;
+    name: number | null;
+    tags: number | null;
+    tagSeparator: string;
+    customFields: { column: number; field: string }[];
+    defaultTags: string;
+    updateExisting: boolean;
+}
+
 function ImportModal({ onClose, onSuccess }: { onClose: () => void; onSuccess: () => void }) {
-    const [csv, setCsv] = useState('');
+    const [upload, setUpload] = useState<ContactImport | null>(null);
+    const [sampleRows, setSampleRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ImportMapping>({
+        phone: null,
+        name: null,
+        tags: null,
+        tagSeparator: ',',
+        customFields: [],
+        defaultTags: '',
+        updateExisting: true,
+    });
     const [loading, setLoading] = useState(false);
-    const [result, setResult] = useState<{ imported: number; skipped: number } | null>(null);
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
+    const running = upload?.status === 'queued' || upload?.status === 'processing';
+
+    // Follow the import until it finishes
+    useEffect(() => {
+        if (!upload || !running) return;
+
+        const timer = setTimeout(async () => {
+            try {
+                const response = await api.get(`/contacts/imports/${upload.id}`);
+                setUpload(response.data.data);
+                if (response.data.data.status === 'completed') onSuccess();
+            } catch (err) {
+                console.error('Failed to load import:', err);
+            }
+        }, 1500);
+
+        return () => clearTimeout(timer);
+    }, [upload]);
+
+    const handleFile = async (file: File) => {
         setLoading(true);
 
         try {
-            // Parse CSV: phone,name
-            const lines = csv.trim().split('\n');
-            const contacts = lines.map(line => {
-                const [phone, name] = line.split(',').map(s => s.trim());
-                return { phone, name };
+            const formData = new FormData();
+            formData.append('file', file);
+
+            const response = await api.post('/contacts/imports', formData, {
+                headers: { 'Content-Type': 'multipart/form-data' }
             });
+            const { sampleRows, suggestedMapping, ...created } = response.data.data;
 
-            const response = await api.post('/contacts/import', { contacts, skipInvalid: true });
-            setResult(response.data.data);
-            onSuccess();
+            setUpload(created);
+            setSampleRows(sampleRows);
+            setMapping(prev => ({
+                ...prev,
+                phone: suggestedMapping.phone ?? null,
+                name: suggestedMapping.name ?? null,
+                tags: suggestedMapping.tags ?? null,
+            }));
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao enviar arquivo');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleStart = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!upload || mapping.phone === null) return;
+
+        setLoading(true);
+        try {
+            await api.post(`/contacts/imports/${upload.id}/start`, {
+                ...mapping,
+                customFields: mapping.customFields.filter(custom => custom.field.trim()),
+                defaultTags: mapping.defaultTags.split(',').map(t => t.trim()).filter(Boolean),
+            });
+            setUpload({ ...upload, status: 'queued' });
         } catch (err: any) {
-            alert(err.response?.data?.error || 'Erro ao importar');
+            alert(err.response?.data?.error || 'Erro ao iniciar importação');
         } finally {
             setLoading(false);
         }
     };
 
+    const handleDownloadErrors = async () => {
+        if (!upload) return;
+
+        try {
+            const response = await api.get(`/contacts/imports/${upload.id}/errors`, { responseType: 'blob' });
+            const url = URL.createObjectURL(response.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `erros-${upload.filename}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error('Failed to download errors:', err);
+            alert('Erro ao baixar relatório de erros');
+        }
+    };
+
+    const columnLabel = (index: number) => upload?.columns[index] || `Coluna ${index + 1}`;
+
+    // Custom fields are the columns not used for the phone, name or tags
+    const toggleCustomField = (column: number) => {
+        setMapping(prev => ({
+            ...prev,
+            customFields: prev.customFields.some(custom => custom.column === column)
+                ? prev.customFields.filter(custom => custom.column !== column)
+                : [...prev.customFields, { column, field: fieldName(columnLabel(column)) }],
+        }));
+    };
+
+    const setCustomFieldName = (column: number, field: string) => {
+        setMapping(prev => ({
+            ...prev,
+            customFields: prev.customFields.map(custom => custom.column === column ? { ...custom, field } : custom),
+        }));
+    };
+
+    const columnSelect = (value: number | null, onChange: (value: number | null) => void, optional: boolean) => (
+        <select
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+            className="input"
+            required={!optional}
+        >
+            <option value="">{optional ? 'Não importar' : 'Selecione a coluna'}</option>
+            {upload?.columns.map((_, index) => (
+                <option key={index} value={index}>{columnLabel(index)}</option>
+            ))}
+        </select>
+    );
+
+    const progress = upload && upload.size_bytes > 0
+        ? Math.min(100, Math.round((upload.bytes_processed / upload.size_bytes) * 100))
+        : 0;
+
     return (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-            <div className="card w-full max-w-lg">
+            <div className="card w-full max-w-2xl max-h-[90vh] overflow-y-auto">
                 <h2 className="text-lg font-semibold mb-4">Importar Contatos</h2>
-                {result ? (
-                    <div className="text-center py-4">
-                        <p className="text-lg font-medium text-emerald-400">{result.imported} contatos importados</p>
-                        {result.skipped > 0 && (
-                            <p className="text-sm text-yellow-400">{result.skipped} ignorados (inválidos)</p>
-                        )}
-                        <button onClick={onClose} className="btn btn-primary mt-4">Fechar</button>
+
+                {!upload && (
+                    <div className="space-y-4">
+                        <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-slate-600 rounded-lg cursor-pointer hover:border-primary-500">
+                            {loading ? <Loader2 className="w-8 h-8 animate-spin text-primary-400" /> : <Upload className="w-8 h-8 text-slate-400" />}
+                            <span className="text-sm text-slate-300">Selecione um arquivo CSV ou XLSX (até 50MB)</span>
+                            <span className="text-xs text-slate-500">
+                                A primeira linha deve ter os nomes das colunas. Separador e codificação são detectados automaticamente.
+                            </span>
+                            <input
+                                type="file"
+                                accept=".csv,.txt,.xlsx"
+                                className="hidden"
+                                disabled={loading}
+                                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                            />
+                        </label>
+                        <div className="flex justify-end">
+                            <button type="button" onClick={onClose} className="btn btn-secondary">Cancelar</button>
+                        </div>
                     </div>
-                ) : (
-                    <form onSubmit={handleSubmit} className="space-y-4">
+                )}
+
+                {upload?.status === 'uploaded' && (
+                    <form onSubmit={handleStart} className="space-y-4">
+                        <p className="text-sm text-slate-400">{upload.filename}: escolha o que cada coluna representa.</p>
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-slate-400">
+                                        {upload.columns.map((_, index) => (
+                                            <th key={index} className="text-left p-2 whitespace-nowrap">{columnLabel(index)}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {sampleRows.map((row, i) => (
+                                        <tr key={i} className="border-t border-slate-700">
+                                            {upload.columns.map((_, index) => (
+                                                <td key={index} className="p-2 whitespace-nowrap">{row[index]}</td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Telefone</label>
+                                {columnSelect(mapping.phone, phone => setMapping({ ...mapping, phone }), false)}
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Nome</label>
+                                {columnSelect(mapping.name, name => setMapping({ ...mapping, name }), true)}
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Tags</label>
+                                <div className="flex gap-2">
+                                    {columnSelect(mapping.tags, tags => setMapping({ ...mapping, tags }), true)}
+                                    <input
+                                        type="text"
+                                        value={mapping.tagSeparator}
+                                        onChange={(e) => setMapping({ ...mapping, tagSeparator: e.target.value })}
+                                        className="input w-12 text-center"
+                                        title="Separador das tags"
+                                        maxLength={3}
+                                        required
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
                         <div>
-                            <label className="block text-sm font-medium text-slate-300 mb-1">
-                                Dados CSV (telefone,nome)
+                            <label className="block text-sm font-medium text-slate-300 mb-2">Campos personalizados</label>
+                            <div className="space-y-2">
+                                {upload.columns.map((_, index) => {
+                                    if ([mapping.phone, mapping.name, mapping.tags].includes(index)) return null;
+                                    const custom = mapping.customFields.find(c => c.column === index);
+
+                                    return (
+                                        <div key={index} className="flex items-center gap-3 text-sm">
+                                            <label className="flex items-center gap-2 w-48">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!!custom}
+                                                    onChange={() => toggleCustomField(index)}
+                                                />
+                                                {columnLabel(index)}
+                                            </label>
+                                            {custom && (
+                                                <input
+                                                    type="text"
+                                                    value={custom.field}
+                                                    onChange={(e) => setCustomFieldName(index, e.target.value)}
+                                                    className="input flex-1"
+                                                    placeholder="nome_do_campo"
+                                                    required
+                                                />
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Tags para todos (opcional)</label>
+                                <input
+                                    type="text"
+                                    value={mapping.defaultTags}
+                                    onChange={(e) => setMapping({ ...mapping, defaultTags: e.target.value })}
+                                    className="input"
+                                    placeholder="importados, feira-2024"
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-slate-300 mt-6">
+                                <input
+                                    type="checkbox"
+                                    checked={mapping.updateExisting}
+                                    onChange={(e) => setMapping({ ...mapping, updateExisting: e.target.checked })}
+                                />
+                                Atualizar contatos já cadastrados
                             </label>
-                            <textarea
-                                value={csv}
-                                onChange={(e) => setCsv(e.target.value)}
-                                className="input h-40 font-mono text-sm"
-                                placeholder={"+5511999999999,João Silva\n+5511888888888,Maria Santos"}
-                                required
-                            />
                         </div>
+
                         <div className="flex gap-2 justify-end">
                             <button type="button" onClick={onClose} className="btn btn-secondary">Cancelar</button>
-                            <button type="submit" disabled={loading} className="btn btn-primary">
+                            <button type="submit" disabled={loading || mapping.phone === null} className="btn btn-primary">
                                 {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Importar'}
                             </button>
                         </div>
                     </form>
                 )}
+
+                {upload && upload.status !== 'uploaded' && (
+                    <div className="space-y-4">
+                        {running && (
+                            <div>
+                                <div className="flex justify-between text-sm text-slate-400 mb-1">
+                                    <span>Importando {upload.filename}...</span>
+                                    <span>{progress}%</span>
+                                </div>
+                                <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-primary-500 transition-all" style={{ width: `${progress}%` }} />
+                                </div>
+                            </div>
+                        )}
+
+                        {upload.status === 'failed' && (
+                            <p className="text-sm text-red-400">A importação falhou: {upload.error}</p>
+                        )}
+
+                        <div className="text-center py-2">
+                            {upload.status === 'completed' && (
+                                <p className="text-lg font-medium text-emerald-400">Importação concluída</p>
+                            )}
+                            <p className="text-sm text-slate-300">
+                                {upload.processed_rows} linhas lidas • {upload.created_count} novos • {upload.updated_count} atualizados
+                                {upload.skipped_count > 0 && ` • ${upload.skipped_count} ignorados (já cadastrados ou repetidos)`}
+                            </p>
+                            {upload.error_count > 0 && (
+                                <p className="text-sm text-yellow-400">{upload.error_count} linhas com erro</p>
+                            )}
+                        </div>
+
+                        <div className="flex gap-2 justify-end">
+                            {upload.error_count > 0 && !running && (
+                                <button onClick={handleDownloadErrors} className="btn btn-secondary">
+                                    <Download className="w-4 h-4" />
+                                    Linhas com erro
+                                </button>
+                            )}
+                            <button onClick={onClose} className="btn btn-primary">
+                                {running ? 'Continuar em segundo plano' : 'Fechar'}
+                            </button>
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
 }
+
+/**
+ * Column header as a custom field name ("Data de Nascimento" -> "data_de_nascimento")
+ */
+function fieldName(column: string): string {
+    return column
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .trim()
+        .replace(/[^\p{L}\p{N}_.-]+/gu, '_')
+        .replace(/^_+|_+$/g, '');
+}
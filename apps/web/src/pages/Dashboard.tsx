@@ -16,8 +16,8 @@ import { api } from '../lib/api';
 interface Stats {
     campaigns: { total: number; running: number };
     contacts: { total: number; optedOut: number };
-    messages: { sent: number; failed: number; queued: number };
-    session: { status: string };
+    messages: { sent: number; delivered: number; failed: number; queued: number };
+    session: { status: string; connected: number; total: number };
 }
 
 export default function Dashboard() {
@@ -30,13 +30,16 @@ export default function Dashboard() {
 
     const loadStats = async () => {
         try {
-            const [campaigns, contacts, messages, session] = await Promise.all([
+            const [campaigns, contacts, messages, sessions] = await Promise.all([
                 api.get('/campaigns?limit=1'),
                 api.get('/contacts?limit=1'),
                 api.get('/messages/stats'),
                 api.get('/sessions'),
             ]);
 
+            const sessionList: { status: string }[] = sessions.data.data || [];
+            const connected = sessionList.filter((s) => s.status === 'connected').length;
+
             setStats({
                 campaigns: {
                     total: campaigns.data.pagination?.total || 0,
@@ -48,11 +51,15 @@ export default function Dashboard() {
                 },
                 messages: {
                     sent: parseInt(messages.data.data?.sent || 0),
+                    delivered: parseInt(messages.data.data?.delivered || 0) + parseInt(messages.data.data?.read || 0),
                     failed: parseInt(messages.data.data?.failed || 0),
                     queued: parseInt(messages.data.data?.queued || 0),
                 },
                 session: {
-                    status: session.data.data?.status || 'disconnected',
+                    // Connected as long as one phone of the pool is
+                    status: connected > 0 ? 'connected' : sessionList[0]?.status || 'disconnected',
+                    connected,
+                    total: sessionList.length,
                 },
             });
         } catch (err) {
@@ -106,6 +113,11 @@ export default function Dashboard() {
                                 <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getSessionStatusColor(stats?.session.status || 'disconnected')}`}>
                                     {getSessionStatusText(stats?.session.status || 'disconnected')}
                                 </span>
+                                {(stats?.session.total || 0) > 1 && (
+                                    <span className="text-xs text-slate-400">
+                                        {stats?.session.connected} de {stats?.session.total} aparelhos
+                                    </span>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -155,7 +167,7 @@ export default function Dashboard() {
                     </div>
                     <div className="text-2xl font-bold">{stats?.messages.sent || 0}</div>
                     <div className="text-xs text-slate-400 mt-1">
-                        {stats?.messages.queued || 0} na fila
+                        {stats?.messages.delivered || 0} entregues • {stats?.messages.queued || 0} na fila
                     </div>
                 </div>
 
@@ -0,0 +1,282 @@
+import { useEffect, useRef, useState } from 'react';
+import { Inbox as InboxIcon, Search, Loader2, Send, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { api } from '../lib/api';
+
+interface Conversation {
+    id: string;
+    phone_e164: string;
+    contact_name: string | null;
+    opted_out: boolean | null;
+    last_message_at: string | null;
+    last_message_preview: string | null;
+    unread_count: number;
+    session_name: string | null;
+}
+
+interface ThreadMessage {
+    id: string;
+    direction: 'inbound' | 'outbound';
+    body_text: string | null;
+    media_url: string | null;
+    status: string | null;
+    campaign_name: string | null;
+    at: string;
+}
+
+export default function Inbox() {
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [selected, setSelected] = useState<Conversation | null>(null);
+    const [thread, setThread] = useState<ThreadMessage[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [loadingThread, setLoadingThread] = useState(false);
+    const [search, setSearch] = useState('');
+    const [unreadOnly, setUnreadOnly] = useState(false);
+    const [replyText, setReplyText] = useState('');
+    const [sending, setSending] = useState(false);
+    const threadEnd = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        loadConversations();
+
+        // New replies are captured by the worker in the background
+        const interval = setInterval(loadConversations, 15000);
+        return () => clearInterval(interval);
+    }, [unreadOnly]);
+
+    useEffect(() => {
+        if (!selected) return;
+
+        loadThread(selected.id);
+        const interval = setInterval(() => loadThread(selected.id, false), 15000);
+        return () => clearInterval(interval);
+    }, [selected?.id]);
+
+    useEffect(() => {
+        threadEnd.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [thread.length]);
+
+    const loadConversations = async () => {
+        try {
+            const params = new URLSearchParams({ limit: '50' });
+            if (search) params.append('search', search);
+            if (unreadOnly) params.append('unread', 'true');
+
+            const response = await api.get(`/conversations?${params}`);
+            setConversations(response.data.data);
+        } catch (err) {
+            console.error('Failed to load conversations:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const loadThread = async (id: string, showLoader = true) => {
+        if (showLoader) setLoadingThread(true);
+        try {
+            const response = await api.get(`/conversations/${id}/messages?limit=100`);
+            setThread(response.data.data);
+        } catch (err) {
+            console.error('Failed to load thread:', err);
+        } finally {
+            setLoadingThread(false);
+        }
+    };
+
+    const handleSelect = async (conversation: Conversation) => {
+        setSelected(conversation);
+        setReplyText('');
+
+        if (conversation.unread_count > 0) {
+            try {
+                await api.post(`/conversations/${conversation.id}/read`);
+                setConversations((list) => list.map((c) => c.id === conversation.id ? { ...c, unread_count: 0 } : c));
+            } catch (err) {
+                console.error('Failed to mark conversation as read:', err);
+            }
+        }
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        loadConversations();
+    };
+
+    const handleReply = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selected || !replyText.trim()) return;
+
+        setSending(true);
+        try {
+            await api.post(`/conversations/${selected.id}/reply`, { bodyText: replyText });
+            setReplyText('');
+            loadThread(selected.id, false);
+            loadConversations();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao enviar resposta');
+        } finally {
+            setSending(false);
+        }
+    };
+
+    const formatTime = (value: string | null) => value
+        ? new Date(value).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
+        : '';
+
+    const getStatusIcon = (status: string | null) => {
+        switch (status) {
+            case 'sent':
+            case 'delivered':
+            case 'read':
+                return <CheckCircle className="w-3 h-3" />;
+            case 'failed':
+                return <XCircle className="w-3 h-3 text-red-300" />;
+            default:
+                return <Clock className="w-3 h-3" />;
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="w-8 h-8 animate-spin text-primary-400" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 fade-in">
+            {/* Header */}
+            <div>
+                <h1 className="text-2xl font-bold">Conversas</h1>
+                <p className="text-slate-400">Respostas recebidas dos contatos</p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 h-[calc(100vh-12rem)]">
+                {/* Conversation list */}
+                <div className="card p-0 flex flex-col overflow-hidden">
+                    <div className="p-4 border-b border-slate-700/50 space-y-3">
+                        <form onSubmit={handleSearch} className="relative">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                            <input
+                                type="text"
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Buscar por nome ou telefone..."
+                                className="input pl-10"
+                            />
+                        </form>
+                        <label className="flex items-center gap-2 text-sm text-slate-300">
+                            <input
+                                type="checkbox"
+                                checked={unreadOnly}
+                                onChange={(e) => setUnreadOnly(e.target.checked)}
+                            />
+                            Somente não lidas
+                        </label>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto">
+                        {conversations.length === 0 ? (
+                            <div className="text-center p-12 text-slate-400">
+                                <InboxIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                                <p>Nenhuma conversa ainda</p>
+                            </div>
+                        ) : (
+                            conversations.map((conversation) => (
+                                <button
+                                    key={conversation.id}
+                                    onClick={() => handleSelect(conversation)}
+                                    className={`w-full text-left px-4 py-3 border-b border-slate-700/30 hover:bg-slate-800/50 transition-colors ${selected?.id === conversation.id ? 'bg-primary-500/10' : ''}`}
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className={`truncate ${conversation.unread_count > 0 ? 'font-semibold text-white' : ''}`}>
+                                            {conversation.contact_name || conversation.phone_e164}
+                                        </span>
+                                        {conversation.unread_count > 0 && (
+                                            <span className="badge badge-info">{conversation.unread_count}</span>
+                                        )}
+                                    </div>
+                                    <p className="text-sm text-slate-400 truncate">{conversation.last_message_preview || '-'}</p>
+                                    <p className="text-xs text-slate-500">{formatTime(conversation.last_message_at)}</p>
+                                </button>
+                            ))
+                        )}
+                    </div>
+                </div>
+
+                {/* Thread */}
+                <div className="card p-0 flex flex-col overflow-hidden lg:col-span-2">
+                    {!selected ? (
+                        <div className="flex-1 flex items-center justify-center text-slate-400">
+                            Selecione uma conversa
+                        </div>
+                    ) : (
+                        <>
+                            <div className="p-4 border-b border-slate-700/50">
+                                <h2 className="font-semibold">{selected.contact_name || selected.phone_e164}</h2>
+                                {selected.contact_name && (
+                                    <p className="text-sm text-slate-400 font-mono">{selected.phone_e164}</p>
+                                )}
+                                {selected.session_name && (
+                                    <p className="text-xs text-slate-500">Recebida em {selected.session_name}</p>
+                                )}
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                                {loadingThread ? (
+                                    <div className="flex items-center justify-center p-12">
+                                        <Loader2 className="w-8 h-8 animate-spin text-primary-400" />
+                                    </div>
+                                ) : (
+                                    thread.map((message) => (
+                                        <div
+                                            key={`${message.direction}-${message.id}`}
+                                            className={`flex ${message.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}
+                                        >
+                                            <div className={`max-w-md rounded-2xl px-4 py-2 ${message.direction === 'outbound'
+                                                ? 'bg-primary-600 text-white'
+                                                : 'bg-slate-700 text-slate-100'
+                                                }`}>
+                                                {message.media_url && (
+                                                    <img src={message.media_url} alt="" className="rounded-lg mb-2 max-h-48" />
+                                                )}
+                                                <p className="text-sm whitespace-pre-wrap">{message.body_text}</p>
+                                                <div className="flex items-center gap-1 text-xs opacity-70 mt-1">
+                                                    {message.campaign_name && <span>{message.campaign_name} •</span>}
+                                                    <span>{formatTime(message.at)}</span>
+                                                    {message.direction === 'outbound' && getStatusIcon(message.status)}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    ))
+                                )}
+                                <div ref={threadEnd} />
+                            </div>
+
+                            {selected.opted_out ? (
+                                <div className="p-4 border-t border-slate-700/50 text-sm text-yellow-400">
+                                    Este contato pediu para não receber mensagens.
+                                </div>
+                            ) : (
+                                <form onSubmit={handleReply} className="p-4 border-t border-slate-700/50 flex gap-2">
+                                    <input
+                                        type="text"
+                                        value={replyText}
+                                        onChange={(e) => setReplyText(e.target.value)}
+                                        placeholder="Escreva uma resposta..."
+                                        className="input flex-1"
+                                        maxLength={1600}
+                                    />
+                                    <button type="submit" disabled={sending || !replyText.trim()} className="btn btn-primary">
+                                        {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                                        Enviar
+                                    </button>
+                                </form>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
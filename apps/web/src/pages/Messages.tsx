@@ -13,8 +13,11 @@ interface Message {
     attempts: number;
     campaign_name: string | null;
     contact_name: string | null;
+    session_name: string | null;
     queued_at: string;
     sent_at: string | null;
+    delivered_at: string | null;
+    read_at: string | null;
 }
 
 export default function Messages() {
@@ -49,6 +52,7 @@ export default function Messages() {
         switch (status) {
             case 'sent':
             case 'delivered':
+            case 'read':
                 return <CheckCircle className="w-4 h-4 text-emerald-400" />;
             case 'failed':
                 return <XCircle className="w-4 h-4 text-red-400" />;
@@ -63,9 +67,11 @@ export default function Messages() {
         switch (status) {
             case 'sent': return <span className="badge badge-success">Enviada</span>;
             case 'delivered': return <span className="badge badge-success">Entregue</span>;
+            case 'read': return <span className="badge badge-success">Lida</span>;
             case 'failed': return <span className="badge badge-danger">Falha</span>;
             case 'sending': return <span className="badge badge-info">Enviando</span>;
             case 'cancelled': return <span className="badge badge-neutral">Cancelada</span>;
+            case 'skipped': return <span className="badge badge-neutral">Ignorada</span>;
             default: return <span className="badge badge-warning">Na Fila</span>;
         }
     };
@@ -103,8 +109,10 @@ export default function Messages() {
                     <option value="sending">Enviando</option>
                     <option value="sent">Enviada</option>
                     <option value="delivered">Entregue</option>
+                    <option value="read">Lida</option>
                     <option value="failed">Falha</option>
                     <option value="cancelled">Cancelada</option>
+                    <option value="skipped">Ignorada</option>
                 </select>
             </div>
 
@@ -143,7 +151,12 @@ export default function Messages() {
                                         </td>
                                         <td className="font-mono text-sm">{msg.phone_e164}</td>
                                         <td>{msg.contact_name || '-'}</td>
-                                        <td>{msg.campaign_name || '-'}</td>
+                                        <td>
+                                            {msg.campaign_name || '-'}
+                                            {msg.session_name && (
+                                                <span className="block text-xs text-slate-500">via {msg.session_name}</span>
+                                            )}
+                                        </td>
                                         <td>
                                             <div className="max-w-xs">
                                                 <p className="text-sm truncate">{msg.body_text || '-'}</p>
@@ -162,6 +175,15 @@ export default function Messages() {
                                                 ? new Date(msg.sent_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
                                                 : new Date(msg.queued_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
                                             }
+                                            {msg.read_at ? (
+                                                <span className="block text-xs text-emerald-400">
+                                                    Lida {new Date(msg.read_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                                                </span>
+                                            ) : msg.delivered_at && (
+                                                <span className="block text-xs text-emerald-400">
+                                                    Entregue {new Date(msg.delivered_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                                                </span>
+                                            )}
                                         </td>
                                     </tr>
                                 ))}
@@ -0,0 +1,560 @@
+import { useEffect, useState } from 'react';
+import { Filter, Loader2, Trash2, Save, Pencil, Search, Plus, Users } from 'lucide-react';
+import { api } from '../lib/api';
+
+type RuleType = 'tags' | 'field' | 'created_at' | 'opted_out' | 'campaign';
+type FieldOperator = 'eq' | 'neq' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'not_exists';
+type CampaignEvent = 'received' | 'delivered' | 'read' | 'replied';
+
+interface SegmentRule {
+    type: RuleType;
+    match?: 'all' | 'any' | 'none';
+    tags?: string[];
+    field?: string;
+    operator?: FieldOperator;
+    value?: string | number | boolean;
+    after?: string;
+    before?: string;
+    campaignId?: string;
+    event?: CampaignEvent;
+    negate?: boolean;
+}
+
+interface SegmentDefinition {
+    match: 'all' | 'any';
+    rules: SegmentRule[];
+}
+
+interface Segment {
+    id: string;
+    name: string;
+    description: string | null;
+    definition: SegmentDefinition;
+    updated_at: string;
+}
+
+interface CampaignOption {
+    id: string;
+    name: string;
+}
+
+// One editable row of the builder; every type's inputs live side by side
+interface RuleDraft {
+    type: RuleType;
+    match: 'all' | 'any' | 'none';
+    tags: string;
+    field: string;
+    operator: FieldOperator;
+    value: string;
+    after: string;
+    before: string;
+    optedOut: boolean;
+    campaignId: string;
+    event: CampaignEvent;
+    negate: boolean;
+}
+
+const RULE_TYPES: { value: RuleType; label: string }[] = [
+    { value: 'tags', label: 'Tags' },
+    { value: 'field', label: 'Campo personalizado' },
+    { value: 'created_at', label: 'Data de cadastro' },
+    { value: 'opted_out', label: 'Descadastro' },
+    { value: 'campaign', label: 'Histórico de campanhas' },
+];
+
+const FIELD_OPERATORS: { value: FieldOperator; label: string }[] = [
+    { value: 'eq', label: 'igual a' },
+    { value: 'neq', label: 'diferente de' },
+    { value: 'contains', label: 'contém' },
+    { value: 'gt', label: 'maior que' },
+    { value: 'gte', label: 'maior ou igual a' },
+    { value: 'lt', label: 'menor que' },
+    { value: 'lte', label: 'menor ou igual a' },
+    { value: 'exists', label: 'está preenchido' },
+    { value: 'not_exists', label: 'está vazio' },
+];
+
+const CAMPAIGN_EVENTS: { value: CampaignEvent; label: string }[] = [
+    { value: 'received', label: 'recebeu' },
+    { value: 'delivered', label: 'teve entregue' },
+    { value: 'read', label: 'leu' },
+    { value: 'replied', label: 'respondeu' },
+];
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+function emptyRule(): RuleDraft {
+    return {
+        type: 'tags',
+        match: 'any',
+        tags: '',
+        field: '',
+        operator: 'eq',
+        value: '',
+        after: '',
+        before: '',
+        optedOut: false,
+        campaignId: '',
+        event: 'received',
+        negate: false,
+    };
+}
+
+function toRule(draft: RuleDraft): SegmentRule {
+    switch (draft.type) {
+        case 'tags':
+            return { type: 'tags', match: draft.match, tags: draft.tags.split(',').map(t => t.trim()).filter(Boolean) };
+        case 'field': {
+            // Greater/less than compare numbers when the value is one
+            const numeric = ['gt', 'gte', 'lt', 'lte'].includes(draft.operator) && NUMERIC.test(draft.value.trim());
+            return {
+                type: 'field',
+                field: draft.field.trim(),
+                operator: draft.operator,
+                value: ['exists', 'not_exists'].includes(draft.operator)
+                    ? undefined
+                    : numeric ? Number(draft.value) : draft.value,
+            };
+        }
+        case 'created_at':
+            return {
+                type: 'created_at',
+                after: draft.after ? new Date(`${draft.after}T00:00:00`).toISOString() : undefined,
+                // The end date is included
+                before: draft.before ? new Date(new Date(`${draft.before}T00:00:00`).getTime() + 86400000).toISOString() : undefined,
+            };
+        case 'opted_out':
+            return { type: 'opted_out', value: draft.optedOut };
+        case 'campaign':
+            return { type: 'campaign', campaignId: draft.campaignId || undefined, event: draft.event, negate: draft.negate };
+    }
+}
+
+function fromRule(rule: SegmentRule): RuleDraft {
+    const draft = { ...emptyRule(), type: rule.type };
+    const day = (iso: string) => new Date(iso).toLocaleDateString('sv-SE');
+
+    switch (rule.type) {
+        case 'tags':
+            return { ...draft, match: rule.match ?? 'any', tags: (rule.tags ?? []).join(', ') };
+        case 'field':
+            return { ...draft, field: rule.field ?? '', operator: rule.operator ?? 'eq', value: rule.value?.toString() ?? '' };
+        case 'created_at':
+            return {
+                ...draft,
+                after: rule.after ? day(rule.after) : '',
+                before: rule.before ? day(new Date(new Date(rule.before).getTime() - 86400000).toISOString()) : '',
+            };
+        case 'opted_out':
+            return { ...draft, optedOut: Boolean(rule.value) };
+        case 'campaign':
+            return { ...draft, campaignId: rule.campaignId ?? '', event: rule.event ?? 'received', negate: Boolean(rule.negate) };
+    }
+}
+
+export default function Segments() {
+    const [segments, setSegments] = useState<Segment[]>([]);
+    const [campaigns, setCampaigns] = useState<CampaignOption[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [search, setSearch] = useState('');
+
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [match, setMatch] = useState<'all' | 'any'>('all');
+    const [rules, setRules] = useState<RuleDraft[]>([]);
+    const [count, setCount] = useState<{ total: number; reachable: number } | null>(null);
+    const [counting, setCounting] = useState(false);
+
+    useEffect(() => {
+        loadSegments();
+    }, [search]);
+
+    useEffect(() => {
+        loadCampaigns();
+    }, []);
+
+    // Count matching contacts while the rules are edited
+    useEffect(() => {
+        const timer = setTimeout(async () => {
+            setCounting(true);
+            try {
+                const response = await api.post('/segments/count', { definition: { match, rules: rules.map(toRule) } });
+                setCount(response.data.data);
+            } catch {
+                // Incomplete rules
+                setCount(null);
+            } finally {
+                setCounting(false);
+            }
+        }, 500);
+
+        return () => clearTimeout(timer);
+    }, [match, rules]);
+
+    const loadSegments = async () => {
+        try {
+            const params = new URLSearchParams({ limit: '100' });
+            if (search) params.append('search', search);
+
+            const response = await api.get(`/segments?${params}`);
+            setSegments(response.data.data);
+        } catch (err) {
+            console.error('Failed to load segments:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const loadCampaigns = async () => {
+        try {
+            const response = await api.get('/campaigns?limit=100');
+            setCampaigns(response.data.data);
+        } catch (err) {
+            console.error('Failed to load campaigns:', err);
+        }
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setName('');
+        setDescription('');
+        setMatch('all');
+        setRules([]);
+    };
+
+    const handleEdit = (segment: Segment) => {
+        setEditingId(segment.id);
+        setName(segment.name);
+        setDescription(segment.description || '');
+        setMatch(segment.definition.match);
+        setRules(segment.definition.rules.map(fromRule));
+    };
+
+    const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+        setRules(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+
+        const payload = {
+            name,
+            description: description || null,
+            definition: { match, rules: rules.map(toRule) },
+        };
+
+        try {
+            if (editingId) {
+                await api.patch(`/segments/${editingId}`, payload);
+            } else {
+                await api.post('/segments', payload);
+            }
+            resetForm();
+            loadSegments();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao salvar segmento');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Deseja realmente excluir este segmento?')) return;
+
+        try {
+            await api.delete(`/segments/${id}`);
+            if (editingId === id) resetForm();
+            loadSegments();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao excluir');
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="w-8 h-8 animate-spin text-primary-400" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 fade-in">
+            {/* Header */}
+            <div>
+                <h1 className="text-2xl font-bold">Segmentos</h1>
+                <p className="text-slate-400">Públicos salvos por regras, para usar nas campanhas</p>
+            </div>
+
+            {/* Search */}
+            <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="input pl-10"
+                    placeholder="Buscar por nome ou descrição..."
+                />
+            </div>
+
+            {/* List */}
+            <div className="card overflow-hidden p-0">
+                {segments.length === 0 ? (
+                    <div className="text-center p-12 text-slate-400">
+                        <Filter className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                        <p>Nenhum segmento encontrado</p>
+                    </div>
+                ) : (
+                    <table className="table">
+                        <thead>
+                            <tr>
+                                <th>Segmento</th>
+                                <th>Regras</th>
+                                <th>Atualizado</th>
+                                <th className="text-right">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {segments.map((segment) => (
+                                <tr key={segment.id}>
+                                    <td className="max-w-sm">
+                                        <span className="font-medium">{segment.name}</span>
+                                        <span className="block text-sm text-slate-400 truncate">{segment.description || '-'}</span>
+                                    </td>
+                                    <td className="text-sm text-slate-400">
+                                        {segment.definition.rules.length === 0
+                                            ? 'Todos os contatos'
+                                            : `${segment.definition.rules.length} ${segment.definition.match === 'all' ? '(todas)' : '(qualquer uma)'}`}
+                                    </td>
+                                    <td className="text-sm text-slate-400 whitespace-nowrap">
+                                        {new Date(segment.updated_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                                    </td>
+                                    <td className="text-right whitespace-nowrap">
+                                        <button
+                                            onClick={() => handleEdit(segment)}
+                                            className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white"
+                                            title="Editar"
+                                        >
+                                            <Pencil className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(segment.id)}
+                                            className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-red-400"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Create / edit */}
+            <form onSubmit={handleSave} className="card space-y-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="font-semibold">{editingId ? 'Editar segmento' : 'Novo segmento'}</h2>
+                    {editingId && (
+                        <button type="button" onClick={resetForm} className="btn btn-secondary text-sm">
+                            Cancelar edição
+                        </button>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Nome</label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="input"
+                            placeholder="Ex: Clientes VIP sem resposta"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Descrição (opcional)</label>
+                        <input
+                            type="text"
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            className="input"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-300">Contatos que atendem a</span>
+                    <select value={match} onChange={(e) => setMatch(e.target.value as 'all' | 'any')} className="input w-auto">
+                        <option value="all">todas as regras</option>
+                        <option value="any">qualquer regra</option>
+                    </select>
+                </div>
+
+                {rules.map((rule, index) => (
+                    <div key={index} className="p-3 rounded-lg bg-slate-800/50 flex flex-wrap items-center gap-2">
+                        <select
+                            value={rule.type}
+                            onChange={(e) => updateRule(index, { type: e.target.value as RuleType })}
+                            className="input w-auto"
+                        >
+                            {RULE_TYPES.map(type => (
+                                <option key={type.value} value={type.value}>{type.label}</option>
+                            ))}
+                        </select>
+
+                        {rule.type === 'tags' && (
+                            <>
+                                <select
+                                    value={rule.match}
+                                    onChange={(e) => updateRule(index, { match: e.target.value as RuleDraft['match'] })}
+                                    className="input w-auto"
+                                >
+                                    <option value="any">com qualquer uma de</option>
+                                    <option value="all">com todas</option>
+                                    <option value="none">sem nenhuma de</option>
+                                </select>
+                                <input
+                                    type="text"
+                                    value={rule.tags}
+                                    onChange={(e) => updateRule(index, { tags: e.target.value })}
+                                    className="input flex-1"
+                                    placeholder="vip, clientes"
+                                />
+                            </>
+                        )}
+
+                        {rule.type === 'field' && (
+                            <>
+                                <input
+                                    type="text"
+                                    value={rule.field}
+                                    onChange={(e) => updateRule(index, { field: e.target.value })}
+                                    className="input w-40"
+                                    placeholder="cidade"
+                                />
+                                <select
+                                    value={rule.operator}
+                                    onChange={(e) => updateRule(index, { operator: e.target.value as FieldOperator })}
+                                    className="input w-auto"
+                                >
+                                    {FIELD_OPERATORS.map(operator => (
+                                        <option key={operator.value} value={operator.value}>{operator.label}</option>
+                                    ))}
+                                </select>
+                                {!['exists', 'not_exists'].includes(rule.operator) && (
+                                    <input
+                                        type="text"
+                                        value={rule.value}
+                                        onChange={(e) => updateRule(index, { value: e.target.value })}
+                                        className="input flex-1"
+                                        placeholder="valor"
+                                    />
+                                )}
+                            </>
+                        )}
+
+                        {rule.type === 'created_at' && (
+                            <>
+                                <span className="text-sm text-slate-400">de</span>
+                                <input
+                                    type="date"
+                                    value={rule.after}
+                                    onChange={(e) => updateRule(index, { after: e.target.value })}
+                                    className="input w-auto"
+                                />
+                                <span className="text-sm text-slate-400">até</span>
+                                <input
+                                    type="date"
+                                    value={rule.before}
+                                    onChange={(e) => updateRule(index, { before: e.target.value })}
+                                    className="input w-auto"
+                                />
+                            </>
+                        )}
+
+                        {rule.type === 'opted_out' && (
+                            <select
+                                value={rule.optedOut ? 'yes' : 'no'}
+                                onChange={(e) => updateRule(index, { optedOut: e.target.value === 'yes' })}
+                                className="input w-auto"
+                            >
+                                <option value="no">não descadastrados</option>
+                                <option value="yes">descadastrados</option>
+                            </select>
+                        )}
+
+                        {rule.type === 'campaign' && (
+                            <>
+                                <select
+                                    value={rule.negate ? 'no' : 'yes'}
+                                    onChange={(e) => updateRule(index, { negate: e.target.value === 'no' })}
+                                    className="input w-auto"
+                                >
+                                    <option value="yes">que</option>
+                                    <option value="no">que não</option>
+                                </select>
+                                <select
+                                    value={rule.event}
+                                    onChange={(e) => updateRule(index, { event: e.target.value as CampaignEvent })}
+                                    className="input w-auto"
+                                >
+                                    {CAMPAIGN_EVENTS.map(event => (
+                                        <option key={event.value} value={event.value}>{event.label}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={rule.campaignId}
+                                    onChange={(e) => updateRule(index, { campaignId: e.target.value })}
+                                    className="input flex-1"
+                                >
+                                    <option value="">qualquer campanha</option>
+                                    {campaigns.map(campaign => (
+                                        <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+                                    ))}
+                                </select>
+                            </>
+                        )}
+
+                        <button
+                            type="button"
+                            onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                            className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-red-400 ml-auto"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+
+                <button type="button" onClick={() => setRules([...rules, emptyRule()])} className="btn btn-secondary text-sm">
+                    <Plus className="w-4 h-4" />
+                    Adicionar regra
+                </button>
+
+                <p className="text-sm text-slate-400 flex items-center gap-2">
+                    <Users className="w-4 h-4" />
+                    {counting ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : count ? (
+                        <span>
+                            {count.total} contatos no segmento, {count.reachable} podem receber campanhas
+                        </span>
+                    ) : (
+                        <span className="text-yellow-400">Complete as regras para ver a contagem</span>
+                    )}
+                </p>
+
+                <button type="submit" disabled={saving} className="btn btn-primary">
+                    {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    {editingId ? 'Salvar alterações' : 'Criar segmento'}
+                </button>
+            </form>
+        </div>
+    );
+}
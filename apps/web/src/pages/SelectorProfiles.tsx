@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { Code, Loader2, CheckCircle, Trash2, Save, RotateCcw } from 'lucide-react';
+import { api } from '../lib/api';
+
+interface SelectorProfile {
+    id: string;
+    name: string;
+    version: number;
+    notes: string | null;
+    is_active: boolean;
+    created_at: string;
+    created_by_email: string | null;
+}
+
+interface ActiveProfile {
+    id: string | null;
+    name: string;
+    version: number;
+    selectors: Record<string, unknown>;
+}
+
+export default function SelectorProfiles() {
+    const [profiles, setProfiles] = useState<SelectorProfile[]>([]);
+    const [active, setActive] = useState<ActiveProfile | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    const [name, setName] = useState('default');
+    const [selectorsJson, setSelectorsJson] = useState('');
+    const [notes, setNotes] = useState('');
+    const [activate, setActivate] = useState(true);
+    const [jsonError, setJsonError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadProfiles();
+    }, []);
+
+    const loadProfiles = async () => {
+        try {
+            const [listResponse, activeResponse] = await Promise.all([
+                api.get('/selector-profiles?limit=100'),
+                api.get('/selector-profiles/active'),
+            ]);
+
+            setProfiles(listResponse.data.data);
+
+            const current: ActiveProfile = activeResponse.data.data;
+            setActive(current);
+            setName(current.id ? current.name : 'default');
+            setSelectorsJson(JSON.stringify(current.selectors, null, 2));
+        } catch (err) {
+            console.error('Failed to load selector profiles:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        let selectors: unknown;
+        try {
+            selectors = JSON.parse(selectorsJson);
+            setJsonError(null);
+        } catch (err) {
+            setJsonError(err instanceof Error ? err.message : 'JSON inválido');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            await api.post('/selector-profiles', {
+                name,
+                selectors,
+                notes: notes || undefined,
+                activate,
+            });
+            setNotes('');
+            loadProfiles();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao salvar perfil');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleActivate = async (id: string) => {
+        try {
+            await api.post(`/selector-profiles/${id}/activate`);
+            loadProfiles();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao ativar perfil');
+        }
+    };
+
+    const handleRevert = async () => {
+        if (!confirm('Voltar para o perfil padrão embutido no worker?')) return;
+
+        try {
+            await api.post('/selector-profiles/deactivate');
+            loadProfiles();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao desativar perfil');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Deseja realmente excluir esta versão?')) return;
+
+        try {
+            await api.delete(`/selector-profiles/${id}`);
+            loadProfiles();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao excluir');
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="w-8 h-8 animate-spin text-primary-400" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 fade-in">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold">Seletores</h1>
+                    <p className="text-slate-400">
+                        Perfil ativo: <span className="text-white font-medium">
+                            {active?.id ? `${active.name} v${active.version}` : 'padrão embutido'}
+                        </span>
+                    </p>
+                </div>
+                {active?.id && (
+                    <button onClick={handleRevert} className="btn btn-secondary">
+                        <RotateCcw className="w-4 h-4" />
+                        Usar padrão
+                    </button>
+                )}
+            </div>
+
+            {/* Versions */}
+            <div className="card overflow-hidden p-0">
+                {profiles.length === 0 ? (
+                    <div className="text-center p-12 text-slate-400">
+                        <Code className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                        <p>Nenhum perfil salvo. O worker usa o perfil padrão.</p>
+                    </div>
+                ) : (
+                    <table className="table">
+                        <thead>
+                            <tr>
+                                <th>Perfil</th>
+                                <th>Versão</th>
+                                <th>Notas</th>
+                                <th>Criado</th>
+                                <th className="text-right">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {profiles.map((profile) => (
+                                <tr key={profile.id}>
+                                    <td className="font-medium">
+                                        {profile.name}
+                                        {profile.is_active && (
+                                            <span className="badge badge-success ml-2">Ativo</span>
+                                        )}
+                                    </td>
+                                    <td>v{profile.version}</td>
+                                    <td className="text-sm text-slate-400 max-w-xs truncate">{profile.notes || '-'}</td>
+                                    <td className="text-sm text-slate-400 whitespace-nowrap">
+                                        {new Date(profile.created_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                                        {profile.created_by_email && <span className="block text-xs">{profile.created_by_email}</span>}
+                                    </td>
+                                    <td className="text-right whitespace-nowrap">
+                                        {!profile.is_active && (
+                                            <>
+                                                <button
+                                                    onClick={() => handleActivate(profile.id)}
+                                                    className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-emerald-400"
+                                                    title="Ativar"
+                                                >
+                                                    <CheckCircle className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDelete(profile.id)}
+                                                    className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-red-400"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* New version */}
+            <form onSubmit={handleSave} className="card space-y-4">
+                <h2 className="font-semibold">Nova versão</h2>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Nome do perfil</label>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="input"
+                        required
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">
+                        Seletores (JSON)
+                        <span className="text-slate-500 font-normal ml-2">
+                            Lista em ordem de fallback, ou {'{ "default": [...], "locales": { "pt": [...] } }'}
+                        </span>
+                    </label>
+                    <textarea
+                        value={selectorsJson}
+                        onChange={(e) => setSelectorsJson(e.target.value)}
+                        className="input h-96 font-mono text-xs"
+                        spellCheck={false}
+                        required
+                    />
+                    {jsonError && <p className="text-sm text-red-400 mt-1">{jsonError}</p>}
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Notas (opcional)</label>
+                    <input
+                        type="text"
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        className="input"
+                        placeholder="Ex: Google mudou o botão de enviar"
+                    />
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input
+                        type="checkbox"
+                        checked={activate}
+                        onChange={(e) => setActivate(e.target.checked)}
+                    />
+                    Ativar imediatamente (o worker aplica em até 30s, sem reiniciar)
+                </label>
+
+                <button type="submit" disabled={saving} className="btn btn-primary">
+                    {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Salvar versão
+                </button>
+            </form>
+        </div>
+    );
+}
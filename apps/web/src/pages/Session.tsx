@@ -1,91 +1,176 @@
 import { useEffect, useState, useRef } from 'react';
-import { Smartphone, RefreshCw, Loader2, CheckCircle, XCircle, QrCode } from 'lucide-react';
+import { Smartphone, RefreshCw, Loader2, CheckCircle, XCircle, QrCode, Plus, Trash2, Gauge, Save } from 'lucide-react';
 import { api } from '../lib/api';
 
 interface SessionState {
+    id: string;
+    name: string;
     status: 'connected' | 'disconnected' | 'needs-qr' | 'error';
-    qrCode: string | null;
-    errorMessage: string | null;
-    lastSeenAt: string | null;
+    qrCode?: string | null;
+    error_message: string | null;
+    last_seen_at: string | null;
+    pending_messages: number;
+    max_per_minute: number | null;
+    max_per_hour: number | null;
+    max_per_day: number | null;
+}
+
+interface LimitsForm {
+    maxPerMinute: string;
+    maxPerHour: string;
+    maxPerDay: string;
 }
 
 export default function Session() {
-    const [session, setSession] = useState<SessionState | null>(null);
+    const [sessions, setSessions] = useState<SessionState[]>([]);
     const [loading, setLoading] = useState(true);
-    const [connecting, setConnecting] = useState(false);
+    const [connecting, setConnecting] = useState<Set<string>>(new Set());
+    const [newName, setNewName] = useState('');
+    const [creating, setCreating] = useState(false);
+    const [editingLimits, setEditingLimits] = useState<string | null>(null);
+    const [limitsForm, setLimitsForm] = useState<LimitsForm>({ maxPerMinute: '', maxPerHour: '', maxPerDay: '' });
+    const [savingLimits, setSavingLimits] = useState(false);
     const eventSourceRef = useRef<EventSource | null>(null);
 
     useEffect(() => {
-        loadSession();
+        loadSessions();
 
         return () => {
             eventSourceRef.current?.close();
         };
     }, []);
 
-    const loadSession = async () => {
+    const loadSessions = async () => {
         try {
             const response = await api.get('/sessions');
-            setSession(response.data.data);
+            setSessions(response.data.data);
         } catch (err) {
-            console.error('Failed to load session:', err);
+            console.error('Failed to load sessions:', err);
         } finally {
             setLoading(false);
         }
     };
 
+    const setConnectingFlag = (id: string, value: boolean) => {
+        setConnecting(prev => {
+            const next = new Set(prev);
+            if (value) next.add(id); else next.delete(id);
+            return next;
+        });
+    };
+
     const startQRStream = () => {
-        // Close existing connection
-        eventSourceRef.current?.close();
+        // One stream carries the updates of every session
+        if (eventSourceRef.current) return;
 
-        // Start SSE connection for QR updates
         const eventSource = new EventSource('/api/sessions/qr/stream');
         eventSourceRef.current = eventSource;
 
         eventSource.addEventListener('status', (event) => {
             const data = JSON.parse(event.data);
-            setSession(prev => ({
-                ...prev!,
-                status: data.status,
-                qrCode: data.qrCode,
-                errorMessage: data.errorMessage,
-            }));
-
-            if (data.status === 'connected') {
-                setConnecting(false);
-                eventSource.close();
+            setSessions(prev => prev.map(s => s.id === data.sessionId
+                ? {
+                    ...s,
+                    status: data.status ?? s.status,
+                    qrCode: data.qrCode,
+                    error_message: data.errorMessage ?? s.error_message,
+                }
+                : s
+            ));
+
+            if (data.status === 'connected' || data.status === 'error') {
+                setConnectingFlag(data.sessionId, false);
             }
         });
 
         eventSource.onerror = () => {
-            setConnecting(false);
+            setConnecting(new Set());
             eventSource.close();
+            eventSourceRef.current = null;
         };
     };
 
-    const handleConnect = async () => {
-        setConnecting(true);
+    const handleConnect = async (id: string) => {
+        setConnectingFlag(id, true);
 
         try {
-            await api.post('/sessions/connect');
+            await api.post(`/sessions/${id}/connect`);
             startQRStream();
         } catch (err) {
             console.error('Failed to connect:', err);
-            setConnecting(false);
+            setConnectingFlag(id, false);
         }
     };
 
-    const handleDisconnect = async () => {
+    const handleDisconnect = async (id: string) => {
         try {
-            await api.post('/sessions/disconnect');
-            loadSession();
+            await api.post(`/sessions/${id}/disconnect`);
+            loadSessions();
         } catch (err) {
             console.error('Failed to disconnect:', err);
         }
     };
 
-    const getStatusBadge = () => {
-        switch (session?.status) {
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+
+        setCreating(true);
+        try {
+            await api.post('/sessions', { name: newName.trim() });
+            setNewName('');
+            loadSessions();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao criar sessão');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Deseja realmente excluir esta sessão?')) return;
+
+        try {
+            await api.delete(`/sessions/${id}`);
+            loadSessions();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao excluir');
+        }
+    };
+
+    const handleEditLimits = (session: SessionState) => {
+        setEditingLimits(session.id);
+        setLimitsForm({
+            maxPerMinute: session.max_per_minute?.toString() ?? '',
+            maxPerHour: session.max_per_hour?.toString() ?? '',
+            maxPerDay: session.max_per_day?.toString() ?? '',
+        });
+    };
+
+    const handleSaveLimits = async (id: string) => {
+        // Empty fields go back to the default limit
+        const toLimit = (value: string) => value.trim() ? parseInt(value) : null;
+
+        setSavingLimits(true);
+        try {
+            await api.patch(`/sessions/${id}`, {
+                maxPerMinute: toLimit(limitsForm.maxPerMinute),
+                maxPerHour: toLimit(limitsForm.maxPerHour),
+                maxPerDay: toLimit(limitsForm.maxPerDay),
+            });
+            setEditingLimits(null);
+            loadSessions();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao salvar limites');
+        } finally {
+            setSavingLimits(false);
+        }
+    };
+
+    const formatLimit = (value: number | null, unit: string) => `${value ?? 'padrão'}/${unit}`;
+
+    const getStatusBadge = (status: SessionState['status']) => {
+        switch (status) {
             case 'connected':
                 return (
                     <span className="badge badge-success flex items-center gap-1.5">
@@ -128,87 +213,175 @@ export default function Session() {
         <div className="space-y-6 fade-in">
             {/* Header */}
             <div>
-                <h1 className="text-2xl font-bold">Sessão Google Messages</h1>
-                <p className="text-slate-400">Gerencie a conexão com o Google Messages Web</p>
+                <h1 className="text-2xl font-bold">Sessões Google Messages</h1>
+                <p className="text-slate-400">Cada sessão é um celular pareado; campanhas podem enviar por vários ao mesmo tempo</p>
             </div>
 
-            {/* Status card */}
-            <div className="card">
-                <div className="flex items-center gap-4 mb-6">
-                    <div className="w-14 h-14 bg-gradient-to-br from-primary-500/20 to-primary-600/20 rounded-xl flex items-center justify-center">
-                        <Smartphone className="w-7 h-7 text-primary-400" />
-                    </div>
-                    <div>
-                        <h2 className="text-lg font-semibold">Status da Sessão</h2>
-                        <div className="mt-1">{getStatusBadge()}</div>
-                    </div>
-                </div>
+            {/* Sessions */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                {sessions.map((session) => (
+                    <div key={session.id} className="card">
+                        <div className="flex items-center gap-4 mb-4">
+                            <div className="w-14 h-14 bg-gradient-to-br from-primary-500/20 to-primary-600/20 rounded-xl flex items-center justify-center">
+                                <Smartphone className="w-7 h-7 text-primary-400" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <h2 className="text-lg font-semibold truncate">{session.name}</h2>
+                                <div className="mt-1 flex items-center gap-2">
+                                    {getStatusBadge(session.status)}
+                                    {session.pending_messages > 0 && (
+                                        <span className="text-xs text-slate-400">{session.pending_messages} na fila</span>
+                                    )}
+                                </div>
+                            </div>
+                            {session.status === 'disconnected' && (
+                                <button
+                                    onClick={() => handleDelete(session.id)}
+                                    className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-red-400"
+                                    title="Excluir"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
 
-                {session?.lastSeenAt && session.status === 'connected' && (
-                    <p className="text-sm text-slate-400 mb-4">
-                        Última atividade: {new Date(session.lastSeenAt).toLocaleString('pt-BR')}
-                    </p>
-                )}
+                        {session.last_seen_at && session.status === 'connected' && (
+                            <p className="text-sm text-slate-400 mb-4">
+                                Última atividade: {new Date(session.last_seen_at).toLocaleString('pt-BR')}
+                            </p>
+                        )}
 
-                {session?.errorMessage && (
-                    <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-400 mb-4">
-                        {session.errorMessage}
-                    </div>
-                )}
-
-                {/* QR Code display */}
-                {(session?.status === 'needs-qr' || connecting) && session?.qrCode && (
-                    <div className="flex flex-col items-center py-6">
-                        <div className="p-4 bg-white rounded-2xl shadow-xl mb-4">
-                            <img
-                                src={session.qrCode}
-                                alt="QR Code"
-                                className="w-64 h-64"
-                            />
-                        </div>
-                        <p className="text-sm text-slate-400 text-center">
-                            Escaneie o QR Code com seu celular
-                            <br />
-                            <span className="text-xs">Abra Google Messages → Pareamento de dispositivos</span>
-                        </p>
-                    </div>
-                )}
-
-                {/* Actions */}
-                <div className="flex gap-3 mt-6">
-                    {session?.status === 'connected' ? (
-                        <button onClick={handleDisconnect} className="btn btn-danger">
-                            Desconectar
-                        </button>
-                    ) : (
-                        <button
-                            onClick={handleConnect}
-                            disabled={connecting}
-                            className="btn btn-primary"
-                        >
-                            {connecting ? (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                    Conectando...
-                                </>
+                        {session.error_message && session.status !== 'connected' && (
+                            <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-sm text-red-400 mb-4">
+                                {session.error_message}
+                            </div>
+                        )}
+
+                        {/* QR Code display */}
+                        {session.status === 'needs-qr' && session.qrCode && (
+                            <div className="flex flex-col items-center py-6">
+                                <div className="p-4 bg-white rounded-2xl shadow-xl mb-4">
+                                    <img
+                                        src={session.qrCode}
+                                        alt="QR Code"
+                                        className="w-64 h-64"
+                                    />
+                                </div>
+                                <p className="text-sm text-slate-400 text-center">
+                                    Escaneie o QR Code com o celular
+                                    <br />
+                                    <span className="text-xs">Abra Google Messages → Pareamento de dispositivos</span>
+                                </p>
+                            </div>
+                        )}
+
+                        {/* Send limits */}
+                        {editingLimits === session.id ? (
+                            <div className="mb-4 space-y-3">
+                                <div className="grid grid-cols-3 gap-2">
+                                    {([
+                                        ['maxPerMinute', 'Por minuto', 60],
+                                        ['maxPerHour', 'Por hora', 3600],
+                                        ['maxPerDay', 'Por dia', 50000],
+                                    ] as const).map(([field, label, max]) => (
+                                        <div key={field}>
+                                            <label className="block text-xs text-slate-400 mb-1">{label}</label>
+                                            <input
+                                                type="number"
+                                                value={limitsForm[field]}
+                                                onChange={(e) => setLimitsForm({ ...limitsForm, [field]: e.target.value })}
+                                                placeholder="padrão"
+                                                className="input"
+                                                min={1}
+                                                max={max}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-slate-500">
+                                    Valem para todas as campanhas que usam este aparelho. Deixe em branco para usar o padrão.
+                                </p>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleSaveLimits(session.id)}
+                                        disabled={savingLimits}
+                                        className="btn btn-primary"
+                                    >
+                                        {savingLimits ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                                        Salvar
+                                    </button>
+                                    <button onClick={() => setEditingLimits(null)} className="btn btn-secondary">
+                                        Cancelar
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <button
+                                onClick={() => handleEditLimits(session)}
+                                className="flex items-center gap-2 text-sm text-slate-400 hover:text-slate-200 mb-4"
+                                title="Editar limites de envio"
+                            >
+                                <Gauge className="w-4 h-4" />
+                                Limite: {formatLimit(session.max_per_minute, 'min')} · {formatLimit(session.max_per_hour, 'h')} · {formatLimit(session.max_per_day, 'dia')}
+                            </button>
+                        )}
+
+                        {/* Actions */}
+                        <div className="flex gap-3">
+                            {session.status === 'connected' ? (
+                                <button onClick={() => handleDisconnect(session.id)} className="btn btn-danger">
+                                    Desconectar
+                                </button>
                             ) : (
-                                <>
-                                    <RefreshCw className="w-4 h-4" />
-                                    Conectar
-                                </>
+                                <button
+                                    onClick={() => handleConnect(session.id)}
+                                    disabled={connecting.has(session.id)}
+                                    className="btn btn-primary"
+                                >
+                                    {connecting.has(session.id) ? (
+                                        <>
+                                            <Loader2 className="w-4 h-4 animate-spin" />
+                                            Conectando...
+                                        </>
+                                    ) : (
+                                        <>
+                                            <RefreshCw className="w-4 h-4" />
+                                            Conectar
+                                        </>
+                                    )}
+                                </button>
                             )}
-                        </button>
-                    )}
-                </div>
+                        </div>
+                    </div>
+                ))}
             </div>
 
+            {/* New session */}
+            <form onSubmit={handleCreate} className="card flex flex-col sm:flex-row gap-3 sm:items-end">
+                <div className="flex-1">
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Nova sessão</label>
+                    <input
+                        type="text"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        placeholder="Ex: Celular vendas 2"
+                        className="input"
+                        maxLength={100}
+                    />
+                </div>
+                <button type="submit" disabled={creating || !newName.trim()} className="btn btn-secondary">
+                    {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                    Adicionar aparelho
+                </button>
+            </form>
+
             {/* Instructions */}
             <div className="card">
                 <h3 className="font-semibold mb-4">Como conectar</h3>
                 <ol className="space-y-3 text-sm text-slate-300">
                     <li className="flex gap-3">
                         <span className="flex-shrink-0 w-6 h-6 bg-primary-500/20 text-primary-400 rounded-full flex items-center justify-center text-xs font-medium">1</span>
-                        <span>Clique em "Conectar" para gerar um QR Code</span>
+                        <span>Clique em "Conectar" no aparelho desejado para gerar um QR Code</span>
                     </li>
                     <li className="flex gap-3">
                         <span className="flex-shrink-0 w-6 h-6 bg-primary-500/20 text-primary-400 rounded-full flex items-center justify-center text-xs font-medium">2</span>
@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Save, X, Plus } from 'lucide-react';
+import { api } from '../lib/api';
+
+interface OptOutSettings {
+    enabled: boolean;
+    keywords: string[];
+    confirmationText: string | null;
+}
+
+interface FrequencyCapSettings {
+    maxPerDay: number | null;
+    maxPerWeek: number | null;
+}
+
+interface PhoneSettings {
+    defaultCountry: string;
+}
+
+// Countries offered as the default; the API accepts any ISO 3166-1 code
+const COUNTRIES = [
+    { code: 'BR', name: 'Brasil (+55)' },
+    { code: 'PT', name: 'Portugal (+351)' },
+    { code: 'AR', name: 'Argentina (+54)' },
+    { code: 'CL', name: 'Chile (+56)' },
+    { code: 'CO', name: 'Colômbia (+57)' },
+    { code: 'MX', name: 'México (+52)' },
+    { code: 'PY', name: 'Paraguai (+595)' },
+    { code: 'PE', name: 'Peru (+51)' },
+    { code: 'UY', name: 'Uruguai (+598)' },
+    { code: 'ES', name: 'Espanha (+34)' },
+    { code: 'US', name: 'Estados Unidos (+1)' },
+    { code: 'GB', name: 'Reino Unido (+44)' },
+];
+
+export default function Settings() {
+    const [optOut, setOptOut] = useState<OptOutSettings | null>(null);
+    const [frequencyCap, setFrequencyCap] = useState<FrequencyCapSettings | null>(null);
+    const [phone, setPhone] = useState<PhoneSettings | null>(null);
+    const [newKeyword, setNewKeyword] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [savingCap, setSavingCap] = useState(false);
+    const [savingPhone, setSavingPhone] = useState(false);
+
+    useEffect(() => {
+        loadSettings();
+    }, []);
+
+    const loadSettings = async () => {
+        try {
+            const [optOutResponse, capResponse, phoneResponse] = await Promise.all([
+                api.get('/tenants/me/opt-out'),
+                api.get('/tenants/me/frequency-cap'),
+                api.get('/tenants/me/phone'),
+            ]);
+            setOptOut(optOutResponse.data.data);
+            setFrequencyCap(capResponse.data.data);
+            setPhone(phoneResponse.data.data);
+        } catch (err) {
+            console.error('Failed to load settings:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleAddKeyword = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!optOut) return;
+
+        const keyword = newKeyword.trim().toUpperCase();
+        if (!keyword || optOut.keywords.includes(keyword)) return;
+
+        setOptOut({ ...optOut, keywords: [...optOut.keywords, keyword] });
+        setNewKeyword('');
+    };
+
+    const handleRemoveKeyword = (keyword: string) => {
+        if (!optOut) return;
+        setOptOut({ ...optOut, keywords: optOut.keywords.filter((k) => k !== keyword) });
+    };
+
+    const handleSave = async () => {
+        if (!optOut) return;
+
+        setSaving(true);
+        try {
+            const response = await api.put('/tenants/me/opt-out', {
+                ...optOut,
+                confirmationText: optOut.confirmationText?.trim() || null,
+            });
+            setOptOut(response.data.data);
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao salvar configurações');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSaveCap = async () => {
+        if (!frequencyCap) return;
+
+        setSavingCap(true);
+        try {
+            const response = await api.put('/tenants/me/frequency-cap', frequencyCap);
+            setFrequencyCap(response.data.data);
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao salvar configurações');
+        } finally {
+            setSavingCap(false);
+        }
+    };
+
+    const handleSavePhone = async () => {
+        if (!phone) return;
+
+        setSavingPhone(true);
+        try {
+            const response = await api.put('/tenants/me/phone', phone);
+            setPhone(response.data.data);
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao salvar configurações');
+        } finally {
+            setSavingPhone(false);
+        }
+    };
+
+    const capValue = (value: string) => value ? Number(value) : null;
+
+    if (loading || !optOut || !frequencyCap || !phone) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="w-8 h-8 animate-spin text-primary-400" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 fade-in">
+            {/* Header */}
+            <div>
+                <h1 className="text-2xl font-bold">Configurações</h1>
+                <p className="text-slate-400">Preferências da conta</p>
+            </div>
+
+            {/* Opt-out */}
+            <div className="card space-y-4">
+                <div>
+                    <h2 className="font-semibold">Descadastro por palavra-chave</h2>
+                    <p className="text-sm text-slate-400">
+                        Quando um contato responde apenas com uma destas palavras, ele é descadastrado
+                        e as mensagens pendentes para ele são canceladas.
+                    </p>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input
+                        type="checkbox"
+                        checked={optOut.enabled}
+                        onChange={(e) => setOptOut({ ...optOut, enabled: e.target.checked })}
+                    />
+                    Descadastro automático ativado
+                </label>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Palavras-chave</label>
+                    <div className="flex flex-wrap gap-2 mb-3">
+                        {optOut.keywords.map((keyword) => (
+                            <span key={keyword} className="badge badge-info flex items-center gap-1">
+                                {keyword}
+                                <button
+                                    type="button"
+                                    onClick={() => handleRemoveKeyword(keyword)}
+                                    className="hover:text-red-400"
+                                    disabled={optOut.keywords.length === 1}
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                    <form onSubmit={handleAddKeyword} className="flex gap-2">
+                        <input
+                            type="text"
+                            value={newKeyword}
+                            onChange={(e) => setNewKeyword(e.target.value)}
+                            placeholder="Ex: REMOVER"
+                            className="input flex-1"
+                            maxLength={50}
+                        />
+                        <button type="submit" className="btn btn-secondary" disabled={!newKeyword.trim()}>
+                            <Plus className="w-4 h-4" />
+                            Adicionar
+                        </button>
+                    </form>
+                    <p className="text-xs text-slate-500 mt-1">
+                        Maiúsculas, acentos e pontuação são ignorados.
+                    </p>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">
+                        Mensagem de confirmação (opcional)
+                    </label>
+                    <textarea
+                        value={optOut.confirmationText || ''}
+                        onChange={(e) => setOptOut({ ...optOut, confirmationText: e.target.value })}
+                        className="input h-24"
+                        placeholder="Ex: Você não receberá mais nossas mensagens."
+                        maxLength={500}
+                    />
+                    <p className="text-xs text-slate-500 mt-1">
+                        Deixe em branco para não enviar resposta.
+                    </p>
+                </div>
+
+                <div className="flex justify-end">
+                    <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+                        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                        Salvar
+                    </button>
+                </div>
+            </div>
+
+            {/* Frequency cap */}
+            <div className="card space-y-4">
+                <div>
+                    <h2 className="font-semibold">Limite de frequência</h2>
+                    <p className="text-sm text-slate-400">
+                        Máximo de mensagens de campanha que um contato recebe, somando todas as campanhas.
+                        Mensagens acima do limite são ignoradas e aparecem nas estatísticas da campanha.
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Por dia (últimas 24 horas)</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={frequencyCap.maxPerDay ?? ''}
+                            onChange={(e) => setFrequencyCap({ ...frequencyCap, maxPerDay: capValue(e.target.value) })}
+                            className="input"
+                            placeholder="Sem limite"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Por semana (últimos 7 dias)</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={500}
+                            value={frequencyCap.maxPerWeek ?? ''}
+                            onChange={(e) => setFrequencyCap({ ...frequencyCap, maxPerWeek: capValue(e.target.value) })}
+                            className="input"
+                            placeholder="Sem limite"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex justify-end">
+                    <button onClick={handleSaveCap} disabled={savingCap} className="btn btn-primary">
+                        {savingCap ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                        Salvar
+                    </button>
+                </div>
+            </div>
+
+            {/* Phone numbers */}
+            <div className="card space-y-4">
+                <div>
+                    <h2 className="font-semibold">Números de telefone</h2>
+                    <p className="text-sm text-slate-400">
+                        Números cadastrados ou importados sem código do país, como (11) 99999-9999, são considerados deste país.
+                        Números fixos e outros que não recebem SMS são recusados.
+                    </p>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">País padrão</label>
+                    <select
+                        value={phone.defaultCountry}
+                        onChange={(e) => setPhone({ defaultCountry: e.target.value })}
+                        className="input"
+                    >
+                        {!COUNTRIES.some(country => country.code === phone.defaultCountry) && (
+                            <option value={phone.defaultCountry}>{phone.defaultCountry}</option>
+                        )}
+                        {COUNTRIES.map(country => (
+                            <option key={country.code} value={country.code}>{country.name}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex justify-end">
+                    <button onClick={handleSavePhone} disabled={savingPhone} className="btn btn-primary">
+                        {savingPhone ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                        Salvar
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
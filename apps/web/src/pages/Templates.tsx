@@ -0,0 +1,362 @@
+import { useEffect, useState } from 'react';
+import { FileText, Loader2, Trash2, Save, Pencil, History, Search, X, RotateCcw } from 'lucide-react';
+import { api } from '../lib/api';
+
+interface Template {
+    id: string;
+    name: string;
+    body_text: string;
+    media_id: string | null;
+    media_url: string | null;
+    tags: string[];
+    version: number;
+    updated_at: string;
+}
+
+interface TemplateVersion {
+    id: string;
+    version: number;
+    body_text: string;
+    media_id: string | null;
+    media_url: string | null;
+    created_by_name: string | null;
+    created_at: string;
+}
+
+interface MediaItem {
+    id: string;
+    original_filename: string;
+}
+
+export default function Templates() {
+    const [templates, setTemplates] = useState<Template[]>([]);
+    const [media, setMedia] = useState<MediaItem[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [search, setSearch] = useState('');
+    const [tagFilter, setTagFilter] = useState('');
+
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const [bodyText, setBodyText] = useState('');
+    const [mediaId, setMediaId] = useState('');
+    const [tags, setTags] = useState('');
+
+    const [historyOf, setHistoryOf] = useState<Template | null>(null);
+    const [versions, setVersions] = useState<TemplateVersion[]>([]);
+
+    useEffect(() => {
+        loadTemplates();
+    }, [search, tagFilter]);
+
+    useEffect(() => {
+        loadMedia();
+    }, []);
+
+    const loadTemplates = async () => {
+        try {
+            const params = new URLSearchParams({ limit: '100' });
+            if (search) params.append('search', search);
+            if (tagFilter) params.append('tag', tagFilter);
+
+            const response = await api.get(`/templates?${params}`);
+            setTemplates(response.data.data);
+        } catch (err) {
+            console.error('Failed to load templates:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const loadMedia = async () => {
+        try {
+            const response = await api.get('/media?limit=50');
+            setMedia(response.data.data);
+        } catch (err) {
+            console.error('Failed to load media:', err);
+        }
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setName('');
+        setBodyText('');
+        setMediaId('');
+        setTags('');
+    };
+
+    const handleEdit = (template: Template) => {
+        setEditingId(template.id);
+        setName(template.name);
+        setBodyText(template.body_text);
+        setMediaId(template.media_id || '');
+        setTags(template.tags.join(', '));
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+
+        const payload = {
+            name,
+            bodyText,
+            mediaId: mediaId || null,
+            tags: tags.split(',').map(t => t.trim()).filter(Boolean),
+        };
+
+        try {
+            if (editingId) {
+                await api.patch(`/templates/${editingId}`, payload);
+            } else {
+                await api.post('/templates', payload);
+            }
+            resetForm();
+            loadTemplates();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao salvar modelo');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleHistory = async (template: Template) => {
+        try {
+            const response = await api.get(`/templates/${template.id}/versions`);
+            setVersions(response.data.data);
+            setHistoryOf(template);
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao carregar versões');
+        }
+    };
+
+    const handleRestore = async (version: TemplateVersion) => {
+        if (!historyOf || !confirm(`Restaurar a versão ${version.version}? Ela será salva como uma nova versão.`)) return;
+
+        try {
+            await api.patch(`/templates/${historyOf.id}`, {
+                bodyText: version.body_text,
+                mediaId: version.media_id,
+            });
+            setHistoryOf(null);
+            loadTemplates();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao restaurar versão');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Deseja realmente excluir este modelo? Campanhas já criadas não são alteradas.')) return;
+
+        try {
+            await api.delete(`/templates/${id}`);
+            if (editingId === id) resetForm();
+            loadTemplates();
+        } catch (err: any) {
+            alert(err.response?.data?.error || 'Erro ao excluir');
+        }
+    };
+
+    const allTags = [...new Set(templates.flatMap(t => t.tags))].sort();
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <Loader2 className="w-8 h-8 animate-spin text-primary-400" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 fade-in">
+            {/* Header */}
+            <div>
+                <h1 className="text-2xl font-bold">Modelos</h1>
+                <p className="text-slate-400">Mensagens aprovadas para reutilizar nas campanhas</p>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-col sm:flex-row gap-3">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        className="input pl-10"
+                        placeholder="Buscar por nome ou texto..."
+                    />
+                </div>
+                <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className="input sm:w-48">
+                    <option value="">Todas as tags</option>
+                    {allTags.map(tag => (
+                        <option key={tag} value={tag}>{tag}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* List */}
+            <div className="card overflow-hidden p-0">
+                {templates.length === 0 ? (
+                    <div className="text-center p-12 text-slate-400">
+                        <FileText className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                        <p>Nenhum modelo encontrado</p>
+                    </div>
+                ) : (
+                    <table className="table">
+                        <thead>
+                            <tr>
+                                <th>Modelo</th>
+                                <th>Tags</th>
+                                <th>Versão</th>
+                                <th>Atualizado</th>
+                                <th className="text-right">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {templates.map((template) => (
+                                <tr key={template.id}>
+                                    <td className="max-w-sm">
+                                        <span className="font-medium">{template.name}</span>
+                                        {template.media_url && <span className="badge badge-info ml-2">Imagem</span>}
+                                        <span className="block text-sm text-slate-400 truncate">{template.body_text || '-'}</span>
+                                    </td>
+                                    <td>
+                                        <div className="flex flex-wrap gap-1">
+                                            {template.tags.map(tag => (
+                                                <span key={tag} className="badge badge-info">{tag}</span>
+                                            ))}
+                                        </div>
+                                    </td>
+                                    <td>v{template.version}</td>
+                                    <td className="text-sm text-slate-400 whitespace-nowrap">
+                                        {new Date(template.updated_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                                    </td>
+                                    <td className="text-right whitespace-nowrap">
+                                        <button
+                                            onClick={() => handleEdit(template)}
+                                            className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white"
+                                            title="Editar"
+                                        >
+                                            <Pencil className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleHistory(template)}
+                                            className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white"
+                                            title="Versões"
+                                        >
+                                            <History className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(template.id)}
+                                            className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-red-400"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Version history */}
+            {historyOf && (
+                <div className="card space-y-3">
+                    <div className="flex items-center justify-between">
+                        <h2 className="font-semibold">Versões de {historyOf.name}</h2>
+                        <button onClick={() => setHistoryOf(null)} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                    {versions.map((version) => (
+                        <div key={version.id} className="p-3 rounded-lg bg-slate-800/50 flex gap-3">
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm text-slate-400">
+                                    v{version.version} • {new Date(version.created_at).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                                    {version.created_by_name && ` • ${version.created_by_name}`}
+                                    {version.media_url && ' • com imagem'}
+                                </p>
+                                <p className="text-sm whitespace-pre-wrap">{version.body_text || '-'}</p>
+                            </div>
+                            {version.version !== historyOf.version && (
+                                <button
+                                    onClick={() => handleRestore(version)}
+                                    className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-emerald-400 self-start"
+                                    title="Restaurar"
+                                >
+                                    <RotateCcw className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Create / edit */}
+            <form onSubmit={handleSave} className="card space-y-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="font-semibold">{editingId ? 'Editar modelo' : 'Novo modelo'}</h2>
+                    {editingId && (
+                        <button type="button" onClick={resetForm} className="btn btn-secondary text-sm">
+                            Cancelar edição
+                        </button>
+                    )}
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Nome</label>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="input"
+                        placeholder="Ex: Lembrete de vencimento"
+                        required
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">
+                        Mensagem
+                        <span className="text-slate-500 font-normal ml-2">
+                            Mesmas variáveis das campanhas; alterar o texto ou a imagem cria uma nova versão
+                        </span>
+                    </label>
+                    <textarea
+                        value={bodyText}
+                        onChange={(e) => setBodyText(e.target.value)}
+                        className="input h-32"
+                        placeholder="Olá {primeiro_nome|cliente}! Sua fatura vence em {vencimento:data}."
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Imagem (opcional)</label>
+                    <select value={mediaId} onChange={(e) => setMediaId(e.target.value)} className="input">
+                        <option value="">Sem imagem</option>
+                        {media.map(item => (
+                            <option key={item.id} value={item.id}>{item.original_filename}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Tags (separadas por vírgula)</label>
+                    <input
+                        type="text"
+                        value={tags}
+                        onChange={(e) => setTags(e.target.value)}
+                        className="input"
+                        placeholder="Ex: cobrança, aprovado"
+                    />
+                </div>
+
+                <button type="submit" disabled={saving || (!bodyText && !mediaId)} className="btn btn-primary">
+                    {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    {editingId ? 'Salvar alterações' : 'Criar modelo'}
+                </button>
+            </form>
+        </div>
+    );
+}
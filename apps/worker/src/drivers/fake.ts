@@ -0,0 +1,220 @@
+import type { ConversationSummary, ConversationThread, DriverState, MessagingDriver, OutgoingMessageStatus, ScrapedContact, SendResult } from './types.js';
+
+export interface FakeDriverOptions {
+    // Probability (0-1) that a text send succeeds
+    successRate?: number;
+    // Probability (0-1) that an image send succeeds; falls back to successRate
+    imageSuccessRate?: number;
+    // Simulated latency per operation
+    latencyMs?: number;
+    // Seed for the outcome sequence, same seed = same outcomes
+    seed?: number;
+    // Number of detectState() calls reporting needs-qr before "scanning" succeeds
+    qrPolls?: number;
+    // Contacts returned by scrapeContacts()
+    contacts?: ScrapedContact[];
+}
+
+// 1x1 transparent PNG, good enough to render as a QR placeholder
+const FAKE_QR = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/**
+ * Hash a string into a 32-bit seed (FNV-1a)
+ */
+function hashSeed(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * In-process messaging driver for CI and staging.
+ * Never touches a browser or a phone; outcomes come from a seeded PRNG
+ * so a given seed always produces the same success/failure sequence.
+ */
+export class FakeMessagingDriver implements MessagingDriver {
+    private tenantId: string;
+    private options: Required<FakeDriverOptions>;
+    private rngState: number;
+    private launched: boolean = false;
+    private statePolls: number = 0;
+
+    readonly sent: { phoneE164: string; text?: string; imagePath?: string; success: boolean; sentAt: Date }[] = [];
+    readonly received: { phoneE164: string; text: string; receivedAt: Date }[] = [];
+
+    constructor(tenantId: string, options: FakeDriverOptions = {}) {
+        this.tenantId = tenantId;
+
+        const successRate = clampRate(options.successRate ?? 1);
+
+        this.options = {
+            successRate,
+            imageSuccessRate: clampRate(options.imageSuccessRate ?? successRate),
+            latencyMs: Math.max(0, options.latencyMs ?? 0),
+            seed: options.seed ?? 1,
+            qrPolls: Math.max(0, options.qrPolls ?? 0),
+            contacts: options.contacts ?? [],
+        };
+
+        this.rngState = hashSeed(`${this.options.seed}:${tenantId}`);
+    }
+
+    /**
+     * Mulberry32 - small, fast and good enough for simulated outcomes
+     */
+    private nextRandom(): number {
+        this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+        let t = this.rngState;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    private async simulateLatency(): Promise<void> {
+        if (this.options.latencyMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+        }
+    }
+
+    async launch(): Promise<void> {
+        console.log(`[${this.tenantId}] Launching fake messaging driver (seed ${this.options.seed})`);
+        this.launched = true;
+    }
+
+    async detectState(): Promise<DriverState> {
+        if (!this.launched) return 'error';
+
+        if (this.statePolls < this.options.qrPolls) {
+            this.statePolls++;
+            return 'needs-qr';
+        }
+
+        return 'connected';
+    }
+
+    async captureQRCode(): Promise<string | null> {
+        return this.launched ? FAKE_QR : null;
+    }
+
+    async checkHealth(): Promise<boolean> {
+        return (await this.detectState()) === 'connected';
+    }
+
+    async sendText(phoneE164: string, text: string): Promise<SendResult> {
+        if (!this.launched) {
+            return { success: false, outcome: 'failed', error: 'Session not ready' };
+        }
+
+        await this.simulateLatency();
+
+        const success = this.nextRandom() < this.options.successRate;
+        this.sent.push({ phoneE164, text, success, sentAt: new Date() });
+
+        return success
+            ? { success: true, outcome: 'sent' }
+            : { success: false, outcome: 'failed', error: 'Simulated send failure (fake driver)' };
+    }
+
+    async sendImage(phoneE164: string, imagePath: string, caption?: string): Promise<SendResult> {
+        if (!this.launched) {
+            return { success: false, outcome: 'failed', error: 'Session not ready' };
+        }
+
+        await this.simulateLatency();
+
+        const success = this.nextRandom() < this.options.imageSuccessRate;
+        this.sent.push({ phoneE164, text: caption, imagePath, success, sentAt: new Date() });
+
+        return success
+            ? { success: true, outcome: 'sent' }
+            : { success: false, outcome: 'failed', error: 'Simulated image send failure (fake driver)' };
+    }
+
+    async scrapeContacts(maxContacts: number = 500): Promise<ScrapedContact[]> {
+        if (!this.launched) {
+            throw new Error('Session not ready');
+        }
+
+        await this.simulateLatency();
+        return this.options.contacts.slice(0, maxContacts);
+    }
+
+    /**
+     * Successful sends are reported as delivered on the next visit
+     */
+    async readOutgoingStatuses(phoneE164: string): Promise<OutgoingMessageStatus[]> {
+        if (!this.launched) {
+            throw new Error('Session not ready');
+        }
+
+        await this.simulateLatency();
+
+        return this.sent
+            .filter(message => message.phoneE164 === phoneE164)
+            .map(message => ({
+                text: message.text || '',
+                timestamp: message.sentAt,
+                status: message.success ? 'delivered' : 'failed',
+                hasImage: message.imagePath !== undefined,
+            }));
+    }
+
+    /**
+     * Simulate a reply from a recipient; shows up in the next capture
+     */
+    receive(phoneE164: string, text: string): void {
+        this.received.push({ phoneE164, text, receivedAt: new Date() });
+    }
+
+    async listConversations(): Promise<ConversationSummary[]> {
+        if (!this.launched) {
+            throw new Error('Session not ready');
+        }
+
+        await this.simulateLatency();
+
+        const latest = new Map<string, string>();
+        for (const message of this.received) {
+            latest.set(message.phoneE164, message.text);
+        }
+
+        return Array.from(latest, ([phoneE164, text]) => ({
+            id: phoneE164.replace(/\D/g, ''),
+            title: phoneE164,
+            snippet: text,
+            unread: true,
+        }));
+    }
+
+    async readConversation(conversationId: string): Promise<ConversationThread> {
+        if (!this.launched) {
+            throw new Error('Session not ready');
+        }
+
+        await this.simulateLatency();
+
+        const phoneE164 = `+${conversationId}`;
+
+        return {
+            id: conversationId,
+            title: phoneE164,
+            phoneE164,
+            incoming: this.received
+                .filter(message => message.phoneE164 === phoneE164)
+                .map(message => ({ text: message.text, timestamp: message.receivedAt })),
+        };
+    }
+
+    async close(): Promise<void> {
+        this.launched = false;
+        this.statePolls = 0;
+    }
+}
+
+function clampRate(rate: number): number {
+    if (Number.isNaN(rate)) return 1;
+    return Math.min(1, Math.max(0, rate));
+}
@@ -1,66 +1,117 @@
-import { chromium, type BrowserContext, type Page } from 'playwright';
+import { chromium, type BrowserContext, type ElementHandle, type Page } from 'playwright';
 import * as fs from 'fs';
 import * as path from 'path';
-
-// Selectors for Google Messages Web UI
-// NOTE: These may change if Google updates their UI
-const SELECTORS = {
-    // QR Code
-    qrCanvas: 'canvas',
-    qrContainer: 'mw-qr-code',
-
-    // Login state detection
-    conversationList: 'mws-conversations-list',
-    mainContent: 'main',
-
-    // New conversation
-    startChatButton: '[data-e2e-start-chat-button]',
-    startChatFab: 'a[href="/web/conversations/new"]',
-
-    // Contact input
-    recipientInput: 'input[placeholder*="name"], input[placeholder*="number"], input[aria-label*="recipient"]',
-    contactSuggestion: '[data-e2e-contact-row]',
-
-    // Message composer
-    messageInput: '[data-e2e-message-input-box], [contenteditable="true"][aria-label*="message"]',
-
-    // Attachment
-    attachButton: '[data-e2e-attach-menu-button], button[aria-label*="Attach"], button[aria-label*="anexar"]',
-    fileInput: 'input[type="file"]',
-    attachmentPreview: '[data-e2e-attached-image], img[src*="blob:"]',
-
-    // Send
-    sendButton: '[data-e2e-send-text-button], button[aria-label*="Send"], button[aria-label*="Enviar"]',
-
-    // Message status
-    messageSent: '[data-e2e-message-status="sent"],.message-status-sent',
-    messageError: '.message-status-error,.error-message',
-};
-
-export interface SendResult {
-    success: boolean;
-    error?: string;
-    fallbackUsed?: boolean;
-    screenshotPath?: string;
+import { DEFAULT_SELECTOR_PROFILE, resolveSelectorChain, type SelectorKey, type SelectorMap } from '@sms/shared';
+import type { ConversationSummary, ConversationThread, DriverState, MessagingDriver, OutgoingMessageStatus, ReceiptStatus, ScrapedContact, SendOutcome, SendResult } from './types.js';
+
+export type { SendResult } from './types.js';
+
+export const GOOGLE_MESSAGES_URL = 'https://messages.google.com';
+
+// Bubble timestamps are only minute-precise, so allow for rounding and clock drift
+const TIMESTAMP_TOLERANCE_MS = 60000;
+
+export interface GoogleMessagesClientOptions {
+    // Origin serving the Messages Web UI (overridden in tests to point at the local mock)
+    baseUrl?: string;
+    headless?: boolean;
+    // Active selector profile; called before each operation so profiles can be hot-swapped
+    selectors?: () => Promise<SelectorMap>;
+    // UI language of the paired account, puts matching locale variants first
+    locale?: string | null;
+    // How long to follow the outgoing bubble before reporting the send as pending
+    verifyTimeoutMs?: number;
+    // Browser profile directory under sessionsPath; one per paired phone (default: tenant ID)
+    profileDir?: string;
 }
 
-export class GoogleMessagesClient {
+export class GoogleMessagesClient implements MessagingDriver {
     private context: BrowserContext | null = null;
     private page: Page | null = null;
     private tenantId: string;
     private sessionsPath: string;
+    private profileDir: string;
+    private baseUrl: string;
+    private headless: boolean;
+    private selectorProvider?: () => Promise<SelectorMap>;
+    private selectors: SelectorMap = DEFAULT_SELECTOR_PROFILE;
+    private locale: string | null;
+    private verifyTimeoutMs: number;
     private isReady: boolean = false;
 
-    constructor(tenantId: string, sessionsPath: string) {
+    constructor(tenantId: string, sessionsPath: string, options: GoogleMessagesClientOptions = {}) {
         this.tenantId = tenantId;
         this.sessionsPath = sessionsPath;
+        this.profileDir = options.profileDir || tenantId;
+        this.baseUrl = (options.baseUrl || GOOGLE_MESSAGES_URL).replace(/\/$/, '');
+        this.headless = options.headless ?? true;
+        this.selectorProvider = options.selectors;
+        this.locale = options.locale || null;
+        this.verifyTimeoutMs = options.verifyTimeoutMs ?? 30000;
+    }
+
+    /**
+     * Reload the selector profile from the provider (which caches)
+     */
+    private async refreshSelectors(): Promise<void> {
+        if (!this.selectorProvider) return;
+
+        try {
+            this.selectors = await this.selectorProvider();
+        } catch (err) {
+            console.error(`[${this.tenantId}] Selector profile refresh failed, keeping current:`, err);
+        }
+    }
+
+    /**
+     * Ordered fallback chain for a logical element
+     */
+    private chain(key: SelectorKey): string[] {
+        return resolveSelectorChain(this.selectors, key, this.locale);
+    }
+
+    /**
+     * Return the first element matched by the chain, trying selectors in order
+     */
+    private async query(key: SelectorKey): Promise<ElementHandle | null> {
+        if (!this.page) return null;
+
+        for (const selector of this.chain(key)) {
+            const element = await this.page.$(selector).catch(() => null);
+            if (element) return element;
+        }
+
+        return null;
+    }
+
+    /**
+     * Wait until any selector of the chain is visible, then return the
+     * visible match with the highest priority
+     */
+    private async waitFor(key: SelectorKey, timeout: number): Promise<ElementHandle> {
+        const page = this.page;
+        if (!page) throw new Error('Page not available');
+
+        const [first, ...rest] = this.chain(key);
+        const locator = rest.reduce((acc, selector) => acc.or(page.locator(selector)), page.locator(first));
+
+        await locator.first().waitFor({ state: 'visible', timeout });
+
+        for (const selector of this.chain(key)) {
+            const element = await page.$(selector).catch(() => null);
+            if (element && await element.isVisible()) return element;
+        }
+
+        const element = await locator.first().elementHandle();
+        if (!element) throw new Error(`Element not found: ${key}`);
+        return element;
     }
 
     /**
      * Get the user data directory for persistent session
      */
     private getUserDataDir(): string {
-        const dir = path.join(this.sessionsPath, this.tenantId);
+        const dir = path.join(this.sessionsPath, this.profileDir);
         if (!fs.existsSync(dir)) {
             fs.mkdirSync(dir, { recursive: true });
         }
@@ -76,7 +127,7 @@ export class GoogleMessagesClient {
         const userDataDir = this.getUserDataDir();
 
         this.context = await chromium.launchPersistentContext(userDataDir, {
-            headless: true,
+            headless: this.headless,
             args: [
                 '--no-sandbox',
                 '--disable-setuid-sandbox',
@@ -92,7 +143,7 @@ export class GoogleMessagesClient {
         this.page = await this.context.newPage();
 
         // Navigate to Google Messages
-        await this.page.goto('https://messages.google.com/web/authentication', {
+        await this.page.goto(`${this.baseUrl}/web/authentication`, {
             waitUntil: 'networkidle',
             timeout: 60000,
         });
@@ -103,22 +154,24 @@ export class GoogleMessagesClient {
     /**
      * Detect current state: needs-qr, connected, or error
      */
-    async detectState(): Promise<'needs-qr' | 'connected' | 'error'> {
+    async detectState(): Promise<DriverState> {
         if (!this.page) return 'error';
 
+        await this.refreshSelectors();
+
         try {
             // Wait a bit for page to settle
             await this.page.waitForTimeout(2000);
 
             // Check if we have conversations (logged in)
-            const hasConversations = await this.page.$(SELECTORS.conversationList);
+            const hasConversations = await this.query('conversationList');
             if (hasConversations) {
                 this.isReady = true;
                 return 'connected';
             }
 
             // Check for QR code
-            const hasQR = await this.page.$('canvas');
+            const hasQR = await this.query('qrCanvas');
             if (hasQR) {
                 return 'needs-qr';
             }
@@ -145,11 +198,10 @@ export class GoogleMessagesClient {
 
         try {
             // Wait for canvas to appear
-            const canvas = await this.page.waitForSelector('canvas', { timeout: 10000 });
-            if (!canvas) return null;
+            const canvas = await this.waitFor('qrCanvas', 10000);
 
             // Take screenshot of the entire QR area
-            const qrArea = await this.page.$('mw-qr-code') || canvas;
+            const qrArea = await this.query('qrContainer') || canvas;
             const screenshot = await qrArea.screenshot({ type: 'png' });
 
             return `data:image/png;base64,${screenshot.toString('base64')}`;
@@ -168,7 +220,7 @@ export class GoogleMessagesClient {
         try {
             // Wait for either conversations list or navigation to messages
             await Promise.race([
-                this.page.waitForSelector(SELECTORS.conversationList, { timeout: timeoutMs }),
+                this.waitFor('conversationList', timeoutMs),
                 this.page.waitForURL('**/web/conversations**', { timeout: timeoutMs }),
             ]);
 
@@ -200,20 +252,24 @@ export class GoogleMessagesClient {
      */
     async sendText(phoneE164: string, text: string): Promise<SendResult> {
         if (!this.page || !this.isReady) {
-            return { success: false, error: 'Session not ready' };
+            return { success: false, outcome: 'failed', error: 'Session not ready' };
         }
 
         try {
+            await this.refreshSelectors();
+
             // Start new conversation
             await this.startNewConversation(phoneE164);
 
-            // Type and send message
-            await this.typeAndSend(text);
+            // Type message
+            await this.typeMessage(text);
 
-            // Verify message was sent
-            const sent = await this.verifyMessageSent();
+            // Send and follow the bubble it creates
+            const sentAfter = Date.now();
+            await this.markExistingBubbles();
+            await this.clickSend();
 
-            return { success: sent, error: sent ? undefined : 'Message send verification failed' };
+            return await this.verifyMessageSent(text, sentAfter);
         } catch (err) {
             const error = err instanceof Error ? err.message : 'Unknown error';
             console.error(`[${this.tenantId}] Send text error:`, error);
@@ -221,7 +277,7 @@ export class GoogleMessagesClient {
             // Take screenshot on error
             const screenshotPath = await this.takeErrorScreenshot('send_text');
 
-            return { success: false, error, screenshotPath };
+            return { success: false, outcome: 'failed', error, screenshotPath };
         }
     }
 
@@ -230,10 +286,12 @@ export class GoogleMessagesClient {
      */
     async sendImage(phoneE164: string, imagePath: string, caption?: string): Promise<SendResult> {
         if (!this.page || !this.isReady) {
-            return { success: false, error: 'Session not ready' };
+            return { success: false, outcome: 'failed', error: 'Session not ready' };
         }
 
         try {
+            await this.refreshSelectors();
+
             // Start new conversation
             await this.startNewConversation(phoneE164);
 
@@ -242,7 +300,7 @@ export class GoogleMessagesClient {
 
             if (!attached) {
                 // RCS might not be supported, use fallback
-                return { success: false, error: 'Failed to attach image - RCS may not be supported' };
+                return { success: false, outcome: 'failed', error: 'Failed to attach image - RCS may not be supported' };
             }
 
             // Add caption if provided
@@ -250,20 +308,19 @@ export class GoogleMessagesClient {
                 await this.typeMessage(caption);
             }
 
-            // Send
+            // Send and follow the bubble it creates
+            const sentAfter = Date.now();
+            await this.markExistingBubbles();
             await this.clickSend();
 
-            // Verify
-            const sent = await this.verifyMessageSent();
-
-            return { success: sent, error: sent ? undefined : 'Image send verification failed' };
+            return await this.verifyMessageSent(caption || '', sentAfter);
         } catch (err) {
             const error = err instanceof Error ? err.message : 'Unknown error';
             console.error(`[${this.tenantId}] Send image error:`, error);
 
             const screenshotPath = await this.takeErrorScreenshot('send_image');
 
-            return { success: false, error, screenshotPath };
+            return { success: false, outcome: 'failed', error, screenshotPath };
         }
     }
 
@@ -274,14 +331,13 @@ export class GoogleMessagesClient {
         if (!this.page) throw new Error('Page not available');
 
         // Navigate to new conversation
-        await this.page.goto('https://messages.google.com/web/conversations/new', {
+        await this.page.goto(`${this.baseUrl}/web/conversations/new`, {
             waitUntil: 'networkidle',
             timeout: 30000,
         });
 
         // Wait for input field
-        const input = await this.page.waitForSelector(SELECTORS.recipientInput, { timeout: 10000 });
-        if (!input) throw new Error('Recipient input not found');
+        const input = await this.waitFor('recipientInput', 10000);
 
         // Clear and type phone number
         await input.fill(phoneE164);
@@ -292,7 +348,7 @@ export class GoogleMessagesClient {
         await this.page.waitForTimeout(1000);
 
         // Wait for message composer to appear
-        await this.page.waitForSelector(SELECTORS.messageInput, { timeout: 10000 });
+        await this.waitFor('messageInput', 10000);
     }
 
     /**
@@ -301,22 +357,13 @@ export class GoogleMessagesClient {
     private async typeMessage(text: string): Promise<void> {
         if (!this.page) throw new Error('Page not available');
 
-        const input = await this.page.waitForSelector(SELECTORS.messageInput, { timeout: 5000 });
-        if (!input) throw new Error('Message input not found');
+        const input = await this.waitFor('messageInput', 5000);
 
         // Focus and type
         await input.click();
         await input.fill(text);
     }
 
-    /**
-     * Type message and send
-     */
-    private async typeAndSend(text: string): Promise<void> {
-        await this.typeMessage(text);
-        await this.clickSend();
-    }
-
     /**
      * Click the send button
      */
@@ -324,7 +371,7 @@ export class GoogleMessagesClient {
         if (!this.page) throw new Error('Page not available');
 
         // Try multiple selectors for send button
-        const sendButton = await this.page.$(SELECTORS.sendButton);
+        const sendButton = await this.query('sendButton');
 
         if (sendButton) {
             await sendButton.click();
@@ -344,7 +391,7 @@ export class GoogleMessagesClient {
 
         try {
             // Click attach button
-            const attachButton = await this.page.$(SELECTORS.attachButton);
+            const attachButton = await this.query('attachButton');
             if (!attachButton) {
                 console.log(`[${this.tenantId}] Attach button not found`);
                 return false;
@@ -354,7 +401,7 @@ export class GoogleMessagesClient {
             await this.page.waitForTimeout(500);
 
             // Set file input
-            const fileInput = await this.page.$(SELECTORS.fileInput);
+            const fileInput = await this.query('fileInput');
             if (!fileInput) {
                 // Try using file chooser
                 const [fileChooser] = await Promise.all([
@@ -367,7 +414,7 @@ export class GoogleMessagesClient {
             }
 
             // Wait for preview to appear
-            await this.page.waitForSelector(SELECTORS.attachmentPreview, { timeout: 10000 });
+            await this.waitFor('attachmentPreview', 10000);
 
             return true;
         } catch (err) {
@@ -377,29 +424,158 @@ export class GoogleMessagesClient {
     }
 
     /**
-     * Verify that message was sent successfully
+     * Tag the outgoing bubbles already in the thread, so the one created by
+     * this send can be told apart from earlier messages with the same text
      */
-    private async verifyMessageSent(): Promise<boolean> {
-        if (!this.page) return false;
+    private async markExistingBubbles(): Promise<void> {
+        if (!this.page) throw new Error('Page not available');
 
-        try {
-            // Wait for sent status indicator
-            await this.page.waitForTimeout(3000);
+        await this.page.evaluate((bubbleSelectors) => {
+            for (const selector of bubbleSelectors) {
+                try {
+                    document.querySelectorAll(selector).forEach(bubble => bubble.setAttribute('data-sms-seen', ''));
+                } catch {
+                    // Invalid selector in the profile, try the next one
+                }
+            }
+        }, this.chain('outgoingMessage'));
+    }
 
-            // Check for error indicators
-            const hasError = await this.page.$(SELECTORS.messageError);
-            if (hasError) {
-                return false;
+    /**
+     * Find the bubble created by this send (untagged, containing the body
+     * text, timestamp not older than the send) and tag it with the token
+     */
+    private async locateOutgoingBubble(body: string, sentAfter: number, token: string): Promise<boolean> {
+        if (!this.page) return false;
+
+        return this.page.evaluate(({ bubbleSelectors, timestampSelectors, text, notBefore, token }) => {
+            const candidates = new Set<Element>();
+            for (const selector of bubbleSelectors) {
+                try {
+                    document.querySelectorAll(selector).forEach(bubble => candidates.add(bubble));
+                } catch {
+                    // Invalid selector in the profile, try the next one
+                }
             }
 
-            // Check for sent indicator or assume success if no error
-            const hasSent = await this.page.$(SELECTORS.messageSent);
+            // Newest bubbles are at the bottom of the thread
+            for (const bubble of Array.from(candidates).reverse()) {
+                if (bubble.hasAttribute('data-sms-seen') || bubble.hasAttribute('data-sms-tracking')) continue;
+
+                const content = (bubble.textContent || '').replace(/\s+/g, ' ').trim();
+                if (text && !content.includes(text)) continue;
+
+                const stamp = timestampSelectors
+                    .map(selector => bubble.querySelector(selector))
+                    .find(element => element !== null);
+                const raw = stamp && (stamp.getAttribute('datetime') || stamp.getAttribute('title'));
+                const time = raw ? Date.parse(raw) : NaN;
+                if (!Number.isNaN(time) && time < notBefore) continue;
+
+                bubble.setAttribute('data-sms-tracking', token);
+                return true;
+            }
 
-            // If we can't find explicit sent status, assume success if no error
-            return hasSent !== null || true;
-        } catch {
             return false;
+        }, {
+            bubbleSelectors: this.chain('outgoingMessage'),
+            timestampSelectors: this.chain('messageTimestamp'),
+            text: body.replace(/\s+/g, ' ').trim(),
+            notBefore: sentAfter - TIMESTAMP_TOLERANCE_MS,
+            token,
+        });
+    }
+
+    /**
+     * Status markers in priority order: an error marker wins over everything
+     * else, and a later lifecycle state wins over an earlier one
+     */
+    private statusSelectors(): [ReceiptStatus, string[]][] {
+        return [
+            ['failed', this.chain('messageError')],
+            ['read', this.chain('messageRead')],
+            ['delivered', this.chain('messageDelivered')],
+            ['sent', this.chain('messageSent')],
+            ['sending', this.chain('messageSending')],
+        ];
+    }
+
+    /**
+     * Read the status marker of the tracked bubble
+     * Returns null when the bubble is gone (e.g. the thread re-rendered)
+     */
+    private async readBubbleStatus(token: string): Promise<ReceiptStatus | null> {
+        if (!this.page) return null;
+
+        return this.page.evaluate(({ token, statusSelectors }) => {
+            const bubble = document.querySelector(`[data-sms-tracking="${token}"]`);
+            if (!bubble) return null;
+
+            for (const [status, selectors] of statusSelectors) {
+                const matched = selectors.some(selector => {
+                    try {
+                        return bubble.matches(selector) || bubble.querySelector(selector) !== null;
+                    } catch {
+                        return false;
+                    }
+                });
+                if (matched) return status;
+            }
+
+            // No recognizable marker yet
+            return 'sending';
+        }, { token, statusSelectors: this.statusSelectors() });
+    }
+
+    /**
+     * Locate the outgoing bubble and follow its status through
+     * sending -> sent/delivered/failed until it settles or the timeout expires
+     */
+    private async verifyMessageSent(body: string, sentAfter: number): Promise<SendResult> {
+        if (!this.page) return { success: false, outcome: 'failed', error: 'Page not available' };
+
+        const token = `${sentAfter}-${Math.random().toString(36).slice(2, 8)}`;
+        const deadline = Date.now() + this.verifyTimeoutMs;
+
+        let located = false;
+        while (!located && Date.now() < deadline) {
+            located = await this.locateOutgoingBubble(body, sentAfter, token);
+            if (!located) await this.page.waitForTimeout(250);
+        }
+
+        if (!located) {
+            const screenshotPath = await this.takeErrorScreenshot('verify_missing');
+            return {
+                success: false,
+                outcome: 'failed',
+                error: 'Sent message not found in conversation',
+                screenshotPath,
+            };
+        }
+
+        let status: ReceiptStatus | null = 'sending';
+        while (Date.now() < deadline) {
+            status = await this.readBubbleStatus(token);
+
+            if (status === 'sent' || status === 'delivered' || status === 'read') {
+                // Read receipts are recorded later by the receipt poller
+                const outcome: SendOutcome = status === 'sent' ? 'sent' : 'delivered';
+                return { success: true, outcome };
+            }
+
+            if (status === 'failed') {
+                const screenshotPath = await this.takeErrorScreenshot('send_failed');
+                return { success: false, outcome: 'failed', error: 'Messages reported the message as not sent', screenshotPath };
+            }
+
+            if (status === null) break;
+
+            await this.page.waitForTimeout(500);
         }
+
+        console.log(`[${this.tenantId}] Message still ${status ?? 'untracked'} after ${this.verifyTimeoutMs}ms`);
+
+        return { success: false, outcome: 'pending', error: 'Send not confirmed before verification timeout' };
     }
 
     /**
@@ -423,22 +599,236 @@ export class GoogleMessagesClient {
         }
     }
 
+    /**
+     * Open the conversation with a number and report every outgoing bubble
+     * with its timestamp and current status, oldest first
+     */
+    async readOutgoingStatuses(phoneE164: string): Promise<OutgoingMessageStatus[]> {
+        if (!this.page || !this.isReady) {
+            throw new Error('Session not ready');
+        }
+
+        await this.refreshSelectors();
+        await this.startNewConversation(phoneE164);
+
+        // Give the thread history time to render
+        await this.page.waitForTimeout(1000);
+
+        const bubbles = await this.page.evaluate(({ bubbleSelectors, timestampSelectors, imageSelectors, statusSelectors }) => {
+            const candidates = new Set<Element>();
+            for (const selector of bubbleSelectors) {
+                try {
+                    document.querySelectorAll(selector).forEach(bubble => candidates.add(bubble));
+                } catch {
+                    // Invalid selector in the profile, try the next one
+                }
+            }
+
+            // querySelectorAll keeps document order per selector; re-sort across selectors
+            return Array.from(candidates)
+                .sort((a, b) => a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1)
+                .map(bubble => {
+                    const stamp = timestampSelectors
+                        .map(selector => bubble.querySelector(selector))
+                        .find(element => element !== null);
+
+                    const status = statusSelectors.find(([, selectors]) => selectors.some(selector => {
+                        try {
+                            return bubble.matches(selector) || bubble.querySelector(selector) !== null;
+                        } catch {
+                            return false;
+                        }
+                    }));
+
+                    const hasImage = imageSelectors.some(selector => {
+                        try {
+                            return bubble.querySelector(selector) !== null;
+                        } catch {
+                            return false;
+                        }
+                    });
+
+                    return {
+                        text: (bubble.textContent || '').replace(/\s+/g, ' ').trim(),
+                        timestamp: stamp ? stamp.getAttribute('datetime') || stamp.getAttribute('title') : null,
+                        status: status ? status[0] : 'sending',
+                        hasImage,
+                    };
+                });
+        }, {
+            bubbleSelectors: this.chain('outgoingMessage'),
+            timestampSelectors: this.chain('messageTimestamp'),
+            imageSelectors: this.chain('messageImage'),
+            statusSelectors: this.statusSelectors(),
+        });
+
+        return bubbles.map(bubble => {
+            const time = bubble.timestamp ? Date.parse(bubble.timestamp) : NaN;
+            return {
+                text: bubble.text,
+                timestamp: Number.isNaN(time) ? null : new Date(time),
+                status: bubble.status,
+                hasImage: bubble.hasImage,
+            };
+        });
+    }
+
+    /**
+     * Read the conversation list: thread id, title, snippet and unread flag
+     */
+    async listConversations(): Promise<ConversationSummary[]> {
+        if (!this.page || !this.isReady) {
+            throw new Error('Session not ready');
+        }
+
+        await this.refreshSelectors();
+
+        await this.page.goto(`${this.baseUrl}/web/conversations`, {
+            waitUntil: 'networkidle',
+            timeout: 30000,
+        });
+
+        await this.waitFor('conversationList', 10000);
+
+        return this.page.evaluate(({ itemSelectors, snippetSelectors, unreadSelectors }) => {
+            const items = itemSelectors
+                .map(selector => {
+                    try {
+                        return Array.from(document.querySelectorAll(selector));
+                    } catch {
+                        return [];
+                    }
+                })
+                .find(found => found.length > 0) || [];
+
+            return items.flatMap(item => {
+                const link = item.matches('a[href*="/web/conversations/"]')
+                    ? item
+                    : item.querySelector('a[href*="/web/conversations/"]');
+                const id = (link?.getAttribute('href') || '').split('/').pop() || '';
+                if (!id || id === 'new') return [];
+
+                const snippet = snippetSelectors
+                    .map(selector => item.querySelector(selector))
+                    .find(element => element !== null);
+
+                const unread = unreadSelectors.some(selector => {
+                    try {
+                        return item.matches(selector) || item.querySelector(selector) !== null;
+                    } catch {
+                        return false;
+                    }
+                });
+
+                return [{
+                    id,
+                    title: (link?.textContent || '').replace(/\s+/g, ' ').trim(),
+                    snippet: (snippet?.textContent || '').replace(/\s+/g, ' ').trim(),
+                    unread,
+                }];
+            });
+        }, {
+            itemSelectors: this.chain('conversationItem'),
+            snippetSelectors: this.chain('conversationSnippet'),
+            unreadSelectors: this.chain('conversationUnread'),
+        });
+    }
+
+    /**
+     * Open a thread by id and read its incoming messages, oldest first
+     */
+    async readConversation(conversationId: string): Promise<ConversationThread> {
+        if (!this.page || !this.isReady) {
+            throw new Error('Session not ready');
+        }
+
+        await this.refreshSelectors();
+
+        await this.page.goto(`${this.baseUrl}/web/conversations/${conversationId}`, {
+            waitUntil: 'networkidle',
+            timeout: 30000,
+        });
+
+        await this.waitFor('messageInput', 10000);
+
+        // Give the thread history time to render
+        await this.page.waitForTimeout(1000);
+
+        const thread = await this.page.evaluate(({ recipientSelectors, bubbleSelectors, textSelectors, timestampSelectors }) => {
+            const header = recipientSelectors
+                .map(selector => document.querySelector(selector))
+                .find(element => element !== null);
+
+            const candidates = new Set<Element>();
+            for (const selector of bubbleSelectors) {
+                try {
+                    document.querySelectorAll(selector).forEach(bubble => candidates.add(bubble));
+                } catch {
+                    // Invalid selector in the profile, try the next one
+                }
+            }
+
+            const incoming = Array.from(candidates)
+                .sort((a, b) => a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1)
+                .map(bubble => {
+                    const body = textSelectors
+                        .map(selector => bubble.querySelector(selector))
+                        .find(element => element !== null) || bubble;
+                    const stamp = timestampSelectors
+                        .map(selector => bubble.querySelector(selector))
+                        .find(element => element !== null);
+
+                    return {
+                        text: (body.textContent || '').replace(/\s+/g, ' ').trim(),
+                        timestamp: stamp ? stamp.getAttribute('datetime') || stamp.getAttribute('title') : null,
+                    };
+                })
+                .filter(message => message.text.length > 0);
+
+            return {
+                title: (header?.textContent || '').replace(/\s+/g, ' ').trim(),
+                incoming,
+            };
+        }, {
+            recipientSelectors: this.chain('conversationRecipient'),
+            bubbleSelectors: this.chain('incomingMessage'),
+            textSelectors: this.chain('messageText'),
+            timestampSelectors: this.chain('messageTimestamp'),
+        });
+
+        // The header shows the number unless the contact is saved on the phone
+        const digits = thread.title.replace(/[\s().-]/g, '');
+        const phoneE164 = /^\+?\d{8,15}$/.test(digits) ? `+${digits.replace(/^\+/, '')}` : null;
+
+        return {
+            id: conversationId,
+            title: thread.title,
+            phoneE164,
+            incoming: thread.incoming.map(message => {
+                const time = message.timestamp ? Date.parse(message.timestamp) : NaN;
+                return { text: message.text, timestamp: Number.isNaN(time) ? null : new Date(time) };
+            }),
+        };
+    }
+
     /**
      * Scrape contacts from the connected phone
      * Goes to new conversation screen and extracts contact suggestions
      */
-    async scrapeContacts(maxContacts: number = 500): Promise<{ name: string; phone: string }[]> {
+    async scrapeContacts(maxContacts: number = 500): Promise<ScrapedContact[]> {
         if (!this.page || !this.isReady) {
             throw new Error('Session not ready');
         }
 
         console.log(`[${this.tenantId}] Starting contact scraping...`);
-        const contacts: { name: string; phone: string }[] = [];
+        const contacts: ScrapedContact[] = [];
         const seenPhones = new Set<string>();
 
         try {
+            await this.refreshSelectors();
+
             // Navigate to new conversation
-            await this.page.goto('https://messages.google.com/web/conversations/new', {
+            await this.page.goto(`${this.baseUrl}/web/conversations/new`, {
                 waitUntil: 'networkidle',
                 timeout: 30000,
             });
@@ -446,15 +836,10 @@ export class GoogleMessagesClient {
             // Wait for contact list to load
             await this.page.waitForTimeout(2000);
 
-            // Find the contact list container
-            const contactListSelectors = [
-                'mws-contact-selector-button',
-                '[data-e2e-contact-row]',
-                '.contact-list-item',
-                'mws-contact-row',
-            ];
+            // Find the contact rows, trying each selector of the chain
+            const contactListSelectors = this.chain('contactRow');
 
-            let contactElements: any[] = [];
+            let contactElements: ElementHandle[] = [];
 
             // Try different selectors
             for (const selector of contactListSelectors) {
@@ -465,12 +850,6 @@ export class GoogleMessagesClient {
                 }
             }
 
-            // If no contacts found with specific selectors, try generic approach
-            if (contactElements.length === 0) {
-                // Look for any clickable contact items
-                contactElements = await this.page.$$('[role="listitem"], [role="option"]');
-            }
-
             let scrollAttempts = 0;
             const maxScrollAttempts = 20;
 
@@ -492,32 +871,26 @@ export class GoogleMessagesClient {
                         const lines = textContent.trim().split('\n').map(l => l.trim()).filter(l => l);
                         const name = lines[0] || 'Sem nome';
 
-                        // Normalize phone to E.164
-                        let normalizedPhone = phone;
-                        if (!normalizedPhone.startsWith('+')) {
-                            normalizedPhone = '+' + normalizedPhone;
-                        }
-
-                        // Basic validation
-                        if (normalizedPhone.length >= 10 && normalizedPhone.length <= 16) {
-                            contacts.push({ name, phone: normalizedPhone });
-                            seenPhones.add(phone);
-                            console.log(`[${this.tenantId}] Found contact: ${name} - ${normalizedPhone}`);
-                        }
+                        // Kept as displayed; the sync job normalizes it with the tenant's country
+                        contacts.push({ name, phone });
+                        seenPhones.add(phone);
+                        console.log(`[${this.tenantId}] Found contact: ${name} - ${phone}`);
                     } catch (err) {
                         // Skip this element and continue
                     }
                 }
 
                 // Scroll down to load more contacts
-                await this.page.evaluate(() => {
-                    const scrollable = document.querySelector('[role="listbox"], .contact-list, mws-contact-selector');
+                await this.page.evaluate((scrollSelectors) => {
+                    const scrollable = scrollSelectors
+                        .map(selector => document.querySelector(selector))
+                        .find(element => element !== null);
                     if (scrollable) {
                         scrollable.scrollTop += 500;
                     } else {
                         window.scrollBy(0, 500);
                     }
-                });
+                }, this.chain('contactList'));
 
                 await this.page.waitForTimeout(1000);
 
@@ -0,0 +1,80 @@
+import type pg from 'pg';
+import { fakeDriverSettingsSchema } from '@sms/shared';
+import { GoogleMessagesClient } from './google-messages.js';
+import { FakeMessagingDriver, type FakeDriverOptions } from './fake.js';
+import type { SelectorRegistry } from './selector-registry.js';
+import type { DriverName, MessagingDriver } from './types.js';
+
+export * from './types.js';
+export { GoogleMessagesClient } from './google-messages.js';
+export { FakeMessagingDriver, type FakeDriverOptions } from './fake.js';
+export { SelectorRegistry } from './selector-registry.js';
+export { withSessionLock } from './session-lock.js';
+
+interface DriverFactoryContext {
+    db: pg.Pool;
+    selectorRegistry: SelectorRegistry;
+    config: {
+        sessionsPath: string;
+        googleMessagesUrl?: string;
+        googleMessagesLocale?: string;
+        messagingDriver: DriverName;
+        fakeDriver: FakeDriverOptions;
+    };
+}
+
+const DRIVER_NAMES: DriverName[] = ['google-messages', 'fake'];
+
+export function isDriverName(value: unknown): value is DriverName {
+    return typeof value === 'string' && (DRIVER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Create the messaging driver for one of a tenant's sessions.
+ * tenants.settings.messagingDriver overrides the MESSAGING_DRIVER env default,
+ * and tenants.settings.fakeDriver overrides the FAKE_DRIVER_* env options
+ * (ignored as a whole when it does not match fakeDriverSettingsSchema).
+ * tenants.settings.messagesLocale picks the per-locale selector variants to try first.
+ * Each session keeps its browser profile in sessions.storage_path under SESSIONS_PATH.
+ */
+export async function createDriver(tenantId: string, sessionId: string, ctx: DriverFactoryContext): Promise<MessagingDriver> {
+    const result = await ctx.db.query(
+        `SELECT t.settings, s.storage_path
+     FROM sessions s
+     JOIN tenants t ON t.id = s.tenant_id
+     WHERE s.id = $1 AND s.tenant_id = $2`,
+        [sessionId, tenantId]
+    );
+
+    if (result.rows.length === 0) {
+        throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const settings = (result.rows[0].settings || {}) as Record<string, unknown>;
+    const driverName = isDriverName(settings.messagingDriver)
+        ? settings.messagingDriver
+        : ctx.config.messagingDriver;
+
+    if (driverName === 'fake') {
+        const tenantOptions = fakeDriverSettingsSchema.safeParse(settings.fakeDriver || {});
+        if (!tenantOptions.success) {
+            console.error(`Invalid fake driver settings for tenant ${tenantId}, using the env options:`, tenantOptions.error);
+        }
+
+        return new FakeMessagingDriver(tenantId, {
+            ...ctx.config.fakeDriver,
+            ...(tenantOptions.success ? tenantOptions.data : {}),
+        });
+    }
+
+    const locale = typeof settings.messagesLocale === 'string'
+        ? settings.messagesLocale
+        : ctx.config.googleMessagesLocale;
+
+    return new GoogleMessagesClient(tenantId, ctx.config.sessionsPath, {
+        baseUrl: ctx.config.googleMessagesUrl,
+        locale,
+        profileDir: result.rows[0].storage_path || sessionId,
+        selectors: () => ctx.selectorRegistry.get(tenantId),
+    });
+}
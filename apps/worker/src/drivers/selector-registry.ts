@@ -0,0 +1,94 @@
+import type pg from 'pg';
+import * as fs from 'fs';
+import { DEFAULT_SELECTOR_PROFILE, selectorMapSchema, type SelectorMap } from '@sms/shared';
+
+interface CachedProfile {
+    selectors: SelectorMap;
+    source: string;
+    loadedAt: number;
+}
+
+interface SelectorRegistryOptions {
+    // Optional JSON profile used when the tenant has no active profile in the database
+    filePath?: string;
+    // How long a loaded profile is reused before re-reading it
+    ttlMs: number;
+}
+
+/**
+ * Resolves the active selector profile per tenant.
+ * Lookup order: tenant's active row in selector_profiles, then the JSON file,
+ * then the built-in profile. Results are cached for ttlMs, so activating a new
+ * profile via the API takes effect without restarting the worker.
+ */
+export class SelectorRegistry {
+    private cache = new Map<string, CachedProfile>();
+
+    constructor(private db: pg.Pool, private options: SelectorRegistryOptions) { }
+
+    async get(tenantId: string): Promise<SelectorMap> {
+        const cached = this.cache.get(tenantId);
+        if (cached && Date.now() - cached.loadedAt < this.options.ttlMs) {
+            return cached.selectors;
+        }
+
+        const loaded = await this.load(tenantId);
+
+        if (!cached || cached.source !== loaded.source) {
+            console.log(`[${tenantId}] Using selector profile: ${loaded.source}`);
+        }
+
+        this.cache.set(tenantId, loaded);
+        return loaded.selectors;
+    }
+
+    /**
+     * Drop cached profiles so the next lookup hits the database
+     */
+    invalidate(tenantId?: string): void {
+        if (tenantId) {
+            this.cache.delete(tenantId);
+        } else {
+            this.cache.clear();
+        }
+    }
+
+    private async load(tenantId: string): Promise<CachedProfile> {
+        try {
+            const result = await this.db.query(
+                `SELECT name, version, selectors FROM selector_profiles
+         WHERE tenant_id = $1 AND is_active`,
+                [tenantId]
+            );
+
+            if (result.rows.length > 0) {
+                const { name, version, selectors } = result.rows[0];
+                return { selectors, source: `${name} v${version}`, loadedAt: Date.now() };
+            }
+        } catch (err) {
+            // Keep serving the previous profile if the database hiccups
+            const cached = this.cache.get(tenantId);
+            console.error(`[${tenantId}] Failed to load selector profile:`, err);
+            if (cached) return { ...cached, loadedAt: Date.now() };
+        }
+
+        const fromFile = this.loadFile();
+        if (fromFile) {
+            return { selectors: fromFile, source: `file ${this.options.filePath}`, loadedAt: Date.now() };
+        }
+
+        return { selectors: DEFAULT_SELECTOR_PROFILE, source: 'built-in', loadedAt: Date.now() };
+    }
+
+    private loadFile(): SelectorMap | null {
+        if (!this.options.filePath) return null;
+
+        try {
+            const raw = JSON.parse(fs.readFileSync(this.options.filePath, 'utf-8'));
+            return selectorMapSchema.parse(raw.selectors ?? raw);
+        } catch (err) {
+            console.error(`Invalid selector profile file ${this.options.filePath}:`, err);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,23 @@
+// Tail of the task chain per session
+const tails = new Map<string, Promise<unknown>>();
+
+/**
+ * Run fn after every earlier task for the same session has finished.
+ * A driver controls a single browser page, so sends, receipt polling and
+ * contact sync for one session must not navigate it at the same time.
+ */
+export async function withSessionLock<T>(sessionKey: string, fn: () => Promise<T>): Promise<T> {
+    const previous = tails.get(sessionKey) ?? Promise.resolve();
+    const run = previous.then(fn);
+    const tail = run.catch(() => undefined);
+
+    tails.set(sessionKey, tail);
+
+    try {
+        return await run;
+    } finally {
+        if (tails.get(sessionKey) === tail) {
+            tails.delete(sessionKey);
+        }
+    }
+}
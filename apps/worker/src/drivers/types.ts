@@ -0,0 +1,84 @@
+export type DriverState = 'needs-qr' | 'connected' | 'error';
+
+/**
+ * Final state of the outgoing message as observed by the driver.
+ * 'pending' means the message left the composer but was still "sending"
+ * when verification gave up, so it must not be retried blindly.
+ */
+export type SendOutcome = 'sent' | 'delivered' | 'failed' | 'pending';
+
+export interface SendResult {
+    success: boolean;
+    outcome: SendOutcome;
+    error?: string;
+    fallbackUsed?: boolean;
+    screenshotPath?: string;
+}
+
+/**
+ * Status shown on an outgoing bubble, in lifecycle order (failed aside)
+ */
+export type ReceiptStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+/**
+ * Outgoing bubble found when revisiting a conversation
+ */
+export interface OutgoingMessageStatus {
+    text: string;
+    timestamp: Date | null;
+    status: ReceiptStatus;
+    // The bubble carries an image
+    hasImage: boolean;
+}
+
+/**
+ * Entry of the conversation list
+ */
+export interface ConversationSummary {
+    // Thread id in the messaging UI
+    id: string;
+    title: string;
+    snippet: string;
+    unread: boolean;
+}
+
+export interface IncomingMessage {
+    text: string;
+    timestamp: Date | null;
+}
+
+/**
+ * Incoming side of a thread; phoneE164 is null when the UI only shows a name
+ */
+export interface ConversationThread {
+    id: string;
+    title: string;
+    phoneE164: string | null;
+    incoming: IncomingMessage[];
+}
+
+export interface ScrapedContact {
+    name: string;
+    // As shown on the phone, without spaces or punctuation; not necessarily E.164
+    phone: string;
+}
+
+/**
+ * Contract every messaging backend must implement.
+ * Jobs only talk to this interface, never to a concrete driver.
+ */
+export interface MessagingDriver {
+    launch(): Promise<void>;
+    detectState(): Promise<DriverState>;
+    captureQRCode(): Promise<string | null>;
+    sendText(phoneE164: string, text: string): Promise<SendResult>;
+    sendImage(phoneE164: string, imagePath: string, caption?: string): Promise<SendResult>;
+    scrapeContacts(maxContacts?: number): Promise<ScrapedContact[]>;
+    readOutgoingStatuses(phoneE164: string): Promise<OutgoingMessageStatus[]>;
+    listConversations(): Promise<ConversationSummary[]>;
+    readConversation(conversationId: string): Promise<ConversationThread>;
+    checkHealth(): Promise<boolean>;
+    close(): Promise<void>;
+}
+
+export type DriverName = 'google-messages' | 'fake';
@@ -1,10 +1,15 @@
 import pg from 'pg';
 import PgBoss from 'pg-boss';
-import { GoogleMessagesClient } from './drivers/google-messages.js';
+import { isDriverName, SelectorRegistry, type MessagingDriver } from './drivers/index.js';
 import { handleSendMessage } from './jobs/send-message.js';
 import { handleSessionConnect, handleSessionDisconnect } from './jobs/session.js';
 import { handleSyncContacts } from './jobs/sync-contacts.js';
-import type { MessageJob } from '@sms/shared';
+import { handlePollReceipts, resolveUnconfirmedSends } from './jobs/poll-receipts.js';
+import { handleCaptureInbound } from './jobs/capture-inbound.js';
+import { handleExpandCampaign, handleResumeCampaign } from './jobs/expand-campaign.js';
+import { handlePromoteVariant } from './jobs/promote-variant.js';
+import { pruneIdleBuckets } from './rate-governor.js';
+import type { CaptureInboundJob, ExpandCampaignJob, MessageJob, PollReceiptsJob } from '@sms/shared';
 
 const { Pool } = pg;
 
@@ -14,8 +19,8 @@ const db = new Pool({
     max: 10,
 });
 
-// Active browser sessions per tenant
-const sessions = new Map<string, GoogleMessagesClient>();
+// Active browser sessions, keyed by session ID (a tenant can pair several phones)
+const sessions = new Map<string, MessagingDriver>();
 
 // Configuration
 const config = {
@@ -23,8 +28,42 @@ const config = {
     maxConcurrentTenants: Number(process.env.WORKER_CONCURRENCY) || 2,
     apiBaseUrl: process.env.API_BASE_URL || 'http://api:3000',
     internalApiKey: process.env.INTERNAL_API_KEY || 'internal-key',
+    googleMessagesUrl: process.env.GOOGLE_MESSAGES_URL || undefined,
+    googleMessagesLocale: process.env.GOOGLE_MESSAGES_LOCALE || undefined,
+    // Messaging backend: 'google-messages' (Playwright) or 'fake' (in-process, for CI/staging)
+    messagingDriver: isDriverName(process.env.MESSAGING_DRIVER) ? process.env.MESSAGING_DRIVER : 'google-messages' as const,
+    fakeDriver: {
+        successRate: optionalNumber(process.env.FAKE_DRIVER_SUCCESS_RATE),
+        imageSuccessRate: optionalNumber(process.env.FAKE_DRIVER_IMAGE_SUCCESS_RATE),
+        latencyMs: optionalNumber(process.env.FAKE_DRIVER_LATENCY_MS),
+        seed: optionalNumber(process.env.FAKE_DRIVER_SEED),
+    },
+    // Delivery/read receipt polling
+    receiptPollIntervalMs: Number(process.env.RECEIPT_POLL_INTERVAL_MS) || 300000,
+    receiptLookbackHours: Number(process.env.RECEIPT_LOOKBACK_HOURS) || 24,
+    receiptMaxConversations: Number(process.env.RECEIPT_MAX_CONVERSATIONS) || 20,
+    // Inbound message capture
+    inboundPollIntervalMs: Number(process.env.INBOUND_POLL_INTERVAL_MS) || 60000,
+    // Default send caps per session (phone), overridable per session
+    rateLimits: {
+        perMinute: Number(process.env.RATE_MAX_PER_MINUTE) || 10,
+        perHour: Number(process.env.RATE_MAX_PER_HOUR) || 200,
+        perDay: Number(process.env.RATE_MAX_PER_DAY) || 1000,
+    },
+    // Contacts turned into messages per transaction when a campaign starts
+    expansionBatchSize: Number(process.env.EXPANSION_BATCH_SIZE) || 1000,
 };
 
+// Active selector profile per tenant, reloaded every SELECTOR_PROFILE_TTL_MS
+const selectorRegistry = new SelectorRegistry(db, {
+    filePath: process.env.SELECTOR_PROFILE_PATH || undefined,
+    ttlMs: Number(process.env.SELECTOR_PROFILE_TTL_MS) || 30000,
+});
+
+function optionalNumber(value: string | undefined): number | undefined {
+    return value === undefined || value === '' ? undefined : Number(value);
+}
+
 async function main() {
     console.log('🚀 Worker starting...');
 
@@ -49,45 +88,106 @@ async function main() {
 
     // Session connection handler
     await boss.work('session-connect', { teamSize: 2 }, async (job) => {
-        console.log(`📱 Processing session-connect for tenant ${job.data.tenantId}`);
-        await handleSessionConnect(job.data, { db, sessions, config });
+        console.log(`📱 Processing session-connect for session ${job.data.sessionId}`);
+        await handleSessionConnect(job.data, { db, sessions, selectorRegistry, config });
     });
 
     // Session disconnect handler
     await boss.work('session-disconnect', { teamSize: 2 }, async (job) => {
-        console.log(`🔌 Processing session-disconnect for tenant ${job.data.tenantId}`);
-        await handleSessionDisconnect(job.data, { db, sessions, config });
+        console.log(`🔌 Processing session-disconnect for session ${job.data.sessionId}`);
+        await handleSessionDisconnect(job.data, { db, sessions, selectorRegistry, config });
     });
 
     // Message sending handler
     await boss.work<MessageJob>('send-message', { teamSize: config.maxConcurrentTenants }, async (job) => {
         console.log(`📤 Processing send-message ${job.data.messageId}`);
-        await handleSendMessage(job.data, { db, sessions, config });
+        await handleSendMessage(job.data, { db, boss, sessions, selectorRegistry, config });
+    });
+
+    // Campaign expansion handler
+    await boss.work<ExpandCampaignJob>('expand-campaign', { teamSize: 1 }, async (job) => {
+        console.log(`🧮 Processing expand-campaign for campaign ${job.data.campaignId}`);
+        return handleExpandCampaign(job.data, { db, boss, config });
+    });
+
+    // Paused campaign resume handler
+    await boss.work<ExpandCampaignJob>('resume-campaign', { teamSize: 1 }, async (job) => {
+        console.log(`▶️ Processing resume-campaign for campaign ${job.data.campaignId}`);
+        return handleResumeCampaign(job.data, { db, boss, config });
+    });
+
+    // A/B test winner promotion handler
+    await boss.work<ExpandCampaignJob>('promote-variant', { teamSize: 1 }, async (job) => {
+        console.log(`🏆 Processing promote-variant for campaign ${job.data.campaignId}`);
+        return handlePromoteVariant(job.data, { db, boss });
     });
 
     // Contact sync from phone handler
     await boss.work('sync-contacts', { teamSize: 1 }, async (job) => {
-        console.log(`📇 Processing sync-contacts for tenant ${job.data.tenantId}`);
-        const result = await handleSyncContacts(job.data, { db, sessions, config });
+        console.log(`📇 Processing sync-contacts for session ${job.data.sessionId}`);
+        const result = await handleSyncContacts(job.data, { db, sessions, selectorRegistry, config });
         return result;
     });
 
+    // Delivery/read receipt handler
+    await boss.work<PollReceiptsJob>('poll-receipts', { teamSize: 1 }, async (job) => {
+        return handlePollReceipts(job.data, { db, sessions, selectorRegistry, config });
+    });
+
+    // Schedule receipt polling for every session open in this worker, and
+    // give up on sends that stayed unconfirmed past the lookback window
+    setInterval(async () => {
+        try {
+            await resolveUnconfirmedSends({ db, config });
+        } catch (err) {
+            console.error('Failed to resolve unconfirmed sends:', err);
+        }
+
+        for (const { sessionId, tenantId } of await openSessions()) {
+            try {
+                await boss.send('poll-receipts', { tenantId, sessionId }, {
+                    singletonKey: `poll-receipts:${sessionId}`,
+                });
+            } catch (err) {
+                console.error(`[${sessionId}] Failed to schedule receipt poll:`, err);
+            }
+        }
+    }, config.receiptPollIntervalMs);
+
+    // Inbound message capture handler
+    await boss.work<CaptureInboundJob>('capture-inbound', { teamSize: 1 }, async (job) => {
+        return handleCaptureInbound(job.data, { db, sessions, selectorRegistry, config });
+    });
+
+    // Schedule inbound capture for every session open in this worker
+    setInterval(async () => {
+        for (const { sessionId, tenantId } of await openSessions()) {
+            try {
+                await boss.send('capture-inbound', { tenantId, sessionId }, {
+                    singletonKey: `capture-inbound:${sessionId}`,
+                });
+            } catch (err) {
+                console.error(`[${sessionId}] Failed to schedule inbound capture:`, err);
+            }
+        }
+    }, config.inboundPollIntervalMs);
+
     // Health check - reconnect disconnected sessions periodically
     setInterval(async () => {
         try {
             const result = await db.query(
-                "SELECT tenant_id FROM sessions WHERE status = 'connected' AND last_seen_at < NOW() - INTERVAL '5 minutes'"
+                "SELECT id, tenant_id FROM sessions WHERE status = 'connected' AND last_seen_at < NOW() - INTERVAL '5 minutes'"
             );
 
             for (const row of result.rows) {
-                const client = sessions.get(row.tenant_id);
+                const client = sessions.get(row.id);
                 if (client) {
                     const isHealthy = await client.checkHealth();
                     if (!isHealthy) {
-                        console.log(`⚠️ Session for tenant ${row.tenant_id} unhealthy, marking as needs-qr`);
-                        await updateSessionStatus(row.tenant_id, 'needs-qr');
+                        console.log(`⚠️ Session ${row.id} of tenant ${row.tenant_id} unhealthy, marking as needs-qr`);
+                        await updateSessionStatus(row.tenant_id, row.id, 'needs-qr');
                         await client.close();
-                        sessions.delete(row.tenant_id);
+                        sessions.delete(row.id);
                     }
                 }
             }
@@ -96,6 +196,15 @@ async function main() {
         }
     }, 60000); // Every minute
 
+    // Drop rate buckets that have refilled completely
+    setInterval(async () => {
+        try {
+            await pruneIdleBuckets(db);
+        } catch (err) {
+            console.error('Rate bucket cleanup error:', err);
+        }
+    }, 60 * 60 * 1000); // Every hour
+
     console.log('✅ Worker ready and listening for jobs');
 
     // Graceful shutdown
@@ -103,8 +212,8 @@ async function main() {
         console.log('🛑 Shutting down worker...');
         await boss.stop();
 
-        for (const [tenantId, client] of sessions) {
-            console.log(`Closing session for tenant ${tenantId}`);
+        for (const [sessionId, client] of sessions) {
+            console.log(`Closing session ${sessionId}`);
             await client.close();
         }
 
@@ -113,11 +222,31 @@ async function main() {
     });
 }
 
-async function updateSessionStatus(tenantId: string, status: string, extra?: Record<string, unknown>) {
+/**
+ * Sessions open in this worker, with the tenant each belongs to
+ */
+async function openSessions(): Promise<{ sessionId: string; tenantId: string }[]> {
+    if (sessions.size === 0) return [];
+
+    try {
+        const result = await db.query(
+            'SELECT id, tenant_id FROM sessions WHERE id = ANY($1)',
+            [Array.from(sessions.keys())]
+        );
+
+        return result.rows.map(row => ({ sessionId: row.id, tenantId: row.tenant_id }));
+    } catch (err) {
+        console.error('Failed to list open sessions:', err);
+        return [];
+    }
+}
+
+async function updateSessionStatus(tenantId: string, sessionId: string, status: string, extra?: Record<string, unknown>) {
     const axios = (await import('axios')).default;
 
     await axios.post(`${config.apiBaseUrl}/sessions/internal/update`, {
         tenantId,
+        sessionId,
         status,
         ...extra
     }, {
@@ -132,4 +261,4 @@ main().catch(err => {
     process.exit(1);
 });
 
-export { db, sessions, config, updateSessionStatus };
+export { db, sessions, selectorRegistry, config, updateSessionStatus };
@@ -0,0 +1,179 @@
+import type pg from 'pg';
+import * as crypto from 'crypto';
+import { withSessionLock, type MessagingDriver, type DriverName, type FakeDriverOptions, type ConversationThread, type SelectorRegistry } from '../drivers/index.js';
+import { processOptOut } from './opt-out.js';
+import { resolveOptOutSettings, type CaptureInboundJob, type OptOutSettings } from '@sms/shared';
+
+interface WorkerContext {
+    db: pg.Pool;
+    sessions: Map<string, MessagingDriver>;
+    selectorRegistry: SelectorRegistry;
+    config: {
+        sessionsPath: string;
+        apiBaseUrl: string;
+        internalApiKey: string;
+        googleMessagesUrl?: string;
+        googleMessagesLocale?: string;
+        messagingDriver: DriverName;
+        fakeDriver: FakeDriverOptions;
+    };
+}
+
+/**
+ * Capture replies from recipients into conversations/inbound_messages
+ * Opens only threads that are unread or whose snippet changed since the last
+ * capture. Only runs on sessions already open in this worker.
+ */
+export async function handleCaptureInbound(
+    data: CaptureInboundJob,
+    ctx: WorkerContext
+): Promise<{ conversations: number; captured: number }> {
+    const { tenantId, sessionId } = data;
+
+    const client = ctx.sessions.get(sessionId);
+    if (!client) {
+        return { conversations: 0, captured: 0 };
+    }
+
+    const summaries = await withSessionLock(sessionId, () => client.listConversations());
+    if (summaries.length === 0) {
+        return { conversations: 0, captured: 0 };
+    }
+
+    const known = await ctx.db.query(
+        `SELECT external_id, last_snippet FROM conversations
+     WHERE tenant_id = $1 AND session_id = $2 AND external_id = ANY($3)`,
+        [tenantId, sessionId, summaries.map(summary => summary.id)]
+    );
+    const lastSnippets = new Map<string, string | null>(
+        known.rows.map(row => [row.external_id, row.last_snippet])
+    );
+
+    const changed = summaries.filter(summary =>
+        summary.unread || lastSnippets.get(summary.id) !== summary.snippet
+    );
+
+    const tenant = await ctx.db.query('SELECT settings FROM tenants WHERE id = $1', [tenantId]);
+    const optOut = resolveOptOutSettings(tenant.rows[0]?.settings);
+
+    let captured = 0;
+
+    for (const summary of changed) {
+        try {
+            const thread = await withSessionLock(sessionId, () => client.readConversation(summary.id));
+            captured += await storeThread(ctx, tenantId, sessionId, thread, summary.snippet, optOut);
+        } catch (err) {
+            console.error(`[${sessionId}] Failed to capture conversation ${summary.id}:`, err);
+        }
+    }
+
+    if (captured > 0) {
+        console.log(`[${sessionId}] Captured ${captured} inbound messages from ${changed.length} conversations`);
+    }
+
+    return { conversations: changed.length, captured };
+}
+
+/**
+ * Upsert the conversation and insert incoming messages not seen before
+ * New messages matching an opt-out keyword opt the contact out.
+ * Returns the number of new messages
+ */
+async function storeThread(
+    ctx: WorkerContext,
+    tenantId: string,
+    sessionId: string,
+    thread: ConversationThread,
+    snippet: string,
+    optOut: OptOutSettings
+): Promise<number> {
+    const phoneE164 = thread.phoneE164 || await phoneFromContactName(ctx, tenantId, thread.title);
+
+    if (!phoneE164) {
+        console.log(`[${sessionId}] Skipping conversation "${thread.title}": phone number not shown`);
+        return 0;
+    }
+
+    const contact = await ctx.db.query(
+        'SELECT id FROM contacts WHERE tenant_id = $1 AND phone_e164 = $2',
+        [tenantId, phoneE164]
+    );
+    let contactId: string | null = contact.rows[0]?.id || null;
+
+    const conversation = await ctx.db.query(
+        `INSERT INTO conversations (tenant_id, session_id, contact_id, phone_e164, external_id, last_snippet)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (tenant_id, phone_e164) DO UPDATE SET
+       session_id = EXCLUDED.session_id,
+       contact_id = COALESCE(EXCLUDED.contact_id, conversations.contact_id),
+       external_id = EXCLUDED.external_id,
+       last_snippet = EXCLUDED.last_snippet
+     RETURNING id`,
+        [tenantId, sessionId, contactId, phoneE164, thread.id, snippet]
+    );
+    const conversationId = conversation.rows[0].id;
+
+    let captured = 0;
+    const occurrences = new Map<string, number>();
+
+    for (const message of thread.incoming) {
+        // Identical text at the same time is told apart by its position
+        const key = `${message.timestamp?.toISOString() ?? ''}|${message.text}`;
+        const occurrence = occurrences.get(key) ?? 0;
+        occurrences.set(key, occurrence + 1);
+
+        const fingerprint = crypto.createHash('sha256').update(`${key}|${occurrence}`).digest('hex');
+
+        const inserted = await ctx.db.query(
+            `INSERT INTO inbound_messages (tenant_id, conversation_id, contact_id, phone_e164, body_text, received_at, fingerprint)
+       VALUES ($1, $2, $3, $4, $5, COALESCE($6, NOW()), $7)
+       ON CONFLICT (conversation_id, fingerprint) DO NOTHING
+       RETURNING id, received_at`,
+            [tenantId, conversationId, contactId, phoneE164, message.text, message.timestamp, fingerprint]
+        );
+
+        if (inserted.rows.length === 0) continue;
+
+        captured++;
+
+        await ctx.db.query(
+            `UPDATE conversations SET
+         unread_count = unread_count + 1,
+         last_message_at = GREATEST(last_message_at, $2),
+         last_message_preview = CASE WHEN last_message_at IS NULL OR $2 >= last_message_at THEN $3 ELSE last_message_preview END
+       WHERE id = $1`,
+            [conversationId, inserted.rows[0].received_at, message.text]
+        );
+
+        const optedOut = await processOptOut(ctx, tenantId, sessionId, phoneE164, message.text, optOut);
+
+        // Unknown senders become contacts when they opt out
+        if (optedOut && !contactId) {
+            contactId = optedOut.contactId;
+            await ctx.db.query(
+                'UPDATE conversations SET contact_id = $2 WHERE id = $1',
+                [conversationId, contactId]
+            );
+            await ctx.db.query(
+                'UPDATE inbound_messages SET contact_id = $2 WHERE conversation_id = $1 AND contact_id IS NULL',
+                [conversationId, contactId]
+            );
+        }
+    }
+
+    return captured;
+}
+
+/**
+ * Resolve a thread titled with a contact name, only when exactly one contact matches
+ */
+async function phoneFromContactName(ctx: WorkerContext, tenantId: string, name: string): Promise<string | null> {
+    if (!name) return null;
+
+    const result = await ctx.db.query(
+        'SELECT phone_e164 FROM contacts WHERE tenant_id = $1 AND name = $2 LIMIT 2',
+        [tenantId, name]
+    );
+
+    return result.rows.length === 1 ? result.rows[0].phone_e164 : null;
+}
@@ -0,0 +1,605 @@
+import type pg from 'pg';
+import type PgBoss from 'pg-boss';
+import {
+    assignVariant,
+    campaignTarget,
+    checkCampaignCompletion,
+    compileAudience,
+    createSenderPicker,
+    frequencyCapReason,
+    hasFrequencyCap,
+    isInTestGroup,
+    nextWindowOpening,
+    parseTemplate,
+    renderTemplate,
+    resolveFrequencyCapSettings,
+    variantBucket,
+    VARIANT_BUCKETS,
+    type CampaignType,
+    type ExpandCampaignJob,
+    type FrequencyCapSettings,
+    type MessageJob,
+} from '@sms/shared';
+
+interface WorkerContext {
+    db: pg.Pool;
+    boss: PgBoss;
+    config: {
+        expansionBatchSize: number;
+        rateLimits: { perMinute: number; perHour: number; perDay: number };
+    };
+}
+
+interface QueuedMessage {
+    id: string;
+    sessionId: string;
+    phoneE164: string;
+    bodyText: string | null;
+    mediaUrl: string | null;
+}
+
+interface ExpandedRow {
+    contactId: string;
+    sessionId: string;
+    variantId: string | null;
+    mediaUrl: string | null;
+    bodyText: string;
+    // Set when the contact is over the frequency cap; the message is recorded as skipped
+    skipReason: string | null;
+}
+
+interface Variant {
+    // Null for a campaign without an A/B test
+    id: string | null;
+    weight: number;
+    templateText: string;
+    mediaUrl: string | null;
+    winner: boolean;
+}
+
+interface Sender {
+    id: string;
+    load: number;
+    max_per_minute: number | null;
+}
+
+interface Expansion {
+    camp: Record<string, any>;
+    nextSender: () => string;
+    // Sessions connected when the expansion started
+    connected: Set<string>;
+    startAt: number;
+    // Time offset of the next message on each session, so jobs are spread
+    // at the phone's pace instead of all becoming due at once
+    offsets: Map<string, number>;
+    spacingMs: Map<string, number>;
+}
+
+/**
+ * Turn a running campaign's audience into messages and send jobs
+ * Contacts are expanded in batches ordered by id. Each batch is inserted with
+ * its cursor in one transaction, and contacts that already have a message are
+ * skipped, so a retried job continues where the last one stopped. Contacts
+ * over the tenant's frequency cap get a skipped message instead of a queued one.
+ */
+export async function handleExpandCampaign(
+    data: ExpandCampaignJob,
+    ctx: WorkerContext
+): Promise<{ expanded: number }> {
+    const { tenantId, campaignId } = data;
+
+    const campaign = await ctx.db.query(
+        `SELECT c.*, m.url as media_url, s.definition as segment_definition, t.settings as tenant_settings
+     FROM campaigns c
+     JOIN tenants t ON t.id = c.tenant_id
+     LEFT JOIN media m ON m.id = c.media_id
+     LEFT JOIN segments s ON s.id = c.segment_id
+     WHERE c.id = $1 AND c.tenant_id = $2`,
+        [campaignId, tenantId]
+    );
+
+    if (campaign.rows.length === 0) return { expanded: 0 };
+
+    const camp = campaign.rows[0];
+
+    if (camp.expansion_status === 'done') {
+        console.log(`[${campaignId}] Campaign already expanded`);
+        return { expanded: 0 };
+    }
+
+    if (camp.status !== 'running') {
+        console.log(`[${campaignId}] Campaign is ${camp.status}, not expanding`);
+        return { expanded: 0 };
+    }
+
+    if (camp.expansion_status === 'awaiting_winner') {
+        console.log(`[${campaignId}] A/B test group expanded, waiting for the winner`);
+        return { expanded: 0 };
+    }
+
+    // An attempt that stopped midway may have inserted messages without queueing their jobs
+    const interrupted = camp.expansion_status === 'expanding' || camp.expansion_status === 'failed';
+
+    await ctx.db.query(
+        `UPDATE campaigns SET expansion_status = 'expanding', expansion_error = NULL WHERE id = $1`,
+        [campaignId]
+    );
+
+    let expanded = 0;
+
+    try {
+        const expansion = await prepareExpansion(ctx, camp);
+
+        if (interrupted) {
+            await requeueExpanded(ctx, expansion);
+        }
+
+        const variants = await loadVariants(ctx, camp);
+        const winner = variants.find(variant => variant.winner);
+
+        // With auto-promotion, only the test group is split until a winner is chosen
+        const testing = camp.ab_auto_promote && variants.length > 1 && !winner;
+        const testSpan = (camp.ab_test_percent / 100) * VARIANT_BUCKETS;
+
+        const audience = compileAudience(campaignTarget(camp), 4);
+        const caps = resolveFrequencyCapSettings(camp.tenant_settings);
+
+        let cursor: string | null = camp.expansion_cursor;
+
+        while (true) {
+            // Stop between batches if the campaign was paused or cancelled
+            const current = await ctx.db.query('SELECT status FROM campaigns WHERE id = $1', [campaignId]);
+            if (current.rows[0]?.status !== 'running') {
+                await stopExpansion(ctx, campaignId, current.rows[0]?.status);
+                return { expanded };
+            }
+
+            const contacts = await ctx.db.query(
+                `SELECT id, phone_e164, name, custom_fields FROM contacts
+         WHERE tenant_id = $1 AND ($2::uuid IS NULL OR id > $2::uuid)
+           AND ${audience.sql}
+         ORDER BY id
+         LIMIT $3`,
+                [tenantId, cursor, ctx.config.expansionBatchSize, ...audience.values]
+            );
+
+            if (contacts.rows.length === 0) break;
+
+            cursor = contacts.rows[contacts.rows.length - 1].id;
+
+            const capped = hasFrequencyCap(caps)
+                ? await cappedContacts(ctx, caps, contacts.rows.map(contact => contact.id))
+                : new Map<string, string>();
+
+            // Parsed per batch: which "{a|b}" are fallbacks depends on the batch's contact fields
+            const fields = batchFields(contacts.rows);
+            const templates = new Map(variants.map(variant => [variant, parseTemplate(variant.templateText, fields)]));
+
+            const rows: ExpandedRow[] = [];
+            for (const contact of contacts.rows) {
+                const bucket = variantBucket(campaignId, contact.id);
+                if (testing && !isInTestGroup(bucket, camp.ab_test_percent)) continue;
+
+                const variant = winner ?? assignVariant(variants, bucket, testing ? testSpan : VARIANT_BUCKETS);
+
+                rows.push({
+                    contactId: contact.id,
+                    sessionId: expansion.nextSender(),
+                    variantId: variant.id,
+                    mediaUrl: variant.mediaUrl,
+                    bodyText: renderTemplate(templates.get(variant)!, {
+                        name: contact.name,
+                        phoneE164: contact.phone_e164,
+                        customFields: contact.custom_fields || {},
+                    }, { timezone: camp.timezone }),
+                    skipReason: capped.get(contact.id) ?? null,
+                });
+            }
+
+            const inserted = await insertBatch(ctx, camp, rows, cursor!);
+            if (!inserted.running) {
+                await stopExpansion(ctx, campaignId, inserted.status);
+                return { expanded };
+            }
+
+            await queueBatch(ctx, expansion, inserted.messages.filter(message => !message.skipped));
+            expanded += inserted.messages.length;
+        }
+
+        if (testing) {
+            // The rest of the audience waits for the promote-variant job
+            const decideAt = new Date(Date.now() + camp.ab_wait_minutes * 60 * 1000);
+
+            await ctx.db.query(
+                `UPDATE campaigns SET expansion_status = 'awaiting_winner', ab_decide_at = $2 WHERE id = $1`,
+                [campaignId, decideAt]
+            );
+            await ctx.boss.send('promote-variant', { tenantId, campaignId }, { startAfter: decideAt });
+
+            console.log(`[${campaignId}] A/B test group expanded: ${expanded} messages queued, winner at ${decideAt.toISOString()}`);
+            return { expanded };
+        }
+
+        // Contacts may have changed since the count taken at start
+        await ctx.db.query(
+            `UPDATE campaigns SET expansion_status = 'done', total_recipients = expanded_count WHERE id = $1`,
+            [campaignId]
+        );
+
+        await checkCampaignCompletion(ctx.db, campaignId);
+
+        console.log(`[${campaignId}] Campaign expanded: ${expanded} messages queued`);
+        return { expanded };
+
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        console.error(`[${campaignId}] Campaign expansion error:`, err);
+
+        await ctx.db.query(
+            `UPDATE campaigns SET expansion_status = 'failed', expansion_error = $2 WHERE id = $1`,
+            [campaignId, errorMessage]
+        );
+
+        throw err; // Let pg-boss retry from the cursor
+    }
+}
+
+/**
+ * Queue the unsent messages of a resumed campaign again
+ * Messages on a phone that is no longer connected move to one that is. If the
+ * pause interrupted the expansion, it continues from its cursor afterwards.
+ */
+export async function handleResumeCampaign(
+    data: ExpandCampaignJob,
+    ctx: WorkerContext
+): Promise<{ requeued: number }> {
+    const { tenantId, campaignId } = data;
+
+    const campaign = await ctx.db.query(
+        'SELECT * FROM campaigns WHERE id = $1 AND tenant_id = $2',
+        [campaignId, tenantId]
+    );
+
+    if (campaign.rows[0]?.status !== 'running') {
+        console.log(`[${campaignId}] Campaign is not running, nothing to resume`);
+        return { requeued: 0 };
+    }
+
+    const camp = campaign.rows[0];
+    const expansion = await prepareExpansion(ctx, camp);
+    const requeued = await requeueExpanded(ctx, expansion);
+
+    if (camp.expansion_status === 'awaiting_winner') {
+        // The promotion skips paused campaigns, so it has to be queued again
+        await ctx.boss.send('promote-variant', { tenantId, campaignId }, {
+            startAfter: camp.ab_decide_at ?? new Date(),
+        });
+    } else if (camp.expansion_status !== 'done') {
+        await ctx.boss.send('expand-campaign', { tenantId, campaignId }, {
+            singletonKey: `expand-campaign:${campaignId}`,
+            retryLimit: 5,
+            retryDelay: 30,
+            retryBackoff: true
+        });
+    } else {
+        // Everything may have been sent or cancelled before the pause
+        await checkCampaignCompletion(ctx.db, campaignId);
+    }
+
+    console.log(`[${campaignId}] Campaign resumed: ${requeued} messages queued again`);
+    return { requeued };
+}
+
+/**
+ * Pick the senders and send window for queueing a campaign's messages
+ */
+async function prepareExpansion(ctx: WorkerContext, camp: Record<string, any>): Promise<Expansion> {
+    const senders = await ctx.db.query<Sender>(
+        `SELECT s.id, s.max_per_minute,
+            (SELECT COUNT(*) FROM messages m
+             WHERE m.session_id = s.id AND m.status IN ('queued', 'sending'))::int as load
+     FROM sessions s
+     WHERE s.tenant_id = $1 AND s.status = 'connected'
+       AND (cardinality($2::uuid[]) = 0 OR s.id = ANY($2::uuid[]))
+     ORDER BY s.created_at`,
+        [camp.tenant_id, camp.sender_pool || []]
+    );
+
+    if (senders.rows.length === 0) {
+        throw new Error('No Google Messages session in the sender pool is connected');
+    }
+
+    const windowOpensAt = nextWindowOpening({
+        start: camp.window_start,
+        end: camp.window_end,
+        timezone: camp.timezone,
+        days: camp.window_days || [],
+    });
+
+    return {
+        camp,
+        nextSender: createSenderPicker(senders.rows, camp.sender_strategy),
+        connected: new Set(senders.rows.map(sender => sender.id)),
+        startAt: windowOpensAt ? windowOpensAt.getTime() : Date.now(),
+        offsets: new Map(),
+        spacingMs: new Map(senders.rows.map(sender => [
+            sender.id,
+            60000 / (sender.max_per_minute ?? ctx.config.rateLimits.perMinute),
+        ])),
+    };
+}
+
+/**
+ * Leave the expansion to be picked up again when the campaign resumes
+ */
+async function stopExpansion(ctx: WorkerContext, campaignId: string, status: string | undefined): Promise<void> {
+    await ctx.db.query(
+        `UPDATE campaigns SET expansion_status = 'pending' WHERE id = $1`,
+        [campaignId]
+    );
+    console.log(`[${campaignId}] Campaign is ${status}, expansion stopped`);
+}
+
+/**
+ * Insert one batch of messages and advance the cursor atomically.
+ * The campaign row stays locked meanwhile, so a pause or cancel either
+ * waits for the batch (and sees its messages) or stops it.
+ */
+async function insertBatch(
+    ctx: WorkerContext,
+    camp: Record<string, any>,
+    rows: ExpandedRow[],
+    cursor: string
+): Promise<
+    | { running: true; messages: (QueuedMessage & { skipped: boolean })[] }
+    | { running: false; status: string | undefined }
+> {
+    const client = await ctx.db.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const current = await client.query('SELECT status FROM campaigns WHERE id = $1 FOR UPDATE', [camp.id]);
+        if (current.rows[0]?.status !== 'running') {
+            await client.query('ROLLBACK');
+            return { running: false, status: current.rows[0]?.status };
+        }
+
+        const result = await client.query(
+            `INSERT INTO messages (tenant_id, campaign_id, session_id, contact_id, phone_e164, body_text, media_url, variant_id,
+         status, error)
+       SELECT $1, $2, v.session_id, ct.id, ct.phone_e164, v.body_text, v.media_url, v.variant_id,
+         CASE WHEN v.skip_reason IS NULL THEN 'queued' ELSE 'skipped' END, v.skip_reason
+       FROM unnest($3::uuid[], $4::uuid[], $5::text[], $6::text[], $7::uuid[], $8::text[])
+         as v(contact_id, session_id, body_text, media_url, variant_id, skip_reason)
+       JOIN contacts ct ON ct.id = v.contact_id
+       WHERE NOT EXISTS (
+         SELECT 1 FROM messages m WHERE m.campaign_id = $2 AND m.contact_id = v.contact_id
+       )
+       RETURNING id, session_id, phone_e164, body_text, media_url, status`,
+            [
+                camp.tenant_id, camp.id,
+                rows.map(row => row.contactId),
+                rows.map(row => row.sessionId),
+                rows.map(row => row.bodyText),
+                rows.map(row => row.mediaUrl),
+                rows.map(row => row.variantId),
+                rows.map(row => row.skipReason),
+            ]
+        );
+
+        const skipped = result.rows.filter(row => row.status === 'skipped').length;
+
+        await client.query(
+            `UPDATE campaigns SET expansion_cursor = $2, expanded_count = expanded_count + $3,
+         skipped_count = skipped_count + $4
+       WHERE id = $1`,
+            [camp.id, cursor, result.rows.length, skipped]
+        );
+
+        await client.query('COMMIT');
+
+        return {
+            running: true,
+            messages: result.rows.map(row => ({ ...toQueuedMessage(row), skipped: row.status === 'skipped' })),
+        };
+
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Queue the send jobs of a batch with a single insert
+ */
+async function queueBatch(ctx: WorkerContext, expansion: Expansion, messages: QueuedMessage[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    const { camp } = expansion;
+
+    await ctx.boss.insert(messages.map(message => {
+        // Schedule with throttling, at no more than the phone's per-minute cap
+        const delay = Math.floor(
+            Math.random() * (camp.throttle_max_delay_ms - camp.throttle_min_delay_ms) +
+            camp.throttle_min_delay_ms
+        );
+        const offset = (expansion.offsets.get(message.sessionId) ?? 0)
+            + Math.max(delay, expansion.spacingMs.get(message.sessionId) ?? 0);
+        expansion.offsets.set(message.sessionId, offset);
+
+        return {
+            name: 'send-message',
+            data: buildSendJob(camp.type, camp.tenant_id, message),
+            startAfter: new Date(expansion.startAt + offset),
+            retryLimit: 3,
+            retryDelay: 60,
+            retryBackoff: true,
+        };
+    }));
+}
+
+/**
+ * Queue the campaign's queued messages again, moving those on a disconnected
+ * phone to a connected one
+ * A message that already has a job is claimed only once, and only the job
+ * holding the claim takes rate-limit tokens, so duplicates are harmless.
+ */
+async function requeueExpanded(ctx: WorkerContext, expansion: Expansion): Promise<number> {
+    let lastId: string | null = null;
+    let requeued = 0;
+
+    while (true) {
+        const result: pg.QueryResult = await ctx.db.query(
+            `SELECT id, session_id, phone_e164, body_text, media_url FROM messages
+       WHERE campaign_id = $1 AND status = 'queued' AND ($2::uuid IS NULL OR id > $2::uuid)
+       ORDER BY id
+       LIMIT $3`,
+            [expansion.camp.id, lastId, ctx.config.expansionBatchSize]
+        );
+
+        if (result.rows.length === 0) return requeued;
+
+        lastId = result.rows[result.rows.length - 1].id;
+        const messages = result.rows.map(toQueuedMessage);
+
+        const moved = messages.filter(message => !expansion.connected.has(message.sessionId));
+        if (moved.length > 0) {
+            for (const message of moved) {
+                message.sessionId = expansion.nextSender();
+            }
+
+            await ctx.db.query(
+                `UPDATE messages m SET session_id = v.session_id
+         FROM unnest($1::uuid[], $2::uuid[]) as v(id, session_id)
+         WHERE m.id = v.id`,
+                [moved.map(message => message.id), moved.map(message => message.sessionId)]
+            );
+        }
+
+        await queueBatch(ctx, expansion, messages);
+        requeued += messages.length;
+    }
+}
+
+function toQueuedMessage(row: Record<string, any>): QueuedMessage {
+    return {
+        id: row.id,
+        sessionId: row.session_id,
+        phoneE164: row.phone_e164,
+        bodyText: row.body_text,
+        mediaUrl: row.media_url,
+    };
+}
+
+/**
+ * Build the send-message job for a campaign message
+ * Image messages carry a text fallback with the image link for phones without RCS.
+ */
+function buildSendJob(type: CampaignType, tenantId: string, message: QueuedMessage): MessageJob {
+    const bodyText = message.bodyText || '';
+
+    if (type === 'image') {
+        return {
+            type: 'send_image',
+            messageId: message.id,
+            tenantId,
+            sessionId: message.sessionId,
+            phoneE164: message.phoneE164,
+            mediaUrl: message.mediaUrl || '',
+            bodyText: bodyText || null,
+            fallbackText: `${bodyText}\n\nVeja a imagem: ${message.mediaUrl}`.trim(),
+        };
+    }
+
+    return {
+        type: 'send_text',
+        messageId: message.id,
+        tenantId,
+        sessionId: message.sessionId,
+        phoneE164: message.phoneE164,
+        bodyText,
+    };
+}
+
+/**
+ * The campaign's A/B variants, falling back to the campaign's own text and
+ * media; a single variant without an id when there is no A/B test
+ */
+async function loadVariants(ctx: WorkerContext, camp: Record<string, any>): Promise<Variant[]> {
+    const result = await ctx.db.query(
+        `SELECT v.id, v.weight, v.is_winner,
+            COALESCE(v.template_text, $2) as template_text,
+            COALESCE(m.url, $3) as media_url
+     FROM campaign_variants v
+     LEFT JOIN media m ON m.id = v.media_id
+     WHERE v.campaign_id = $1
+     ORDER BY v.label`,
+        [camp.id, camp.template_text || '', camp.media_url]
+    );
+
+    if (result.rows.length === 0) {
+        return [{
+            id: null,
+            weight: 100,
+            templateText: camp.template_text || '',
+            mediaUrl: camp.media_url,
+            winner: false,
+        }];
+    }
+
+    return result.rows.map(row => ({
+        id: row.id,
+        weight: row.weight,
+        templateText: row.template_text,
+        mediaUrl: row.media_url,
+        winner: row.is_winner,
+    }));
+}
+
+/**
+ * Contacts of a batch already at the frequency cap, with the reason
+ * Campaign messages still queued or being sent count as well as those sent in
+ * the period, so campaigns expanded one after the other share the cap.
+ */
+async function cappedContacts(
+    ctx: WorkerContext,
+    caps: FrequencyCapSettings,
+    contactIds: string[]
+): Promise<Map<string, string>> {
+    const result = await ctx.db.query(
+        `SELECT contact_id,
+            COUNT(*) FILTER (WHERE status IN ('queued', 'sending') OR sent_at >= NOW() - INTERVAL '1 day')::int as day,
+            COUNT(*)::int as week
+     FROM messages
+     WHERE contact_id = ANY($1::uuid[]) AND campaign_id IS NOT NULL
+       AND (status IN ('queued', 'sending')
+         OR (status IN ('sent', 'delivered', 'read') AND sent_at >= NOW() - INTERVAL '7 days'))
+     GROUP BY contact_id`,
+        [contactIds]
+    );
+
+    const capped = new Map<string, string>();
+    for (const row of result.rows) {
+        const reason = frequencyCapReason(caps, row);
+        if (reason) capped.set(row.contact_id, reason);
+    }
+
+    return capped;
+}
+
+/**
+ * Custom field names used by any contact of a batch
+ */
+function batchFields(contacts: { custom_fields: Record<string, unknown> | null }[]): string[] {
+    const fields = new Set<string>();
+    for (const contact of contacts) {
+        for (const field of Object.keys(contact.custom_fields || {})) {
+            fields.add(field);
+        }
+    }
+
+    return [...fields];
+}
@@ -0,0 +1,123 @@
+import type pg from 'pg';
+import { withSessionLock, type MessagingDriver } from '../drivers/index.js';
+import { cancelQueuedMessages, matchOptOutKeyword, type OptOutSettings } from '@sms/shared';
+
+interface WorkerContext {
+    db: pg.Pool;
+    sessions: Map<string, MessagingDriver>;
+}
+
+export interface OptOutResult {
+    keyword: string;
+    contactId: string;
+    cancelled: number;
+}
+
+/**
+ * Opt a contact out when an inbound message is an opt-out keyword
+ * Marks the contact (creating it if unknown), cancels its queued messages,
+ * sends the confirmation reply when configured and records an audit entry.
+ * Returns null when the message is not a keyword.
+ */
+export async function processOptOut(
+    ctx: WorkerContext,
+    tenantId: string,
+    sessionId: string,
+    phoneE164: string,
+    text: string,
+    settings: OptOutSettings
+): Promise<OptOutResult | null> {
+    if (!settings.enabled) return null;
+
+    const keyword = matchOptOutKeyword(text, settings.keywords);
+    if (!keyword) return null;
+
+    const contact = await ctx.db.query(
+        `INSERT INTO contacts (tenant_id, phone_e164, opted_out, opted_out_at)
+     VALUES ($1, $2, TRUE, NOW())
+     ON CONFLICT (tenant_id, phone_e164) DO UPDATE SET
+       opted_out = TRUE,
+       opted_out_at = COALESCE(contacts.opted_out_at, NOW())
+     RETURNING id`,
+        [tenantId, phoneE164]
+    );
+    const contactId = contact.rows[0].id;
+
+    // Drop everything still waiting to go out to this phone
+    const cancelled = await cancelQueuedMessages(ctx.db, tenantId, { phoneE164 }, 'Contact opted out');
+
+    const confirmationSent = settings.confirmationText
+        ? await sendConfirmation(ctx, tenantId, sessionId, contactId, phoneE164, settings.confirmationText)
+        : false;
+
+    await ctx.db.query(
+        `INSERT INTO audit_logs (tenant_id, action, resource_type, resource_id, details)
+     VALUES ($1, $2, $3, $4, $5)`,
+        [tenantId, 'opt_out', 'contact', contactId, JSON.stringify({
+            keyword,
+            phoneE164,
+            cancelled,
+            confirmationSent,
+        })]
+    );
+
+    console.log(`[${tenantId}] ${phoneE164} opted out with "${keyword}", cancelled ${cancelled} messages`);
+
+    return { keyword, contactId, cancelled };
+}
+
+/**
+ * Send the confirmation reply right away from the session the keyword arrived on
+ * It goes out even though the contact is now opted out, so it bypasses the queue.
+ */
+async function sendConfirmation(
+    ctx: WorkerContext,
+    tenantId: string,
+    sessionId: string,
+    contactId: string,
+    phoneE164: string,
+    text: string
+): Promise<boolean> {
+    const client = ctx.sessions.get(sessionId);
+    if (!client) return false;
+
+    const message = await ctx.db.query(
+        `INSERT INTO messages (tenant_id, session_id, contact_id, phone_e164, body_text, status, attempts)
+     VALUES ($1, $2, $3, $4, $5, 'sending', 1)
+     RETURNING id`,
+        [tenantId, sessionId, contactId, phoneE164, text]
+    );
+    const messageId = message.rows[0].id;
+
+    try {
+        const result = await withSessionLock(sessionId, () => client.sendText(phoneE164, text));
+
+        if (result.outcome === 'failed') {
+            await ctx.db.query(
+                `UPDATE messages SET status = 'failed', error = $2, error_screenshot_path = $3 WHERE id = $1`,
+                [messageId, result.error, result.screenshotPath]
+            );
+            return false;
+        }
+
+        // A pending send stays 'sending' for the receipt poller to resolve
+        await ctx.db.query(
+            `UPDATE messages SET status = CASE WHEN $2 = 'pending' THEN status ELSE $2 END, sent_at = NOW(),
+        delivered_at = CASE WHEN $2 = 'delivered' THEN NOW() ELSE delivered_at END,
+        error = $3
+       WHERE id = $1`,
+            [messageId, result.outcome, result.error ?? null]
+        );
+        return true;
+
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        console.error(`[${tenantId}] Failed to send opt-out confirmation to ${phoneE164}:`, err);
+
+        await ctx.db.query(
+            `UPDATE messages SET status = 'failed', error = $2 WHERE id = $1`,
+            [messageId, errorMessage]
+        );
+        return false;
+    }
+}
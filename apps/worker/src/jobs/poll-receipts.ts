@@ -0,0 +1,254 @@
+import type pg from 'pg';
+import { withSessionLock, type MessagingDriver, type DriverName, type FakeDriverOptions, type OutgoingMessageStatus, type ReceiptStatus, type SelectorRegistry } from '../drivers/index.js';
+import { checkCampaignCompletion, type PollReceiptsJob } from '@sms/shared';
+
+interface WorkerContext {
+    db: pg.Pool;
+    sessions: Map<string, MessagingDriver>;
+    selectorRegistry: SelectorRegistry;
+    config: {
+        sessionsPath: string;
+        apiBaseUrl: string;
+        internalApiKey: string;
+        googleMessagesUrl?: string;
+        googleMessagesLocale?: string;
+        messagingDriver: DriverName;
+        fakeDriver: FakeDriverOptions;
+        receiptLookbackHours: number;
+        receiptMaxConversations: number;
+    };
+}
+
+interface TrackedMessage {
+    id: string;
+    campaign_id: string | null;
+    phone_e164: string;
+    body_text: string | null;
+    // Sent as an image (and not fallen back to text)
+    has_image: boolean;
+    status: 'sending' | 'sent' | 'delivered';
+    sent_at: Date;
+}
+
+// Position in the lifecycle; receipts only ever move a message forward
+const STATUS_RANK: Record<Exclude<ReceiptStatus, 'failed'>, number> = {
+    sending: 0,
+    sent: 1,
+    delivered: 2,
+    read: 3,
+};
+
+// Bubble timestamps are only minute-precise, so allow for rounding and clock drift
+const TIMESTAMP_TOLERANCE_MS = 60000;
+
+/**
+ * Revisit recent conversations and record delivery/read receipts
+ * Only runs on sessions already open in this worker; never launches a browser
+ */
+export async function handlePollReceipts(
+    data: PollReceiptsJob,
+    ctx: WorkerContext
+): Promise<{ conversations: number; updated: number }> {
+    const { tenantId, sessionId } = data;
+
+    const client = ctx.sessions.get(sessionId);
+    if (!client) {
+        return { conversations: 0, updated: 0 };
+    }
+
+    // Messages still waiting for a receipt, including sends that were
+    // never confirmed ('sending' with sent_at set)
+    const result = await ctx.db.query<TrackedMessage>(
+        `SELECT id, campaign_id, phone_e164, body_text, status, sent_at,
+            (media_url IS NOT NULL AND NOT COALESCE(fallback_used, FALSE)) as has_image
+     FROM messages
+     WHERE tenant_id = $1 AND session_id = $3
+       AND status IN ('sending', 'sent', 'delivered')
+       AND sent_at IS NOT NULL
+       AND sent_at > NOW() - make_interval(hours => $2)
+     ORDER BY sent_at`,
+        [tenantId, ctx.config.receiptLookbackHours, sessionId]
+    );
+
+    if (result.rows.length === 0) {
+        return { conversations: 0, updated: 0 };
+    }
+
+    // Group by conversation, most recently active first
+    const byPhone = new Map<string, TrackedMessage[]>();
+    for (const message of result.rows) {
+        const list = byPhone.get(message.phone_e164) || [];
+        list.push(message);
+        byPhone.set(message.phone_e164, list);
+    }
+
+    const phones = Array.from(byPhone.keys())
+        .sort((a, b) => lastSentAt(byPhone.get(b)!) - lastSentAt(byPhone.get(a)!))
+        .slice(0, ctx.config.receiptMaxConversations);
+
+    let updated = 0;
+
+    for (const phone of phones) {
+        try {
+            const bubbles = await withSessionLock(sessionId, () => client.readOutgoingStatuses(phone));
+            const matches = matchBubbles(byPhone.get(phone)!, bubbles);
+
+            for (const [message, bubble] of matches) {
+                if (await applyReceipt(ctx, message, bubble.status)) {
+                    updated++;
+                }
+            }
+        } catch (err) {
+            console.error(`[${sessionId}] Failed to read receipts for ${phone}:`, err);
+        }
+    }
+
+    if (updated > 0) {
+        console.log(`[${sessionId}] Receipt poll updated ${updated} messages in ${phones.length} conversations`);
+    }
+
+    return { conversations: phones.length, updated };
+}
+
+/**
+ * Resolve sends that were never confirmed (left in 'sending') once they
+ * leave the lookback window, after which no poll looks for them. They left
+ * the composer, so they are counted as sent, with an error noting it.
+ * Covers every session, open in this worker or not; returns how many.
+ */
+export async function resolveUnconfirmedSends(ctx: Pick<WorkerContext, 'db' | 'config'>): Promise<number> {
+    const resolved = await ctx.db.query(
+        `UPDATE messages SET status = 'sent', error = 'Send never confirmed by Messages, assumed sent'
+     WHERE status = 'sending' AND sent_at IS NOT NULL
+       AND sent_at <= NOW() - make_interval(hours => $1)
+     RETURNING campaign_id`,
+        [ctx.config.receiptLookbackHours]
+    );
+
+    const perCampaign = new Map<string, number>();
+    for (const row of resolved.rows) {
+        if (row.campaign_id) {
+            perCampaign.set(row.campaign_id, (perCampaign.get(row.campaign_id) ?? 0) + 1);
+        }
+    }
+
+    for (const [campaignId, count] of perCampaign) {
+        await ctx.db.query(
+            'UPDATE campaigns SET sent_count = sent_count + $2 WHERE id = $1',
+            [campaignId, count]
+        );
+        await checkCampaignCompletion(ctx.db, campaignId);
+    }
+
+    if (resolved.rows.length > 0) {
+        console.log(`Resolved ${resolved.rows.length} unconfirmed sends as sent`);
+    }
+
+    return resolved.rows.length;
+}
+
+function lastSentAt(messages: TrackedMessage[]): number {
+    return messages[messages.length - 1].sent_at.getTime();
+}
+
+/**
+ * Pair messages (oldest first) with bubbles in thread order.
+ * Each bubble is used once and must contain the body text and, when the
+ * bubble has a readable timestamp, not predate the send. Image messages
+ * need a bubble with an image; without a caption they are told apart by
+ * the timestamp alone, so the bubble must have one.
+ */
+function matchBubbles(
+    messages: TrackedMessage[],
+    bubbles: OutgoingMessageStatus[]
+): [TrackedMessage, OutgoingMessageStatus][] {
+    const matches: [TrackedMessage, OutgoingMessageStatus][] = [];
+    const used = new Set<number>();
+
+    for (const message of messages) {
+        const body = (message.body_text || '').replace(/\s+/g, ' ').trim();
+
+        // A text message with no text has nothing to match on
+        if (!body && !message.has_image) continue;
+
+        const index = bubbles.findIndex((bubble, i) =>
+            !used.has(i)
+            && (!message.has_image || bubble.hasImage)
+            && bubble.text.includes(body)
+            && (body || bubble.timestamp !== null)
+            && (!bubble.timestamp || bubble.timestamp.getTime() >= message.sent_at.getTime() - TIMESTAMP_TOLERANCE_MS)
+        );
+
+        if (index === -1) continue;
+
+        used.add(index);
+        matches.push([message, bubbles[index]]);
+    }
+
+    return matches;
+}
+
+/**
+ * Move a message forward to the observed status and update campaign counters
+ * Returns true when something changed
+ */
+async function applyReceipt(ctx: WorkerContext, message: TrackedMessage, observed: ReceiptStatus): Promise<boolean> {
+    // An unconfirmed send that turned out to fail
+    if (observed === 'failed') {
+        if (message.status !== 'sending') return false;
+
+        const failed = await ctx.db.query(
+            `UPDATE messages SET status = 'failed', error = 'Messages reported the message as not sent'
+       WHERE id = $1 AND status = 'sending'`,
+            [message.id]
+        );
+
+        if (failed.rowCount === 0) return false;
+
+        if (message.campaign_id) {
+            await ctx.db.query(
+                'UPDATE campaigns SET failed_count = failed_count + 1 WHERE id = $1',
+                [message.campaign_id]
+            );
+            await checkCampaignCompletion(ctx.db, message.campaign_id);
+        }
+
+        return true;
+    }
+
+    const from = STATUS_RANK[message.status];
+    const to = STATUS_RANK[observed];
+    if (to <= from) return false;
+
+    // Guard on the old status so a concurrent update is not counted twice
+    const update = await ctx.db.query(
+        `UPDATE messages SET status = $2, error = NULL,
+        delivered_at = CASE WHEN $2 IN ('delivered', 'read') THEN COALESCE(delivered_at, NOW()) ELSE delivered_at END,
+        read_at = CASE WHEN $2 = 'read' THEN COALESCE(read_at, NOW()) ELSE read_at END
+     WHERE id = $1 AND status = $3`,
+        [message.id, observed, message.status]
+    );
+
+    if (update.rowCount === 0) return false;
+
+    const reachedSent = from < STATUS_RANK.sent;
+    const reachedDelivered = from < STATUS_RANK.delivered && to >= STATUS_RANK.delivered;
+    const reachedRead = to === STATUS_RANK.read;
+
+    if (message.campaign_id) {
+        await ctx.db.query(
+            `UPDATE campaigns SET
+        sent_count = sent_count + $2,
+        delivered_count = delivered_count + $3,
+        read_count = read_count + $4
+       WHERE id = $1`,
+            [message.campaign_id, reachedSent ? 1 : 0, reachedDelivered ? 1 : 0, reachedRead ? 1 : 0]
+        );
+
+        if (reachedSent) {
+            await checkCampaignCompletion(ctx.db, message.campaign_id);
+        }
+    }
+
+    return true;
+}
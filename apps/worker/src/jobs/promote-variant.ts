@@ -0,0 +1,145 @@
+import type pg from 'pg';
+import type PgBoss from 'pg-boss';
+import { pickWinner, type ExpandCampaignJob, type VariantStats, type WinnerMetric } from '@sms/shared';
+
+interface WorkerContext {
+    db: pg.Pool;
+    boss: PgBoss;
+}
+
+// Wait before checking again while the test group is still being sent
+const RECHECK_DELAY_SECONDS = 300;
+
+/**
+ * Pick the winning variant of an A/B test and send it to the rest of the audience
+ * Runs once the test group has been expanded and the wait has passed. The
+ * winner has the best rate for the campaign's metric among the test messages;
+ * the expansion then continues from the start, skipping contacts that already
+ * have a message.
+ */
+export async function handlePromoteVariant(
+    data: ExpandCampaignJob,
+    ctx: WorkerContext
+): Promise<{ winner: string | null }> {
+    const { tenantId, campaignId } = data;
+
+    const campaign = await ctx.db.query(
+        `SELECT status, expansion_status, ab_winner_metric, ab_decide_at
+     FROM campaigns WHERE id = $1 AND tenant_id = $2`,
+        [campaignId, tenantId]
+    );
+
+    const camp = campaign.rows[0];
+
+    // A paused campaign queues the promotion again when resumed
+    if (camp?.status !== 'running' || camp.expansion_status !== 'awaiting_winner') {
+        console.log(`[${campaignId}] Campaign is not waiting for an A/B winner`);
+        return { winner: null };
+    }
+
+    const pending = await ctx.db.query(
+        `SELECT COUNT(*)::int as count FROM messages
+     WHERE campaign_id = $1 AND status IN ('queued', 'sending')`,
+        [campaignId]
+    );
+
+    if ((camp.ab_decide_at && new Date(camp.ab_decide_at) > new Date()) || pending.rows[0].count > 0) {
+        await ctx.boss.send('promote-variant', { tenantId, campaignId }, { startAfter: RECHECK_DELAY_SECONDS });
+        console.log(`[${campaignId}] A/B test still running, checking again in ${RECHECK_DELAY_SECONDS}s`);
+        return { winner: null };
+    }
+
+    const stats = await variantStats(ctx, campaignId);
+    const winner = pickWinner(stats, camp.ab_winner_metric as WinnerMetric);
+
+    if (!winner) {
+        // Variants were removed; send the campaign's own message to everyone
+        console.log(`[${campaignId}] Campaign has no variants left, expanding without a winner`);
+    } else {
+        await ctx.db.query(
+            'UPDATE campaign_variants SET is_winner = (id = $2) WHERE campaign_id = $1',
+            [campaignId, winner.variantId]
+        );
+    }
+
+    const promoted = await ctx.db.query(
+        `UPDATE campaigns SET expansion_status = 'pending', expansion_cursor = NULL, ab_promoted_at = NOW()
+     WHERE id = $1 AND expansion_status = 'awaiting_winner'
+     RETURNING id`,
+        [campaignId]
+    );
+
+    // Another promotion got here first
+    if (promoted.rows.length === 0) return { winner: null };
+
+    await ctx.db.query(
+        `INSERT INTO audit_logs (tenant_id, action, resource_type, resource_id, details)
+     VALUES ($1, $2, $3, $4, $5)`,
+        [tenantId, 'ab_winner_promoted', 'campaign', campaignId, JSON.stringify({
+            metric: camp.ab_winner_metric,
+            winner: winner?.label ?? null,
+            variants: stats.map(variant => ({
+                label: variant.label,
+                sent: variant.sent,
+                delivered: variant.delivered,
+                read: variant.read,
+                replied: variant.replied,
+            })),
+        })]
+    );
+
+    await ctx.boss.send('expand-campaign', { tenantId, campaignId }, {
+        singletonKey: `expand-campaign:${campaignId}`,
+        retryLimit: 5,
+        retryDelay: 30,
+        retryBackoff: true
+    });
+
+    console.log(`[${campaignId}] A/B winner: ${winner?.label ?? 'none'} by ${camp.ab_winner_metric}`);
+    return { winner: winner?.label ?? null };
+}
+
+/**
+ * Sent/delivered/read/replied counts of each variant's messages
+ * A reply is any inbound message from the contact after the message was sent.
+ */
+async function variantStats(ctx: WorkerContext, campaignId: string): Promise<VariantStats[]> {
+    const result = await ctx.db.query(
+        `SELECT v.id, v.label, v.weight, v.is_winner,
+            COUNT(m.id)::int as messages,
+            COUNT(m.id) FILTER (WHERE m.status IN ('sent', 'delivered', 'read'))::int as sent,
+            COUNT(m.id) FILTER (WHERE m.status IN ('delivered', 'read'))::int as delivered,
+            COUNT(m.id) FILTER (WHERE m.status = 'read')::int as read,
+            COUNT(m.id) FILTER (WHERE m.status = 'failed')::int as failed,
+            COUNT(m.id) FILTER (WHERE m.sent_at IS NOT NULL AND EXISTS (
+              SELECT 1 FROM inbound_messages im
+              WHERE im.tenant_id = m.tenant_id AND im.phone_e164 = m.phone_e164 AND im.received_at > m.sent_at
+            ))::int as replied
+     FROM campaign_variants v
+     LEFT JOIN messages m ON m.variant_id = v.id
+     WHERE v.campaign_id = $1
+     GROUP BY v.id
+     ORDER BY v.label`,
+        [campaignId]
+    );
+
+    return result.rows.map(row => {
+        const rate = (count: number) => row.sent > 0 ? count / row.sent : 0;
+
+        return {
+            variantId: row.id,
+            label: row.label,
+            weight: row.weight,
+            isWinner: row.is_winner,
+            messages: row.messages,
+            sent: row.sent,
+            delivered: row.delivered,
+            read: row.read,
+            failed: row.failed,
+            replied: row.replied,
+            deliveredRate: rate(row.delivered),
+            readRate: rate(row.read),
+            repliedRate: rate(row.replied),
+        };
+    });
+}
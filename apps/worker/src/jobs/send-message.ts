@@ -1,21 +1,60 @@
 import type pg from 'pg';
+import type PgBoss from 'pg-boss';
 import * as fs from 'fs';
 import * as https from 'https';
 import * as http from 'http';
 import * as path from 'path';
-import { GoogleMessagesClient } from '../drivers/google-messages.js';
-import type { MessageJob, SendTextJob, SendImageJob } from '@sms/shared';
+import { createDriver, withSessionLock, type MessagingDriver, type SendResult, type DriverName, type FakeDriverOptions, type SelectorRegistry } from '../drivers/index.js';
+import { acquireTokens, MINUTE_MS, HOUR_MS, DAY_MS, type RateLimit } from '../rate-governor.js';
+import {
+    checkCampaignCompletion,
+    frequencyCapReason,
+    hasFrequencyCap,
+    nextWindowOpening,
+    resolveFrequencyCapSettings,
+    type FrequencyCapSettings,
+    type MessageJob,
+    type SendTextJob,
+    type SendImageJob,
+} from '@sms/shared';
 
 interface WorkerContext {
     db: pg.Pool;
-    sessions: Map<string, GoogleMessagesClient>;
+    boss: PgBoss;
+    sessions: Map<string, MessagingDriver>;
+    selectorRegistry: SelectorRegistry;
     config: {
         sessionsPath: string;
         apiBaseUrl: string;
         internalApiKey: string;
+        googleMessagesUrl?: string;
+        googleMessagesLocale?: string;
+        messagingDriver: DriverName;
+        fakeDriver: FakeDriverOptions;
+        // Default send caps for sessions without their own
+        rateLimits: { perMinute: number; perHour: number; perDay: number };
     };
 }
 
+interface SendTarget {
+    status: string;
+    session_id: string;
+    contact_id: string | null;
+    contact_opted_out: boolean | null;
+    campaign_id: string | null;
+    campaign_status: string | null;
+    campaign_max_per_minute: number | null;
+    window_start: string | null;
+    window_end: string | null;
+    timezone: string | null;
+    window_days: number[] | null;
+    window_opens_at: Date | null;
+    max_per_minute: number | null;
+    max_per_hour: number | null;
+    max_per_day: number | null;
+    tenant_settings: Record<string, unknown> | null;
+}
+
 /**
  * Handle message sending job
  */
@@ -24,20 +63,135 @@ export async function handleSendMessage(
     ctx: WorkerContext
 ): Promise<void> {
     const { messageId, tenantId } = data;
+    // Once claimed, failures are counted against the message's own attempts
+    let claimedMessage = false;
 
     try {
-        // Update message status to sending
-        await ctx.db.query(
-            `UPDATE messages SET status = 'sending', attempts = attempts + 1 WHERE id = $1`,
+        // The message row records which phone of the sender pool sends it
+        const target = await ctx.db.query<SendTarget>(
+            `SELECT m.status, COALESCE(m.session_id, $2::uuid) as session_id, m.contact_id,
+              ct.opted_out as contact_opted_out, m.campaign_id,
+              c.status as campaign_status, c.max_per_minute as campaign_max_per_minute,
+              c.window_start, c.window_end, c.timezone, c.window_days, c.window_opens_at,
+              s.max_per_minute, s.max_per_hour, s.max_per_day, t.settings as tenant_settings
+       FROM messages m
+       JOIN tenants t ON t.id = m.tenant_id
+       LEFT JOIN contacts ct ON ct.id = m.contact_id
+       LEFT JOIN campaigns c ON c.id = m.campaign_id
+       LEFT JOIN sessions s ON s.id = COALESCE(m.session_id, $2::uuid)
+       WHERE m.id = $1`,
+            [messageId, data.sessionId]
+        );
+
+        if (target.rows.length === 0 || target.rows[0].status === 'cancelled' || target.rows[0].status === 'skipped') {
+            console.log(`[${messageId}] Message cancelled or skipped, not sending`);
+            return;
+        }
+
+        // Contacts opted out from the API (one by one or in bulk) keep their
+        // messages queued until the job gets here
+        if (target.rows[0].contact_opted_out) {
+            await cancelOptedOut(ctx, messageId);
+            return;
+        }
+
+        const sessionId = target.rows[0].session_id;
+        const campaign = target.rows[0];
+
+        // A paused campaign keeps its messages queued; resume queues them again
+        if (campaign.campaign_status && campaign.campaign_status !== 'running') {
+            console.log(`[${messageId}] Campaign is ${campaign.campaign_status}, leaving message queued`);
+            return;
+        }
+
+        // Hold campaign messages outside the campaign's send window
+        if (campaign.campaign_id) {
+            const opensAt = nextWindowOpening({
+                start: campaign.window_start,
+                end: campaign.window_end,
+                timezone: campaign.timezone || 'UTC',
+                days: campaign.window_days || [],
+            });
+
+            if (opensAt) {
+                console.log(`[${messageId}] Outside send window, holding until ${opensAt.toISOString()}`);
+
+                await ctx.db.query(
+                    `UPDATE campaigns SET window_opens_at = $2
+           WHERE id = $1 AND window_opens_at IS DISTINCT FROM $2`,
+                    [campaign.campaign_id, opensAt]
+                );
+                await requeue(ctx, data, opensAt);
+                return;
+            }
+
+            if (campaign.window_opens_at) {
+                await ctx.db.query(
+                    'UPDATE campaigns SET window_opens_at = NULL WHERE id = $1',
+                    [campaign.campaign_id]
+                );
+            }
+        }
+
+        // Other campaigns may have reached the contact since this message was queued
+        if (campaign.campaign_id && campaign.contact_id) {
+            const caps = resolveFrequencyCapSettings(campaign.tenant_settings);
+            const reason = hasFrequencyCap(caps)
+                ? await frequencyCapReached(ctx, messageId, campaign.contact_id, caps)
+                : null;
+
+            if (reason) {
+                console.log(`[${messageId}] ${reason}, skipping message`);
+                await skipMessage(ctx, messageId, reason);
+                return;
+            }
+        }
+
+        // Update message status to sending, unless it was cancelled (e.g. the
+        // contact opted out), already sent or failed by another job for the
+        // same message (queued again on resume) or its campaign was paused
+        // meanwhile. Retries put the message back to 'queued' first.
+        const claimed = await ctx.db.query(
+            `UPDATE messages m SET status = 'sending', attempts = attempts + 1
+       WHERE m.id = $1 AND m.status = 'queued'
+         AND NOT EXISTS (
+           SELECT 1 FROM campaigns c WHERE c.id = m.campaign_id AND c.status <> 'running'
+         )
+         AND NOT EXISTS (
+           SELECT 1 FROM contacts ct WHERE ct.id = m.contact_id AND ct.opted_out
+         )
+       RETURNING m.id`,
             [messageId]
         );
 
+        if (claimed.rows.length === 0) {
+            if (await cancelOptedOut(ctx, messageId)) return;
+            console.log(`[${messageId}] Message no longer sendable, skipping send`);
+            return;
+        }
+
+        // Wait for the phone's (and campaign's) send budget. Only the job
+        // holding the claim draws tokens, so duplicate jobs cost nothing.
+        const decision = await acquireTokens(ctx.db, sendLimits(target.rows[0], ctx.config.rateLimits))
+            .catch(async (err) => {
+                await releaseClaim(ctx, messageId);
+                throw err;
+            });
+        if (!decision.granted) {
+            console.log(`[${messageId}] Rate limit ${decision.key} reached, retrying in ${Math.ceil(decision.retryAfterMs / 1000)}s`);
+
+            await releaseClaim(ctx, messageId);
+            await requeue(ctx, data, new Date(Date.now() + decision.retryAfterMs));
+            return;
+        }
+        claimedMessage = true;
+
         // Get or create session
-        let client = ctx.sessions.get(tenantId);
+        let client = ctx.sessions.get(sessionId);
 
         if (!client) {
             // Try to restore session
-            client = new GoogleMessagesClient(tenantId, ctx.config.sessionsPath);
+            client = await createDriver(tenantId, sessionId, ctx);
             await client.launch();
 
             const state = await client.detectState();
@@ -45,7 +199,7 @@ export async function handleSendMessage(
                 throw new Error('Session not connected - please scan QR code');
             }
 
-            ctx.sessions.set(tenantId, client);
+            ctx.sessions.set(sessionId, client);
         }
 
         // Check session health
@@ -53,75 +207,64 @@ export async function handleSendMessage(
         if (!isHealthy) {
             // Mark session as needing reconnection
             await ctx.db.query(
-                `UPDATE sessions SET status = 'needs-qr' WHERE tenant_id = $1`,
-                [tenantId]
+                `UPDATE sessions SET status = 'needs-qr' WHERE id = $1`,
+                [sessionId]
             );
 
             throw new Error('Session disconnected - needs QR scan');
         }
 
         // Send based on job type
-        let result;
-
-        if (data.type === 'send_text') {
-            result = await sendTextMessage(data, client);
-        } else if (data.type === 'send_image') {
-            result = await sendImageMessage(data, client, ctx);
-        } else {
+        const driver = client;
+        const result: SendResult = await withSessionLock(sessionId, async () => {
+            if (data.type === 'send_text') {
+                return sendTextMessage(data, driver);
+            } else if (data.type === 'send_image') {
+                return sendImageMessage(data, driver, ctx);
+            }
             throw new Error(`Unknown job type`);
-        }
+        });
 
-        // Update message with result
-        if (result.success) {
+        // Update message with the status the driver actually observed
+        if (result.outcome === 'sent' || result.outcome === 'delivered') {
             await ctx.db.query(
-                `UPDATE messages SET status = 'sent', sent_at = NOW(), fallback_used = $2 WHERE id = $1`,
-                [messageId, result.fallbackUsed || false]
+                `UPDATE messages SET status = $3, sent_at = NOW(),
+          delivered_at = CASE WHEN $3 = 'delivered' THEN NOW() ELSE delivered_at END,
+          fallback_used = $2, error = NULL
+         WHERE id = $1`,
+                [messageId, result.fallbackUsed || false, result.outcome]
             );
 
             // Update campaign counters
             await ctx.db.query(
-                `UPDATE campaigns SET sent_count = sent_count + 1 WHERE id = (
-          SELECT campaign_id FROM messages WHERE id = $1
-        )`,
-                [messageId]
-            );
-
-        } else {
-            // Check if we should retry
-            const message = await ctx.db.query(
-                'SELECT attempts, max_attempts FROM messages WHERE id = $1',
-                [messageId]
+                `UPDATE campaigns SET sent_count = sent_count + 1,
+          delivered_count = delivered_count + $2
+         WHERE id = (SELECT campaign_id FROM messages WHERE id = $1)`,
+                [messageId, result.outcome === 'delivered' ? 1 : 0]
             );
 
-            const { attempts, max_attempts } = message.rows[0];
+            if (campaign.campaign_id) {
+                await checkCampaignCompletion(ctx.db, campaign.campaign_id);
+            }
 
-            if (attempts < max_attempts) {
-                // Schedule retry
-                const retryDelay = Math.pow(2, attempts) * 60; // Exponential backoff in seconds
+        } else if (result.outcome === 'pending') {
+            // The message left the composer but never settled. Keep it in
+            // 'sending' instead of retrying, which could deliver it twice;
+            // sent_at marks it for the receipt poller to resolve, which
+            // counts it as sent if it is still unconfirmed after the
+            // lookback window.
+            console.log(`[${messageId}] Send not confirmed, leaving message as sending`);
 
-                await ctx.db.query(
-                    `UPDATE messages SET status = 'queued', next_retry_at = NOW() + INTERVAL '${retryDelay} seconds', error = $2, error_screenshot_path = $3 WHERE id = $1`,
-                    [messageId, result.error, result.screenshotPath]
-                );
-            } else {
-                // Max retries exceeded
-                await ctx.db.query(
-                    `UPDATE messages SET status = 'failed', error = $2, error_screenshot_path = $3 WHERE id = $1`,
-                    [messageId, result.error, result.screenshotPath]
-                );
+            await ctx.db.query(
+                `UPDATE messages SET sent_at = NOW(), fallback_used = $2, error = $3 WHERE id = $1`,
+                [messageId, result.fallbackUsed || false, result.error]
+            );
 
-                // Update campaign failed counter
-                await ctx.db.query(
-                    `UPDATE campaigns SET failed_count = failed_count + 1 WHERE id = (
-            SELECT campaign_id FROM messages WHERE id = $1
-          )`,
-                    [messageId]
-                );
-            }
+        } else {
+            await failAttempt(ctx, data, result.error ?? 'Send failed', result.screenshotPath ?? null);
         }
-
-        // Check if campaign is complete
-        await checkCampaignCompletion(ctx, messageId);
+        // The outcome is recorded; a later error must not count the message again
+        claimedMessage = false;
 
         // Add jitter delay between messages to avoid detection
         const jitterMs = Math.random() * 2000 + 1000; // 1-3 seconds
@@ -130,22 +273,200 @@ export async function handleSendMessage(
     } catch (err) {
         console.error(`[${messageId}] Send message error:`, err);
 
-        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        // Unclaimed or already recorded: nothing to count, let pg-boss retry the job
+        if (!claimedMessage) throw err;
 
+        await failAttempt(ctx, data, err instanceof Error ? err.message : 'Unknown error', null);
+    }
+}
+
+/**
+ * Cancel a queued message whose contact has opted out, counting it on its
+ * campaign as the opt-out job does. Returns whether it was cancelled.
+ */
+async function cancelOptedOut(ctx: WorkerContext, messageId: string): Promise<boolean> {
+    const cancelled = await ctx.db.query(
+        `UPDATE messages m SET status = 'cancelled', error = 'Contact opted out'
+     WHERE m.id = $1 AND m.status = 'queued'
+       AND EXISTS (SELECT 1 FROM contacts ct WHERE ct.id = m.contact_id AND ct.opted_out)
+     RETURNING m.campaign_id`,
+        [messageId]
+    );
+
+    if (cancelled.rows.length === 0) return false;
+
+    console.log(`[${messageId}] Contact opted out, message cancelled`);
+
+    if (cancelled.rows[0].campaign_id) {
         await ctx.db.query(
-            `UPDATE messages SET status = 'failed', error = $2 WHERE id = $1`,
-            [messageId, errorMessage]
+            'UPDATE campaigns SET cancelled_count = cancelled_count + 1 WHERE id = $1',
+            [cancelled.rows[0].campaign_id]
         );
+        await checkCampaignCompletion(ctx.db, cancelled.rows[0].campaign_id);
+    }
+    return true;
+}
 
+/**
+ * Give back a claim that did not lead to a send attempt. If the campaign
+ * was cancelled meanwhile, no job would pick the message up again, so it
+ * is cancelled instead.
+ */
+async function releaseClaim(ctx: WorkerContext, messageId: string): Promise<void> {
+    const released = await ctx.db.query(
+        `UPDATE messages m SET attempts = m.attempts - 1,
+        status = CASE WHEN c.status = 'cancelled' THEN 'cancelled' ELSE 'queued' END,
+        error = CASE WHEN c.status = 'cancelled' THEN 'Campaign cancelled' ELSE m.error END
+     FROM messages mm LEFT JOIN campaigns c ON c.id = mm.campaign_id
+     WHERE m.id = $1 AND mm.id = m.id AND m.status = 'sending'
+     RETURNING m.campaign_id, m.status`,
+        [messageId]
+    );
+
+    if (released.rows[0]?.status === 'cancelled') {
         await ctx.db.query(
-            `UPDATE campaigns SET failed_count = failed_count + 1 WHERE id = (
-        SELECT campaign_id FROM messages WHERE id = $1
-      )`,
-            [messageId]
+            'UPDATE campaigns SET cancelled_count = cancelled_count + 1 WHERE id = $1',
+            [released.rows[0].campaign_id]
+        );
+        await checkCampaignCompletion(ctx.db, released.rows[0].campaign_id);
+    }
+}
+
+/**
+ * Record a failed attempt of a claimed message: queue it again with
+ * exponential backoff while it has attempts left, otherwise mark it failed
+ * and count it on the campaign, once
+ */
+async function failAttempt(
+    ctx: WorkerContext,
+    data: MessageJob,
+    error: string,
+    screenshotPath: string | null
+): Promise<void> {
+    const message = await ctx.db.query(
+        `SELECT m.attempts, m.max_attempts, c.status as campaign_status
+     FROM messages m
+     LEFT JOIN campaigns c ON c.id = m.campaign_id
+     WHERE m.id = $1 AND m.status = 'sending'`,
+        [data.messageId]
+    );
+
+    if (message.rows.length === 0) return;
+
+    const { attempts, max_attempts, campaign_status } = message.rows[0];
+
+    // A cancelled campaign's messages are not retried
+    if (attempts < max_attempts && campaign_status !== 'cancelled') {
+        const retryDelay = Math.pow(2, attempts) * 60; // Exponential backoff in seconds
+
+        await ctx.db.query(
+            `UPDATE messages SET status = 'queued', next_retry_at = NOW() + INTERVAL '${retryDelay} seconds', error = $2, error_screenshot_path = $3
+       WHERE id = $1 AND status = 'sending'`,
+            [data.messageId, error, screenshotPath]
         );
 
-        throw err; // Let pg-boss handle retry
+        // The message only goes out again if a job picks it up
+        await requeue(ctx, data, new Date(Date.now() + retryDelay * 1000));
+        return;
+    }
+
+    const failed = await ctx.db.query(
+        `UPDATE messages SET status = 'failed', error = $2, error_screenshot_path = $3
+     WHERE id = $1 AND status = 'sending'
+     RETURNING campaign_id`,
+        [data.messageId, error, screenshotPath]
+    );
+
+    if (failed.rows.length > 0 && failed.rows[0].campaign_id) {
+        await ctx.db.query(
+            'UPDATE campaigns SET failed_count = failed_count + 1 WHERE id = $1',
+            [failed.rows[0].campaign_id]
+        );
+        await checkCampaignCompletion(ctx.db, failed.rows[0].campaign_id);
+    }
+}
+
+/**
+ * Put the job back on the queue, leaving the message queued
+ */
+async function requeue(ctx: WorkerContext, data: MessageJob, startAfter: Date): Promise<void> {
+    await ctx.boss.send('send-message', data, {
+        startAfter,
+        retryLimit: 3,
+        retryDelay: 60,
+        retryBackoff: true
+    });
+}
+
+/**
+ * Reason to skip a campaign message whose contact is at the frequency cap
+ * Only messages sent in the period (or being sent right now) count; queued
+ * ones may still be skipped themselves.
+ */
+async function frequencyCapReached(
+    ctx: WorkerContext,
+    messageId: string,
+    contactId: string,
+    caps: FrequencyCapSettings
+): Promise<string | null> {
+    const result = await ctx.db.query(
+        `SELECT COUNT(*) FILTER (WHERE status = 'sending' OR sent_at >= NOW() - INTERVAL '1 day')::int as day,
+            COUNT(*)::int as week
+     FROM messages
+     WHERE contact_id = $2 AND id <> $1 AND campaign_id IS NOT NULL
+       AND (status = 'sending' OR (status IN ('sent', 'delivered', 'read') AND sent_at >= NOW() - INTERVAL '7 days'))`,
+        [messageId, contactId]
+    );
+
+    return frequencyCapReason(caps, result.rows[0]);
+}
+
+/**
+ * Record a queued campaign message as skipped and count it on the campaign
+ */
+async function skipMessage(ctx: WorkerContext, messageId: string, reason: string): Promise<void> {
+    const skipped = await ctx.db.query(
+        `UPDATE messages SET status = 'skipped', error = $2
+     WHERE id = $1 AND status = 'queued'
+     RETURNING campaign_id`,
+        [messageId, reason]
+    );
+
+    if (skipped.rows.length === 0) return;
+
+    await ctx.db.query(
+        'UPDATE campaigns SET skipped_count = skipped_count + 1 WHERE id = $1',
+        [skipped.rows[0].campaign_id]
+    );
+
+    await checkCampaignCompletion(ctx.db, skipped.rows[0].campaign_id);
+}
+
+/**
+ * Token buckets a send draws from: the session's minute/hour/day caps,
+ * shared by every campaign on the phone, plus the campaign's own per-minute cap
+ */
+function sendLimits(
+    target: SendTarget,
+    defaults: WorkerContext['config']['rateLimits']
+): RateLimit[] {
+    const session = `session:${target.session_id}`;
+
+    const limits: RateLimit[] = [
+        { key: `${session}:minute`, capacity: target.max_per_minute ?? defaults.perMinute, periodMs: MINUTE_MS },
+        { key: `${session}:hour`, capacity: target.max_per_hour ?? defaults.perHour, periodMs: HOUR_MS },
+        { key: `${session}:day`, capacity: target.max_per_day ?? defaults.perDay, periodMs: DAY_MS },
+    ];
+
+    if (target.campaign_id && target.campaign_max_per_minute) {
+        limits.push({
+            key: `campaign:${target.campaign_id}:minute`,
+            capacity: target.campaign_max_per_minute,
+            periodMs: MINUTE_MS,
+        });
     }
+
+    return limits;
 }
 
 /**
@@ -153,8 +474,8 @@ export async function handleSendMessage(
  */
 async function sendTextMessage(
     data: SendTextJob,
-    client: GoogleMessagesClient
-): Promise<{ success: boolean; error?: string; screenshotPath?: string }> {
+    client: MessagingDriver
+): Promise<SendResult> {
     return client.sendText(data.phoneE164, data.bodyText);
 }
 
@@ -163,9 +484,9 @@ async function sendTextMessage(
  */
 async function sendImageMessage(
     data: SendImageJob,
-    client: GoogleMessagesClient,
+    client: MessagingDriver,
     ctx: WorkerContext
-): Promise<{ success: boolean; error?: string; screenshotPath?: string; fallbackUsed?: boolean }> {
+): Promise<SendResult> {
 
     // Download image to temp file
     const tempPath = await downloadToTemp(data.mediaUrl, data.messageId);
@@ -180,7 +501,8 @@ async function sendImageMessage(
         // Try to send image
         const result = await client.sendImage(data.phoneE164, tempPath, data.bodyText || undefined);
 
-        if (!result.success) {
+        // A pending image may still arrive, so only fall back on a definite failure
+        if (result.outcome === 'failed') {
             // Image failed, try fallback text
             console.log(`[${data.messageId}] Image send failed, using fallback: ${result.error}`);
             const fallbackResult = await client.sendText(data.phoneE164, data.fallbackText);
@@ -243,29 +565,3 @@ async function downloadToTemp(url: string, jobId: string): Promise<string | null
         }
     });
 }
-
-/**
- * Check if a campaign is complete and update status
- */
-async function checkCampaignCompletion(ctx: WorkerContext, messageId: string): Promise<void> {
-    const result = await ctx.db.query(`
-    SELECT c.id, c.total_recipients, c.sent_count, c.failed_count
-    FROM campaigns c
-    JOIN messages m ON m.campaign_id = c.id
-    WHERE m.id = $1 AND c.status = 'running'
-  `, [messageId]);
-
-    if (result.rows.length === 0) return;
-
-    const campaign = result.rows[0];
-    const completed = campaign.sent_count + campaign.failed_count;
-
-    if (completed >= campaign.total_recipients) {
-        await ctx.db.query(
-            `UPDATE campaigns SET status = 'completed', completed_at = NOW() WHERE id = $1`,
-            [campaign.id]
-        );
-
-        console.log(`Campaign ${campaign.id} completed: ${campaign.sent_count} sent, ${campaign.failed_count} failed`);
-    }
-}
@@ -1,19 +1,25 @@
 import type pg from 'pg';
-import { GoogleMessagesClient } from '../drivers/google-messages.js';
+import { createDriver, type MessagingDriver, type DriverName, type FakeDriverOptions, type SelectorRegistry } from '../drivers/index.js';
 import { updateSessionStatus } from '../index.js';
 
 interface WorkerContext {
     db: pg.Pool;
-    sessions: Map<string, GoogleMessagesClient>;
+    sessions: Map<string, MessagingDriver>;
+    selectorRegistry: SelectorRegistry;
     config: {
         sessionsPath: string;
         apiBaseUrl: string;
         internalApiKey: string;
+        googleMessagesUrl?: string;
+        googleMessagesLocale?: string;
+        messagingDriver: DriverName;
+        fakeDriver: FakeDriverOptions;
     };
 }
 
 interface SessionConnectJob {
     tenantId: string;
+    sessionId: string;
 }
 
 /**
@@ -24,15 +30,15 @@ export async function handleSessionConnect(
     data: SessionConnectJob,
     ctx: WorkerContext
 ): Promise<void> {
-    const { tenantId } = data;
+    const { tenantId, sessionId } = data;
 
     try {
         // Check if session already exists
-        let client = ctx.sessions.get(tenantId);
+        let client = ctx.sessions.get(sessionId);
 
         if (!client) {
-            client = new GoogleMessagesClient(tenantId, ctx.config.sessionsPath);
-            ctx.sessions.set(tenantId, client);
+            client = await createDriver(tenantId, sessionId, ctx);
+            ctx.sessions.set(sessionId, client);
         }
 
         // Launch browser if not already running
@@ -40,16 +46,16 @@ export async function handleSessionConnect(
 
         // Detect current state
         const state = await client.detectState();
-        console.log(`[${tenantId}] Session state: ${state}`);
+        console.log(`[${sessionId}] Session state: ${state}`);
 
         if (state === 'connected') {
             // Already connected!
-            await updateSessionStatus(tenantId, 'connected');
+            await updateSessionStatus(tenantId, sessionId, 'connected');
 
             // Update last seen
             await ctx.db.query(
-                'UPDATE sessions SET last_seen_at = NOW() WHERE tenant_id = $1',
-                [tenantId]
+                'UPDATE sessions SET last_seen_at = NOW() WHERE id = $1',
+                [sessionId]
             );
 
             return;
@@ -60,12 +66,12 @@ export async function handleSessionConnect(
             const qrCode = await client.captureQRCode();
 
             if (qrCode) {
-                await updateSessionStatus(tenantId, 'needs-qr', { qrCode });
+                await updateSessionStatus(tenantId, sessionId, 'needs-qr', { qrCode });
 
                 // Start polling for login
-                pollForLogin(tenantId, client, ctx);
+                pollForLogin(tenantId, sessionId, client, ctx);
             } else {
-                await updateSessionStatus(tenantId, 'error', {
+                await updateSessionStatus(tenantId, sessionId, 'error', {
                     errorMessage: 'Failed to capture QR code'
                 });
             }
@@ -74,22 +80,22 @@ export async function handleSessionConnect(
         }
 
         // Error state
-        await updateSessionStatus(tenantId, 'error', {
+        await updateSessionStatus(tenantId, sessionId, 'error', {
             errorMessage: 'Unknown browser state'
         });
 
     } catch (err) {
-        console.error(`[${tenantId}] Session connect error:`, err);
+        console.error(`[${sessionId}] Session connect error:`, err);
 
-        await updateSessionStatus(tenantId, 'error', {
+        await updateSessionStatus(tenantId, sessionId, 'error', {
             errorMessage: err instanceof Error ? err.message : 'Unknown error'
         });
 
         // Clean up on error
-        const client = ctx.sessions.get(tenantId);
+        const client = ctx.sessions.get(sessionId);
         if (client) {
             await client.close();
-            ctx.sessions.delete(tenantId);
+            ctx.sessions.delete(sessionId);
         }
     }
 }
@@ -99,7 +105,8 @@ export async function handleSessionConnect(
  */
 async function pollForLogin(
     tenantId: string,
-    client: GoogleMessagesClient,
+    sessionId: string,
+    client: MessagingDriver,
     ctx: WorkerContext
 ): Promise<void> {
     const maxWaitMs = 120000; // 2 minutes
@@ -109,8 +116,8 @@ async function pollForLogin(
     const poll = async () => {
         // Check if we've exceeded timeout
         if (Date.now() - startTime > maxWaitMs) {
-            console.log(`[${tenantId}] QR scan timeout`);
-            await updateSessionStatus(tenantId, 'needs-qr', {
+            console.log(`[${sessionId}] QR scan timeout`);
+            await updateSessionStatus(tenantId, sessionId, 'needs-qr', {
                 errorMessage: 'QR scan timeout - please try again'
             });
             return;
@@ -120,12 +127,12 @@ async function pollForLogin(
             const state = await client.detectState();
 
             if (state === 'connected') {
-                console.log(`[${tenantId}] Login successful!`);
-                await updateSessionStatus(tenantId, 'connected', { qrCode: null });
+                console.log(`[${sessionId}] Login successful!`);
+                await updateSessionStatus(tenantId, sessionId, 'connected', { qrCode: null });
 
                 await ctx.db.query(
-                    'UPDATE sessions SET last_seen_at = NOW() WHERE tenant_id = $1',
-                    [tenantId]
+                    'UPDATE sessions SET last_seen_at = NOW() WHERE id = $1',
+                    [sessionId]
                 );
 
                 return;
@@ -135,7 +142,7 @@ async function pollForLogin(
                 // Still waiting, refresh QR code
                 const qrCode = await client.captureQRCode();
                 if (qrCode) {
-                    await updateSessionStatus(tenantId, 'needs-qr', { qrCode });
+                    await updateSessionStatus(tenantId, sessionId, 'needs-qr', { qrCode });
                 }
 
                 // Continue polling
@@ -144,12 +151,12 @@ async function pollForLogin(
             }
 
             // Error state
-            await updateSessionStatus(tenantId, 'error', {
+            await updateSessionStatus(tenantId, sessionId, 'error', {
                 errorMessage: 'Session entered error state'
             });
 
         } catch (err) {
-            console.error(`[${tenantId}] Poll error:`, err);
+            console.error(`[${sessionId}] Poll error:`, err);
             // Continue polling despite errors
             setTimeout(poll, pollIntervalMs);
         }
@@ -166,21 +173,21 @@ export async function handleSessionDisconnect(
     data: SessionConnectJob,
     ctx: WorkerContext
 ): Promise<void> {
-    const { tenantId } = data;
+    const { tenantId, sessionId } = data;
 
     try {
-        const client = ctx.sessions.get(tenantId);
+        const client = ctx.sessions.get(sessionId);
 
         if (client) {
             await client.close();
-            ctx.sessions.delete(tenantId);
+            ctx.sessions.delete(sessionId);
         }
 
-        await updateSessionStatus(tenantId, 'disconnected');
+        await updateSessionStatus(tenantId, sessionId, 'disconnected');
 
-        console.log(`[${tenantId}] Session disconnected`);
+        console.log(`[${sessionId}] Session disconnected`);
 
     } catch (err) {
-        console.error(`[${tenantId}] Disconnect error:`, err);
+        console.error(`[${sessionId}] Disconnect error:`, err);
     }
 }
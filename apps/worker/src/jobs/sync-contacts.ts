@@ -1,18 +1,25 @@
 import type pg from 'pg';
-import { GoogleMessagesClient } from '../drivers/google-messages.js';
+import { normalizePhone, resolvePhoneSettings } from '@sms/shared';
+import { createDriver, withSessionLock, type MessagingDriver, type DriverName, type FakeDriverOptions, type SelectorRegistry } from '../drivers/index.js';
 
 interface WorkerContext {
     db: pg.Pool;
-    sessions: Map<string, GoogleMessagesClient>;
+    sessions: Map<string, MessagingDriver>;
+    selectorRegistry: SelectorRegistry;
     config: {
         sessionsPath: string;
         apiBaseUrl: string;
         internalApiKey: string;
+        googleMessagesUrl?: string;
+        googleMessagesLocale?: string;
+        messagingDriver: DriverName;
+        fakeDriver: FakeDriverOptions;
     };
 }
 
 interface SyncContactsJob {
     tenantId: string;
+    sessionId: string;
     maxContacts?: number;
 }
 
@@ -24,15 +31,15 @@ export async function handleSyncContacts(
     data: SyncContactsJob,
     ctx: WorkerContext
 ): Promise<{ imported: number; skipped: number }> {
-    const { tenantId, maxContacts = 500 } = data;
+    const { tenantId, sessionId, maxContacts = 500 } = data;
 
     console.log(`[${tenantId}] Starting contact sync from phone...`);
 
     // Get or create session
-    let client = ctx.sessions.get(tenantId);
+    let client = ctx.sessions.get(sessionId);
 
     if (!client) {
-        client = new GoogleMessagesClient(tenantId, ctx.config.sessionsPath);
+        client = await createDriver(tenantId, sessionId, ctx);
         await client.launch();
 
         const state = await client.detectState();
@@ -40,7 +47,7 @@ export async function handleSyncContacts(
             throw new Error('Session not connected - please scan QR code first');
         }
 
-        ctx.sessions.set(tenantId, client);
+        ctx.sessions.set(sessionId, client);
     }
 
     // Check session health
@@ -50,14 +57,26 @@ export async function handleSyncContacts(
     }
 
     // Scrape contacts
-    const scrapedContacts = await client.scrapeContacts(maxContacts);
+    const scrapedContacts = await withSessionLock(sessionId, () => client!.scrapeContacts(maxContacts));
 
     console.log(`[${tenantId}] Scraped ${scrapedContacts.length} contacts, importing...`);
 
+    const tenant = await ctx.db.query('SELECT settings FROM tenants WHERE id = $1', [tenantId]);
+    const { defaultCountry } = resolvePhoneSettings(tenant.rows[0]?.settings);
+
     let imported = 0;
     let skipped = 0;
+    let invalid = 0;
 
     for (const contact of scrapedContacts) {
+        // Phones show numbers the way they were saved, often without a country code
+        const phone = normalizePhone(contact.phone, defaultCountry);
+        if (!phone.valid) {
+            console.log(`[${tenantId}] Skipping contact ${contact.phone}: ${phone.error}`);
+            invalid++;
+            continue;
+        }
+
         try {
             // Upsert contact (update if exists, insert if not)
             const result = await ctx.db.query(
@@ -66,7 +85,7 @@ export async function handleSyncContacts(
          ON CONFLICT (tenant_id, phone_e164) 
          DO UPDATE SET name = COALESCE(NULLIF(EXCLUDED.name, ''), contacts.name)
          RETURNING id, (xmax = 0) as is_new`,
-                [tenantId, contact.phone, contact.name]
+                [tenantId, phone.phoneE164, contact.name]
             );
 
             if (result.rows[0]?.is_new) {
@@ -80,7 +99,7 @@ export async function handleSyncContacts(
         }
     }
 
-    console.log(`[${tenantId}] Contact sync complete: ${imported} imported, ${skipped} skipped/updated`);
+    console.log(`[${tenantId}] Contact sync complete: ${imported} imported, ${skipped} skipped/updated, ${invalid} invalid`);
 
     // Audit log
     await ctx.db.query(
@@ -89,7 +108,8 @@ export async function handleSyncContacts(
         [tenantId, 'sync_contacts_from_phone', 'contact', JSON.stringify({
             scraped: scrapedContacts.length,
             imported,
-            skipped
+            skipped,
+            invalid
         })]
     );
 
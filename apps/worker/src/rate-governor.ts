@@ -0,0 +1,100 @@
+import type pg from 'pg';
+
+export interface RateLimit {
+    // Bucket key, e.g. 'session:<id>:minute'
+    key: string;
+    capacity: number;
+    periodMs: number;
+}
+
+export type RateDecision =
+    | { granted: true }
+    | { granted: false; retryAfterMs: number; key: string };
+
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+export const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Take one token from every bucket, or none at all.
+ * Buckets refill continuously at capacity per period and start full. State
+ * lives in rate_buckets and rows are locked for the check, so concurrent
+ * workers and restarts share the same budget.
+ * When any bucket is empty nothing is taken and the wait until the slowest
+ * bucket has a token again is returned.
+ */
+export async function acquireTokens(db: pg.Pool, limits: RateLimit[]): Promise<RateDecision> {
+    if (limits.length === 0) return { granted: true };
+
+    const keys = limits.map(limit => limit.key);
+    const client = await db.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        // Missing buckets start full
+        await client.query(
+            `INSERT INTO rate_buckets (key, tokens)
+       SELECT * FROM unnest($1::text[], $2::float8[])
+       ON CONFLICT (key) DO NOTHING`,
+            [keys, limits.map(limit => limit.capacity)]
+        );
+
+        const result = await client.query(
+            `SELECT key, tokens, EXTRACT(EPOCH FROM (NOW() - updated_at)) * 1000 as elapsed_ms
+       FROM rate_buckets WHERE key = ANY($1)
+       ORDER BY key
+       FOR UPDATE`,
+            [keys]
+        );
+        const rows = new Map(result.rows.map(row => [row.key as string, row]));
+
+        const levels = limits.map(limit => {
+            const row = rows.get(limit.key)!;
+            const rate = limit.capacity / limit.periodMs;
+            const elapsed = Math.max(0, Number(row.elapsed_ms));
+            // A lowered capacity also caps tokens saved under the old one
+            const tokens = Math.min(limit.capacity, Number(row.tokens) + elapsed * rate);
+            return { limit, rate, tokens };
+        });
+
+        const empty = levels
+            .filter(level => level.tokens < 1)
+            .map(level => ({ key: level.limit.key, waitMs: Math.ceil((1 - level.tokens) / level.rate) }))
+            .sort((a, b) => b.waitMs - a.waitMs);
+
+        const granted = empty.length === 0;
+
+        await client.query(
+            `UPDATE rate_buckets b SET tokens = v.tokens, updated_at = NOW()
+       FROM unnest($1::text[], $2::float8[]) as v(key, tokens)
+       WHERE b.key = v.key`,
+            [keys, levels.map(level => granted ? level.tokens - 1 : level.tokens)]
+        );
+
+        await client.query('COMMIT');
+
+        return granted
+            ? { granted: true }
+            : { granted: false, retryAfterMs: empty[0].waitMs, key: empty[0].key };
+
+    } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Delete buckets idle long enough to have refilled completely
+ * A missing bucket is full, so this loses no state.
+ */
+export async function pruneIdleBuckets(db: pg.Pool): Promise<number> {
+    const result = await db.query(
+        `DELETE FROM rate_buckets WHERE updated_at < NOW() - make_interval(secs => $1)`,
+        [DAY_MS / 1000]
+    );
+
+    return result.rowCount ?? 0;
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { chromium } from 'playwright';
+import { GoogleMessagesClient } from '../src/drivers/google-messages.js';
+import { startMockMessagesServer, type MockMessagesServer } from './mock-messages/server.js';
+
+// Runs GoogleMessagesClient end to end against the local mock, fully offline.
+// Requires a Playwright Chromium build (`npx playwright install chromium`).
+const hasChromium = fs.existsSync(chromium.executablePath());
+
+// 1x1 PNG used as the attachment
+const PNG_BYTES = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+    'base64'
+);
+
+describe.skipIf(!hasChromium)('GoogleMessagesClient against mock Messages for web', () => {
+    let mock: MockMessagesServer;
+    let client: GoogleMessagesClient;
+    let tmpDir: string;
+
+    beforeAll(async () => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gm-e2e-'));
+
+        mock = await startMockMessagesServer({
+            contacts: [
+                { name: 'Maria Santos', phone: '+5511988887777' },
+                { name: 'João Silva', phone: '+5511977776666' },
+            ],
+            failNumbers: ['+5511900000000'],
+            deliveredNumbers: ['+5511922222222'],
+            readNumbers: ['+5511944444444'],
+            stuckNumbers: ['+5511933333333'],
+            noRcsNumbers: ['+5511911111111'],
+        });
+
+        client = new GoogleMessagesClient('e2e-tenant', tmpDir, { baseUrl: mock.url, verifyTimeoutMs: 5000 });
+        await client.launch();
+    }, 60000);
+
+    afterAll(async () => {
+        await client?.close();
+        await mock?.close();
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('reports needs-qr and captures the QR code before pairing', async () => {
+        expect(await client.detectState()).toBe('needs-qr');
+        expect(await client.checkHealth()).toBe(false);
+
+        const qr = await client.captureQRCode();
+        expect(qr).toMatch(/^data:image\/png;base64,/);
+    }, 30000);
+
+    it('detects the connected state once the phone pairs', async () => {
+        mock.state.paired = true;
+
+        // The auth page polls the mock every second before redirecting
+        await new Promise(resolve => setTimeout(resolve, 1500));
+
+        expect(await client.detectState()).toBe('connected');
+        expect(await client.checkHealth()).toBe(true);
+    }, 30000);
+
+    it('sends a text message through the composer', async () => {
+        const result = await client.sendText('+5511988887777', 'Olá Maria!');
+
+        expect(result.success).toBe(true);
+        expect(result.outcome).toBe('sent');
+        expect(mock.state.sent).toContainEqual(
+            expect.objectContaining({ to: '+5511988887777', text: 'Olá Maria!', attachment: null, status: 'sent' })
+        );
+    }, 60000);
+
+    it('reports failure when the bubble shows an error marker', async () => {
+        const result = await client.sendText('+5511900000000', 'Should fail');
+
+        expect(result.success).toBe(false);
+        expect(result.outcome).toBe('failed');
+    }, 60000);
+
+    it('follows the bubble until it is delivered', async () => {
+        const result = await client.sendText('+5511922222222', 'Chegou?');
+
+        expect(result.success).toBe(true);
+        expect(['sent', 'delivered']).toContain(result.outcome);
+    }, 60000);
+
+    it('reports pending when the bubble never leaves sending', async () => {
+        const result = await client.sendText('+5511933333333', 'Travada');
+
+        expect(result.success).toBe(false);
+        expect(result.outcome).toBe('pending');
+    }, 60000);
+
+    it('ignores earlier bubbles with the same text in the thread', async () => {
+        // The thread already shows a sent "Olá Maria!" from the first test
+        mock.state.failNumbers.push('+5511988887777');
+
+        const result = await client.sendText('+5511988887777', 'Olá Maria!');
+
+        mock.state.failNumbers.pop();
+        expect(result.outcome).toBe('failed');
+    }, 60000);
+
+    it('reads receipts of earlier messages when revisiting a conversation', async () => {
+        await client.sendText('+5511944444444', 'Primeira');
+        await client.sendText('+5511944444444', 'Segunda');
+
+        const statuses = await client.readOutgoingStatuses('+5511944444444');
+
+        expect(statuses.map(s => s.status)).toEqual(['read', 'read']);
+        expect(statuses[0].text).toContain('Primeira');
+        expect(statuses[1].text).toContain('Segunda');
+        expect(statuses[0].timestamp).toBeInstanceOf(Date);
+    }, 60000);
+
+    it('lists conversations and reads replies from a thread', async () => {
+        mock.state.conversations.push({ id: '5511955555555', phone: '+5511955555555', name: null });
+        mock.state.incoming.push(
+            { from: '+5511955555555', text: 'Oi, tenho interesse', receivedAt: new Date(Date.now() - 60000).toISOString() },
+            { from: '+5511955555555', text: 'Qual o preço?', receivedAt: new Date().toISOString() },
+        );
+
+        const conversations = await client.listConversations();
+        expect(conversations).toContainEqual(
+            expect.objectContaining({ id: '5511955555555', snippet: 'Qual o preço?', unread: true })
+        );
+
+        const thread = await client.readConversation('5511955555555');
+        expect(thread.phoneE164).toBe('+5511955555555');
+        expect(thread.incoming.map(m => m.text)).toEqual(['Oi, tenho interesse', 'Qual o preço?']);
+        expect(thread.incoming[1].timestamp).toBeInstanceOf(Date);
+    }, 60000);
+
+    it('sends an image with a caption', async () => {
+        const imagePath = path.join(tmpDir, 'promo.png');
+        fs.writeFileSync(imagePath, PNG_BYTES);
+
+        const result = await client.sendImage('+5511977776666', imagePath, 'Confira!');
+
+        expect(result.success).toBe(true);
+        expect(result.outcome).toBe('sent');
+        expect(mock.state.sent).toContainEqual(
+            expect.objectContaining({ to: '+5511977776666', text: 'Confira!', attachment: 'promo.png' })
+        );
+    }, 60000);
+
+    it('fails image sends when the recipient has no attach menu (no RCS)', async () => {
+        const imagePath = path.join(tmpDir, 'promo.png');
+
+        const result = await client.sendImage('+5511911111111', imagePath);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/attach/i);
+    }, 60000);
+
+    it('scrapes contacts from the new conversation screen', async () => {
+        const contacts = await client.scrapeContacts(10);
+
+        expect(contacts).toEqual(expect.arrayContaining([
+            { name: 'Maria Santos', phone: '+5511988887777' },
+            { name: 'João Silva', phone: '+5511977776666' },
+        ]));
+    }, 60000);
+});
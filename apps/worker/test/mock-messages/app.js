@@ -0,0 +1,315 @@
+// Mock of the Google Messages for web single-page app.
+// State (pairing, contacts, failing numbers) lives in the mock server and is
+// read from /mock/state, so tests can drive it without touching the page.
+(function () {
+    'use strict';
+
+    var app = document.getElementById('app');
+    var state = null;
+
+    function el(tag, attrs, children) {
+        var node = document.createElement(tag);
+        Object.keys(attrs || {}).forEach(function (key) {
+            if (key === 'text') {
+                node.textContent = attrs[key];
+            } else if (key.indexOf('on') === 0) {
+                node.addEventListener(key.slice(2), attrs[key]);
+            } else {
+                node.setAttribute(key, attrs[key]);
+            }
+        });
+        (children || []).forEach(function (child) {
+            node.appendChild(child);
+        });
+        return node;
+    }
+
+    function loadState() {
+        return fetch('/mock/state').then(function (res) { return res.json(); }).then(function (data) {
+            state = data;
+            return data;
+        });
+    }
+
+    function navigate(path) {
+        history.pushState({}, '', path);
+        render();
+    }
+
+    function digits(phone) {
+        return String(phone).replace(/\D/g, '');
+    }
+
+    // ============================================
+    // AUTHENTICATION (QR pairing)
+    // ============================================
+
+    function renderAuthentication() {
+        var canvas = el('canvas', { width: '200', height: '200' });
+        var ctx = canvas.getContext('2d');
+
+        // Draw a deterministic checker pattern so screenshots are non-empty
+        for (var y = 0; y < 20; y++) {
+            for (var x = 0; x < 20; x++) {
+                ctx.fillStyle = (x * 7 + y * 13) % 3 === 0 ? '#000' : '#fff';
+                ctx.fillRect(x * 10, y * 10, 10, 10);
+            }
+        }
+
+        app.appendChild(el('h1', { text: 'Use Messages for web' }));
+        app.appendChild(el('mw-qr-code', {}, [canvas]));
+
+        // Wait for the "phone" (the test) to pair; poll slowly so networkidle still settles
+        var timer = setInterval(function () {
+            loadState().then(function (data) {
+                if (data.paired) {
+                    clearInterval(timer);
+                    location.replace('/web/conversations');
+                }
+            });
+        }, 1000);
+    }
+
+    // ============================================
+    // CONVERSATION LIST
+    // ============================================
+
+    function threadMessages(phone) {
+        var outgoing = (state.sent || []).filter(function (message) {
+            return message.to === phone;
+        }).map(function (message) {
+            return { outgoing: true, text: message.text, at: message.sentAt, status: message.status };
+        });
+
+        var incoming = (state.incoming || []).filter(function (message) {
+            return message.from === phone;
+        }).map(function (message) {
+            return { outgoing: false, text: message.text, at: message.receivedAt };
+        });
+
+        return outgoing.concat(incoming).sort(function (a, b) {
+            return Date.parse(a.at) - Date.parse(b.at);
+        });
+    }
+
+    function renderConversations() {
+        var items = state.conversations.map(function (conv) {
+            var messages = threadMessages(conv.phone);
+            var last = messages[messages.length - 1];
+
+            return el('mws-conversation-list-item', {
+                'data-e2e-conversation-id': conv.id,
+                'data-e2e-is-unread': last && !last.outgoing ? 'true' : 'false',
+                onclick: function () { navigate('/web/conversations/' + conv.id); },
+            }, [
+                el('a', { href: '/web/conversations/' + conv.id, 'data-e2e-conversation-name': '', text: conv.name || conv.phone }),
+                el('span', { 'data-e2e-conversation-snippet': '', text: last ? last.text : '' }),
+            ]);
+        });
+
+        app.appendChild(el('a', { href: '/web/conversations/new', 'data-e2e-start-chat-button': '', text: 'Start chat' }));
+        app.appendChild(el('mws-conversations-list', { role: 'list' }, items));
+    }
+
+    // ============================================
+    // NEW CONVERSATION (recipient picker)
+    // ============================================
+
+    function renderNewConversation() {
+        var input = el('input', {
+            type: 'text',
+            placeholder: 'Type a name, phone number, or email',
+            'aria-label': 'Type a name, phone number, or email',
+        });
+
+        input.addEventListener('keydown', function (event) {
+            if (event.key !== 'Enter') return;
+
+            var phone = input.value.trim();
+            if (!/^\+?\d{7,15}$/.test(phone)) return;
+
+            navigate('/web/conversations/' + digits(phone));
+        });
+
+        var rows = state.contacts.map(function (contact) {
+            return el('mws-contact-row', {
+                'data-e2e-contact-row': '',
+                role: 'option',
+                onclick: function () { navigate('/web/conversations/' + digits(contact.phone)); },
+            }, [
+                el('div', { text: contact.name }),
+                // Real rows render name and number on separate lines
+                document.createTextNode('\n'),
+                el('div', { text: contact.phone }),
+            ]);
+        });
+
+        app.appendChild(el('label', { text: 'To' }, [input]));
+        app.appendChild(el('div', { role: 'listbox', class: 'contact-list' }, rows));
+        input.focus();
+    }
+
+    // ============================================
+    // THREAD + COMPOSER
+    // ============================================
+
+    function renderThread(conversationId) {
+        var phone = '+' + conversationId;
+        var thread = el('div', { class: 'thread', role: 'log' });
+        var attachedFile = null;
+
+        var composer = el('div', {
+            contenteditable: 'true',
+            'aria-label': 'Type a message',
+            'data-e2e-message-input-box': '',
+        });
+
+        var fileInput = el('input', { type: 'file', accept: 'image/*', hidden: '' });
+        var preview = el('div', { class: 'attachment-preview' });
+
+        fileInput.addEventListener('change', function () {
+            attachedFile = fileInput.files && fileInput.files[0];
+            preview.innerHTML = '';
+            if (attachedFile) {
+                preview.appendChild(el('img', {
+                    'data-e2e-attached-image': '',
+                    src: URL.createObjectURL(attachedFile),
+                    alt: attachedFile.name,
+                }));
+            }
+        });
+
+        var STATUS_LABELS = { sending: 'Sending…', sent: 'Sent', delivered: 'Delivered', read: 'Read', failed: 'Not sent' };
+
+        function setStatus(node, status) {
+            node.setAttribute('data-e2e-message-status', status);
+            node.className = status === 'failed' ? 'message-status-error' : 'message-status-' + status;
+            node.textContent = STATUS_LABELS[status];
+        }
+
+        function appendBubble(text, sentAt, imageSrc, imageName) {
+            var status = el('span');
+            setStatus(status, 'sending');
+
+            var bubble = el('mws-message-wrapper', { 'data-e2e-outgoing': '' }, [
+                el('div', { class: 'text-msg', text: text }),
+                el('mws-relative-timestamp', { datetime: sentAt, text: 'Now' }),
+                status,
+            ]);
+
+            if (imageSrc) {
+                bubble.insertBefore(el('img', { src: imageSrc, alt: imageName }), bubble.firstChild);
+            }
+
+            thread.appendChild(bubble);
+            return status;
+        }
+
+        function appendIncoming(text, receivedAt) {
+            thread.appendChild(el('mws-message-wrapper', { 'data-e2e-incoming': '' }, [
+                el('div', { class: 'text-msg', text: text }),
+                el('mws-relative-timestamp', { datetime: receivedAt, text: 'Now' }),
+            ]));
+        }
+
+        // Earlier messages with this number, outgoing ones already settled
+        threadMessages(phone).forEach(function (message) {
+            if (message.outgoing) {
+                setStatus(appendBubble(message.text, message.at, null, null), message.status);
+            } else {
+                appendIncoming(message.text, message.at);
+            }
+        });
+
+        function send() {
+            var text = composer.textContent.trim();
+            if (!text && !attachedFile) return;
+
+            var sentAt = new Date().toISOString();
+            var status = appendBubble(
+                text,
+                sentAt,
+                attachedFile ? preview.querySelector('img').src : null,
+                attachedFile ? attachedFile.name : null
+            );
+
+            var payload = { to: phone, text: text, attachment: attachedFile ? attachedFile.name : null, sentAt: sentAt };
+            composer.textContent = '';
+            attachedFile = null;
+            preview.innerHTML = '';
+
+            fetch('/mock/sent', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            }).then(function (res) { return res.json(); }).then(function (result) {
+                if (result.status === 'sending') return;
+
+                // Receipts arrive one step at a time, like the real UI
+                var steps = result.status === 'failed' ? ['failed'] : ['sent', 'delivered', 'read'];
+                steps.slice(0, steps.indexOf(result.status) + 1).forEach(function (step, i) {
+                    setTimeout(function () {
+                        setStatus(status, step);
+                    }, state.statusDelayMs * (i + 1));
+                });
+            });
+        }
+
+        composer.addEventListener('keydown', function (event) {
+            if (event.key === 'Enter' && !event.shiftKey) {
+                event.preventDefault();
+                send();
+            }
+        });
+
+        var controls = [];
+
+        // Recipients without RCS get no attach menu, like the real UI over plain SMS
+        if (state.noRcsNumbers.indexOf(phone) === -1) {
+            var menu = el('div', { role: 'menu', hidden: '' }, [
+                el('button', { type: 'button', role: 'menuitem', text: 'Gallery' }),
+            ]);
+            controls.push(el('button', {
+                type: 'button',
+                'aria-label': 'Attach',
+                'data-e2e-attach-menu-button': '',
+                text: '+',
+                onclick: function () { menu.hidden = !menu.hidden; },
+            }));
+            controls.push(menu);
+        }
+
+        controls.push(fileInput, preview, composer, el('button', {
+            type: 'button',
+            'aria-label': 'Send message',
+            'data-e2e-send-text-button': '',
+            text: 'Send',
+            onclick: send,
+        }));
+
+        app.appendChild(el('h2', { 'data-e2e-conversation-recipient': '', text: phone }));
+        app.appendChild(thread);
+        app.appendChild(el('div', { class: 'composer' }, controls));
+    }
+
+    // ============================================
+    // ROUTER
+    // ============================================
+
+    function render() {
+        app.innerHTML = '';
+        var path = location.pathname.replace(/\/$/, '');
+
+        if (path === '/web/authentication') return renderAuthentication();
+        if (path === '/web/conversations') return renderConversations();
+        if (path === '/web/conversations/new') return renderNewConversation();
+
+        var match = path.match(/^\/web\/conversations\/(\d+)$/);
+        if (match) return renderThread(match[1]);
+
+        app.appendChild(el('p', { text: 'Not found' }));
+    }
+
+    window.addEventListener('popstate', render);
+    loadState().then(render);
+})();
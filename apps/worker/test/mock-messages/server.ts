@@ -0,0 +1,158 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { AddressInfo } from 'net';
+
+const STATIC_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+const STATIC_FILES: Record<string, { file: string; type: string }> = {
+    '/mock/app.js': { file: 'app.js', type: 'application/javascript' },
+    '/mock/styles.css': { file: 'styles.css', type: 'text/css' },
+};
+
+export interface MockSentMessage {
+    to: string;
+    text: string;
+    attachment: string | null;
+    // Final status the bubble settles on
+    status: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+    sentAt: string;
+}
+
+export interface MockIncomingMessage {
+    from: string;
+    text: string;
+    receivedAt: string;
+}
+
+export interface MockConversation {
+    id: string;
+    phone: string;
+    name: string | null;
+}
+
+export interface MockMessagesState {
+    paired: boolean;
+    contacts: { name: string; phone: string }[];
+    conversations: MockConversation[];
+    // Replies from recipients, shown in their threads and in the conversation list
+    incoming: MockIncomingMessage[];
+    // Sends to these numbers end with an error marker
+    failNumbers: string[];
+    // Sends to these numbers go on from "sent" to "delivered"
+    deliveredNumbers: string[];
+    // Sends to these numbers go on to "read"
+    readNumbers: string[];
+    // Sends to these numbers never leave "sending"
+    stuckNumbers: string[];
+    // These numbers have no RCS, so the attach button is not rendered
+    noRcsNumbers: string[];
+    // Delay before a bubble flips from "sending" to its final status
+    statusDelayMs: number;
+    sent: MockSentMessage[];
+}
+
+export interface MockMessagesServer {
+    url: string;
+    state: MockMessagesState;
+    close(): Promise<void>;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: http.ServerResponse, data: unknown): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+}
+
+/**
+ * Start the offline Messages for web mock on a random local port
+ */
+export async function startMockMessagesServer(
+    initial: Partial<Omit<MockMessagesState, 'sent'>> = {}
+): Promise<MockMessagesServer> {
+    const state: MockMessagesState = {
+        paired: false,
+        contacts: [],
+        conversations: [],
+        incoming: [],
+        failNumbers: [],
+        deliveredNumbers: [],
+        readNumbers: [],
+        stuckNumbers: [],
+        noRcsNumbers: [],
+        statusDelayMs: 300,
+        ...initial,
+        sent: [],
+    };
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+
+        try {
+            // Includes sent messages so threads render their history
+            if (url.pathname === '/mock/state') {
+                return sendJson(res, state);
+            }
+
+            if (url.pathname === '/mock/sent' && req.method === 'POST') {
+                const body = JSON.parse(await readBody(req)) as Omit<MockSentMessage, 'status'>;
+                const status = state.failNumbers.includes(body.to) ? 'failed'
+                    : state.stuckNumbers.includes(body.to) ? 'sending'
+                        : state.readNumbers.includes(body.to) ? 'read'
+                            : state.deliveredNumbers.includes(body.to) ? 'delivered'
+                                : 'sent';
+                state.sent.push({ ...body, status });
+                return sendJson(res, { status });
+            }
+
+            const asset = STATIC_FILES[url.pathname];
+            if (asset) {
+                res.writeHead(200, { 'Content-Type': asset.type });
+                return res.end(fs.readFileSync(path.join(STATIC_DIR, asset.file)));
+            }
+
+            if (url.pathname.startsWith('/web')) {
+                // Mirror the real site: unpaired sessions land on the QR page and vice versa
+                const isAuthPage = url.pathname.startsWith('/web/authentication');
+                if (!state.paired && !isAuthPage) {
+                    res.writeHead(302, { Location: '/web/authentication' });
+                    return res.end();
+                }
+                if (state.paired && isAuthPage) {
+                    res.writeHead(302, { Location: '/web/conversations' });
+                    return res.end();
+                }
+
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                return res.end(fs.readFileSync(path.join(STATIC_DIR, 'index.html')));
+            }
+
+            res.writeHead(404);
+            res.end();
+        } catch (err) {
+            res.writeHead(500);
+            res.end(err instanceof Error ? err.message : 'Mock server error');
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        state,
+        close: () => new Promise<void>((resolve, reject) => {
+            server.closeAllConnections();
+            server.close(err => (err ? reject(err) : resolve()));
+        }),
+    };
+}
@@ -0,0 +1,24 @@
+-- Versioned Google Messages selector profiles
+-- Migration: 002_selector_profiles.sql
+
+-- ============================================
+-- SELECTOR PROFILES
+-- ============================================
+-- Each save of a profile creates a new version row; exactly one row per
+-- tenant may be active. The worker reloads the active profile periodically,
+-- so swapping it does not require a restart.
+CREATE TABLE selector_profiles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    version INT NOT NULL,
+    selectors JSONB NOT NULL DEFAULT '{}',
+    notes TEXT,
+    is_active BOOLEAN DEFAULT FALSE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, name, version)
+);
+
+CREATE INDEX idx_selector_profiles_tenant ON selector_profiles(tenant_id);
+CREATE UNIQUE INDEX idx_selector_profiles_active ON selector_profiles(tenant_id) WHERE is_active;
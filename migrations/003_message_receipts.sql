@@ -0,0 +1,22 @@
+-- Delivery and read receipts
+-- Migration: 003_message_receipts.sql
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+-- 'read' joins the status lifecycle: sending -> sent -> delivered -> read
+ALTER TABLE messages DROP CONSTRAINT messages_status_check;
+ALTER TABLE messages ADD CONSTRAINT messages_status_check
+    CHECK (status IN ('queued', 'sending', 'sent', 'delivered', 'read', 'failed', 'cancelled'));
+
+ALTER TABLE messages ADD COLUMN read_at TIMESTAMPTZ;
+
+-- Recently sent messages still waiting for a receipt, scanned by the receipt poller
+CREATE INDEX idx_messages_awaiting_receipt ON messages(tenant_id, sent_at)
+    WHERE status IN ('sending', 'sent', 'delivered');
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+ALTER TABLE campaigns ADD COLUMN delivered_count INT DEFAULT 0;
+ALTER TABLE campaigns ADD COLUMN read_count INT DEFAULT 0;
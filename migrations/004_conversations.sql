@@ -0,0 +1,50 @@
+-- Inbound messages and two-way conversations
+-- Migration: 004_conversations.sql
+
+-- ============================================
+-- CONVERSATIONS
+-- ============================================
+-- One thread per tenant and phone number. Outbound messages are threaded
+-- by phone_e164, inbound ones by conversation_id.
+CREATE TABLE conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+    phone_e164 VARCHAR(20) NOT NULL,
+    -- Thread id in Messages for web, used to revisit the conversation
+    external_id VARCHAR(255),
+    -- Snippet seen in the conversation list at the last capture
+    last_snippet TEXT,
+    last_message_at TIMESTAMPTZ,
+    last_message_preview TEXT,
+    unread_count INT DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, phone_e164)
+);
+
+CREATE INDEX idx_conversations_tenant_last ON conversations(tenant_id, last_message_at DESC);
+CREATE INDEX idx_conversations_external ON conversations(tenant_id, external_id);
+
+CREATE TRIGGER update_conversations_updated_at BEFORE UPDATE ON conversations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- INBOUND MESSAGES
+-- ============================================
+CREATE TABLE inbound_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+    phone_e164 VARCHAR(20) NOT NULL,
+    body_text TEXT,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Hash of timestamp, text and position, so re-reading a thread never duplicates
+    fingerprint VARCHAR(64) NOT NULL,
+    read_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(conversation_id, fingerprint)
+);
+
+CREATE INDEX idx_inbound_messages_conversation ON inbound_messages(conversation_id, received_at);
+CREATE INDEX idx_inbound_messages_tenant ON inbound_messages(tenant_id);
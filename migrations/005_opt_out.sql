@@ -0,0 +1,15 @@
+-- Keyword opt-out
+-- Migration: 005_opt_out.sql
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- Messages dropped because the contact opted out mid-campaign
+ALTER TABLE campaigns ADD COLUMN cancelled_count INT DEFAULT 0;
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+-- Queued messages for a phone, looked up when that contact opts out
+CREATE INDEX idx_messages_queued_phone ON messages(tenant_id, phone_e164)
+    WHERE status = 'queued';
@@ -0,0 +1,41 @@
+-- Multiple phone sessions per tenant
+-- Migration: 006_multi_session.sql
+
+-- ============================================
+-- SESSIONS
+-- ============================================
+ALTER TABLE sessions DROP CONSTRAINT sessions_tenant_id_key;
+ALTER TABLE sessions ADD COLUMN name VARCHAR(100) NOT NULL DEFAULT 'Principal';
+ALTER TABLE sessions ADD CONSTRAINT sessions_tenant_id_name_key UNIQUE (tenant_id, name);
+
+-- storage_path is now the browser profile directory relative to SESSIONS_PATH.
+-- Existing sessions keep the per-tenant directory they were paired in.
+UPDATE sessions SET storage_path = tenant_id::text;
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+-- Session the message is (or was) sent from
+ALTER TABLE messages ADD COLUMN session_id UUID REFERENCES sessions(id) ON DELETE SET NULL;
+
+UPDATE messages m SET session_id = s.id
+FROM sessions s WHERE s.tenant_id = m.tenant_id;
+
+CREATE INDEX idx_messages_session ON messages(session_id, status);
+
+-- ============================================
+-- CONVERSATIONS
+-- ============================================
+-- Session the contact last wrote to; replies go out through it
+ALTER TABLE conversations ADD COLUMN session_id UUID REFERENCES sessions(id) ON DELETE SET NULL;
+
+UPDATE conversations cv SET session_id = s.id
+FROM sessions s WHERE s.tenant_id = cv.tenant_id;
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- Sessions a campaign sends from; empty means every connected session
+ALTER TABLE campaigns ADD COLUMN sender_pool UUID[] DEFAULT '{}';
+ALTER TABLE campaigns ADD COLUMN sender_strategy VARCHAR(20) DEFAULT 'round_robin'
+    CHECK (sender_strategy IN ('round_robin', 'least_loaded'));
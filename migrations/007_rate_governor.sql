@@ -0,0 +1,21 @@
+-- Per-session send-rate governor
+-- Migration: 007_rate_governor.sql
+
+-- ============================================
+-- SESSIONS
+-- ============================================
+-- Send caps shared by every campaign using the phone; NULL uses the worker default
+ALTER TABLE sessions ADD COLUMN max_per_minute INT CHECK (max_per_minute > 0);
+ALTER TABLE sessions ADD COLUMN max_per_hour INT CHECK (max_per_hour > 0);
+ALTER TABLE sessions ADD COLUMN max_per_day INT CHECK (max_per_day > 0);
+
+-- ============================================
+-- RATE BUCKETS
+-- ============================================
+-- Token bucket state, one row per limit (e.g. 'session:<id>:hour').
+-- A missing row is a full bucket, so idle rows can be pruned.
+CREATE TABLE rate_buckets (
+    key VARCHAR(120) PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
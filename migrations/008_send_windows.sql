@@ -0,0 +1,11 @@
+-- Campaign send windows
+-- Migration: 008_send_windows.sql
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- Days of the week the daily window applies to (0 = Sunday); empty = every day
+ALTER TABLE campaigns ADD COLUMN window_days SMALLINT[] DEFAULT '{}';
+
+-- When held messages resume; NULL while sending normally
+ALTER TABLE campaigns ADD COLUMN window_opens_at TIMESTAMPTZ;
@@ -0,0 +1,8 @@
+-- Scheduled campaign launcher
+-- Migration: 009_campaign_scheduler.sql
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- Why the scheduled launch failed; the campaign goes back to draft
+ALTER TABLE campaigns ADD COLUMN launch_error TEXT;
@@ -0,0 +1,8 @@
+-- Campaign cancellation
+-- Migration: 010_campaign_cancel.sql
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- Reconciliation summary written when the campaign is cancelled
+ALTER TABLE campaigns ADD COLUMN final_report JSONB;
@@ -0,0 +1,23 @@
+-- Background campaign expansion
+-- Migration: 011_campaign_expansion.sql
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- Progress of turning the audience into messages, batch by batch.
+-- expansion_cursor is the last contact id expanded, so a retry continues after it.
+ALTER TABLE campaigns ADD COLUMN expansion_status VARCHAR(20)
+    CHECK (expansion_status IN ('pending', 'expanding', 'done', 'failed'));
+ALTER TABLE campaigns ADD COLUMN expanded_count INT DEFAULT 0;
+ALTER TABLE campaigns ADD COLUMN expansion_cursor UUID;
+ALTER TABLE campaigns ADD COLUMN expansion_error TEXT;
+
+-- Campaigns started before this migration were expanded in the request
+UPDATE campaigns SET expansion_status = 'done', expanded_count = total_recipients
+WHERE started_at IS NOT NULL;
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+-- Skips contacts that already have a message when an expansion batch is retried
+CREATE INDEX idx_messages_campaign_contact ON messages(campaign_id, contact_id);
@@ -0,0 +1,45 @@
+-- Reusable message templates
+-- Migration: 012_message_templates.sql
+
+-- ============================================
+-- TEMPLATES
+-- ============================================
+-- The row holds the current version; every saved body is also kept in
+-- template_versions, so a campaign can tell which copy it was created from.
+CREATE TABLE templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    body_text TEXT NOT NULL DEFAULT '',
+    media_id UUID REFERENCES media(id) ON DELETE SET NULL,
+    tags TEXT[] DEFAULT '{}',
+    version INT NOT NULL DEFAULT 1,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, name)
+);
+
+CREATE INDEX idx_templates_tenant ON templates(tenant_id);
+CREATE INDEX idx_templates_tags ON templates USING GIN(tags);
+
+CREATE TRIGGER update_templates_updated_at BEFORE UPDATE ON templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE template_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+    version INT NOT NULL,
+    body_text TEXT NOT NULL DEFAULT '',
+    media_id UUID REFERENCES media(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(template_id, version)
+);
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- Template the campaign's text was copied from; the campaign keeps its own
+-- copy, so later edits to the template do not change it
+ALTER TABLE campaigns ADD COLUMN template_id UUID REFERENCES templates(id) ON DELETE SET NULL;
+ALTER TABLE campaigns ADD COLUMN template_version INT;
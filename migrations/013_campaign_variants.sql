@@ -0,0 +1,52 @@
+-- A/B test variants
+-- Migration: 013_campaign_variants.sql
+
+-- ============================================
+-- CAMPAIGN VARIANTS
+-- ============================================
+-- Alternative messages of one campaign. A NULL text or media falls back to
+-- the campaign's own. Weights are percentages of the audience and add up to 100.
+CREATE TABLE campaign_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+    label VARCHAR(20) NOT NULL,
+    template_text TEXT,
+    media_id UUID REFERENCES media(id) ON DELETE SET NULL,
+    weight SMALLINT NOT NULL CHECK (weight BETWEEN 1 AND 100),
+    -- Chosen by auto-promotion; the rest of the audience gets this variant
+    is_winner BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(campaign_id, label)
+);
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- With auto-promotion only ab_test_percent of the audience is split between
+-- the variants at first. ab_wait_minutes after that test group is queued, the
+-- variant with the best ab_winner_metric rate is sent to everyone else.
+ALTER TABLE campaigns ADD COLUMN ab_auto_promote BOOLEAN DEFAULT FALSE;
+ALTER TABLE campaigns ADD COLUMN ab_test_percent SMALLINT DEFAULT 20 CHECK (ab_test_percent BETWEEN 1 AND 100);
+ALTER TABLE campaigns ADD COLUMN ab_winner_metric VARCHAR(20) DEFAULT 'replied'
+    CHECK (ab_winner_metric IN ('delivered', 'read', 'replied'));
+ALTER TABLE campaigns ADD COLUMN ab_wait_minutes INT DEFAULT 60;
+ALTER TABLE campaigns ADD COLUMN ab_decide_at TIMESTAMPTZ;
+ALTER TABLE campaigns ADD COLUMN ab_promoted_at TIMESTAMPTZ;
+
+-- The expansion stops after the test group until a winner is promoted
+ALTER TABLE campaigns DROP CONSTRAINT campaigns_expansion_status_check;
+ALTER TABLE campaigns ADD CONSTRAINT campaigns_expansion_status_check
+    CHECK (expansion_status IN ('pending', 'expanding', 'awaiting_winner', 'done', 'failed'));
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+ALTER TABLE messages ADD COLUMN variant_id UUID REFERENCES campaign_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_campaign_variant ON messages(campaign_id, variant_id);
+
+-- ============================================
+-- INBOUND MESSAGES
+-- ============================================
+-- Replies to a campaign message are matched by phone and time
+CREATE INDEX idx_inbound_messages_phone ON inbound_messages(tenant_id, phone_e164, received_at);
@@ -0,0 +1,30 @@
+-- Saved contact segments
+-- Migration: 014_contact_segments.sql
+
+-- ============================================
+-- SEGMENTS
+-- ============================================
+-- definition holds the rules ({ match, rules }); they are compiled to SQL
+-- every time the segment is counted or a campaign using it is launched.
+CREATE TABLE segments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    definition JSONB NOT NULL DEFAULT '{"match": "all", "rules": []}',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, name)
+);
+
+CREATE INDEX idx_segments_tenant ON segments(tenant_id);
+
+CREATE TRIGGER update_segments_updated_at BEFORE UPDATE ON segments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- The audience must also match the segment. The API refuses to delete a
+-- segment used by a campaign that has not finished.
+ALTER TABLE campaigns ADD COLUMN segment_id UUID REFERENCES segments(id) ON DELETE SET NULL;
@@ -0,0 +1,21 @@
+-- Campaign targeting with exclusions
+-- Migration: 015_campaign_targeting.sql
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- target_tags_match: 'any' keeps the overlap semantics of target_tags,
+-- 'all' requires every tag. Contacts with an exclude tag, sent a message in
+-- the last exclude_messaged_days days, or with a message from one of
+-- exclude_campaign_ids are left out.
+ALTER TABLE campaigns ADD COLUMN target_tags_match VARCHAR(3) NOT NULL DEFAULT 'any'
+    CHECK (target_tags_match IN ('any', 'all'));
+ALTER TABLE campaigns ADD COLUMN exclude_tags TEXT[] DEFAULT '{}';
+ALTER TABLE campaigns ADD COLUMN exclude_messaged_days INT CHECK (exclude_messaged_days > 0);
+ALTER TABLE campaigns ADD COLUMN exclude_campaign_ids UUID[] DEFAULT '{}';
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+-- Recently messaged contacts
+CREATE INDEX idx_messages_contact_sent ON messages(contact_id, sent_at);
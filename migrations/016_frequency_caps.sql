@@ -0,0 +1,17 @@
+-- Per-contact frequency caps
+-- Migration: 016_frequency_caps.sql
+-- The caps live in tenants.settings.frequencyCap ({ maxPerDay, maxPerWeek }).
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+-- 'skipped': never sent because the contact had reached the tenant's frequency cap
+ALTER TABLE messages DROP CONSTRAINT messages_status_check;
+ALTER TABLE messages ADD CONSTRAINT messages_status_check
+    CHECK (status IN ('queued', 'sending', 'sent', 'delivered', 'read', 'failed', 'cancelled', 'skipped'));
+
+-- ============================================
+-- CAMPAIGNS
+-- ============================================
+-- Messages skipped by the frequency cap, at expansion or right before sending
+ALTER TABLE campaigns ADD COLUMN skipped_count INT DEFAULT 0;
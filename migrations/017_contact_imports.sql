@@ -0,0 +1,51 @@
+-- Contact imports from CSV/XLSX files
+-- Migration: 017_contact_imports.sql
+
+-- ============================================
+-- CONTACT IMPORTS
+-- ============================================
+-- The uploaded file stays in object storage (file_key) until the import
+-- runs. mapping is set when the import is started, after the columns found
+-- in the file have been matched to contact fields.
+CREATE TABLE contact_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    filename VARCHAR(255) NOT NULL,
+    file_key VARCHAR(500) NOT NULL,
+    format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'xlsx')),
+    encoding VARCHAR(20),
+    delimiter VARCHAR(5),
+    columns TEXT[] NOT NULL DEFAULT '{}',
+    mapping JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'uploaded'
+        CHECK (status IN ('uploaded', 'queued', 'processing', 'completed', 'failed')),
+    size_bytes BIGINT NOT NULL DEFAULT 0,
+    bytes_processed BIGINT NOT NULL DEFAULT 0,
+    processed_rows INT NOT NULL DEFAULT 0,
+    created_count INT NOT NULL DEFAULT 0,
+    updated_count INT NOT NULL DEFAULT 0,
+    skipped_count INT NOT NULL DEFAULT 0,
+    error_count INT NOT NULL DEFAULT 0,
+    error TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_contact_imports_tenant ON contact_imports(tenant_id, created_at DESC);
+
+CREATE TRIGGER update_contact_imports_updated_at BEFORE UPDATE ON contact_imports FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Rows that could not be imported, for the downloadable error report
+CREATE TABLE contact_import_errors (
+    id BIGSERIAL PRIMARY KEY,
+    import_id UUID NOT NULL REFERENCES contact_imports(id) ON DELETE CASCADE,
+    row_number INT NOT NULL,
+    error TEXT NOT NULL,
+    -- The row as read from the file
+    row_values TEXT[] NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX idx_contact_import_errors_import ON contact_import_errors(import_id, row_number);
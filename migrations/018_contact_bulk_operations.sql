@@ -0,0 +1,33 @@
+-- Bulk contact operations
+-- Migration: 018_contact_bulk_operations.sql
+
+-- ============================================
+-- CONTACT BULK OPERATIONS
+-- ============================================
+-- One row per bulk action (tags, custom fields, opt-out/in, delete) over
+-- a list of contact IDs or a contact filter. Small selections run within
+-- the request; larger ones are queued and report progress here.
+CREATE TABLE contact_bulk_operations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    action VARCHAR(30) NOT NULL
+        CHECK (action IN ('add_tags', 'remove_tags', 'set_custom_fields', 'opt_out', 'opt_in', 'delete')),
+    params JSONB NOT NULL DEFAULT '{}',
+    -- {"contactIds": [...]} or {"filter": {"search", "tags", "optedOut"}}
+    selection JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+    total_count INT NOT NULL DEFAULT 0,
+    processed_count INT NOT NULL DEFAULT 0,
+    affected_count INT NOT NULL DEFAULT 0,
+    error TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_contact_bulk_operations_tenant ON contact_bulk_operations(tenant_id, created_at DESC);
+
+CREATE TRIGGER update_contact_bulk_operations_updated_at BEFORE UPDATE ON contact_bulk_operations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { VARIANT_BUCKETS, assignVariant, isInTestGroup, pickWinner, variantBucket } from './ab-test.js';
+import type { VariantStats } from './types.js';
+
+const CAMPAIGN = '7d0f6c2e-4f55-4a57-9a0e-0d7f9f3c2b10';
+const contacts = Array.from({ length: 5000 }, (_, i) => `00000000-0000-4000-8000-${String(i).padStart(12, '0')}`);
+
+describe('variantBucket', () => {
+    it('gives a contact the same bucket every time', () => {
+        for (const contact of contacts.slice(0, 100)) {
+            expect(variantBucket(CAMPAIGN, contact)).toBe(variantBucket(CAMPAIGN, contact));
+        }
+    });
+
+    it('stays within the buckets and spreads contacts evenly', () => {
+        const buckets = contacts.map(contact => variantBucket(CAMPAIGN, contact));
+
+        expect(buckets.every(bucket => Number.isInteger(bucket) && bucket >= 0 && bucket < VARIANT_BUCKETS)).toBe(true);
+
+        const lowerHalf = buckets.filter(bucket => bucket < VARIANT_BUCKETS / 2).length;
+        expect(lowerHalf / contacts.length).toBeCloseTo(0.5, 1);
+    });
+
+    it('places contacts differently in another campaign', () => {
+        const other = contacts.filter(contact =>
+            variantBucket(CAMPAIGN, contact) !== variantBucket('another-campaign', contact)
+        );
+
+        expect(other.length).toBeGreaterThan(contacts.length * 0.9);
+    });
+});
+
+describe('assignVariant', () => {
+    const variants = [
+        { label: 'A', weight: 50 },
+        { label: 'B', weight: 30 },
+        { label: 'C', weight: 20 },
+    ];
+
+    it.each([
+        [0, 'A'],
+        [4999, 'A'],
+        [5000, 'B'],
+        [7999, 'B'],
+        [8000, 'C'],
+        [9999, 'C'],
+    ])('puts bucket %i in variant %s', (bucket, label) => {
+        expect(assignVariant(variants, bucket).label).toBe(label);
+    });
+
+    it.each([
+        [0, 'A'],
+        [499, 'A'],
+        [500, 'B'],
+        [999, 'C'],
+    ])('splits only the test span: bucket %i in variant %s', (bucket, label) => {
+        expect(assignVariant(variants, bucket, 1000).label).toBe(label);
+    });
+
+    it('splits contacts by weight', () => {
+        const counts = { A: 0, B: 0, C: 0 } as Record<string, number>;
+        for (const contact of contacts) {
+            counts[assignVariant(variants, variantBucket(CAMPAIGN, contact)).label]++;
+        }
+
+        expect(counts.A / contacts.length).toBeCloseTo(0.5, 1);
+        expect(counts.B / contacts.length).toBeCloseTo(0.3, 1);
+        expect(counts.C / contacts.length).toBeCloseTo(0.2, 1);
+    });
+
+    it('throws without variants', () => {
+        expect(() => assignVariant([], 0)).toThrow('Campaign has no variants');
+    });
+});
+
+describe('isInTestGroup', () => {
+    it.each([
+        [0, 20, true],
+        [1999, 20, true],
+        [2000, 20, false],
+        [0, 0, false],
+        [9999, 100, true],
+    ])('bucket %i with a %i%% test group: %s', (bucket, percent, expected) => {
+        expect(isInTestGroup(bucket, percent)).toBe(expected);
+    });
+});
+
+describe('pickWinner', () => {
+    const stats = (label: string, weight: number, deliveredRate: number, readRate: number): VariantStats => ({
+        variantId: label,
+        label,
+        weight,
+        isWinner: false,
+        messages: 100,
+        sent: 100,
+        delivered: 0,
+        read: 0,
+        failed: 0,
+        replied: 0,
+        deliveredRate,
+        readRate,
+        repliedRate: 0,
+    });
+
+    it.each([
+        ['delivered', 'B'],
+        ['read', 'A'],
+        ['replied', 'C'],
+    ] as const)('picks the best %s rate, ties going to the larger weight', (metric, label) => {
+        const winner = pickWinner([stats('A', 30, 0.8, 0.5), stats('B', 30, 0.9, 0.4), stats('C', 40, 0.7, 0.3)], metric);
+        expect(winner?.label).toBe(label);
+    });
+
+    it('keeps the first variant on a full tie', () => {
+        expect(pickWinner([stats('A', 50, 0.5, 0.5), stats('B', 50, 0.5, 0.5)], 'read')?.label).toBe('A');
+    });
+
+    it('returns null without variants', () => {
+        expect(pickWinner([], 'read')).toBeNull();
+    });
+});
@@ -0,0 +1,78 @@
+import type { VariantStats, WinnerMetric } from './types.js';
+
+// ============================================
+// A/B TEST VARIANTS
+// ============================================
+
+export interface WeightedVariant {
+    // Percentage of the audience
+    weight: number;
+}
+
+// Contacts are spread over this many buckets
+export const VARIANT_BUCKETS = 10000;
+
+/**
+ * Stable bucket of a contact within a campaign, from an FNV-1a hash of both
+ * ids, so re-running an expansion always puts a contact in the same place
+ */
+export function variantBucket(campaignId: string, contactId: string): number {
+    let hash = 0x811c9dc5;
+    for (const char of `${campaignId}:${contactId}`) {
+        hash ^= char.charCodeAt(0);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    return (hash >>> 0) % VARIANT_BUCKETS;
+}
+
+/**
+ * Whether a bucket falls in the test group of an auto-promoted campaign
+ */
+export function isInTestGroup(bucket: number, testPercent: number): boolean {
+    return bucket < (testPercent / 100) * VARIANT_BUCKETS;
+}
+
+/**
+ * Variant for a bucket, splitting the buckets below span by weight.
+ * span is the test group's size when only the test group is split.
+ */
+export function assignVariant<T extends WeightedVariant>(variants: T[], bucket: number, span = VARIANT_BUCKETS): T {
+    if (variants.length === 0) {
+        throw new Error('Campaign has no variants');
+    }
+
+    const totalWeight = variants.reduce((total, variant) => total + variant.weight, 0);
+    const position = (bucket / span) * totalWeight;
+
+    let cumulative = 0;
+    for (const variant of variants) {
+        cumulative += variant.weight;
+        if (position < cumulative) return variant;
+    }
+
+    return variants[variants.length - 1];
+}
+
+/**
+ * Variant with the best rate for the metric; ties go to the larger weight,
+ * then to the first label. Null when there are no variants.
+ */
+export function pickWinner(stats: VariantStats[], metric: WinnerMetric): VariantStats | null {
+    const rate = (variant: VariantStats) => ({
+        delivered: variant.deliveredRate,
+        read: variant.readRate,
+        replied: variant.repliedRate,
+    })[metric];
+
+    let winner: VariantStats | null = null;
+    for (const variant of stats) {
+        if (!winner
+            || rate(variant) > rate(winner)
+            || (rate(variant) === rate(winner) && variant.weight > winner.weight)) {
+            winner = variant;
+        }
+    }
+
+    return winner;
+}
@@ -0,0 +1,115 @@
+/**
+ * Campaign counter bookkeeping shared by the API and the worker
+ */
+
+/**
+ * Anything that runs a query: a pg Pool or a client checked out of one
+ */
+export interface SqlClient {
+    query(text: string, values?: unknown[]): Promise<{ rows: any[]; rowCount: number | null }>;
+}
+
+/**
+ * Queued messages to cancel: those of some contacts, or every one to a phone
+ */
+export type QueuedMessageSelection = { contactIds: string[] } | { phoneE164: string };
+
+/**
+ * Cancel queued messages, count them as cancelled on their campaigns and
+ * complete the campaigns that had nothing else left. Returns how many
+ * messages were cancelled.
+ */
+export async function cancelQueuedMessages(
+    db: SqlClient,
+    tenantId: string,
+    selection: QueuedMessageSelection,
+    reason: string
+): Promise<number> {
+    const [condition, value] = 'contactIds' in selection
+        ? ['contact_id = ANY($2)', selection.contactIds]
+        : ['phone_e164 = $2', selection.phoneE164];
+
+    const cancelled = await db.query(
+        `UPDATE messages SET status = 'cancelled', error = $3
+     WHERE tenant_id = $1 AND ${condition} AND status = 'queued'
+     RETURNING campaign_id`,
+        [tenantId, value, reason]
+    );
+
+    const perCampaign = new Map<string, number>();
+    for (const row of cancelled.rows) {
+        if (row.campaign_id) {
+            perCampaign.set(row.campaign_id, (perCampaign.get(row.campaign_id) ?? 0) + 1);
+        }
+    }
+
+    for (const [campaignId, count] of perCampaign) {
+        await db.query(
+            'UPDATE campaigns SET cancelled_count = cancelled_count + $2 WHERE id = $1',
+            [campaignId, count]
+        );
+        await checkCampaignCompletion(db, campaignId);
+    }
+
+    return cancelled.rows.length;
+}
+
+/**
+ * Complete a running campaign once all its messages are sent, failed,
+ * cancelled or skipped. For a campaign cancelled while messages were still
+ * being sent, bring its counters and final report up to date instead.
+ */
+export async function checkCampaignCompletion(db: SqlClient, campaignId: string): Promise<void> {
+    const result = await db.query(
+        `SELECT status, expansion_status, total_recipients, sent_count, failed_count, cancelled_count, skipped_count,
+            COALESCE((final_report->>'inFlight')::int, 0) as in_flight
+     FROM campaigns WHERE id = $1`,
+        [campaignId]
+    );
+
+    if (result.rows.length === 0) return;
+
+    const campaign = result.rows[0];
+
+    if (campaign.status === 'cancelled') {
+        if (campaign.in_flight > 0) await refreshFinalReport(db, campaignId);
+        return;
+    }
+
+    const completed = campaign.sent_count + campaign.failed_count + campaign.cancelled_count + campaign.skipped_count;
+    if (campaign.status !== 'running' || campaign.expansion_status !== 'done' || completed < campaign.total_recipients) return;
+
+    const updated = await db.query(
+        `UPDATE campaigns SET status = 'completed', completed_at = NOW() WHERE id = $1 AND status = 'running'`,
+        [campaignId]
+    );
+
+    if (updated.rowCount) {
+        console.log(`Campaign ${campaignId} completed: ${campaign.sent_count} sent, ${campaign.failed_count} failed, ${campaign.cancelled_count} cancelled, ${campaign.skipped_count} skipped`);
+    }
+}
+
+/**
+ * Recount the counters and final report of a cancelled campaign from its messages
+ */
+async function refreshFinalReport(db: SqlClient, campaignId: string): Promise<void> {
+    await db.query(
+        `UPDATE campaigns c SET sent_count = s.sent, delivered_count = s.delivered, read_count = s.read,
+        failed_count = s.failed, cancelled_count = s.cancelled, skipped_count = s.skipped,
+        final_report = c.final_report || jsonb_build_object(
+         'sent', s.sent, 'delivered', s.delivered, 'read', s.read, 'failed', s.failed,
+         'cancelled', s.cancelled, 'skipped', s.skipped, 'inFlight', s.in_flight)
+     FROM (
+       SELECT COUNT(*) FILTER (WHERE status IN ('sent', 'delivered', 'read'))::int as sent,
+              COUNT(*) FILTER (WHERE status IN ('delivered', 'read'))::int as delivered,
+              COUNT(*) FILTER (WHERE status = 'read')::int as read,
+              COUNT(*) FILTER (WHERE status = 'failed')::int as failed,
+              COUNT(*) FILTER (WHERE status = 'cancelled')::int as cancelled,
+              COUNT(*) FILTER (WHERE status = 'skipped')::int as skipped,
+              COUNT(*) FILTER (WHERE status = 'sending')::int as in_flight
+       FROM messages WHERE campaign_id = $1
+     ) s
+     WHERE c.id = $1`,
+        [campaignId]
+    );
+}
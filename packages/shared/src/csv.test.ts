@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { CsvParser, detectCsvDelimiter, detectTextEncoding, type CsvRecord } from './csv.js';
+
+function records(chunks: string[], delimiter = ','): CsvRecord[] {
+    const parser = new CsvParser(delimiter);
+    return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.end()];
+}
+
+function parse(chunks: string[], delimiter = ','): string[][] {
+    return records(chunks, delimiter).map(record => record.values);
+}
+
+// Every way of cutting the text in two chunks
+function splits(text: string): string[][] {
+    return Array.from({ length: text.length + 1 }, (_, i) => [text.slice(0, i), text.slice(i)]);
+}
+
+describe('CsvParser', () => {
+    it.each([
+        ['plain fields', 'a,b,c\n1,2,3', [['a', 'b', 'c'], ['1', '2', '3']]],
+        ['quoted delimiter', '"a,b",c', [['a,b', 'c']]],
+        ['doubled quotes', '"say ""hi""",x', [['say "hi"', 'x']]],
+        ['line break in quotes', '"line 1\r\nline 2",x', [['line 1\r\nline 2', 'x']]],
+        ['empty fields; a blank quoted line is dropped', ',,\n""\n', [['', '', '']]],
+        ['CRLF line ends', 'a\r\nb\r\n', [['a'], ['b']]],
+        ['CR line ends', 'a\rb', [['a'], ['b']]],
+        ['blank lines dropped', 'a\n\n  \nb\n', [['a'], ['b']]],
+        ['quote inside an unquoted field', 'a"b,c', [['a"b', 'c']]],
+        ['unterminated quote at the end', '"abc', [['abc']]],
+    ])('parses %s', (_case, text, expected) => {
+        expect(parse([text])).toEqual(expected);
+    });
+
+    it.each([
+        ['CRLF', 'name,phone\r\nAna,1\r\nBia,2\r\n'],
+        ['quoted CRLF and doubled quotes', 'a,"x ""y""\r\nz"\r\nb,c'],
+    ])('gives the same records however %s input is split', (_case, text) => {
+        const expected = parse([text]);
+
+        for (const chunks of splits(text)) {
+            expect(parse(chunks)).toEqual(expected);
+        }
+    });
+
+    it.each([
+        ['LF', 'a\nb\nc', [1, 2, 3]],
+        ['CRLF', 'a\r\nb\r\nc\r\n', [1, 2, 3]],
+        ['CR', 'a\rb', [1, 2]],
+        ['blank lines', '\na\n\r\n\nb', [2, 5]],
+        ['quoted line breaks', '"a\r\nb",x\n"c\nd\re"\nf', [1, 3, 6]],
+    ])('numbers records by the file line they start on (%s)', (_case, text, lines) => {
+        for (const chunks of splits(text)) {
+            expect(records(chunks).map(record => record.line)).toEqual(lines);
+        }
+    });
+
+    it('parses one character at a time', () => {
+        const text = 'a;"b;\r\n""c"""\r\nd;e';
+        expect(parse([...text], ';')).toEqual([['a', 'b;\r\n"c"'], ['d', 'e']]);
+    });
+});
+
+describe('detectCsvDelimiter', () => {
+    it.each([
+        ['name,phone\nAna,1\nBia,2\n', ','],
+        ['name;phone;city\nAna;1;"Rio, RJ"\nBia;2;SP\n', ';'],
+        ['name\tphone\nAna\t1\n', '\t'],
+        ['name|phone\nAna|1\n', '|'],
+        ['phone\n1\n2\n', ','],
+    ])('detects the delimiter of %j', (sample, delimiter) => {
+        expect(detectCsvDelimiter(sample)).toBe(delimiter);
+    });
+});
+
+describe('detectTextEncoding', () => {
+    it.each([
+        ['UTF-8 BOM', [0xEF, 0xBB, 0xBF, 0x61], 'utf-8'],
+        ['UTF-16 LE BOM', [0xFF, 0xFE, 0x61, 0x00], 'utf-16le'],
+        ['UTF-16 BE BOM', [0xFE, 0xFF, 0x00, 0x61], 'utf-16be'],
+        ['UTF-8 "São"', [0x53, 0xC3, 0xA3, 0x6F], 'utf-8'],
+        ['UTF-8 cut mid-character', [0x53, 0xC3, 0xA3, 0x6F, 0xC3], 'utf-8'],
+        ['Latin-1 "São Paulo"', [0x53, 0xE3, 0x6F, 0x20, 0x50, 0x61, 0x75, 0x6C, 0x6F], 'windows-1252'],
+        ['Windows-1252 quotes', [0x93, 0x61, 0x94], 'windows-1252'],
+    ])('detects %s', (_case, bytes, encoding) => {
+        expect(detectTextEncoding(new Uint8Array(bytes))).toBe(encoding);
+    });
+
+    it('decodes Latin-1 text as Windows-1252', () => {
+        const bytes = new Uint8Array([0x4A, 0x6F, 0xE3, 0x6F, 0x2C, 0x43, 0x61, 0x6D, 0xF5, 0x65, 0x73, 0x0A]);
+        const text = new TextDecoder(detectTextEncoding(bytes)).decode(bytes);
+
+        expect(parse([text])).toEqual([['João', 'Camões']]);
+    });
+});
@@ -0,0 +1,172 @@
+// ============================================
+// CSV PARSING
+// ============================================
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+export type CsvDelimiter = typeof CSV_DELIMITERS[number];
+
+/**
+ * Guess the delimiter from the first lines of a file: the candidate found
+ * the same number of times (at least once) on the most lines, ties going to
+ * the one found more often. Quoted text is ignored.
+ */
+export function detectCsvDelimiter(sample: string): CsvDelimiter {
+    const lines = stripQuoted(sample).split(/\r\n|\n|\r/).slice(0, 20).filter(line => line.trim() !== '');
+    // The last line of a sample may be cut short
+    if (lines.length > 1) lines.pop();
+
+    let best: { delimiter: CsvDelimiter; lines: number; count: number } = { delimiter: ',', lines: 0, count: 0 };
+
+    for (const delimiter of CSV_DELIMITERS) {
+        const counts = lines.map(line => line.split(delimiter).length - 1);
+        const first = counts[0] ?? 0;
+        if (first === 0) continue;
+
+        const consistent = counts.filter(count => count === first).length;
+        if (consistent > best.lines || (consistent === best.lines && first > best.count)) {
+            best = { delimiter, lines: consistent, count: first };
+        }
+    }
+
+    return best.delimiter;
+}
+
+function stripQuoted(text: string): string {
+    return text.replace(/"(?:[^"]|"")*"?/g, '""');
+}
+
+export interface CsvRecord {
+    // Line of the file the record starts on, from 1; a record with quoted
+    // line breaks spans several lines
+    line: number;
+    values: string[];
+}
+
+/**
+ * Incremental RFC 4180 parser: quoted fields may hold delimiters, line
+ * breaks and doubled quotes, and records may be split across chunks.
+ * Feed decoded text with push() and call end() once the input is over;
+ * each returns the records completed so far. Blank lines are dropped.
+ */
+export class CsvParser {
+    private field = '';
+    private record: string[] = [];
+    private line = 1;
+    private recordLine = 1;
+    // Like afterCr, but also for a \r inside a quoted field; used to count lines
+    private previousCr = false;
+    private quoted = false;
+    // A quote inside a quoted field: either "" or the closing quote
+    private quotePending = false;
+    // A \r was the last character, so a \n right after it is the same line break
+    private afterCr = false;
+
+    constructor(private readonly delimiter: string = ',') { }
+
+    push(text: string): CsvRecord[] {
+        const records: CsvRecord[] = [];
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            // \r\n is a single line break
+            if (char === '\r' || (char === '\n' && !this.previousCr)) this.line++;
+            this.previousCr = char === '\r';
+
+            if (this.afterCr) {
+                this.afterCr = false;
+                if (char === '\n') continue;
+            }
+
+            if (this.quotePending) {
+                this.quotePending = false;
+                if (char === '"') {
+                    this.field += '"';
+                    continue;
+                }
+                this.quoted = false;
+            } else if (this.quoted) {
+                if (char === '"') {
+                    this.quotePending = true;
+                } else {
+                    this.field += char;
+                }
+                continue;
+            }
+
+            if (char === '"' && this.field === '') {
+                this.quoted = true;
+            } else if (char === this.delimiter) {
+                this.record.push(this.field);
+                this.field = '';
+            } else if (char === '\n' || char === '\r') {
+                this.afterCr = char === '\r';
+                this.endRecord(records);
+            } else {
+                this.field += char;
+            }
+        }
+
+        return records;
+    }
+
+    end(): CsvRecord[] {
+        const records: CsvRecord[] = [];
+        this.quoted = false;
+        this.quotePending = false;
+        this.endRecord(records);
+        return records;
+    }
+
+    private endRecord(records: CsvRecord[]): void {
+        this.record.push(this.field);
+        this.field = '';
+
+        if (this.record.length > 1 || this.record[0].trim() !== '') {
+            records.push({ line: this.recordLine, values: this.record });
+        }
+        this.record = [];
+        this.recordLine = this.line;
+    }
+}
+
+/**
+ * Text encoding of the start of a file: UTF-8 or UTF-16 when it has a byte
+ * order mark, UTF-8 when the bytes are valid UTF-8, otherwise Windows-1252
+ * (Latin-1 plus the characters Excel uses in the 0x80-0x9F range).
+ */
+export function detectTextEncoding(sample: Uint8Array): 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' {
+    if (sample[0] === 0xEF && sample[1] === 0xBB && sample[2] === 0xBF) return 'utf-8';
+    if (sample[0] === 0xFF && sample[1] === 0xFE) return 'utf-16le';
+    if (sample[0] === 0xFE && sample[1] === 0xFF) return 'utf-16be';
+
+    // Leave out a character the sample may have cut in the middle
+    let end = sample.length;
+    for (let i = Math.max(0, sample.length - 3); i < sample.length; i++) {
+        if (sample[i] >= 0xC0) end = i;
+    }
+
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(sample.subarray(0, end));
+        return 'utf-8';
+    } catch {
+        return 'windows-1252';
+    }
+}
+
+// ============================================
+// CSV WRITING
+// ============================================
+
+/**
+ * Quote a CSV cell. Text a spreadsheet would run as a formula gets a leading
+ * apostrophe: anything starting with =, @, tab or CR, and + or - unless the
+ * rest is a plain number (so E.164 phones and negative values stay as-is).
+ */
+export function csvCell(value: string): string {
+    const text = String(value ?? '');
+    const formula = /^[=@\t\r]/.test(text) || (/^[+-]/.test(text) && !/^[+-]\d+(?:[.,]\d+)?$/.test(text));
+    const safe = formula ? `'${text}` : text;
+    return `"${safe.replace(/"/g, '""')}"`;
+}
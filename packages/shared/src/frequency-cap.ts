@@ -0,0 +1,51 @@
+// ============================================
+// FREQUENCY CAPS
+// ============================================
+
+/**
+ * Per-tenant limits on campaign messages to one contact, stored in
+ * tenants.settings.frequencyCap. Periods are rolling: the last 24 hours
+ * and the last 7 days. Null means no limit.
+ */
+export interface FrequencyCapSettings {
+    maxPerDay: number | null;
+    maxPerWeek: number | null;
+}
+
+export const DEFAULT_FREQUENCY_CAP_SETTINGS: FrequencyCapSettings = {
+    maxPerDay: null,
+    maxPerWeek: null,
+};
+
+/**
+ * Merge stored tenant settings over the defaults
+ */
+export function resolveFrequencyCapSettings(settings: Record<string, unknown> | null | undefined): FrequencyCapSettings {
+    const stored = (settings?.frequencyCap ?? {}) as Partial<FrequencyCapSettings>;
+
+    return {
+        maxPerDay: stored.maxPerDay ?? DEFAULT_FREQUENCY_CAP_SETTINGS.maxPerDay,
+        maxPerWeek: stored.maxPerWeek ?? DEFAULT_FREQUENCY_CAP_SETTINGS.maxPerWeek,
+    };
+}
+
+export function hasFrequencyCap(settings: FrequencyCapSettings): boolean {
+    return settings.maxPerDay !== null || settings.maxPerWeek !== null;
+}
+
+/**
+ * Reason recorded on a skipped message, or null when the contact is under
+ * both caps. Counts are the contact's campaign messages in each period.
+ */
+export function frequencyCapReason(
+    settings: FrequencyCapSettings,
+    counts: { day: number; week: number }
+): string | null {
+    if (settings.maxPerDay !== null && counts.day >= settings.maxPerDay) {
+        return `Frequency cap reached: ${settings.maxPerDay} per day`;
+    }
+    if (settings.maxPerWeek !== null && counts.week >= settings.maxPerWeek) {
+        return `Frequency cap reached: ${settings.maxPerWeek} per week`;
+    }
+    return null;
+}
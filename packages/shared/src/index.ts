@@ -3,3 +3,39 @@ export * from './types.js';
 
 // Validators
 export * from './validators.js';
+
+// Selector profiles
+export * from './selectors.js';
+
+// Keyword opt-out
+export * from './opt-out.js';
+
+// Sender pool distribution
+export * from './sender-pool.js';
+
+// Campaign send windows
+export * from './send-window.js';
+
+// Message templates
+export * from './template.js';
+
+// SMS encoding and segments
+export * from './sms.js';
+
+// A/B test variants
+export * from './ab-test.js';
+
+// Contact segments
+export * from './segment.js';
+
+// Frequency caps
+export * from './frequency-cap.js';
+
+// Campaign counters and completion
+export * from './campaign-progress.js';
+
+// CSV parsing
+export * from './csv.js';
+
+// Phone number normalization
+export * from './phone.js';
@@ -0,0 +1,59 @@
+// ============================================
+// KEYWORD OPT-OUT
+// ============================================
+
+export const DEFAULT_OPT_OUT_KEYWORDS = ['STOP', 'SAIR', 'PARAR', 'CANCELAR', 'DESCADASTRAR', 'UNSUBSCRIBE'];
+
+/**
+ * Per-tenant opt-out configuration, stored in tenants.settings.optOut
+ */
+export interface OptOutSettings {
+    enabled: boolean;
+    keywords: string[];
+    // Reply sent after opting out; no reply when null
+    confirmationText: string | null;
+}
+
+export const DEFAULT_OPT_OUT_SETTINGS: OptOutSettings = {
+    enabled: true,
+    keywords: DEFAULT_OPT_OUT_KEYWORDS,
+    confirmationText: null,
+};
+
+/**
+ * Uppercase, strip accents, punctuation and extra whitespace
+ * ("  Sair! " -> "SAIR", "cancelár" -> "CANCELAR")
+ */
+export function normalizeKeyword(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[̀-ͯ]/g, '')
+        .replace(/[^\p{L}\p{N}\s]/gu, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toUpperCase();
+}
+
+/**
+ * Return the keyword when the whole message is an opt-out keyword.
+ * Only exact matches count, so "não vou parar de comprar" is not an opt-out.
+ */
+export function matchOptOutKeyword(text: string, keywords: string[]): string | null {
+    const normalized = normalizeKeyword(text);
+    if (!normalized) return null;
+
+    return keywords.find(keyword => normalizeKeyword(keyword) === normalized) ?? null;
+}
+
+/**
+ * Merge stored tenant settings over the defaults
+ */
+export function resolveOptOutSettings(settings: Record<string, unknown> | null | undefined): OptOutSettings {
+    const stored = (settings?.optOut ?? {}) as Partial<OptOutSettings>;
+
+    return {
+        enabled: stored.enabled ?? DEFAULT_OPT_OUT_SETTINGS.enabled,
+        keywords: stored.keywords && stored.keywords.length > 0 ? stored.keywords : DEFAULT_OPT_OUT_SETTINGS.keywords,
+        confirmationText: stored.confirmationText ?? DEFAULT_OPT_OUT_SETTINGS.confirmationText,
+    };
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { normalizePhone, resolvePhoneSettings } from './phone.js';
+
+describe('normalizePhone', () => {
+    it.each([
+        ['national number', '(11) 98888-7777', 'BR', '+5511988887777', 'mobile'],
+        ['old 8-digit mobile', '11 8888-7777', 'BR', '+5511988887777', 'mobile'],
+        ['trunk and carrier prefix', '0 21 11 98888-7777', 'BR', '+5511988887777', 'mobile'],
+        ['trunk prefix', '011 98888-7777', 'BR', '+5511988887777', 'mobile'],
+        ['00 international prefix', '0055 11 98888-7777', 'BR', '+5511988887777', 'mobile'],
+        ['00 prefix from another country', '00 1 415 555 2671', 'DE', '+14155552671', 'fixed_line_or_mobile'],
+        ['country code overrides the default', '+55 11 98888-7777', 'US', '+5511988887777', 'mobile'],
+        ['foreign number', '+44 7400 123456', 'BR', '+447400123456', 'mobile'],
+        ['other default country', '07400 123456', 'GB', '+447400123456', 'mobile'],
+        ['US line', '(415) 555-2671', 'US', '+14155552671', 'fixed_line_or_mobile'],
+        ['unsupported default falls back to BR', '11 98888-7777', 'XX', '+5511988887777', 'mobile'],
+    ])('normalizes %s', (_case, input, country, phoneE164, lineType) => {
+        expect(normalizePhone(input, country)).toMatchObject({ valid: true, phoneE164, lineType });
+    });
+
+    it.each([
+        ['letters', 'abc', 'BR', 'Not a phone number'],
+        ['too short', '123', 'BR', 'Invalid phone number for BR'],
+        ['landline', '(11) 3333-4444', 'BR', 'Landline number cannot receive SMS'],
+        ['toll-free', '0800 123 4567', 'BR', 'Toll-free number cannot receive SMS'],
+        ['foreign toll-free', '+1 800 555 0199', 'BR', 'Toll-free number cannot receive SMS'],
+    ])('rejects %s', (_case, input, country, error) => {
+        expect(normalizePhone(input, country)).toEqual({ valid: false, error });
+    });
+});
+
+describe('resolvePhoneSettings', () => {
+    it.each([
+        [null, 'BR'],
+        [{}, 'BR'],
+        [{ phone: { defaultCountry: 'PT' } }, 'PT'],
+        [{ phone: { defaultCountry: 'XX' } }, 'BR'],
+    ])('resolves %j to %s', (settings, defaultCountry) => {
+        expect(resolvePhoneSettings(settings)).toEqual({ defaultCountry });
+    });
+});
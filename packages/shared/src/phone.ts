@@ -0,0 +1,120 @@
+import { isSupportedCountry, parsePhoneNumberFromString, type CountryCode, type NumberType } from 'libphonenumber-js/max';
+
+// ============================================
+// PHONE NUMBERS
+// ============================================
+
+/**
+ * Per-tenant phone settings, stored in tenants.settings.phone. Numbers
+ * written without a country code are read as national numbers of
+ * defaultCountry (ISO 3166-1 alpha-2).
+ */
+export interface PhoneSettings {
+    defaultCountry: string;
+}
+
+export const DEFAULT_PHONE_SETTINGS: PhoneSettings = {
+    defaultCountry: 'BR',
+};
+
+/**
+ * Merge stored tenant settings over the defaults
+ */
+export function resolvePhoneSettings(settings: Record<string, unknown> | null | undefined): PhoneSettings {
+    const stored = (settings?.phone ?? {}) as Partial<PhoneSettings>;
+
+    return {
+        defaultCountry: stored.defaultCountry && isPhoneCountry(stored.defaultCountry)
+            ? stored.defaultCountry
+            : DEFAULT_PHONE_SETTINGS.defaultCountry,
+    };
+}
+
+export function isPhoneCountry(country: string): boolean {
+    return isSupportedCountry(country);
+}
+
+export type PhoneLineType = 'mobile' | 'fixed_line_or_mobile' | 'personal';
+
+export type NormalizedPhone =
+    | { valid: true; phoneE164: string; country: string | null; lineType: PhoneLineType }
+    | { valid: false; error: string };
+
+// Number types that can receive SMS. Some countries (US, CA) do not tell
+// landlines from mobiles, so those are accepted too.
+const SMS_LINE_TYPES: Partial<Record<NumberType & string, PhoneLineType>> = {
+    MOBILE: 'mobile',
+    FIXED_LINE_OR_MOBILE: 'fixed_line_or_mobile',
+    PERSONAL_NUMBER: 'personal',
+};
+
+const NON_SMS_LINE_TYPES: Partial<Record<NumberType & string, string>> = {
+    FIXED_LINE: 'Landline',
+    TOLL_FREE: 'Toll-free',
+    PREMIUM_RATE: 'Premium-rate',
+    SHARED_COST: 'Shared-cost',
+    VOIP: 'VoIP',
+    PAGER: 'Pager',
+    UAN: 'Corporate',
+    VOICEMAIL: 'Voicemail',
+};
+
+/**
+ * Normalize a phone number as typed by a person or found in a file to
+ * E.164. Numbers without a country code belong to defaultCountry, and
+ * trunk and carrier prefixes ("0", "0 21" in Brazil) are dropped. Brazilian
+ * mobiles written with the old 8-digit numbering get the 9th digit.
+ * Numbers that cannot receive SMS, such as landlines, are rejected.
+ */
+export function normalizePhone(input: string, defaultCountry: string = DEFAULT_PHONE_SETTINGS.defaultCountry): NormalizedPhone {
+    const text = input.trim();
+    if (!/\d/.test(text)) {
+        return { valid: false, error: 'Not a phone number' };
+    }
+
+    const country = (isPhoneCountry(defaultCountry) ? defaultCountry : DEFAULT_PHONE_SETTINGS.defaultCountry) as CountryCode;
+
+    let parsed = parsePhoneNumberFromString(text, country);
+
+    // "00" is the international prefix in most countries, but in some (Brazil)
+    // it is followed by a carrier code that the number may not have
+    if (!parsed?.isValid() && /^00[1-9]/.test(text.replace(/[^\d+]/g, ''))) {
+        parsed = parsePhoneNumberFromString('+' + text.replace(/\D/g, '').slice(2));
+    }
+
+    if (parsed?.country === 'BR' && !parsed.isValid()) {
+        const ninthDigit = withBrazilianNinthDigit(parsed.nationalNumber);
+        if (ninthDigit) {
+            parsed = parsePhoneNumberFromString(ninthDigit, 'BR');
+        }
+    }
+
+    if (!parsed || !parsed.isValid()) {
+        return { valid: false, error: `Invalid phone number for ${parsed?.country ?? country}` };
+    }
+
+    const type = parsed.getType();
+    const lineType = type ? SMS_LINE_TYPES[type] : undefined;
+
+    if (!lineType) {
+        const label = type ? NON_SMS_LINE_TYPES[type] : undefined;
+        return { valid: false, error: `${label ?? 'This'} number cannot receive SMS` };
+    }
+
+    return {
+        valid: true,
+        phoneE164: parsed.number,
+        country: parsed.country ?? null,
+        lineType,
+    };
+}
+
+/**
+ * Brazilian mobiles moved from 8 to 9 digits by adding a leading 9. A
+ * 10-digit national number (2-digit area code plus 8 digits) whose local
+ * part starts with 6-9 is an old mobile number; landlines start with 2-5.
+ */
+function withBrazilianNinthDigit(nationalNumber: string): string | null {
+    const match = /^([1-9]\d)([6-9]\d{7})$/.exec(nationalNumber);
+    return match ? `${match[1]}9${match[2]}` : null;
+}
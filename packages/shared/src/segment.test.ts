@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import pg from 'pg';
+import { loadModule, parseSync } from 'libpg-query';
+import { campaignTarget, compileAudience, compileSegment } from './segment.js';
+import type { CampaignTarget, SegmentDefinition, SegmentRule } from './types.js';
+
+// Parameter numbers a condition refers to, ascending
+function placeholders(sql: string): number[] {
+    return [...new Set(Array.from(sql.matchAll(/\$(\d+)/g), match => Number(match[1])))].sort((a, b) => a - b);
+}
+
+function range(first: number, count: number): number[] {
+    return Array.from({ length: count }, (_, i) => first + i);
+}
+
+// Throws unless the condition is valid PostgreSQL in a query on contacts
+function parseCondition(condition: string, table = 'contacts'): void {
+    parseSync(`SELECT id FROM contacts${table === 'contacts' ? '' : ` ${table}`} WHERE ${condition}`);
+}
+
+const C1 = '00000000-0000-4000-8000-0000000000c1';
+const C2 = '00000000-0000-4000-8000-0000000000c2';
+
+// Rule, values it binds, and the fixture contacts (see below) it matches
+const RULES: [string, SegmentRule, unknown[], string[]][] = [
+    ['all tags', { type: 'tags', match: 'all', tags: ['vip', 'sp'] }, [['vip', 'sp']], ['ana']],
+    ['any tag', { type: 'tags', match: 'any', tags: ['vip'] }, [['vip']], ['ana', 'bia']],
+    ['no tag, including contacts without tags', { type: 'tags', match: 'none', tags: ['vip'] }, [['vip']], ['caio', 'duda']],
+    ['field exists', { type: 'field', field: 'cidade', operator: 'exists' }, ['cidade'], ['ana', 'bia']],
+    ['field missing', { type: 'field', field: 'cidade', operator: 'not_exists' }, ['cidade'], ['caio', 'duda']],
+    ['field equals text', { type: 'field', field: 'cidade', operator: 'eq', value: 'Recife' }, ['cidade', 'Recife'], ['ana']],
+    [
+        'field differs, including contacts without it',
+        { type: 'field', field: 'cidade', operator: 'neq', value: 'Recife' },
+        ['cidade', 'Recife'],
+        ['bia', 'caio', 'duda'],
+    ],
+    [
+        'field above a number, skipping non-numeric values',
+        { type: 'field', field: 'pontos', operator: 'gt', value: 100 },
+        ['pontos', 100],
+        ['ana'],
+    ],
+    [
+        'field contains, with LIKE wildcards escaped',
+        { type: 'field', field: 'obs', operator: 'contains', value: '50%_off' },
+        ['obs', '50\\%\\_off'],
+        ['ana'],
+    ],
+    [
+        'created between',
+        { type: 'created_at', after: '2024-01-01', before: '2024-02-01' },
+        ['2024-01-01', '2024-02-01'],
+        ['ana', 'duda'],
+    ],
+    ['created without bounds', { type: 'created_at' }, [], ['ana', 'bia', 'caio', 'duda']],
+    ['opted in', { type: 'opted_out', value: false }, [false], ['ana', 'caio', 'duda']],
+    ['received a campaign', { type: 'campaign', campaignId: C1, event: 'received' }, [C1], ['ana']],
+    ['delivered by any campaign', { type: 'campaign', event: 'delivered' }, [], ['ana', 'duda']],
+    ['did not read any campaign', { type: 'campaign', event: 'read', negate: true }, [], ['bia', 'caio', 'duda']],
+    ['replied after a send', { type: 'campaign', event: 'replied' }, [], ['ana']],
+];
+
+const TARGET: CampaignTarget = {
+    targetAll: false,
+    targetTags: ['vip'],
+    targetTagsMatch: 'all',
+    excludeTags: [],
+    excludeMessagedDays: null,
+    excludeCampaignIds: [],
+    segment: null,
+};
+
+beforeAll(async () => {
+    await loadModule();
+});
+
+describe('compileSegment', () => {
+    it.each(RULES)('binds the values of %s in order from firstParam', (_case, rule, values) => {
+        const compiled = compileSegment({ match: 'all', rules: [rule] }, 3);
+
+        expect(compiled.values).toEqual(values);
+        expect(placeholders(compiled.sql)).toEqual(range(3, values.length));
+        expect(() => parseCondition(compiled.sql)).not.toThrow();
+    });
+
+    it.each(['all', 'any'] as const)('numbers parameters across rules joined with match %s', match => {
+        const compiled = compileSegment({
+            match,
+            rules: [
+                { type: 'tags', match: 'any', tags: ['vip'] },
+                { type: 'field', field: 'pontos', operator: 'lte', value: 10 },
+                { type: 'opted_out', value: false },
+            ],
+        }, 2, 'ct');
+
+        expect(compiled.values).toEqual([['vip'], 'pontos', 10, false]);
+        expect(placeholders(compiled.sql)).toEqual([2, 3, 4, 5]);
+        expect(() => parseCondition(compiled.sql, 'ct')).not.toThrow();
+    });
+
+    it('matches every contact without rules', () => {
+        expect(compileSegment({ match: 'any', rules: [] }, 1)).toEqual({ sql: 'TRUE', values: [] });
+    });
+});
+
+describe('compileAudience', () => {
+    it('binds only the target tags for a tag campaign', () => {
+        const audience = compileAudience(TARGET, 4);
+
+        expect(audience.values).toEqual([['vip']]);
+        expect(placeholders(audience.sql)).toEqual([4]);
+        expect(audience.exclusions).toMatchObject({ tags: null, recentlyMessaged: null, otherCampaigns: null });
+        expect(() => parseCondition(audience.sql)).not.toThrow();
+    });
+
+    it('numbers the segment first, then the tags and exclusions', () => {
+        const audience = compileAudience({
+            ...TARGET,
+            targetTagsMatch: 'any',
+            excludeTags: ['blocked'],
+            excludeMessagedDays: 7,
+            excludeCampaignIds: [C1],
+            segment: { match: 'all', rules: [{ type: 'opted_out', value: false }] },
+        }, 1);
+
+        expect(audience.values).toEqual([false, ['vip'], ['blocked'], 7, [C1]]);
+        expect(placeholders(audience.included)).toEqual([1, 2]);
+        expect(placeholders(audience.exclusions.optedOut)).toEqual([]);
+        expect(placeholders(audience.exclusions.tags!)).toEqual([3]);
+        expect(placeholders(audience.exclusions.recentlyMessaged!)).toEqual([4]);
+        expect(placeholders(audience.exclusions.otherCampaigns!)).toEqual([5]);
+        expect(placeholders(audience.sql)).toEqual([1, 2, 3, 4, 5]);
+
+        for (const condition of [audience.sql, audience.included, ...Object.values(audience.exclusions)]) {
+            expect(() => parseCondition(condition!)).not.toThrow();
+        }
+    });
+
+    it('ignores the target tags when targeting everyone', () => {
+        const audience = compileAudience({ ...TARGET, targetAll: true }, 1);
+
+        expect(audience.values).toEqual([]);
+        expect(placeholders(audience.sql)).toEqual([]);
+    });
+});
+
+describe('campaignTarget', () => {
+    it('reads the targeting columns of a campaign row, defaulting empty lists', () => {
+        const segment = { match: 'all', rules: [] };
+
+        expect(campaignTarget({
+            target_all: false,
+            target_tags: null,
+            target_tags_match: 'any',
+            exclude_tags: ['blocked'],
+            exclude_messaged_days: 7,
+            exclude_campaign_ids: null,
+            segment_definition: segment,
+        })).toEqual({
+            targetAll: false,
+            targetTags: [],
+            targetTagsMatch: 'any',
+            excludeTags: ['blocked'],
+            excludeMessagedDays: 7,
+            excludeCampaignIds: [],
+            segment,
+        });
+    });
+});
+
+// Runs the compiled conditions on temporary tables; needs a PostgreSQL
+// database in TEST_DATABASE_URL and leaves nothing behind
+describe.skipIf(!process.env.TEST_DATABASE_URL)('segments against PostgreSQL', () => {
+    let client: pg.Client;
+
+    beforeAll(async () => {
+        client = new pg.Client({ connectionString: process.env.TEST_DATABASE_URL });
+        await client.connect();
+        await client.query('BEGIN');
+
+        // Temporary tables shadow any real ones for this session
+        await client.query(`
+            CREATE TEMP TABLE contacts (
+                id UUID PRIMARY KEY, tenant_id UUID, phone_e164 TEXT, name TEXT, tags TEXT[],
+                custom_fields JSONB DEFAULT '{}', opted_out BOOLEAN DEFAULT FALSE, created_at TIMESTAMPTZ
+            );
+            CREATE TEMP TABLE messages (
+                contact_id UUID, campaign_id UUID, tenant_id UUID, phone_e164 TEXT, status TEXT, sent_at TIMESTAMPTZ
+            );
+            CREATE TEMP TABLE inbound_messages (tenant_id UUID, phone_e164 TEXT, received_at TIMESTAMPTZ);
+
+            INSERT INTO contacts (id, tenant_id, phone_e164, name, tags, custom_fields, opted_out, created_at) VALUES
+                ('00000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-0000000000aa', '+5581900000001', 'ana',
+                 '{vip,sp}', '{"cidade": "Recife", "pontos": "150", "obs": "50%_off hoje"}', FALSE, '2024-01-15'),
+                ('00000000-0000-4000-8000-000000000002', '00000000-0000-4000-8000-0000000000aa', '+5581900000002', 'bia',
+                 '{vip}', '{"cidade": "Olinda", "pontos": "abc"}', TRUE, '2024-02-10'),
+                ('00000000-0000-4000-8000-000000000003', '00000000-0000-4000-8000-0000000000aa', '+5581900000003', 'caio',
+                 NULL, '{}', FALSE, '2023-12-01'),
+                ('00000000-0000-4000-8000-000000000004', '00000000-0000-4000-8000-0000000000aa', '+5581900000004', 'duda',
+                 '{sp}', '{"pontos": "90", "obs": "500 off"}', FALSE, '2024-01-20');
+
+            INSERT INTO messages (contact_id, campaign_id, tenant_id, phone_e164, status, sent_at) VALUES
+                ('00000000-0000-4000-8000-000000000001', '${C1}', '00000000-0000-4000-8000-0000000000aa', '+5581900000001',
+                 'read', NOW() - INTERVAL '1 day'),
+                ('00000000-0000-4000-8000-000000000002', '${C1}', '00000000-0000-4000-8000-0000000000aa', '+5581900000002',
+                 'failed', NULL),
+                ('00000000-0000-4000-8000-000000000004', '${C2}', '00000000-0000-4000-8000-0000000000aa', '+5581900000004',
+                 'delivered', NOW() - INTERVAL '30 days');
+
+            INSERT INTO inbound_messages (tenant_id, phone_e164, received_at) VALUES
+                ('00000000-0000-4000-8000-0000000000aa', '+5581900000001', NOW()),
+                ('00000000-0000-4000-8000-0000000000aa', '+5581900000004', NOW() - INTERVAL '60 days');
+        `);
+    });
+
+    afterAll(async () => {
+        if (!client) return;
+        await client.query('ROLLBACK');
+        await client.end();
+    });
+
+    // Names of the contacts matching a condition, bound after one leading parameter
+    async function names(condition: { sql: string; values: unknown[] }): Promise<string[]> {
+        const result = await client.query(
+            `SELECT ct.name FROM contacts ct WHERE ct.name <> $1 AND ${condition.sql} ORDER BY ct.name`,
+            ['', ...condition.values]
+        );
+        return result.rows.map(row => row.name);
+    }
+
+    it.each(RULES)('selects contacts by %s', async (_case, rule, _values, expected) => {
+        expect(await names(compileSegment({ match: 'all', rules: [rule] }, 2, 'ct'))).toEqual(expected);
+    });
+
+    it.each<[SegmentDefinition['match'], string[]]>([
+        ['all', ['ana', 'duda']],
+        ['any', ['ana', 'caio', 'duda']],
+    ])('combines rules with match %s', async (match, expected) => {
+        const definition: SegmentDefinition = {
+            match,
+            rules: [
+                { type: 'tags', match: 'any', tags: ['sp'] },
+                { type: 'opted_out', value: false },
+            ],
+        };
+
+        expect(await names(compileSegment(definition, 2, 'ct'))).toEqual(expected);
+    });
+
+    it.each<[string, Partial<CampaignTarget>, string[]]>([
+        ['leaves out opted-out contacts', {}, ['ana']],
+        ['leaves out excluded tags', { targetAll: true, excludeTags: ['sp'] }, ['caio']],
+        ['leaves out contacts messaged recently', { targetAll: true, excludeMessagedDays: 7 }, ['caio', 'duda']],
+        ['leaves out contacts of other campaigns', { targetAll: true, excludeCampaignIds: [C2] }, ['ana', 'caio']],
+        [
+            'intersects the target tags with the segment',
+            { targetTags: ['sp'], segment: { match: 'all', rules: [{ type: 'field', field: 'pontos', operator: 'lt', value: 100 }] } },
+            ['duda'],
+        ],
+    ])('builds an audience that %s', async (_case, target, expected) => {
+        expect(await names(compileAudience({ ...TARGET, ...target }, 2, 'ct'))).toEqual(expected);
+    });
+});
@@ -0,0 +1,181 @@
+import type { CampaignTarget, SegmentDefinition, SegmentRule } from './types.js';
+
+// ============================================
+// CONTACT SEGMENTS
+// ============================================
+
+export interface SegmentQuery {
+    // Boolean SQL condition over the contacts table
+    sql: string;
+    values: unknown[];
+}
+
+// Custom field values that can be compared as numbers
+const NUMERIC_PATTERN = '^-?[0-9]+(\\.[0-9]+)?$';
+
+/**
+ * Compile a segment into a WHERE condition on contacts.
+ * Values are bound as parameters numbered from firstParam, so the
+ * condition can be appended to a query that already has firstParam - 1.
+ * A segment without rules matches every contact.
+ */
+export function compileSegment(definition: SegmentDefinition, firstParam: number, table = 'contacts'): SegmentQuery {
+    const values: unknown[] = [];
+    const param = (value: unknown) => {
+        values.push(value);
+        return `$${firstParam + values.length - 1}`;
+    };
+
+    const conditions = definition.rules.map(rule => compileRule(rule, table, param));
+
+    if (conditions.length === 0) {
+        return { sql: 'TRUE', values };
+    }
+
+    return {
+        sql: `(${conditions.join(definition.match === 'any' ? ' OR ' : ' AND ')})`,
+        values,
+    };
+}
+
+/**
+ * Targeting of a campaign row; segment_definition comes from a join on segments
+ */
+export function campaignTarget(camp: Record<string, any>): CampaignTarget {
+    return {
+        targetAll: camp.target_all,
+        targetTags: camp.target_tags || [],
+        targetTagsMatch: camp.target_tags_match,
+        excludeTags: camp.exclude_tags || [],
+        excludeMessagedDays: camp.exclude_messaged_days,
+        excludeCampaignIds: camp.exclude_campaign_ids || [],
+        segment: camp.segment_definition,
+    };
+}
+
+export interface AudienceQuery extends SegmentQuery {
+    // Contacts the campaign targets before any exclusion
+    included: string;
+    // Condition of each exclusion that applies
+    exclusions: {
+        optedOut: string;
+        tags: string | null;
+        recentlyMessaged: string | null;
+        otherCampaigns: string | null;
+    };
+}
+
+/**
+ * Compile a campaign's targeting into a WHERE condition on contacts:
+ * the tags (any or all of them) and segment it includes, minus opted-out
+ * contacts and every exclusion. Parameters are numbered as in compileSegment.
+ */
+export function compileAudience(target: CampaignTarget, firstParam: number, table = 'contacts'): AudienceQuery {
+    const segment = compileSegment(target.segment ?? { match: 'all', rules: [] }, firstParam, table);
+    const values = [...segment.values];
+    const param = (value: unknown) => {
+        values.push(value);
+        return `$${firstParam + values.length - 1}`;
+    };
+
+    const included = [segment.sql];
+    if (!target.targetAll && target.targetTags.length > 0) {
+        included.unshift(`${table}.tags ${target.targetTagsMatch === 'all' ? '@>' : '&&'} ${param(target.targetTags)}::text[]`);
+    }
+
+    const exclusions: AudienceQuery['exclusions'] = {
+        optedOut: `${table}.opted_out IS TRUE`,
+        tags: target.excludeTags.length > 0
+            ? `COALESCE(${table}.tags, '{}') && ${param(target.excludeTags)}::text[]`
+            : null,
+        recentlyMessaged: target.excludeMessagedDays
+            ? `EXISTS (
+                SELECT 1 FROM messages m
+                WHERE m.contact_id = ${table}.id AND m.sent_at >= NOW() - make_interval(days => ${param(target.excludeMessagedDays)}::int)
+            )`
+            : null,
+        otherCampaigns: target.excludeCampaignIds.length > 0
+            ? `EXISTS (
+                SELECT 1 FROM messages m
+                WHERE m.contact_id = ${table}.id AND m.campaign_id = ANY(${param(target.excludeCampaignIds)}::uuid[])
+                  AND m.status NOT IN ('cancelled', 'skipped')
+            )`
+            : null,
+    };
+
+    const excluded = Object.values(exclusions).filter(Boolean).map(condition => `NOT (${condition})`);
+
+    return {
+        sql: `(${[...included, ...excluded].join(' AND ')})`,
+        values,
+        included: `(${included.join(' AND ')})`,
+        exclusions,
+    };
+}
+
+function compileRule(rule: SegmentRule, table: string, param: (value: unknown) => string): string {
+    switch (rule.type) {
+        case 'tags': {
+            const tags = `${param(rule.tags)}::text[]`;
+            if (rule.match === 'all') return `${table}.tags @> ${tags}`;
+            if (rule.match === 'any') return `${table}.tags && ${tags}`;
+            return `NOT (COALESCE(${table}.tags, '{}') && ${tags})`;
+        }
+
+        case 'field': {
+            const value = `(${table}.custom_fields->>${param(rule.field)}::text)`;
+
+            if (rule.operator === 'exists') return `COALESCE(${value}, '') <> ''`;
+            if (rule.operator === 'not_exists') return `COALESCE(${value}, '') = ''`;
+
+            if (rule.operator === 'contains') {
+                const escaped = String(rule.value).replace(/[\\%_]/g, '\\$&');
+                return `${value} ILIKE '%' || ${param(escaped)}::text || '%'`;
+            }
+
+            const operator = { eq: '=', neq: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=' }[rule.operator];
+
+            // Non-numeric values never match a numeric comparison
+            const [left, right] = typeof rule.value === 'number'
+                ? [`(CASE WHEN ${value} ~ '${NUMERIC_PATTERN}' THEN ${value}::numeric END)`, `${param(rule.value)}::numeric`]
+                : [value, `${param(rule.value)}::text`];
+
+            // A missing field is different from any value
+            return rule.operator === 'neq'
+                ? `${left} IS DISTINCT FROM ${right}`
+                : `${left} ${operator} ${right}`;
+        }
+
+        case 'created_at': {
+            const bounds: string[] = [];
+            if (rule.after) bounds.push(`${table}.created_at >= ${param(rule.after)}::timestamptz`);
+            if (rule.before) bounds.push(`${table}.created_at < ${param(rule.before)}::timestamptz`);
+            return bounds.length > 0 ? `(${bounds.join(' AND ')})` : 'TRUE';
+        }
+
+        case 'opted_out':
+            return `${table}.opted_out = ${param(rule.value)}::boolean`;
+
+        case 'campaign': {
+            const campaign = rule.campaignId
+                ? `m.campaign_id = ${param(rule.campaignId)}::uuid`
+                : 'm.campaign_id IS NOT NULL';
+
+            // A reply is any inbound message from the contact after the message was sent
+            const event = {
+                received: `m.status IN ('sent', 'delivered', 'read')`,
+                delivered: `m.status IN ('delivered', 'read')`,
+                read: `m.status = 'read'`,
+                replied: `m.sent_at IS NOT NULL AND EXISTS (
+                    SELECT 1 FROM inbound_messages im
+                    WHERE im.tenant_id = m.tenant_id AND im.phone_e164 = m.phone_e164 AND im.received_at > m.sent_at
+                )`,
+            }[rule.event];
+
+            return `${rule.negate ? 'NOT ' : ''}EXISTS (
+                SELECT 1 FROM messages m
+                WHERE m.contact_id = ${table}.id AND ${campaign} AND ${event}
+            )`;
+        }
+    }
+}
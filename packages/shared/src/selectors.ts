@@ -0,0 +1,179 @@
+// ============================================
+// GOOGLE MESSAGES SELECTOR PROFILES
+// ============================================
+
+/**
+ * Logical UI elements the worker interacts with on Messages for web
+ */
+export const SELECTOR_KEYS = [
+    // QR Code
+    'qrCanvas',
+    'qrContainer',
+
+    // Login state detection
+    'conversationList',
+    'mainContent',
+
+    // Conversation list (inbound capture)
+    'conversationItem',
+    'conversationSnippet',
+    'conversationUnread',
+    'conversationRecipient',
+
+    // New conversation
+    'startChatButton',
+    'startChatFab',
+
+    // Contact input
+    'recipientInput',
+    'contactSuggestion',
+
+    // Contact list (phone sync)
+    'contactRow',
+    'contactList',
+
+    // Message composer
+    'messageInput',
+
+    // Attachment
+    'attachButton',
+    'fileInput',
+    'attachmentPreview',
+
+    // Send
+    'sendButton',
+
+    // Incoming bubble
+    'incomingMessage',
+    'messageText',
+
+    // Outgoing bubble and its status markers (matched inside the bubble)
+    'outgoingMessage',
+    'messageTimestamp',
+    'messageImage',
+    'messageSending',
+    'messageSent',
+    'messageDelivered',
+    'messageRead',
+    'messageError',
+] as const;
+
+export type SelectorKey = typeof SELECTOR_KEYS[number];
+
+/**
+ * Ordered fallback chain for one element.
+ * A plain array applies to every locale; the object form adds
+ * per-locale variants (e.g. aria-labels "Send" vs "Enviar").
+ */
+export type SelectorChain = string[] | {
+    default: string[];
+    locales?: Record<string, string[]>;
+};
+
+export type SelectorMap = Partial<Record<SelectorKey, SelectorChain>>;
+
+/**
+ * Built-in profile, used when no profile is stored for the tenant
+ * and no SELECTOR_PROFILE_PATH file is configured.
+ * NOTE: These may change if Google updates their UI
+ */
+export const DEFAULT_SELECTOR_PROFILE: Required<SelectorMap> = {
+    qrCanvas: ['canvas'],
+    qrContainer: ['mw-qr-code'],
+
+    conversationList: ['mws-conversations-list'],
+    mainContent: ['main'],
+
+    conversationItem: ['mws-conversation-list-item'],
+    conversationSnippet: ['[data-e2e-conversation-snippet]', 'mws-conversation-snippet', '.snippet-text'],
+    conversationUnread: ['[data-e2e-is-unread="true"]', '.unread'],
+    conversationRecipient: ['[data-e2e-conversation-recipient]', 'mws-conversation-header h2', '.title-container .title'],
+
+    startChatButton: ['[data-e2e-start-chat-button]'],
+    startChatFab: ['a[href="/web/conversations/new"]'],
+
+    recipientInput: {
+        default: ['input[aria-label*="recipient"]'],
+        locales: {
+            en: ['input[placeholder*="name"]', 'input[placeholder*="number"]'],
+            pt: ['input[placeholder*="nome"]', 'input[placeholder*="número"]'],
+        },
+    },
+    contactSuggestion: ['[data-e2e-contact-row]'],
+
+    contactRow: [
+        'mws-contact-selector-button',
+        '[data-e2e-contact-row]',
+        '.contact-list-item',
+        'mws-contact-row',
+        '[role="listitem"]',
+        '[role="option"]',
+    ],
+    contactList: ['[role="listbox"]', '.contact-list', 'mws-contact-selector'],
+
+    messageInput: {
+        default: ['[data-e2e-message-input-box]'],
+        locales: {
+            en: ['[contenteditable="true"][aria-label*="message"]'],
+            pt: ['[contenteditable="true"][aria-label*="mensagem"]'],
+        },
+    },
+
+    attachButton: {
+        default: ['[data-e2e-attach-menu-button]'],
+        locales: {
+            en: ['button[aria-label*="Attach"]'],
+            pt: ['button[aria-label*="anexar"]', 'button[aria-label*="Anexar"]'],
+        },
+    },
+    fileInput: ['input[type="file"]'],
+    attachmentPreview: ['[data-e2e-attached-image]', 'img[src*="blob:"]'],
+
+    sendButton: {
+        default: ['[data-e2e-send-text-button]'],
+        locales: {
+            en: ['button[aria-label*="Send"]'],
+            pt: ['button[aria-label*="Enviar"]'],
+        },
+    },
+
+    incomingMessage: [
+        'mws-message-wrapper[data-e2e-incoming]',
+        'mws-message-wrapper[is-outgoing="false"]',
+        'mws-message-wrapper.incoming',
+    ],
+    messageText: ['.text-msg', 'mws-text-message-part', '[data-e2e-text-message-content]'],
+
+    outgoingMessage: [
+        'mws-message-wrapper[data-e2e-outgoing]',
+        'mws-message-wrapper[is-outgoing="true"]',
+        'mws-message-wrapper.outgoing',
+    ],
+    messageTimestamp: ['[data-e2e-message-timestamp]', 'mws-relative-timestamp', 'time'],
+    messageImage: ['mws-image-message-part', 'img'],
+    messageSending: ['[data-e2e-message-status="sending"]', '.message-status-sending'],
+    messageSent: ['[data-e2e-message-status="sent"]', '.message-status-sent'],
+    messageDelivered: ['[data-e2e-message-status="delivered"]', '.message-status-delivered'],
+    messageRead: ['[data-e2e-message-status="read"]', '.message-status-read'],
+    messageError: ['[data-e2e-message-status="failed"]', '.message-status-error', '.error-message'],
+};
+
+/**
+ * Resolve the ordered selector list for an element.
+ * Order: the requested locale's variants, then the defaults, then every
+ * other locale (so an unexpected UI language still has a chance to match).
+ * Keys missing from the profile fall back to the built-in profile.
+ */
+export function resolveSelectorChain(profile: SelectorMap, key: SelectorKey, locale?: string | null): string[] {
+    const chain = profile[key] ?? DEFAULT_SELECTOR_PROFILE[key];
+
+    if (Array.isArray(chain)) return chain;
+
+    const locales = chain.locales || {};
+    const preferred = locale ? locales[locale] || locales[locale.split('-')[0]] || [] : [];
+    const others = Object.entries(locales)
+        .filter(([name]) => !locale || (name !== locale && name !== locale.split('-')[0]))
+        .flatMap(([, selectors]) => selectors);
+
+    return Array.from(new Set([...preferred, ...chain.default, ...others]));
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { isValidTimeZone, isWithinSendWindow, nextWindowOpening, type SendWindow } from './send-window.js';
+
+const business: SendWindow = { start: '09:00', end: '18:00', timezone: 'America/Sao_Paulo', days: [1, 2, 3, 4, 5] };
+const newYork: SendWindow = { start: '08:00', end: '20:00', timezone: 'America/New_York', days: [] };
+const overnight: SendWindow = { start: '22:00', end: '06:00', timezone: 'Europe/Lisbon', days: [5] };
+
+describe('isWithinSendWindow', () => {
+    it.each<[string, SendWindow, string, boolean]>([
+        ['before the start', business, '2024-06-03T11:59:00Z', false],
+        ['at the start', business, '2024-06-03T12:00:00Z', true],
+        ['before the end', business, '2024-06-03T20:59:00Z', true],
+        ['at the end', business, '2024-06-03T21:00:00Z', false],
+        ['on a day not allowed', business, '2024-06-08T15:00:00Z', false],
+        ['in the local day, not the UTC day', business, '2024-06-08T01:00:00Z', false],
+        ['in daylight time', newYork, '2024-07-01T12:00:00Z', true],
+        ['before the start in daylight time', newYork, '2024-07-01T11:59:00Z', false],
+        ['before the start in standard time', newYork, '2024-01-15T12:30:00Z', false],
+        ['overnight, on the day it starts', overnight, '2024-06-07T21:30:00Z', true],
+        ['overnight, after midnight', overnight, '2024-06-08T04:00:00Z', true],
+        ['overnight, the next night', overnight, '2024-06-08T21:30:00Z', false],
+        ['overnight, after midnight before the start day', overnight, '2024-06-07T04:00:00Z', false],
+    ])('%s', (_case, window, now, expected) => {
+        expect(isWithinSendWindow(window, new Date(now))).toBe(expected);
+    });
+
+    it('is always open without times or days', () => {
+        const always: SendWindow = { start: null, end: null, timezone: 'UTC', days: [] };
+        expect(isWithinSendWindow(always, new Date('2024-06-08T03:00:00Z'))).toBe(true);
+    });
+});
+
+describe('nextWindowOpening', () => {
+    it.each<[string, SendWindow, string, string | null]>([
+        ['open now', business, '2024-06-03T15:00:00Z', null],
+        ['later today', business, '2024-06-03T10:00:00Z', '2024-06-03T12:00:00.000Z'],
+        ['Friday evening to Monday', business, '2024-06-07T22:00:00Z', '2024-06-10T12:00:00.000Z'],
+        ['across the spring-forward change', newYork, '2024-03-10T02:00:00Z', '2024-03-10T12:00:00.000Z'],
+        ['across the fall-back change', newYork, '2024-11-03T01:00:00Z', '2024-11-03T13:00:00.000Z'],
+        ['overnight window next week', overnight, '2024-06-08T06:00:00Z', '2024-06-14T21:00:00.000Z'],
+        ['overnight window in winter time', overnight, '2024-12-01T12:00:00Z', '2024-12-06T22:00:00.000Z'],
+    ])('%s', (_case, window, now, expected) => {
+        expect(nextWindowOpening(window, new Date(now))?.toISOString() ?? null).toBe(expected);
+    });
+
+    it('throws when no day is allowed', () => {
+        const never: SendWindow = { ...business, days: [7] };
+        expect(() => nextWindowOpening(never, new Date('2024-06-03T10:00:00Z'))).toThrow('Send window never opens');
+    });
+});
+
+describe('isValidTimeZone', () => {
+    it.each([
+        ['America/Sao_Paulo', true],
+        ['UTC', true],
+        ['Mars/Olympus_Mons', false],
+    ])('%s: %s', (timezone, expected) => {
+        expect(isValidTimeZone(timezone)).toBe(expected);
+    });
+});
@@ -0,0 +1,139 @@
+// ============================================
+// SEND WINDOWS
+// ============================================
+
+export interface SendWindow {
+    // Daily window as HH:MM (a TIME column's HH:MM:SS also works); null = whole day
+    start: string | null;
+    end: string | null;
+    timezone: string;
+    // Allowed days of the week, 0 = Sunday; empty = every day
+    days: number[];
+}
+
+interface ZonedTime {
+    year: number;
+    month: number;
+    day: number;
+    weekday: number;
+    minutes: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MINUTES = 24 * 60;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Check a timezone is a known IANA zone, e.g. America/Sao_Paulo
+ */
+export function isValidTimeZone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            weekday: 'short',
+            hour: 'numeric',
+            minute: 'numeric',
+            hourCycle: 'h23',
+        });
+        formatters.set(timezone, formatter);
+    }
+    return formatter;
+}
+
+function toZonedTime(date: Date, timezone: string): ZonedTime {
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timezone).formatToParts(date)) {
+        parts[part.type] = part.value;
+    }
+
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+        minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+}
+
+/**
+ * Instant at which the wall clock in timezone reads the given local time
+ */
+function fromZonedTime(year: number, month: number, day: number, minutes: number, timezone: string): Date {
+    const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+
+    // Correct by the zone offset twice so DST changes settle
+    let instant = wallClock;
+    for (let i = 0; i < 2; i++) {
+        const zoned = toZonedTime(new Date(instant), timezone);
+        const zonedWallClock = Date.UTC(zoned.year, zoned.month - 1, zoned.day, 0, zoned.minutes);
+        instant += wallClock - zonedWallClock;
+    }
+
+    return new Date(instant);
+}
+
+function parseTime(value: string | null, fallback: number): number {
+    if (!value) return fallback;
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+function isOpenAt(window: SendWindow, zoned: ZonedTime): boolean {
+    const start = parseTime(window.start, 0);
+    const end = parseTime(window.end, DAY_MINUTES);
+    const dayAllowed = (weekday: number) => window.days.length === 0 || window.days.includes((weekday + 7) % 7);
+
+    if (start === end) {
+        return dayAllowed(zoned.weekday);
+    }
+
+    if (start < end) {
+        return dayAllowed(zoned.weekday) && zoned.minutes >= start && zoned.minutes < end;
+    }
+
+    // Overnight window (e.g. 22:00-06:00) belongs to the day it starts on
+    return (zoned.minutes >= start && dayAllowed(zoned.weekday))
+        || (zoned.minutes < end && dayAllowed(zoned.weekday - 1));
+}
+
+/**
+ * Whether messages may be sent at the given instant
+ */
+export function isWithinSendWindow(window: SendWindow, now: Date = new Date()): boolean {
+    return isOpenAt(window, toZonedTime(now, window.timezone));
+}
+
+/**
+ * When the window next opens, or null if it is open now.
+ * Throws if the window never opens (no allowed day).
+ */
+export function nextWindowOpening(window: SendWindow, now: Date = new Date()): Date | null {
+    const today = toZonedTime(now, window.timezone);
+    if (isOpenAt(window, today)) return null;
+
+    const start = parseTime(window.start, 0);
+
+    // The window opens at its start time on the first allowed day ahead
+    for (let offset = 0; offset <= 7; offset++) {
+        const opening = fromZonedTime(today.year, today.month, today.day + offset, start, window.timezone);
+        if (opening > now && isOpenAt(window, toZonedTime(opening, window.timezone))) {
+            return opening;
+        }
+    }
+
+    throw new Error('Send window never opens');
+}
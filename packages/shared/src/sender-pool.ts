@@ -0,0 +1,44 @@
+import type { SenderStrategy } from './types.js';
+
+// ============================================
+// SENDER POOLS
+// ============================================
+
+export interface SenderCandidate {
+    id: string;
+    // Messages already queued or sending on this session
+    load: number;
+}
+
+/**
+ * Build a picker that hands out the session for each next message.
+ * round_robin cycles through the pool in order; least_loaded always picks
+ * the session with the fewest pending messages, counting the ones it has
+ * already handed out, so a busy phone receives fewer new messages.
+ */
+export function createSenderPicker(candidates: SenderCandidate[], strategy: SenderStrategy): () => string {
+    if (candidates.length === 0) {
+        throw new Error('Sender pool is empty');
+    }
+
+    if (strategy === 'least_loaded') {
+        const loads = candidates.map(candidate => ({ ...candidate }));
+
+        return () => {
+            let next = loads[0];
+            for (const candidate of loads) {
+                if (candidate.load < next.load) next = candidate;
+            }
+            next.load++;
+            return next.id;
+        };
+    }
+
+    let index = 0;
+
+    return () => {
+        const id = candidates[index % candidates.length].id;
+        index++;
+        return id;
+    };
+}
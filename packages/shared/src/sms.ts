@@ -0,0 +1,63 @@
+// ============================================
+// SMS ENCODING AND SEGMENTS
+// ============================================
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsInfo {
+    encoding: SmsEncoding;
+    // Characters as the user sees them
+    characters: number;
+    // Septets for GSM-7, UTF-16 code units for UCS-2
+    units: number;
+    segments: number;
+    // Units that fit in each segment at this length
+    unitsPerSegment: number;
+    // Characters that forced UCS-2, without repeats
+    nonGsmCharacters: string[];
+}
+
+// GSM 03.38 default alphabet (without the escape character)
+const GSM_BASIC = new Set(
+    '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+
+// Extension table characters take an escape septet plus their own
+const GSM_EXTENDED = new Set('\f^{}\\[~]|€');
+
+/**
+ * Character set and segment count of a message sent as SMS.
+ * One segment holds 160 GSM-7 septets or 70 UCS-2 units; concatenated
+ * messages lose room to the header, leaving 153 and 67.
+ */
+export function analyzeSms(text: string): SmsInfo {
+    const characters = [...text];
+    const nonGsm = characters.filter(char => !GSM_BASIC.has(char) && !GSM_EXTENDED.has(char));
+
+    if (nonGsm.length > 0) {
+        const units = text.length;
+        const unitsPerSegment = units <= 70 ? 70 : 67;
+
+        return {
+            encoding: 'UCS-2',
+            characters: characters.length,
+            units,
+            segments: Math.ceil(units / unitsPerSegment),
+            unitsPerSegment,
+            nonGsmCharacters: [...new Set(nonGsm)],
+        };
+    }
+
+    const units = characters.reduce((total, char) => total + (GSM_EXTENDED.has(char) ? 2 : 1), 0);
+    const unitsPerSegment = units <= 160 ? 160 : 153;
+
+    return {
+        encoding: 'GSM-7',
+        characters: characters.length,
+        units,
+        segments: Math.ceil(units / unitsPerSegment),
+        unitsPerSegment,
+        nonGsmCharacters: [],
+    };
+}
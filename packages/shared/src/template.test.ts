@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { parseTemplate, renderTemplate, validateTemplate, type TemplateContact } from './template.js';
+
+const contact: TemplateContact = {
+    name: 'Maria Santos',
+    phoneE164: '+5511988887777',
+    customFields: { cupom: 'PROMO10', Cidade: 'Recife', vazio: '  ', vencimento: '2024-03-05', valor: '1234,5' },
+};
+
+const FIELDS = ['cupom', 'cidade', 'vazio', 'vencimento', 'valor'];
+
+function render(source: string, random = 0): string {
+    return renderTemplate(parseTemplate(source, FIELDS), contact, { random: () => random });
+}
+
+describe('renderTemplate', () => {
+    it.each([
+        ['plain text', 'Olá!', 'Olá!'],
+        ['built-in variable', 'Olá {nome}', 'Olá Maria Santos'],
+        ['first name', 'Oi {primeiro_nome}', 'Oi Maria'],
+        ['phone', '{telefone}', '+5511988887777'],
+        ['custom field, any case', '{cidade} / {CIDADE}', 'Recife / Recife'],
+        ['literal braces', '{{nome}}', '{nome}'],
+    ])('renders %s', (_case, source, expected) => {
+        expect(render(source)).toBe(expected);
+    });
+
+    it.each([
+        ['value present', '{cupom|sem cupom}', 'PROMO10'],
+        ['blank value', '{vazio|nada}', 'nada'],
+        ['missing field', '{cidade|x} {apelido:data|hoje}', 'Recife hoje'],
+        ['variable inside the fallback', '{vazio|{primeiro_nome}}', 'Maria'],
+        ['empty fallback', '{vazio|}!', '!'],
+    ])('falls back: %s', (_case, source, expected) => {
+        expect(render(source)).toBe(expected);
+    });
+
+    it.each([
+        ['true branch', '{#if cupom}Use {cupom}{else}Sem cupom{/if}', 'Use PROMO10'],
+        ['else branch on a blank value', '{#if vazio}sim{else}não{/if}', 'não'],
+        ['negated', '{#if !vazio}sem valor{/if}', 'sem valor'],
+        ['no else', 'A{#if apelido}B{/if}C', 'AC'],
+        ['nested', '{#if cupom}{#if cidade}{cidade}{/if}{/if}', 'Recife'],
+    ])('renders conditionals: %s', (_case, source, expected) => {
+        expect(render(source)).toBe(expected);
+    });
+
+    it.each([
+        [0, 'Olá'],
+        [0.5, 'Oi'],
+        [0.99, 'E aí'],
+    ])('picks spintax option for random %s', (random, expected) => {
+        expect(render('{Olá|Oi|E aí}', random)).toBe(expected);
+    });
+
+    it('renders variables inside spintax options', () => {
+        expect(render('{Oi {primeiro_nome}|Olá}', 0)).toBe('Oi Maria');
+    });
+
+    it.each([
+        ['date', '{vencimento:data}', '05/03/2024'],
+        ['long date', '{vencimento:data_extenso}', '5 de março de 2024'],
+        ['currency', '{valor:moeda}', 'R$ 1.234,50'],
+        ['number', '{valor:numero}', '1.234,5'],
+    ])('formats %s', (_case, source, expected) => {
+        expect(render(source)).toBe(expected);
+    });
+});
+
+describe('validateTemplate', () => {
+    it.each([
+        ['{nome', "Unclosed '{'"],
+        ['{}', "Empty '{}'"],
+        ['{#if cupom}sim', 'Missing {/if}'],
+        ['{/if}', "Unexpected '{/if}'"],
+        ['{#each x}', 'Invalid block'],
+        ['{valor:hora}', "Unknown format 'hora'"],
+        ['{olá mundo}', 'Invalid variable'],
+    ])('reports %s', (source, message) => {
+        const result = validateTemplate(source, FIELDS);
+
+        expect(result.valid).toBe(false);
+        expect(result.errors[0].message).toContain(message);
+    });
+
+    it('lists the variables and the unknown ones', () => {
+        const result = validateTemplate('{nome} {#if cupom}{apelido:data}{/if}', FIELDS);
+
+        expect(result.valid).toBe(true);
+        expect(result.variables).toEqual(['nome', 'cupom', 'apelido']);
+        expect(result.unknownVariables).toEqual(['apelido']);
+    });
+});
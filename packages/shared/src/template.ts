@@ -0,0 +1,447 @@
+// ============================================
+// MESSAGE TEMPLATES
+// ============================================
+//
+//   {nome}                    variable (built-in or contact custom field)
+//   {nome|cliente}            fallback when the variable is empty
+//   {vencimento:data}         pt-BR formatting: data, data_extenso, moeda, numero
+//   {#if cupom}...{else}...{/if}  conditional on a non-empty variable ({#if !cupom} negates)
+//   {Olá|Oi|E aí}             spintax: one option picked per message
+//   {{ and }}                 literal braces
+//
+// "{a|b}" is a fallback when "a" is a known variable and spintax otherwise.
+
+export type TemplateFormat = 'data' | 'data_extenso' | 'moeda' | 'numero';
+
+export type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'variable'; name: string; format: TemplateFormat | null; fallback: TemplateNode[] }
+    | { type: 'spin'; options: TemplateNode[][] }
+    | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface TemplateIssue {
+    message: string;
+    // Offset in the template text
+    index: number;
+}
+
+export interface ParsedTemplate {
+    nodes: TemplateNode[];
+    // Variables used, in order of first use
+    variables: string[];
+    errors: TemplateIssue[];
+}
+
+export interface TemplateValidation {
+    // No syntax errors
+    valid: boolean;
+    errors: TemplateIssue[];
+    variables: string[];
+    // Variables that are neither built-in nor a known contact field
+    unknownVariables: string[];
+}
+
+export interface TemplateContact {
+    name: string | null;
+    phoneE164: string;
+    customFields: Record<string, unknown>;
+}
+
+export interface RenderOptions {
+    // Timezone for formatting timestamps; date-only values are not shifted
+    timezone?: string;
+    // Source of randomness for spintax, [0, 1)
+    random?: () => number;
+}
+
+export const TEMPLATE_BUILTIN_VARIABLES = ['nome', 'name', 'primeiro_nome', 'first_name', 'telefone', 'phone'];
+
+export const TEMPLATE_FORMATS: TemplateFormat[] = ['data', 'data_extenso', 'moeda', 'numero'];
+
+const VARIABLE_RE = /^([\p{L}\p{N}_.-]+)(?::([\p{L}_]+))?$/u;
+const CONDITION_RE = /^#if\s+(!?)\s*([\p{L}\p{N}_.-]+)$/u;
+
+type Token =
+    | { type: 'text'; value: string }
+    | { type: 'tag'; inner: string; raw: string; index: number };
+
+interface Block {
+    node: Extract<TemplateNode, { type: 'if' }> | null;
+    nodes: TemplateNode[];
+    inElse: boolean;
+    index: number;
+}
+
+/**
+ * Parse a template against the tenant's contact fields.
+ * Never throws: a malformed tag is kept as literal text and reported in errors.
+ */
+export function parseTemplate(source: string, fields: string[] = []): ParsedTemplate {
+    const known = new Set([...TEMPLATE_BUILTIN_VARIABLES, ...fields.map(field => field.toLowerCase())]);
+    const variables = new Map<string, string>();
+    const errors: TemplateIssue[] = [];
+
+    const nodes = parseNodes(source, 0, known, variables, errors);
+
+    return { nodes, variables: [...variables.values()], errors: errors.sort((a, b) => a.index - b.index) };
+}
+
+/**
+ * Check a template's syntax and that its variables exist for the tenant
+ */
+export function validateTemplate(source: string, fields: string[] = []): TemplateValidation {
+    const { variables, errors } = parseTemplate(source, fields);
+    const known = new Set([...TEMPLATE_BUILTIN_VARIABLES, ...fields.map(field => field.toLowerCase())]);
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        variables,
+        unknownVariables: variables.filter(variable => !known.has(variable.toLowerCase())),
+    };
+}
+
+/**
+ * Render a parsed template for one contact
+ */
+export function renderTemplate(template: ParsedTemplate, contact: TemplateContact, options: RenderOptions = {}): string {
+    return renderNodes(template.nodes, contact, options);
+}
+
+/**
+ * Format a value the way {value:format} renders it; values that are not a
+ * date or number are returned as they are
+ */
+export function formatTemplateValue(value: unknown, format: TemplateFormat, timezone = 'America/Sao_Paulo'): string {
+    switch (format) {
+        case 'data':
+        case 'data_extenso': {
+            const date = toDate(value);
+            if (!date) return String(value);
+
+            return new Intl.DateTimeFormat('pt-BR', {
+                dateStyle: format === 'data' ? 'short' : 'long',
+                timeZone: date.dateOnly ? 'UTC' : timezone,
+            }).format(date.value);
+        }
+        case 'moeda':
+        case 'numero': {
+            const number = toNumber(value);
+            if (number === null) return String(value);
+
+            const formatted = new Intl.NumberFormat('pt-BR', format === 'moeda'
+                ? { style: 'currency', currency: 'BRL' }
+                : { maximumFractionDigits: 2 }
+            ).format(number);
+
+            // Intl separates "R$" with a no-break space, which is not in the GSM-7 charset
+            return formatted.replace(/\u00a0/g, ' ');
+        }
+    }
+}
+
+function parseNodes(
+    source: string,
+    offset: number,
+    known: Set<string>,
+    variables: Map<string, string>,
+    errors: TemplateIssue[]
+): TemplateNode[] {
+    const root: Block = { node: null, nodes: [], inElse: false, index: offset };
+    const stack: Block[] = [root];
+    const current = () => stack[stack.length - 1];
+
+    const push = (node: TemplateNode) => {
+        const nodes = current().nodes;
+        const last = nodes[nodes.length - 1];
+
+        // Merge adjacent text so rendering stays cheap
+        if (node.type === 'text' && last?.type === 'text') {
+            last.value += node.value;
+        } else {
+            nodes.push(node);
+        }
+    };
+
+    const useVariable = (name: string) => {
+        if (!variables.has(name.toLowerCase())) variables.set(name.toLowerCase(), name);
+    };
+
+    for (const token of tokenize(source, offset, errors)) {
+        if (token.type === 'text') {
+            push(token);
+            continue;
+        }
+
+        const inner = token.inner.trim();
+
+        const condition = inner.match(CONDITION_RE);
+        if (condition) {
+            useVariable(condition[2]);
+            const node: Extract<TemplateNode, { type: 'if' }> = {
+                type: 'if',
+                name: condition[2],
+                negate: condition[1] === '!',
+                then: [],
+                otherwise: [],
+            };
+            push(node);
+            stack.push({ node, nodes: node.then, inElse: false, index: token.index });
+            continue;
+        }
+
+        if (inner === 'else' || inner === '/if') {
+            const block = current();
+
+            if (!block.node || (inner === 'else' && block.inElse)) {
+                errors.push({ message: `Unexpected '${token.raw}'`, index: token.index });
+                push({ type: 'text', value: token.raw });
+            } else if (inner === 'else') {
+                block.inElse = true;
+                block.nodes = block.node.otherwise;
+            } else {
+                stack.pop();
+            }
+            continue;
+        }
+
+        if (inner.startsWith('#')) {
+            errors.push({ message: `Invalid block '${token.raw}', expected {#if variable}`, index: token.index });
+            push({ type: 'text', value: token.raw });
+            continue;
+        }
+
+        const parts = splitOptions(token.inner);
+        const variable = parts[0].trim().match(VARIABLE_RE);
+
+        if (parts.length === 1 && !variable) {
+            errors.push({ message: `Invalid variable '${token.raw}' (use {{ and }} for literal braces)`, index: token.index });
+            push({ type: 'text', value: token.raw });
+            continue;
+        }
+
+        // A formatted or known variable takes the rest as its fallback; anything else is spintax
+        if (variable && (parts.length === 1 || variable[2] || known.has(variable[1].toLowerCase()))) {
+            const format = variable[2] ? variable[2].toLowerCase() : null;
+
+            if (format && !TEMPLATE_FORMATS.includes(format as TemplateFormat)) {
+                errors.push({
+                    message: `Unknown format '${variable[2]}', expected one of ${TEMPLATE_FORMATS.join(', ')}`,
+                    index: token.index,
+                });
+                push({ type: 'text', value: token.raw });
+                continue;
+            }
+
+            useVariable(variable[1]);
+
+            const fallbackStart = token.inner.indexOf('|');
+            push({
+                type: 'variable',
+                name: variable[1],
+                format: format as TemplateFormat | null,
+                fallback: fallbackStart === -1
+                    ? []
+                    : parseNodes(token.inner.slice(fallbackStart + 1), token.index + 1 + fallbackStart + 1, known, variables, errors),
+            });
+            continue;
+        }
+
+        let optionStart = token.index + 1;
+        push({
+            type: 'spin',
+            options: parts.map(part => {
+                const nodes = parseNodes(part, optionStart, known, variables, errors);
+                optionStart += part.length + 1;
+                return nodes;
+            }),
+        });
+    }
+
+    for (const block of stack.slice(1)) {
+        errors.push({ message: 'Missing {/if}', index: block.index });
+    }
+
+    return root.nodes;
+}
+
+/**
+ * Split text into literal runs and {tags}, matching nested braces
+ */
+function tokenize(source: string, offset: number, errors: TemplateIssue[]): Token[] {
+    const tokens: Token[] = [];
+    let text = '';
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+
+        if ((char === '{' || char === '}') && source[i + 1] === char) {
+            text += char;
+            i += 2;
+            continue;
+        }
+
+        if (char !== '{') {
+            text += char;
+            i++;
+            continue;
+        }
+
+        let depth = 0;
+        let end = -1;
+        for (let j = i; j < source.length; j++) {
+            if (source[j] === '{') depth++;
+            if (source[j] === '}' && --depth === 0) {
+                end = j;
+                break;
+            }
+        }
+
+        if (end === -1) {
+            errors.push({ message: "Unclosed '{'", index: offset + i });
+            text += source.slice(i);
+            break;
+        }
+
+        const inner = source.slice(i + 1, end);
+        if (inner.trim() === '') {
+            errors.push({ message: "Empty '{}'", index: offset + i });
+            text += source.slice(i, end + 1);
+        } else {
+            if (text) tokens.push({ type: 'text', value: text });
+            text = '';
+            tokens.push({ type: 'tag', inner, raw: source.slice(i, end + 1), index: offset + i });
+        }
+
+        i = end + 1;
+    }
+
+    if (text) tokens.push({ type: 'text', value: text });
+
+    return tokens;
+}
+
+/**
+ * Split a tag's contents on the '|' that are not inside nested braces
+ */
+function splitOptions(inner: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < inner.length; i++) {
+        if (inner[i] === '{') depth++;
+        if (inner[i] === '}') depth--;
+        if (inner[i] === '|' && depth === 0) {
+            parts.push(inner.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(inner.slice(start));
+
+    return parts;
+}
+
+function renderNodes(nodes: TemplateNode[], contact: TemplateContact, options: RenderOptions): string {
+    let output = '';
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.value;
+                break;
+            case 'variable': {
+                const value = lookup(contact, node.name);
+                output += isEmpty(value)
+                    ? renderNodes(node.fallback, contact, options)
+                    : node.format
+                        ? formatTemplateValue(value, node.format, options.timezone)
+                        : String(value);
+                break;
+            }
+            case 'spin': {
+                const random = options.random ?? Math.random;
+                const option = node.options[Math.min(node.options.length - 1, Math.floor(random() * node.options.length))];
+                output += renderNodes(option, contact, options);
+                break;
+            }
+            case 'if': {
+                const value = lookup(contact, node.name);
+                const truthy = !isEmpty(value) && value !== false;
+                output += renderNodes(truthy !== node.negate ? node.then : node.otherwise, contact, options);
+                break;
+            }
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Value of a variable for the contact; built-ins win over custom fields,
+ * and custom field names are matched case-insensitively
+ */
+function lookup(contact: TemplateContact, name: string): unknown {
+    switch (name.toLowerCase()) {
+        case 'nome':
+        case 'name':
+            return contact.name;
+        case 'primeiro_nome':
+        case 'first_name':
+            return contact.name?.trim().split(/\s+/)[0] || null;
+        case 'telefone':
+        case 'phone':
+            return contact.phoneE164;
+    }
+
+    const key = Object.keys(contact.customFields).find(field => field.toLowerCase() === name.toLowerCase());
+    return key === undefined ? null : contact.customFields[key];
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === null || value === undefined || String(value).trim() === '';
+}
+
+/**
+ * Read a date from a Date, an ISO string or a pt-BR dd/mm/yyyy string.
+ * Date-only values are flagged so they are not shifted by the timezone.
+ */
+function toDate(value: unknown): { value: Date; dateOnly: boolean } | null {
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : { value, dateOnly: false };
+    }
+    if (typeof value !== 'string') return null;
+
+    const text = value.trim();
+
+    const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (iso) return { value: new Date(Date.UTC(+iso[1], +iso[2] - 1, +iso[3])), dateOnly: true };
+
+    const br = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (br) return { value: new Date(Date.UTC(+br[3], +br[2] - 1, +br[1])), dateOnly: true };
+
+    // Only full ISO timestamps; Date.parse accepts too much else
+    if (!/^\d{4}-\d{2}-\d{2}T/.test(text)) return null;
+
+    const timestamp = Date.parse(text);
+    return isNaN(timestamp) ? null : { value: new Date(timestamp), dateOnly: false };
+}
+
+/**
+ * Read a number from a number or a string in either "1234.5" or pt-BR "1.234,50" form
+ */
+function toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+
+    let text = value.trim().replace(/^R\$\s*/, '');
+    if (text === '') return null;
+
+    if (text.includes(',')) {
+        text = text.replace(/\./g, '').replace(',', '.');
+    }
+
+    const number = Number(text);
+    return isFinite(number) ? number : null;
+}
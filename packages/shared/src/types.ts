@@ -1,3 +1,7 @@
+import type { SelectorMap } from './selectors.js';
+import type { SmsInfo } from './sms.js';
+import type { TemplateIssue } from './template.js';
+
 // ============================================
 // BASE TYPES
 // ============================================
@@ -62,14 +66,32 @@ export interface JwtPayload {
 export type SessionStatus = 'connected' | 'disconnected' | 'needs-qr' | 'error';
 
 export interface Session extends TenantEntity {
+    name: string;
     status: SessionStatus;
     qrCode: string | null;
     lastSeenAt: Date | null;
     storagePath: string | null;
     errorMessage: string | null;
+    // Send caps for the phone; null uses the worker default
+    maxPerMinute: number | null;
+    maxPerHour: number | null;
+    maxPerDay: number | null;
     updatedAt: Date;
 }
 
+// ============================================
+// SELECTOR PROFILE
+// ============================================
+
+export interface SelectorProfile extends TenantEntity {
+    name: string;
+    version: number;
+    selectors: SelectorMap;
+    notes: string | null;
+    isActive: boolean;
+    createdBy: string | null;
+}
+
 // ============================================
 // CONTACT
 // ============================================
@@ -84,6 +106,101 @@ export interface Contact extends TenantEntity {
     updatedAt: Date;
 }
 
+export type ContactImportFormat = 'csv' | 'xlsx';
+export type ContactImportStatus = 'uploaded' | 'queued' | 'processing' | 'completed' | 'failed';
+
+// Which file column (by position) fills each contact field
+export interface ContactImportMapping {
+    phone: number;
+    name: number | null;
+    tags: number | null;
+    // Splits the tags column into several tags
+    tagSeparator: string;
+    customFields: { column: number; field: string }[];
+    // Added to every imported contact
+    defaultTags: string[];
+    // When false, contacts that already exist are left as they are
+    updateExisting: boolean;
+}
+
+export interface ContactImport extends TenantEntity {
+    filename: string;
+    format: ContactImportFormat;
+    // Detected for CSV files
+    encoding: string | null;
+    delimiter: string | null;
+    // Header row of the file
+    columns: string[];
+    mapping: ContactImportMapping | null;
+    status: ContactImportStatus;
+    sizeBytes: number;
+    // File bytes read so far, for progress
+    bytesProcessed: number;
+    processedRows: number;
+    createdCount: number;
+    updatedCount: number;
+    skippedCount: number;
+    errorCount: number;
+    error: string | null;
+    createdBy: string | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
+}
+
+export type ContactBulkAction = 'add_tags' | 'remove_tags' | 'set_custom_fields' | 'opt_out' | 'opt_in' | 'delete';
+export type ContactBulkOperationStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+// Contacts chosen by ID, or every contact matching the list filters when it runs
+export type ContactBulkSelection =
+    | { contactIds: string[] }
+    | { filter: { search?: string; tags?: string[]; optedOut?: boolean } };
+
+export interface ContactBulkOperation extends TenantEntity {
+    action: ContactBulkAction;
+    // tags for add_tags/remove_tags, customFields for set_custom_fields
+    params: { tags?: string[]; customFields?: Record<string, unknown> };
+    selection: ContactBulkSelection;
+    status: ContactBulkOperationStatus;
+    // Contacts selected when the operation was created
+    totalCount: number;
+    processedCount: number;
+    // Contacts actually changed; already tagged or opted out ones are not
+    affectedCount: number;
+    error: string | null;
+    createdBy: string | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
+}
+
+// ============================================
+// SEGMENTS
+// ============================================
+
+export type SegmentFieldOperator = 'eq' | 'neq' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists' | 'not_exists';
+export type SegmentCampaignEvent = 'received' | 'delivered' | 'read' | 'replied';
+
+export type SegmentRule =
+    | { type: 'tags'; match: 'all' | 'any' | 'none'; tags: string[] }
+    // Numbers compare numerically, strings as text
+    | { type: 'field'; field: string; operator: SegmentFieldOperator; value?: string | number }
+    | { type: 'created_at'; after?: string; before?: string }
+    | { type: 'opted_out'; value: boolean }
+    // Without campaignId, any campaign; negate for "did not"
+    | { type: 'campaign'; campaignId?: string; event: SegmentCampaignEvent; negate?: boolean };
+
+export interface SegmentDefinition {
+    match: 'all' | 'any';
+    rules: SegmentRule[];
+}
+
+export interface Segment extends TenantEntity {
+    name: string;
+    description: string | null;
+    definition: SegmentDefinition;
+    createdBy: string | null;
+    updatedAt: Date;
+}
+
 // ============================================
 // MEDIA
 // ============================================
@@ -99,28 +216,72 @@ export interface Media extends TenantEntity {
     height: number | null;
 }
 
+// ============================================
+// TEMPLATES
+// ============================================
+
+export interface MessageTemplate extends TenantEntity {
+    name: string;
+    bodyText: string;
+    mediaId: string | null;
+    tags: string[];
+    // Current version; every saved body is kept as a TemplateVersion
+    version: number;
+    createdBy: string | null;
+    updatedAt: Date;
+}
+
+export interface TemplateVersion {
+    id: string;
+    templateId: string;
+    version: number;
+    bodyText: string;
+    mediaId: string | null;
+    createdBy: string | null;
+    createdAt: Date;
+}
+
 // ============================================
 // CAMPAIGN
 // ============================================
 
 export type CampaignType = 'text' | 'image';
 export type CampaignStatus = 'draft' | 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled';
+export type SenderStrategy = 'round_robin' | 'least_loaded';
+export type ExpansionStatus = 'pending' | 'expanding' | 'awaiting_winner' | 'done' | 'failed';
+export type WinnerMetric = 'delivered' | 'read' | 'replied';
+export type TagMatch = 'any' | 'all';
 
 export interface Campaign extends TenantEntity {
     name: string;
     type: CampaignType;
     templateText: string | null;
     mediaId: string | null;
+    // Library template the text was copied from
+    templateId: string | null;
+    templateVersion: number | null;
 
     // Targeting
     targetTags: string[];
     targetAll: boolean;
+    targetTagsMatch: TagMatch;
+    // Saved segment the audience must also match, evaluated at launch
+    segmentId: string | null;
+    // Exclusions
+    excludeTags: string[];
+    excludeMessagedDays: number | null;
+    excludeCampaignIds: string[];
+
+    // Sender pool (empty = every connected session)
+    senderPool: string[];
+    senderStrategy: SenderStrategy;
 
     // Scheduling
     scheduleAt: Date | null;
     windowStart: string | null; // TIME as string HH:MM
     windowEnd: string | null;
     timezone: string;
+    windowDays: number[]; // 0 = Sunday; empty = every day
 
     // Throttling
     throttleMinDelayMs: number;
@@ -132,20 +293,145 @@ export interface Campaign extends TenantEntity {
     totalRecipients: number;
     sentCount: number;
     failedCount: number;
+    deliveredCount: number;
+    readCount: number;
+    cancelledCount: number;
+    // Over the tenant's frequency cap
+    skippedCount: number;
+    // Set while messages are held outside the send window
+    windowOpensAt: Date | null;
+    // Why the scheduled launch failed
+    launchError: string | null;
+    finalReport: CampaignReport | null;
+
+    // Background expansion of the audience into messages
+    expansionStatus: ExpansionStatus | null;
+    expandedCount: number;
+    expansionError: string | null;
+
+    // A/B test: only abTestPercent of the audience is split between the
+    // variants until the winner is promoted to the rest
+    abAutoPromote: boolean;
+    abTestPercent: number;
+    abWinnerMetric: WinnerMetric;
+    abWaitMinutes: number;
+    abDecideAt: Date | null;
+    abPromotedAt: Date | null;
 
     startedAt: Date | null;
     completedAt: Date | null;
     updatedAt: Date;
 }
 
+// Who a campaign sends to, as compiled by compileAudience
+export interface CampaignTarget {
+    // Every contact, ignoring targetTags
+    targetAll: boolean;
+    targetTags: string[];
+    targetTagsMatch: TagMatch;
+    excludeTags: string[];
+    // Leave out contacts sent any message in this many days
+    excludeMessagedDays: number | null;
+    // Leave out contacts with a message from these campaigns
+    excludeCampaignIds: string[];
+    segment: SegmentDefinition | null;
+}
+
+// Contacts the targeting includes and how many each exclusion removes;
+// a contact can be removed by more than one
+export interface AudienceCount {
+    audience: number;
+    included: number;
+    excluded: {
+        optedOut: number;
+        tags: number;
+        recentlyMessaged: number;
+        otherCampaigns: number;
+    };
+}
+
+// Summary written when a campaign is cancelled, counted from its messages
+export interface CampaignReport {
+    recipients: number;
+    sent: number;
+    delivered: number;
+    read: number;
+    failed: number;
+    cancelled: number;
+    // Over the tenant's frequency cap
+    skipped: number;
+    // Still being sent; the report is updated as these finish
+    inFlight: number;
+    // Recipients who opted out after the campaign started
+    optedOut: number;
+    // Counter drift fixed by the reconciliation (actual - recorded)
+    corrections: {
+        sent: number;
+        delivered: number;
+        read: number;
+        failed: number;
+        cancelled: number;
+        skipped: number;
+    };
+    generatedAt: string;
+}
+
+export interface CampaignVariant {
+    id: string;
+    campaignId: string;
+    label: string;
+    // Null falls back to the campaign's text or media
+    templateText: string | null;
+    mediaId: string | null;
+    weight: number;
+    isWinner: boolean;
+    createdAt: Date;
+}
+
+export interface VariantStats {
+    variantId: string;
+    label: string;
+    weight: number;
+    isWinner: boolean;
+    messages: number;
+    sent: number;
+    delivered: number;
+    read: number;
+    failed: number;
+    replied: number;
+    // Over sent messages
+    deliveredRate: number;
+    readRate: number;
+    repliedRate: number;
+}
+
+// A campaign message rendered for one contact before launch
+export interface MessagePreview {
+    contactId: string;
+    name: string | null;
+    phoneE164: string;
+    // Whether the campaign's targeting includes this contact
+    targeted: boolean;
+    bodyText: string;
+    sms: SmsInfo;
+}
+
+export interface CampaignPreview {
+    // Contacts the campaign would send to
+    audience: number;
+    samples: MessagePreview[];
+    errors: TemplateIssue[];
+}
+
 // ============================================
 // MESSAGE
 // ============================================
 
-export type MessageStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'failed' | 'cancelled';
+export type MessageStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'read' | 'failed' | 'cancelled' | 'skipped';
 
 export interface Message extends TenantEntity {
     campaignId: string | null;
+    sessionId: string | null;
     contactId: string | null;
     phoneE164: string;
 
@@ -164,6 +450,31 @@ export interface Message extends TenantEntity {
     queuedAt: Date;
     sentAt: Date | null;
     deliveredAt: Date | null;
+    readAt: Date | null;
+}
+
+// ============================================
+// CONVERSATION (two-way inbox)
+// ============================================
+
+export interface Conversation extends TenantEntity {
+    sessionId: string | null;
+    contactId: string | null;
+    phoneE164: string;
+    externalId: string | null;
+    lastMessageAt: Date | null;
+    lastMessagePreview: string | null;
+    unreadCount: number;
+    updatedAt: Date;
+}
+
+export interface InboundMessage extends TenantEntity {
+    conversationId: string;
+    contactId: string | null;
+    phoneE164: string;
+    bodyText: string | null;
+    receivedAt: Date;
+    readAt: Date | null;
 }
 
 // ============================================
@@ -188,6 +499,7 @@ export interface SendTextJob {
     type: 'send_text';
     messageId: string;
     tenantId: string;
+    sessionId: string;
     phoneE164: string;
     bodyText: string;
 }
@@ -196,6 +508,7 @@ export interface SendImageJob {
     type: 'send_image';
     messageId: string;
     tenantId: string;
+    sessionId: string;
     phoneE164: string;
     mediaUrl: string;
     bodyText: string | null;
@@ -204,6 +517,31 @@ export interface SendImageJob {
 
 export type MessageJob = SendTextJob | SendImageJob;
 
+export interface ExpandCampaignJob {
+    tenantId: string;
+    campaignId: string;
+}
+
+export interface ImportContactsJob {
+    tenantId: string;
+    importId: string;
+}
+
+export interface BulkContactsJob {
+    tenantId: string;
+    operationId: string;
+}
+
+export interface PollReceiptsJob {
+    tenantId: string;
+    sessionId: string;
+}
+
+export interface CaptureInboundJob {
+    tenantId: string;
+    sessionId: string;
+}
+
 // ============================================
 // API RESPONSES
 // ============================================
@@ -232,26 +570,36 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     owner: ['*'], // All permissions
     admin: [
         'users:read', 'users:write', 'users:delete',
-        'contacts:read', 'contacts:write', 'contacts:delete', 'contacts:import',
+        'contacts:read', 'contacts:write', 'contacts:delete', 'contacts:import', 'contacts:export',
+        'segments:read', 'segments:write', 'segments:delete',
         'campaigns:read', 'campaigns:write', 'campaigns:delete', 'campaigns:start',
+        'templates:read', 'templates:write', 'templates:delete',
         'media:read', 'media:write', 'media:delete',
         'sessions:read', 'sessions:write',
+        'selectors:read', 'selectors:write',
         'messages:read',
+        'conversations:read', 'conversations:reply',
         'audit:read',
     ],
     operator: [
         'contacts:read', 'contacts:write', 'contacts:import',
+        'segments:read', 'segments:write',
         'campaigns:read', 'campaigns:write', 'campaigns:start',
+        'templates:read', 'templates:write',
         'media:read', 'media:write',
         'sessions:read',
         'messages:read',
+        'conversations:read', 'conversations:reply',
     ],
     viewer: [
         'contacts:read',
+        'segments:read',
         'campaigns:read',
+        'templates:read',
         'media:read',
         'sessions:read',
         'messages:read',
+        'conversations:read',
     ],
 };
 
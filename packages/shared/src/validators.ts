@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { SELECTOR_KEYS } from './selectors.js';
+import { isValidTimeZone } from './send-window.js';
+import { parseTemplate } from './template.js';
+import { isPhoneCountry, normalizePhone } from './phone.js';
 
 // ============================================
 // COMMON VALIDATORS
@@ -8,6 +12,21 @@ import { z } from 'zod';
 export const phoneE164Schema = z.string()
     .regex(/^\+[1-9]\d{6,14}$/, 'Invalid E.164 phone number format. Must start with + followed by 7-15 digits.');
 
+/**
+ * A phone number in any common notation, normalized to E.164 with the
+ * tenant's default country; numbers that cannot receive SMS are rejected
+ */
+export function phoneNumberSchema(defaultCountry: string) {
+    return z.string().trim().min(1, 'Phone number is required').max(40).transform((value, ctx) => {
+        const phone = normalizePhone(value, defaultCountry);
+        if (!phone.valid) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: phone.error });
+            return z.NEVER;
+        }
+        return phone.phoneE164;
+    });
+}
+
 export const emailSchema = z.string().email('Invalid email address');
 
 export const passwordSchema = z.string()
@@ -55,6 +74,36 @@ export const createTenantSchema = z.object({
 
 export const updateTenantSchema = createTenantSchema.partial();
 
+export const optOutSettingsSchema = z.object({
+    enabled: z.boolean().default(true),
+    keywords: z.array(z.string().trim().min(1).max(50)).min(1, 'At least one keyword is required').max(50),
+    confirmationText: z.string().trim().max(500).nullable().default(null),
+});
+
+export const frequencyCapSettingsSchema = z.object({
+    maxPerDay: z.number().int().min(1).max(100).nullable().default(null),
+    maxPerWeek: z.number().int().min(1).max(500).nullable().default(null),
+}).refine(
+    caps => caps.maxPerDay === null || caps.maxPerWeek === null || caps.maxPerWeek >= caps.maxPerDay,
+    { message: 'The weekly cap cannot be lower than the daily cap', path: ['maxPerWeek'] }
+);
+
+export const phoneSettingsSchema = z.object({
+    defaultCountry: z.string().trim().toUpperCase().refine(isPhoneCountry, 'Unsupported country code'),
+});
+
+export const fakeDriverSettingsSchema = z.object({
+    successRate: z.number().min(0).max(1).optional(),
+    imageSuccessRate: z.number().min(0).max(1).optional(),
+    latencyMs: z.number().int().min(0).max(60000).optional(),
+    seed: z.number().int().optional(),
+    qrPolls: z.number().int().min(0).max(100).optional(),
+    contacts: z.array(z.object({
+        name: z.string().max(255),
+        phone: z.string().max(30),
+    })).max(1000).optional(),
+});
+
 // ============================================
 // USER SCHEMAS
 // ============================================
@@ -81,17 +130,38 @@ export const changePasswordSchema = z.object({
 });
 
 // ============================================
-// CONTACT SCHEMAS
+// SESSION SCHEMAS
 // ============================================
 
-export const createContactSchema = z.object({
-    phoneE164: phoneE164Schema,
-    name: z.string().max(255).optional(),
-    tags: z.array(z.string()).default([]),
-    customFields: z.record(z.unknown()).optional(),
+export const createSessionSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+});
+
+export const updateSessionSchema = z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    // null falls back to the worker default
+    maxPerMinute: z.number().int().min(1).max(60).nullable().optional(),
+    maxPerHour: z.number().int().min(1).max(3600).nullable().optional(),
+    maxPerDay: z.number().int().min(1).max(50000).nullable().optional(),
 });
 
-export const updateContactSchema = createContactSchema.partial();
+// ============================================
+// CONTACT SCHEMAS
+// ============================================
+
+// Phone numbers are read with the tenant's default country
+export function createContactSchema(defaultCountry: string) {
+    return z.object({
+        phoneE164: phoneNumberSchema(defaultCountry),
+        name: z.string().max(255).optional(),
+        tags: z.array(z.string()).default([]),
+        customFields: z.record(z.unknown()).optional(),
+    });
+}
+
+export function updateContactSchema(defaultCountry: string) {
+    return createContactSchema(defaultCountry).partial();
+}
 
 export const importContactsSchema = z.object({
     contacts: z.array(z.object({
@@ -103,6 +173,126 @@ export const importContactsSchema = z.object({
     skipInvalid: z.boolean().default(true),
 });
 
+// Custom field names are also template variables
+export const customFieldNameSchema = z.string().trim().min(1).max(64)
+    .regex(/^[\p{L}\p{N}_.-]+$/u, 'Field names may only contain letters, numbers, "_", "." and "-"');
+
+const importColumnSchema = z.number().int().min(0);
+
+export const contactImportMappingSchema = z.object({
+    phone: importColumnSchema,
+    name: importColumnSchema.nullable().default(null),
+    tags: importColumnSchema.nullable().default(null),
+    tagSeparator: z.string().min(1).max(3).default(','),
+    customFields: z.array(z.object({
+        column: importColumnSchema,
+        field: customFieldNameSchema,
+    })).max(50).default([]),
+    defaultTags: z.array(z.string().trim().min(1).max(50)).max(20).default([]),
+    updateExisting: z.boolean().default(true),
+}).superRefine((mapping, ctx) => {
+    const fields = mapping.customFields.map(custom => custom.field.toLowerCase());
+    const duplicate = fields.find((field, i) => fields.indexOf(field) !== i);
+    if (duplicate) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Field "${duplicate}" is mapped twice`, path: ['customFields'] });
+    }
+});
+
+const bulkContactSelection = {
+    contactIds: z.array(uuidSchema).min(1).max(10000).optional(),
+    filter: z.object({
+        search: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+        optedOut: z.boolean().optional(),
+    }).optional(),
+    // Needed to delete with an empty filter, which selects every contact
+    confirmAll: z.literal(true).optional(),
+};
+
+const bulkTagsSchema = z.array(z.string().trim().min(1).max(50)).min(1).max(20);
+
+// Either contactIds or filter; an empty filter selects every contact
+export const bulkContactActionSchema = z.discriminatedUnion('action', [
+    z.object({ action: z.literal('add_tags'), tags: bulkTagsSchema, ...bulkContactSelection }),
+    z.object({ action: z.literal('remove_tags'), tags: bulkTagsSchema, ...bulkContactSelection }),
+    z.object({
+        action: z.literal('set_custom_fields'),
+        // null removes the field
+        customFields: z.record(customFieldNameSchema, z.unknown()).refine(
+            fields => Object.keys(fields).length > 0,
+            'At least one custom field is required'
+        ),
+        ...bulkContactSelection,
+    }),
+    z.object({ action: z.literal('opt_out'), ...bulkContactSelection }),
+    z.object({ action: z.literal('opt_in'), ...bulkContactSelection }),
+    z.object({ action: z.literal('delete'), ...bulkContactSelection }),
+]).refine(
+    body => (body.contactIds === undefined) !== (body.filter === undefined),
+    { message: 'Provide either contactIds or filter', path: ['contactIds'] }
+);
+
+export const syncContactsSchema = z.object({
+    sessionId: uuidSchema.optional(),
+});
+
+// ============================================
+// SEGMENT SCHEMAS
+// ============================================
+
+export const segmentRuleSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('tags'),
+        match: z.enum(['all', 'any', 'none']),
+        tags: z.array(z.string().trim().min(1)).min(1),
+    }),
+    z.object({
+        type: z.literal('field'),
+        field: z.string().trim().min(1).max(100),
+        operator: z.enum(['eq', 'neq', 'contains', 'gt', 'gte', 'lt', 'lte', 'exists', 'not_exists']),
+        value: z.union([z.string(), z.number()]).optional(),
+    }),
+    z.object({
+        type: z.literal('created_at'),
+        after: z.string().datetime().optional(),
+        before: z.string().datetime().optional(),
+    }),
+    z.object({
+        type: z.literal('opted_out'),
+        value: z.boolean(),
+    }),
+    z.object({
+        type: z.literal('campaign'),
+        campaignId: uuidSchema.optional(),
+        event: z.enum(['received', 'delivered', 'read', 'replied']),
+        negate: z.boolean().default(false),
+    }),
+]).superRefine((rule, ctx) => {
+    if (rule.type === 'field' && !['exists', 'not_exists'].includes(rule.operator) && rule.value === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Operator '${rule.operator}' needs a value` });
+    }
+    if (rule.type === 'created_at' && !rule.after && !rule.before) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Give a start or an end date' });
+    }
+});
+
+export const segmentDefinitionSchema = z.object({
+    match: z.enum(['all', 'any']).default('all'),
+    rules: z.array(segmentRuleSchema).max(20).default([]),
+});
+
+export const createSegmentSchema = z.object({
+    name: z.string().trim().min(2).max(255),
+    description: z.string().max(1000).optional().nullable(),
+    definition: segmentDefinitionSchema,
+});
+
+export const updateSegmentSchema = createSegmentSchema.partial();
+
+export const countSegmentSchema = z.object({
+    definition: segmentDefinitionSchema,
+});
+
 // ============================================
 // MEDIA SCHEMAS
 // ============================================
@@ -119,31 +309,127 @@ export const uploadMediaSchema = z.object({
 
 export const campaignTypeSchema = z.enum(['text', 'image']);
 export const campaignStatusSchema = z.enum(['draft', 'scheduled', 'running', 'paused', 'completed', 'cancelled']);
+export const senderStrategySchema = z.enum(['round_robin', 'least_loaded']);
+
+// Syntax only; unknown variables depend on the tenant's contacts
+export const templateTextSchema = z.string().superRefine((text, ctx) => {
+    const [error] = parseTemplate(text).errors;
+    if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${error.message} at position ${error.index}` });
+    }
+});
+
+export const tagMatchSchema = z.enum(['any', 'all']);
+export const winnerMetricSchema = z.enum(['delivered', 'read', 'replied']);
+
+// Text and media left out fall back to the campaign's own
+export const campaignVariantSchema = z.object({
+    label: z.string().trim().min(1).max(20),
+    templateText: templateTextSchema.optional().nullable(),
+    mediaId: uuidSchema.optional().nullable(),
+    weight: z.number().int().min(1).max(100),
+});
+
+export const campaignVariantsSchema = z.array(campaignVariantSchema).max(5)
+    .refine(variants => variants.length !== 1, 'An A/B test needs at least two variants')
+    .refine(
+        variants => variants.length === 0 || variants.reduce((total, variant) => total + variant.weight, 0) === 100,
+        'Variant weights must add up to 100'
+    )
+    .refine(
+        variants => new Set(variants.map(variant => variant.label.toLowerCase())).size === variants.length,
+        'Variant labels must be unique'
+    );
 
 export const createCampaignSchema = z.object({
     name: z.string().min(2).max(255),
     type: campaignTypeSchema,
-    templateText: z.string().optional(),
+    templateText: templateTextSchema.optional(),
     mediaId: uuidSchema.optional().nullable(),
+    // Copy text and media from a library template (latest version unless given)
+    templateId: uuidSchema.optional().nullable(),
+    templateVersion: z.number().int().min(1).optional(),
 
     // Targeting
     targetTags: z.array(z.string()).default([]),
     targetAll: z.boolean().default(true),
+    targetTagsMatch: tagMatchSchema.default('any'),
+    // Saved segment the audience must also match
+    segmentId: uuidSchema.optional().nullable(),
+    // Exclusions
+    excludeTags: z.array(z.string()).default([]),
+    excludeMessagedDays: z.number().int().min(1).max(365).optional().nullable(),
+    excludeCampaignIds: z.array(uuidSchema).max(50).default([]),
+
+    // Sender pool (empty = every connected session)
+    senderPool: z.array(uuidSchema).default([]),
+    senderStrategy: senderStrategySchema.default('round_robin'),
 
     // Scheduling
     scheduleAt: z.string().datetime().optional().nullable(),
     windowStart: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Invalid time format (HH:MM)').optional().nullable(),
     windowEnd: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Invalid time format (HH:MM)').optional().nullable(),
-    timezone: z.string().default('UTC'),
+    timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').default('UTC'),
+    // Days of the week the window applies to, 0 = Sunday (empty = every day)
+    windowDays: z.array(z.number().int().min(0).max(6)).default([]),
 
     // Throttling
     throttleMinDelayMs: z.number().min(1000).max(60000).default(3000),
     throttleMaxDelayMs: z.number().min(1000).max(120000).default(8000),
     maxPerMinute: z.number().min(1).max(60).default(10),
+
+    // A/B test (no variants = a single message)
+    variants: campaignVariantsSchema.optional(),
+    abAutoPromote: z.boolean().default(false),
+    abTestPercent: z.number().int().min(1).max(100).default(20),
+    abWinnerMetric: winnerMetricSchema.default('replied'),
+    abWaitMinutes: z.number().int().min(0).max(7 * 24 * 60).default(60),
 });
 
-export const updateCampaignSchema = createCampaignSchema.partial().extend({
-    status: campaignStatusSchema.optional(),
+// Status only changes through start/pause/resume/cancel
+export const updateCampaignSchema = createCampaignSchema.partial();
+
+export const validateTemplateSchema = z.object({
+    templateText: z.string(),
+});
+
+// Unsaved edits override the campaign's own targeting
+export const campaignAudienceSchema = createCampaignSchema.pick({
+    targetAll: true,
+    targetTags: true,
+    targetTagsMatch: true,
+    segmentId: true,
+    excludeTags: true,
+    excludeMessagedDays: true,
+    excludeCampaignIds: true,
+}).partial();
+
+// Unsaved edits override the campaign's own template and targeting
+export const previewCampaignSchema = campaignAudienceSchema.extend({
+    templateText: z.string().optional(),
+    timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').optional(),
+    // Preview for this contact instead of a sample
+    contactId: uuidSchema.optional(),
+    limit: z.number().int().min(1).max(20).default(5),
+});
+
+// ============================================
+// TEMPLATE SCHEMAS
+// ============================================
+
+export const createTemplateSchema = z.object({
+    name: z.string().trim().min(2).max(255),
+    bodyText: templateTextSchema.default(''),
+    mediaId: uuidSchema.optional().nullable(),
+    tags: z.array(z.string().trim().min(1)).default([]),
+}).refine(template => template.bodyText.trim() !== '' || template.mediaId, 'Template needs a text or an image');
+
+// Changing the text or media saves a new version
+export const updateTemplateSchema = z.object({
+    name: z.string().trim().min(2).max(255).optional(),
+    bodyText: templateTextSchema.optional(),
+    mediaId: uuidSchema.optional().nullable(),
+    tags: z.array(z.string().trim().min(1)).optional(),
 });
 
 // ============================================
@@ -156,6 +442,40 @@ export const sendMessageSchema = z.object({
     mediaId: uuidSchema.optional(),
 });
 
+// ============================================
+// CONVERSATION SCHEMAS
+// ============================================
+
+export const replyMessageSchema = z.object({
+    bodyText: z.string().trim().min(1, 'Message is required').max(1600),
+});
+
+// ============================================
+// SELECTOR PROFILE SCHEMAS
+// ============================================
+
+const selectorListSchema = z.array(z.string().min(1)).min(1, 'Each chain needs at least one selector');
+
+export const selectorChainSchema = z.union([
+    selectorListSchema,
+    z.object({
+        default: z.array(z.string().min(1)),
+        locales: z.record(selectorListSchema).optional(),
+    }),
+]);
+
+export const selectorMapSchema = z.object(
+    Object.fromEntries(SELECTOR_KEYS.map(key => [key, selectorChainSchema.optional()])) as
+        Record<typeof SELECTOR_KEYS[number], z.ZodOptional<typeof selectorChainSchema>>
+).strict();
+
+export const createSelectorProfileSchema = z.object({
+    name: z.string().min(2).max(100),
+    selectors: selectorMapSchema,
+    notes: z.string().max(1000).optional(),
+    activate: z.boolean().default(false),
+});
+
 // ============================================
 // PAGINATION SCHEMAS
 // ============================================
@@ -165,10 +485,32 @@ export const paginationSchema = z.object({
     limit: z.coerce.number().min(1).max(100).default(20),
 });
 
-export const contactsQuerySchema = paginationSchema.extend({
+// Contact filters shared by the list and the export. In a query string,
+// tags may be repeated or comma-separated and optedOut is "true" or "false".
+export const contactFiltersSchema = z.object({
+    search: z.string().optional(),
+    tags: z.preprocess(
+        value => typeof value === 'string' ? value.split(',').map(tag => tag.trim()).filter(Boolean) : value,
+        z.array(z.string())
+    ).optional(),
+    optedOut: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export const contactsQuerySchema = paginationSchema.merge(contactFiltersSchema);
+
+export const contactsExportQuerySchema = contactFiltersSchema.extend({
+    format: z.enum(['csv', 'ndjson']).default('csv'),
+});
+
+export const contactImportsQuerySchema = paginationSchema;
+
+export const templatesQuerySchema = paginationSchema.extend({
+    search: z.string().optional(),
+    tag: z.string().optional(),
+});
+
+export const segmentsQuerySchema = paginationSchema.extend({
     search: z.string().optional(),
-    tags: z.array(z.string()).optional(),
-    optedOut: z.coerce.boolean().optional(),
 });
 
 export const campaignsQuerySchema = paginationSchema.extend({
@@ -179,10 +521,16 @@ export const campaignsQuerySchema = paginationSchema.extend({
 export const messagesQuerySchema = paginationSchema.extend({
     campaignId: uuidSchema.optional(),
     contactId: uuidSchema.optional(),
-    status: z.enum(['queued', 'sending', 'sent', 'delivered', 'failed', 'cancelled']).optional(),
+    sessionId: uuidSchema.optional(),
+    status: z.enum(['queued', 'sending', 'sent', 'delivered', 'read', 'failed', 'cancelled', 'skipped']).optional(),
     phoneE164: z.string().optional(),
 });
 
+export const conversationsQuerySchema = paginationSchema.extend({
+    search: z.string().optional(),
+    unread: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
 // ============================================
 // TYPE EXPORTS
 // ============================================
@@ -191,12 +539,24 @@ export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type CreateTenantInput = z.infer<typeof createTenantSchema>;
 export type UpdateTenantInput = z.infer<typeof updateTenantSchema>;
+export type OptOutSettingsInput = z.infer<typeof optOutSettingsSchema>;
+export type FrequencyCapSettingsInput = z.infer<typeof frequencyCapSettingsSchema>;
+export type PhoneSettingsInput = z.infer<typeof phoneSettingsSchema>;
+export type FakeDriverSettingsInput = z.infer<typeof fakeDriverSettingsSchema>;
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
-export type CreateContactInput = z.infer<typeof createContactSchema>;
-export type UpdateContactInput = z.infer<typeof updateContactSchema>;
+export type CreateSessionInput = z.infer<typeof createSessionSchema>;
+export type UpdateSessionInput = z.infer<typeof updateSessionSchema>;
+export type CreateContactInput = z.infer<ReturnType<typeof createContactSchema>>;
+export type UpdateContactInput = z.infer<ReturnType<typeof updateContactSchema>>;
 export type ImportContactsInput = z.infer<typeof importContactsSchema>;
+export type ContactImportMappingInput = z.infer<typeof contactImportMappingSchema>;
+export type BulkContactActionInput = z.infer<typeof bulkContactActionSchema>;
+export type SyncContactsInput = z.infer<typeof syncContactsSchema>;
 export type CreateCampaignInput = z.infer<typeof createCampaignSchema>;
 export type UpdateCampaignInput = z.infer<typeof updateCampaignSchema>;
+export type CampaignAudienceInput = z.infer<typeof campaignAudienceSchema>;
 export type SendMessageInput = z.infer<typeof sendMessageSchema>;
+export type ReplyMessageInput = z.infer<typeof replyMessageSchema>;
+export type CreateSelectorProfileInput = z.infer<typeof createSelectorProfileSchema>;
 export type PaginationInput = z.infer<typeof paginationSchema>;